@@ -6,25 +6,58 @@
  */
 "use client";
 
-import { useState, useMemo, useCallback } from 'react';
-import type { Equipment, Layer, Command, CameraState, Annotation, ColorMode } from '@/lib/types'; // ColorMode precisa ser importado
+import { useState, useMemo, useCallback, useRef } from 'react';
+import type { Equipment, Layer, Command, CameraState, Annotation, ColorMode, AuditLogEntry } from '@/lib/types'; // ColorMode precisa ser importado
 import { useCommandHistory } from '@/hooks/use-command-history';
 import { SidebarProvider, Sidebar, SidebarHeader, SidebarContent, SidebarTrigger } from '@/components/ui/sidebar';
 import { Button } from '@/components/ui/button';
-import { Undo2Icon, Redo2Icon, PanelLeft } from 'lucide-react';
+import { Undo2Icon, Redo2Icon, PanelLeft, LinkIcon } from 'lucide-react';
 
 // Hooks de gerenciamento de estado
 import { useAnnotationManager } from '@/hooks/use-annotation-manager';
 import { useEquipmentSelectionManager } from '@/hooks/use-equipment-selection-manager';
 import { useFilterManager } from '@/hooks/use-filter-manager';
 import { useEquipmentDataManager } from '@/hooks/use-equipment-data-manager';
-import { useCameraManager, defaultInitialCameraPosition, defaultInitialCameraLookAt } from '@/hooks/use-camera-manager';
+import { useCameraManager } from '@/hooks/use-camera-manager';
 import { useLayerManager } from '@/hooks/use-layer-manager';
+import { useAlarmManager } from '@/hooks/use-alarm-manager';
+import { useAuditLogManager } from '@/hooks/use-audit-log-manager';
+import { usePlaybackManager } from '@/hooks/use-playback-manager';
+import { useWorkspaceSnapshotManager } from '@/hooks/use-workspace-snapshot-manager';
+import { useViewLinkManager } from '@/hooks/use-view-link-manager';
+import { useSiteManager } from '@/hooks/use-site-manager';
+import { useTerrainManager } from '@/hooks/use-terrain-manager';
+import { useSitePlanManager } from '@/hooks/use-site-plan-manager';
+import type { Site } from '@/core/data/sites';
+import {
+  createFileEquipmentRepository,
+  createCsvFileEquipmentRepository,
+  createGeoreferencedEquipmentRepository,
+  type EquipmentRepository,
+} from '@/core/data/equipment-repository';
+import { equipmentToCsv, EXCEL_PT_BR_CSV_FORMAT, type CsvFormatOptions } from '@/core/logic/equipment-csv';
+import { auditLogToCsv, filterAuditLog } from '@/core/logic/audit-log';
+import { buildConnectivityGraph, getConnectedNeighbors } from '@/core/logic/connectivity-graph';
+import { traceFlowPath, type FlowDirection } from '@/core/logic/flow-tracing';
+import { planIsolation } from '@/core/logic/isolation-planner';
+import { getFlowingPipes } from '@/core/logic/flow-simulation';
+import { createSimulationClock } from '@/core/logic/simulation-clock';
+import type { WorkspaceState } from '@/core/logic/workspace-snapshot';
+import type { ViewLinkState } from '@/core/logic/view-link';
+import { getAttributeFilterValues, type AttributeFilter } from '@/core/logic/equipment-attributes';
+import { snapEquipmentToTerrain } from '@/core/logic/terrain-elevation';
+import { downloadTextFile } from '@/lib/utils';
 
 // Componentes de Layout
 import { MainSceneArea } from '@/components/main-scene-area';
 import { SidebarContentLayout } from '@/components/sidebar-content-layout';
 import { AnnotationDialog } from '@/components/annotation-dialog';
+import { ImportValidationDialog } from '@/components/import-validation-dialog';
+import { IsolationPlanPanel } from '@/components/isolation-plan-panel';
+import { AuditLogDialog } from '@/components/audit-log-dialog';
+import { AlarmRulesDialog } from '@/components/alarm-rules-dialog';
+import { PlaybackTimeline } from '@/components/playback-timeline';
+import { SiteSwitcher } from '@/components/site-switcher';
 // ThreeScene é importado por MainSceneArea
 
 /**
@@ -32,14 +65,22 @@ import { AnnotationDialog } from '@/components/annotation-dialog';
  *
  * Orquestra os diversos hooks de gerenciamento de estado da aplicação:
  * - `useCommandHistory`: Para funcionalidades de Undo/Redo.
- * - `useEquipmentDataManager`: Gerencia a "fonte da verdade" dos dados dos equipamentos e suas modificações diretas (estado operacional, produto).
+ * - `useEquipmentDataManager`: Gerencia a "fonte da verdade" dos dados dos equipamentos (carregados de um `EquipmentRepository`) e suas modificações diretas (estado operacional, produto).
  * - `useCameraManager`: Controla o estado da câmera 3D, incluindo presets e foco em sistemas.
  * - `useFilterManager`: Gerencia os estados e a lógica de filtragem dos equipamentos (busca por texto, sistema, área).
  * - `useAnnotationManager`: Lida com o estado e as operações CRUD para anotações dos equipamentos.
  * - `useEquipmentSelectionManager`: Gerencia a seleção de equipamentos (single, multi) e o estado de hover.
  * - `useLayerManager`: Controla o estado de visibilidade das diferentes camadas de objetos na cena.
+ * - `useAlarmManager`: Avalia as regras de alarme sobre os equipamentos e gerencia o reconhecimento dos alarmes.
+ * - `useAuditLogManager`: Registra no histórico (auditoria) as alterações de estado operacional e produto.
+ * - `usePlaybackManager`: Reconstrói os equipamentos em um instante passado a partir do histórico (revisão histórica).
+ * - `useWorkspaceSnapshotManager`: Salva, exporta, importa e restaura snapshots do espaço de trabalho.
+ * - `useViewLinkManager`: Mantém a vista atual na URL (deep link) e a restaura ao carregar a página.
+ * - `useSiteManager`: Mantém o terminal (site) aberto; a troca recarrega equipamentos, camadas e câmera.
+ * - `useTerrainManager`: Carrega o relevo do terreno (mapa de altura ou grade de elevações) e assenta os equipamentos sobre ele.
+ * - `useSitePlanManager`: Carrega, posiciona (pontos de controle) e grava a planta 2D do terminal desenhada sobre o chão.
  *
- * Também gerencia estados locais como `colorMode` para a colorização da cena.
+ * Também gerencia estados locais como `colorMode` para a colorização da cena e o relógio da simulação.
  *
  * Responsável por:
  * - Renderizar a estrutura principal da UI, incluindo a `Sidebar` e a `MainSceneArea`.
@@ -53,20 +94,69 @@ export default function Terminal3DPage(): JSX.Element {
   // console.log("[Page] Terminal3DPage rendering");
 
   // Hooks de gerenciamento de estado
-  const { executeCommand, undo, redo, canUndo, canRedo } = useCommandHistory();
+  const { executeCommand, undo, redo, canUndo, canRedo, clearHistory } = useCommandHistory();
+
+  // `handleSiteChange` depende de hooks que recebem o terminal aberto; o gerenciador de terminais chama a versão
+  // mais recente pelo ref, atribuído logo após sua definição.
+  const siteChangeHandlerRef = useRef<(site: Site) => void>(() => {});
+  const handleSiteManagerChange = useCallback((site: Site) => siteChangeHandlerRef.current(site), []);
+  const { sites, activeSite, switchSite } = useSiteManager({ onSiteChange: handleSiteManagerChange });
+
+  const {
+    auditEntries,
+    isAuditLogPersisted,
+    hasMoreEntries: hasMoreAuditEntries,
+    loadMoreEntries: loadMoreAuditEntries,
+    userName,
+    setUserName,
+    recordChange,
+  } = useAuditLogManager({ siteId: activeSite.id });
 
   const {
     equipmentData,
+    isLoading: isEquipmentLoading,
+    loadError: equipmentLoadError,
+    dataSourceLabel,
+    isStatePersisted,
+    loadFromRepository,
+    reloadEquipment,
+    pendingImport,
+    confirmPendingImport,
+    discardPendingImport,
     handleOperationalStateChange,
     handleProductChange,
-  } = useEquipmentDataManager();
+    handleAttributeChange,
+  } = useEquipmentDataManager({ siteId: activeSite.id, onStateChange: recordChange });
+
+  const {
+    isPlaybackActive,
+    canStartPlayback,
+    playbackRange,
+    markers: playbackMarkers,
+    playbackTime,
+    playbackEquipment,
+    isPlaying: isPlaybackPlaying,
+    playbackSpeed,
+    startPlayback,
+    stopPlayback,
+    seek: seekPlayback,
+    togglePlaying: togglePlaybackPlaying,
+    setPlaybackSpeed,
+  } = usePlaybackManager({ equipmentData, auditEntries });
+
+  // Equipamentos exibidos na cena: os reconstruídos durante a revisão histórica, ou os atuais.
+  const sceneEquipmentData = playbackEquipment ?? equipmentData;
 
   const {
     currentCameraState,
     targetSystemToFrame,
     handleSetCameraViewForSystem, // Renomeado no hook
     handleCameraChangeFromScene,
+    restoreCameraState,
     onSystemFramed,
+    targetTagsToFrame,
+    handleFrameEquipment,
+    onEquipmentFramed,
   } = useCameraManager({ executeCommand });
 
   const {
@@ -78,11 +168,16 @@ export default function Terminal3DPage(): JSX.Element {
     setSelectedArea,
     availableSistemas,
     availableAreas,
+    attributeFilter,
+    setAttributeFilter,
+    availableAttributes,
+    availableAttributeValues,
     filteredEquipment,
-  } = useFilterManager({ allEquipment: equipmentData });
+  } = useFilterManager({ allEquipment: sceneEquipmentData });
 
   const {
     annotations,
+    setAnnotations,
     isAnnotationDialogOpen,
     annotationTargetEquipment,
     editingAnnotation,
@@ -99,11 +194,28 @@ export default function Terminal3DPage(): JSX.Element {
     handleEquipmentClick, // Renomeado no hook
     handleSetHoveredEquipmentTag, // Renomeado no hook
     selectTagsBatch, // Renomeado no hook
+    restoreSelection,
   } = useEquipmentSelectionManager({ equipmentData, executeCommand });
 
-  const { layers, handleToggleLayer } = useLayerManager({ executeCommand });
+  const { layers, handleToggleLayer, restoreLayerVisibility, replaceLayers } = useLayerManager({ executeCommand });
+
+  const {
+    alarms,
+    unacknowledgedAlarmTags,
+    acknowledgeAlarm,
+    acknowledgeAllAlarms,
+    rules: alarmRules,
+    hasCustomRules: hasCustomAlarmRules,
+    updateRules: updateAlarmRules,
+    resetRules: resetAlarmRules,
+  } = useAlarmManager({ siteId: activeSite.id, equipmentData });
 
   const [colorMode, setColorMode] = useState<ColorMode>('Estado Operacional');
+  const [isolationTargetTag, setIsolationTargetTag] = useState<string | null>(null);
+  const [isAuditLogOpen, setIsAuditLogOpen] = useState(false);
+  const [isAlarmRulesOpen, setIsAlarmRulesOpen] = useState(false);
+  // Relógio da simulação: uma instância por página; a página não observa o estado dele (apenas a barra de controle).
+  const [simulationClock] = useState(() => createSimulationClock());
 
   /**
    * Lista de sistemas únicos disponíveis para o painel de controle da câmera ("Focus on System").
@@ -127,6 +239,209 @@ export default function Terminal3DPage(): JSX.Element {
   }, [equipmentData, handleSetCameraViewForSystem, selectTagsBatch]);
 
 
+  /**
+   * Exporta para CSV os registros do histórico filtrados no diálogo, no formato do Excel em português.
+   * @param {AuditLogEntry[]} entries - Os registros a exportar.
+   */
+  const handleExportAuditLogCsv = useCallback((entries: AuditLogEntry[]) => {
+    const csv = auditLogToCsv(entries, EXCEL_PT_BR_CSV_FORMAT);
+    downloadTextFile(`\uFEFF${csv}`, 'historico-alteracoes.csv', 'text/csv;charset=utf-8');
+  }, []);
+
+  /**
+   * Abre outro terminal: os meshes atuais saem da cena, os equipamentos do novo terminal são carregados
+   * e as camadas, a câmera, os filtros e a seleção voltam aos padrões dele. O histórico de Undo/Redo é
+   * descartado, pois seus comandos se referem ao terminal anterior. Os estados persistidos, o histórico de
+   * alterações e os alarmes seguem o terminal aberto (`activeSite.id`).
+   * @param {Site} site - O terminal aberto.
+   */
+  const handleSiteChange = useCallback((site: Site) => {
+    stopPlayback();
+    setIsolationTargetTag(null);
+    loadFromRepository(site.createEquipmentRepository(), { clearCurrent: true });
+    replaceLayers(site.layers);
+    restoreCameraState(site.defaultCamera);
+    restoreSelection([]);
+    setSearchTerm('');
+    setSelectedSistema('All');
+    setSelectedArea('All');
+    setAttributeFilter(null);
+    clearHistory();
+  }, [
+    stopPlayback,
+    loadFromRepository,
+    replaceLayers,
+    restoreCameraState,
+    restoreSelection,
+    setSearchTerm,
+    setSelectedSistema,
+    setSelectedArea,
+    setAttributeFilter,
+    clearHistory,
+  ]);
+  siteChangeHandlerRef.current = handleSiteChange;
+
+  const {
+    terrain,
+    terrainLabel,
+    terrainSettings,
+    isTerrainLoading,
+    terrainError,
+    snapEquipment: isEquipmentSnappedToTerrain,
+    setSnapEquipment: setIsEquipmentSnappedToTerrain,
+    loadTerrainFile,
+    updateTerrainSettings,
+    clearTerrain,
+  } = useTerrainManager({ site: activeSite });
+
+  const {
+    sitePlan,
+    sitePlanImageName,
+    sitePlanImageSize,
+    sitePlanControlPoints,
+    sitePlanOpacity,
+    sitePlanFitError,
+    isSitePlanLoading,
+    isSitePlanPersisted,
+    uploadSitePlanImage,
+    updateSitePlanControlPoints,
+    updateSitePlanOpacity,
+    clearSitePlan,
+    copySitePlanConfig,
+  } = useSitePlanManager({ site: activeSite });
+
+  /**
+   * Equipamentos exibidos na cena: os filtrados, assentados sobre o terreno quando a opção está ligada.
+   * O assentamento vale só para a exibição; edições e exportações usam as posições originais.
+   */
+  const sceneEquipment = useMemo(
+    () => (terrain && isEquipmentSnappedToTerrain ? snapEquipmentToTerrain(filteredEquipment, terrain) : filteredEquipment),
+    [filteredEquipment, terrain, isEquipmentSnappedToTerrain]
+  );
+
+  /**
+   * Aplica o georreferenciamento do terminal aberto a uma fonte enviada pelo usuário, para que equipamentos
+   * posicionados em latitude/longitude ou UTM sejam convertidos para a cena.
+   * @param {EquipmentRepository} repository - A fonte enviada.
+   * @returns {EquipmentRepository} A fonte a ser carregada.
+   */
+  const georeferenceUpload = useCallback((repository: EquipmentRepository): EquipmentRepository => (
+    activeSite.georeference ? createGeoreferencedEquipmentRepository(repository, activeSite.georeference) : repository
+  ), [activeSite]);
+
+  /**
+   * Carrega os equipamentos a partir de um arquivo JSON enviado pelo usuário.
+   * @param {File} file - O arquivo escolhido no painel de fonte de dados.
+   */
+  const handleUploadEquipmentFile = useCallback((file: File) => {
+    loadFromRepository(georeferenceUpload(createFileEquipmentRepository(file)));
+  }, [loadFromRepository, georeferenceUpload]);
+
+  /**
+   * Importa os equipamentos de um arquivo CSV enviado pelo usuário.
+   * @param {File} file - O arquivo CSV.
+   * @param {CsvFormatOptions} format - O delimitador e o separador decimal do arquivo.
+   */
+  const handleUploadEquipmentCsv = useCallback((file: File, format: CsvFormatOptions) => {
+    loadFromRepository(georeferenceUpload(createCsvFileEquipmentRepository(file, format)));
+  }, [loadFromRepository, georeferenceUpload]);
+
+  /**
+   * Exporta para CSV os equipamentos atualmente filtrados (o que está na tela).
+   * O BOM UTF-8 é incluído para que o Excel reconheça a acentuação corretamente.
+   * @param {CsvFormatOptions} format - O delimitador e o separador decimal desejados.
+   * @param {boolean} includeWorldCoordinates - Se as coordenadas do mundo (UTM e latitude/longitude) do terminal devem ser incluídas.
+   */
+  const handleExportEquipmentCsv = useCallback((format: CsvFormatOptions, includeWorldCoordinates: boolean) => {
+    const csv = equipmentToCsv(filteredEquipment, format, includeWorldCoordinates ? activeSite.georeference : undefined);
+    downloadTextFile(`\uFEFF${csv}`, 'equipamentos.csv', 'text/csv;charset=utf-8');
+  }, [filteredEquipment, activeSite]);
+
+  /** Vista atual do terminal aberto, base dos snapshots do espaço de trabalho e do link da vista. */
+  const currentViewState = useMemo((): Omit<WorkspaceState, 'annotations'> => ({
+    filters: { searchTerm, selectedSistema, selectedArea, attributeFilter },
+    colorMode,
+    layerVisibility: Object.fromEntries(layers.map(layer => [layer.id, layer.isVisible])),
+    camera: currentCameraState ?? activeSite.defaultCamera,
+    selectedEquipmentTags,
+  }), [searchTerm, selectedSistema, selectedArea, attributeFilter, colorMode, layers, currentCameraState, activeSite, selectedEquipmentTags]);
+
+  /** Vista sincronizada com a URL: a vista atual e o terminal em que ela foi feita. */
+  const viewLinkState = useMemo((): ViewLinkState => ({
+    ...currentViewState,
+    siteId: activeSite.id,
+  }), [currentViewState, activeSite]);
+
+  /**
+   * Captura o estado atual do espaço de trabalho para um snapshot.
+   * @returns {WorkspaceState} O estado atual.
+   */
+  const captureWorkspaceState = useCallback((): WorkspaceState => ({
+    ...currentViewState,
+    annotations,
+  }), [currentViewState, annotations]);
+
+  /**
+   * Aplica um estado salvo (já validado) de uma só vez: todas as atualizações ocorrem no mesmo manipulador
+   * e são renderizadas juntas. Filtros e TAGs que não existem nos dados atuais são descartados.
+   * As anotações só são substituídas quando o estado as inclui (snapshots; os links não as incluem).
+   * @param {WorkspaceState | ViewLinkState} state - O estado salvo.
+   */
+  const applyWorkspaceState = useCallback((state: WorkspaceState | ViewLinkState) => {
+    const knownTags = new Set(equipmentData.map(equip => equip.tag));
+    const savedAttributeFilter: AttributeFilter | null = state.filters.attributeFilter ?? null;
+    const isAttributeFilterKnown = savedAttributeFilter !== null
+      && availableAttributes.some(definition => definition.key === savedAttributeFilter.key)
+      && (savedAttributeFilter.value === null
+        || getAttributeFilterValues(equipmentData, savedAttributeFilter.key).includes(savedAttributeFilter.value));
+    setSearchTerm(state.filters.searchTerm);
+    setSelectedSistema(availableSistemas.includes(state.filters.selectedSistema) ? state.filters.selectedSistema : 'All');
+    setSelectedArea(availableAreas.includes(state.filters.selectedArea) ? state.filters.selectedArea : 'All');
+    setAttributeFilter(isAttributeFilterKnown ? savedAttributeFilter : null);
+    setColorMode(state.colorMode);
+    restoreLayerVisibility(state.layerVisibility);
+    restoreCameraState(state.camera);
+    restoreSelection(state.selectedEquipmentTags.filter(tag => knownTags.has(tag)));
+    if ('annotations' in state) setAnnotations(state.annotations);
+  }, [
+    equipmentData,
+    availableSistemas,
+    availableAreas,
+    availableAttributes,
+    setSearchTerm,
+    setSelectedSistema,
+    setSelectedArea,
+    setAttributeFilter,
+    restoreLayerVisibility,
+    restoreCameraState,
+    restoreSelection,
+    setAnnotations,
+  ]);
+
+  const {
+    savedSnapshots: workspaceSnapshots,
+    isWorkspacePersisted,
+    saveSnapshot: saveWorkspaceSnapshot,
+    restoreSnapshot: restoreWorkspaceSnapshot,
+    deleteSnapshot: deleteWorkspaceSnapshot,
+    exportSnapshot: exportWorkspaceSnapshot,
+    importSnapshotFile: importWorkspaceSnapshotFile,
+  } = useWorkspaceSnapshotManager({
+    siteId: activeSite.id,
+    captureState: captureWorkspaceState,
+    onRestore: applyWorkspaceState,
+  });
+
+  const layerIds = useMemo(() => layers.map(layer => layer.id), [layers]);
+
+  const { copyViewLink } = useViewLinkManager({
+    viewState: viewLinkState,
+    isReady: !isEquipmentLoading,
+    layerIds,
+    defaultCamera: activeSite.defaultCamera,
+    onRestore: applyWorkspaceState,
+  });
+
   /**
    * Deriva os detalhes do equipamento selecionado.
    * Mostra detalhes apenas se um único equipamento estiver selecionado.
@@ -134,10 +449,86 @@ export default function Terminal3DPage(): JSX.Element {
   const selectedEquipmentDetails = useMemo(() => {
     if (selectedEquipmentTags.length === 1) {
       const tag = selectedEquipmentTags[0];
-      return equipmentData.find(e => e.tag === tag) || null;
+      return sceneEquipmentData.find(e => e.tag === tag) || null;
     }
     return null;
-  }, [selectedEquipmentTags, equipmentData]);
+  }, [selectedEquipmentTags, sceneEquipmentData]);
+
+  /**
+   * Linha do tempo das alterações do equipamento selecionado, da mais recente para a mais antiga.
+   */
+  const selectedEquipmentHistory = useMemo(() => {
+    if (!selectedEquipmentDetails) return [];
+    return filterAuditLog(auditEntries, { equipmentTag: selectedEquipmentDetails.tag });
+  }, [selectedEquipmentDetails, auditEntries]);
+
+  /**
+   * Grafo de conectividade (tubulação) entre todos os equipamentos carregados.
+   */
+  const connectivityGraph = useMemo(() => buildConnectivityGraph(equipmentData), [equipmentData]);
+
+  /**
+   * Tubulações com produto escoando na simulação (operando e sem válvula fechada a montante).
+   * Calculadas sobre todos os equipamentos, para que filtros não escondam válvulas que bloqueiam o fluxo.
+   */
+  const flowingPipes = useMemo(() => getFlowingPipes(connectivityGraph, sceneEquipmentData), [connectivityGraph, sceneEquipmentData]);
+
+  /**
+   * Equipamentos conectados ao equipamento selecionado, para navegação no InfoPanel.
+   */
+  const connectedEquipment = useMemo(() => {
+    if (!selectedEquipmentDetails) return [];
+    return getConnectedNeighbors(connectivityGraph, selectedEquipmentDetails.tag).map(neighbor => ({
+      ...neighbor,
+      name: equipmentData.find(e => e.tag === neighbor.tag)?.name ?? neighbor.tag,
+    }));
+  }, [selectedEquipmentDetails, connectivityGraph, equipmentData]);
+
+  /**
+   * Seleciona um equipamento (e.g., um vizinho na tubulação) e enquadra a câmera nele.
+   * @param {string} equipmentTag - A TAG do equipamento.
+   */
+  const handleNavigateToEquipment = useCallback((equipmentTag: string) => {
+    const equip = equipmentData.find(e => e.tag === equipmentTag);
+    selectTagsBatch([equipmentTag], `Navegou para ${equip?.name || equipmentTag}.`);
+    handleFrameEquipment([equipmentTag]);
+  }, [equipmentData, selectTagsBatch, handleFrameEquipment]);
+
+  /**
+   * Rastreia o caminho do fluxo a partir de um equipamento, seleciona todos os equipamentos
+   * percorridos e enquadra a câmera neles. Válvulas fechadas interrompem o caminho.
+   * @param {string} equipmentTag - A TAG do equipamento de partida.
+   * @param {FlowDirection} direction - O sentido do rastreamento.
+   */
+  const handleTraceFlow = useCallback((equipmentTag: string, direction: FlowDirection) => {
+    const { tags, barrierTags } = traceFlowPath(connectivityGraph, sceneEquipmentData, equipmentTag, direction);
+    const directionLabel = direction === 'downstream' ? 'jusante' : 'montante';
+    const barrierNote = barrierTags.length > 0 ? ` Interrompido em válvula(s) fechada(s): ${barrierTags.join(', ')}.` : '';
+    selectTagsBatch(tags, `Fluxo a ${directionLabel} de ${equipmentTag}: ${tags.length} equipamento(s).${barrierNote}`);
+    handleFrameEquipment(tags);
+  }, [connectivityGraph, sceneEquipmentData, selectTagsBatch, handleFrameEquipment]);
+
+  /**
+   * Plano de isolamento do equipamento alvo, recalculado quando os dados mudam.
+   * Null se nenhum plano estiver aberto ou se o alvo não existir mais.
+   */
+  const isolationPlan = useMemo(() => {
+    if (!isolationTargetTag || !equipmentData.some(e => e.tag === isolationTargetTag)) return null;
+    return planIsolation(connectivityGraph, equipmentData, isolationTargetTag);
+  }, [isolationTargetTag, connectivityGraph, equipmentData]);
+
+  /** Válvulas do plano de isolamento atual, destacadas na cena (referência estável entre renderizações). */
+  const isolationValveTags = useMemo(() => isolationPlan?.valveTags ?? [], [isolationPlan]);
+
+  /**
+   * Abre o plano de isolamento de um equipamento e enquadra o alvo com as válvulas a fechar.
+   * @param {string} equipmentTag - A TAG do equipamento a ser isolado.
+   */
+  const handlePlanIsolation = useCallback((equipmentTag: string) => {
+    setIsolationTargetTag(equipmentTag);
+    const plan = planIsolation(connectivityGraph, equipmentData, equipmentTag);
+    handleFrameEquipment([equipmentTag, ...plan.valveTags]);
+  }, [connectivityGraph, equipmentData, handleFrameEquipment]);
 
   /**
    * Obtém a anotação para o equipamento atualmente selecionado (se houver um único selecionado).
@@ -149,24 +540,6 @@ export default function Terminal3DPage(): JSX.Element {
     return null;
   }, [selectedEquipmentDetails, getAnnotationForEquipment]);
 
-  /**
-   * Lista de estados operacionais únicos disponíveis, derivada dos dados dos equipamentos.
-   * Usada para popular o dropdown de alteração de estado no InfoPanel.
-   */
-  const availableOperationalStatesList = useMemo(() => {
-    const states = new Set<string>();
-    equipmentData.forEach(equip => {
-      if (equip.operationalState) states.add(equip.operationalState);
-    });
-    // Garante que "Não aplicável" fique no início se existir, depois ordena o resto.
-    const sortedStates = Array.from(states).sort((a, b) => {
-      if (a === "Não aplicável") return -1;
-      if (b === "Não aplicável") return 1;
-      return a.localeCompare(b);
-    });
-    return sortedStates;
-  }, [equipmentData]);
-
   /**
    * Lista de produtos únicos disponíveis, derivada dos dados dos equipamentos.
    * Usada para popular o dropdown de alteração de produto no InfoPanel.
@@ -190,7 +563,7 @@ export default function Terminal3DPage(): JSX.Element {
     <SidebarProvider defaultOpen={false}>
       <div className="h-screen w-full flex flex-col relative">
         <MainSceneArea
-          equipment={filteredEquipment}
+          equipment={sceneEquipment}
           layers={layers}
           annotations={annotations}
           selectedEquipmentTags={selectedEquipmentTags}
@@ -199,19 +572,61 @@ export default function Terminal3DPage(): JSX.Element {
           setHoveredEquipmentTag={handleSetHoveredEquipmentTag}
           cameraState={currentCameraState}
           onCameraChange={handleCameraChangeFromScene}
-          initialCameraPosition={defaultInitialCameraPosition}
-          initialCameraLookAt={defaultInitialCameraLookAt}
+          initialCameraPosition={activeSite.defaultCamera.position}
+          initialCameraLookAt={activeSite.defaultCamera.lookAt}
+          groundBounds={activeSite.bounds}
+          terrain={terrain}
+          sitePlan={sitePlan}
+          equipmentTypeModels={activeSite.equipmentTypeModels}
+          georeference={activeSite.georeference}
           colorMode={colorMode}
           targetSystemToFrame={targetSystemToFrame}
           onSystemFramed={onSystemFramed}
+          targetTagsToFrame={targetTagsToFrame}
+          onEquipmentFramed={onEquipmentFramed}
           selectedEquipmentDetails={selectedEquipmentDetails}
           equipmentAnnotation={equipmentAnnotation}
           onOpenAnnotationDialog={() => selectedEquipmentDetails && handleOpenAnnotationDialog(selectedEquipmentDetails)}
           onDeleteAnnotation={handleDeleteAnnotation}
           onOperationalStateChange={handleOperationalStateChange}
-          availableOperationalStatesList={availableOperationalStatesList}
           onProductChange={handleProductChange}
+          onAttributeChange={handleAttributeChange}
           availableProductsList={availableProductsList}
+          connectedEquipment={connectedEquipment}
+          onNavigateToEquipment={handleNavigateToEquipment}
+          onTraceFlow={handleTraceFlow}
+          onPlanIsolation={handlePlanIsolation}
+          equipmentHistory={selectedEquipmentHistory}
+          isReadOnly={isPlaybackActive}
+          isolationValveTags={isolationValveTags}
+          flowingPipes={flowingPipes}
+          alarmedEquipmentTags={unacknowledgedAlarmTags}
+          simulationClock={simulationClock}
+          isEquipmentLoading={isEquipmentLoading}
+          equipmentLoadError={equipmentLoadError}
+          onRetryEquipmentLoad={reloadEquipment}
+        />
+
+        <IsolationPlanPanel
+          plan={isolationPlan}
+          equipment={equipmentData}
+          onNavigateToEquipment={handleNavigateToEquipment}
+          onClose={() => setIsolationTargetTag(null)}
+        />
+
+        <PlaybackTimeline
+          isActive={isPlaybackActive}
+          canStart={canStartPlayback}
+          range={playbackRange}
+          markers={playbackMarkers}
+          time={playbackTime}
+          isPlaying={isPlaybackPlaying}
+          speed={playbackSpeed}
+          onStart={startPlayback}
+          onStop={stopPlayback}
+          onSeek={seekPlayback}
+          onTogglePlaying={togglePlaybackPlaying}
+          onSpeedChange={setPlaybackSpeed}
         />
 
         <div className="absolute top-4 left-4 z-30">
@@ -223,25 +638,31 @@ export default function Terminal3DPage(): JSX.Element {
 
       <Sidebar collapsible="offcanvas" className="border-r z-40">
         <div className="flex h-full flex-col bg-sidebar text-sidebar-foreground">
-          <SidebarHeader className="p-3 flex justify-between items-center border-b">
-            <div className="flex items-center space-x-1">
-              <Button variant="ghost" size="icon" onClick={undo} disabled={!canUndo} aria-label="Desfazer" className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground">
-                <Undo2Icon className="h-5 w-5" />
-              </Button>
-              <SidebarTrigger
-                asChild
-                variant="ghost"
-                size="default"
-                className="p-0 h-auto w-auto hover:bg-transparent dark:hover:bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0"
-              >
-                <span className="font-semibold text-lg cursor-pointer hover:underline">
-                  Terminal 3D
-                </span>
-              </SidebarTrigger>
-              <Button variant="ghost" size="icon" onClick={redo} disabled={!canRedo} aria-label="Refazer" className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground">
-                <Redo2Icon className="h-5 w-5" />
+          <SidebarHeader className="p-3 flex flex-col gap-2 border-b">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center space-x-1">
+                <Button variant="ghost" size="icon" onClick={undo} disabled={!canUndo} aria-label="Desfazer" className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground">
+                  <Undo2Icon className="h-5 w-5" />
+                </Button>
+                <SidebarTrigger
+                  asChild
+                  variant="ghost"
+                  size="default"
+                  className="p-0 h-auto w-auto hover:bg-transparent dark:hover:bg-transparent focus-visible:ring-0 focus-visible:ring-offset-0"
+                >
+                  <span className="font-semibold text-lg cursor-pointer hover:underline">
+                    Terminal 3D
+                  </span>
+                </SidebarTrigger>
+                <Button variant="ghost" size="icon" onClick={redo} disabled={!canRedo} aria-label="Refazer" className="data-[state=open]:bg-sidebar-accent data-[state=open]:text-sidebar-accent-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground">
+                  <Redo2Icon className="h-5 w-5" />
+                </Button>
+              </div>
+              <Button variant="ghost" size="icon" onClick={copyViewLink} aria-label="Copiar link da vista" title="Copiar link" className="hover:bg-sidebar-accent hover:text-sidebar-accent-foreground">
+                <LinkIcon className="h-5 w-5" />
               </Button>
             </div>
+            <SiteSwitcher sites={sites} activeSiteId={activeSite.id} onSiteChange={switchSite} />
           </SidebarHeader>
           <SidebarContentLayout
             searchTerm={searchTerm}
@@ -252,12 +673,61 @@ export default function Terminal3DPage(): JSX.Element {
             selectedArea={selectedArea}
             setSelectedArea={setSelectedArea}
             availableAreas={availableAreas}
+            attributeFilter={attributeFilter}
+            setAttributeFilter={setAttributeFilter}
+            availableAttributes={availableAttributes}
+            availableAttributeValues={availableAttributeValues}
             colorMode={colorMode}
             onColorModeChange={setColorMode}
             layers={layers}
             onToggleLayer={handleToggleLayer}
+            terrain={terrain}
+            terrainLabel={terrainLabel}
+            terrainSettings={terrainSettings}
+            isTerrainLoading={isTerrainLoading}
+            terrainError={terrainError}
+            snapEquipmentToTerrain={isEquipmentSnappedToTerrain}
+            onSnapEquipmentToTerrainChange={setIsEquipmentSnappedToTerrain}
+            onUploadTerrainFile={loadTerrainFile}
+            onApplyTerrainSettings={updateTerrainSettings}
+            onClearTerrain={clearTerrain}
+            sitePlanImageName={sitePlanImageName}
+            sitePlanImageSize={sitePlanImageSize}
+            sitePlanControlPoints={sitePlanControlPoints}
+            sitePlanOpacity={sitePlanOpacity}
+            sitePlanFitError={sitePlanFitError}
+            isSitePlanLoading={isSitePlanLoading}
+            isSitePlanPersisted={isSitePlanPersisted}
+            onUploadSitePlanImage={uploadSitePlanImage}
+            onApplySitePlanControlPoints={updateSitePlanControlPoints}
+            onSitePlanOpacityChange={updateSitePlanOpacity}
+            onClearSitePlan={clearSitePlan}
+            onCopySitePlanConfig={copySitePlanConfig}
             cameraViewSystems={cameraViewSystems}
             onFocusAndSelectSystem={handleFocusAndSelectSystem}
+            dataSourceLabel={dataSourceLabel}
+            isStatePersisted={isStatePersisted}
+            isEquipmentLoading={isEquipmentLoading}
+            onUploadEquipmentFile={handleUploadEquipmentFile}
+            onReloadEquipment={reloadEquipment}
+            onUploadEquipmentCsv={handleUploadEquipmentCsv}
+            exportableEquipmentCount={filteredEquipment.length}
+            onExportEquipmentCsv={handleExportEquipmentCsv}
+            canExportWorldCoordinates={Boolean(activeSite.georeference)}
+            alarms={alarms}
+            onAcknowledgeAlarm={acknowledgeAlarm}
+            onAcknowledgeAllAlarms={acknowledgeAllAlarms}
+            onNavigateToEquipment={handleNavigateToEquipment}
+            onOpenAlarmRules={() => setIsAlarmRulesOpen(true)}
+            auditEntryCount={auditEntries.length}
+            onOpenAuditLog={() => setIsAuditLogOpen(true)}
+            workspaceSnapshots={workspaceSnapshots}
+            isWorkspacePersisted={isWorkspacePersisted}
+            onSaveWorkspace={saveWorkspaceSnapshot}
+            onExportWorkspace={exportWorkspaceSnapshot}
+            onImportWorkspaceFile={importWorkspaceSnapshotFile}
+            onRestoreWorkspace={restoreWorkspaceSnapshot}
+            onDeleteWorkspace={deleteWorkspaceSnapshot}
           />
         </div>
       </Sidebar>
@@ -269,6 +739,36 @@ export default function Terminal3DPage(): JSX.Element {
         currentAnnotation={editingAnnotation}
         equipmentName={annotationTargetEquipment?.name || ''}
       />
+
+      <AuditLogDialog
+        isOpen={isAuditLogOpen}
+        onOpenChange={setIsAuditLogOpen}
+        entries={auditEntries}
+        isPersisted={isAuditLogPersisted}
+        hasMoreEntries={hasMoreAuditEntries}
+        onLoadMore={loadMoreAuditEntries}
+        availableSistemas={availableSistemas}
+        availableAreas={availableAreas}
+        userName={userName}
+        onUserNameChange={setUserName}
+        onExportCsv={handleExportAuditLogCsv}
+        onNavigateToEquipment={handleNavigateToEquipment}
+      />
+
+      <AlarmRulesDialog
+        isOpen={isAlarmRulesOpen}
+        onOpenChange={setIsAlarmRulesOpen}
+        rules={alarmRules}
+        hasCustomRules={hasCustomAlarmRules}
+        onSave={updateAlarmRules}
+        onReset={resetAlarmRules}
+      />
+
+      <ImportValidationDialog
+        pendingImport={pendingImport}
+        onConfirm={confirmPendingImport}
+        onCancel={discardPendingImport}
+      />
     </SidebarProvider>
   );
 }
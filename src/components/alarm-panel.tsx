@@ -0,0 +1,121 @@
+/**
+ * @fileOverview Painel da sidebar com a lista de alarmes dos equipamentos.
+ * Exibe severidade, mensagem, horário e situação de cada alarme, com ações para reconhecer
+ * um alarme ou todos, para navegar até o equipamento em alarme e para editar as regras de alarme.
+ */
+"use client";
+
+import type { Alarm, AlarmSeverity, AlarmStatus } from '@/core/logic/alarm-engine';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { BellRingIcon, BellIcon, CheckIcon, CheckCheckIcon, SlidersHorizontalIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+/**
+ * Props para o componente AlarmPanel.
+ * @interface AlarmPanelProps
+ * @property {Alarm[]} alarms - A lista de alarmes.
+ * @property {(alarmId: string) => void} onAcknowledge - Callback para reconhecer um alarme.
+ * @property {() => void} onAcknowledgeAll - Callback para reconhecer todos os alarmes.
+ * @property {(equipmentTag: string) => void} onNavigateToEquipment - Callback para selecionar e enquadrar o equipamento em alarme.
+ * @property {() => void} onEditRules - Callback para abrir o editor das regras de alarme.
+ */
+interface AlarmPanelProps {
+  alarms: Alarm[];
+  onAcknowledge: (alarmId: string) => void;
+  onAcknowledgeAll: () => void;
+  onNavigateToEquipment: (equipmentTag: string) => void;
+  onEditRules: () => void;
+}
+
+/** Variante do Badge para cada severidade. */
+const SEVERITY_BADGE_VARIANT: Record<AlarmSeverity, 'destructive' | 'default' | 'secondary'> = {
+  alta: 'destructive',
+  média: 'default',
+  baixa: 'secondary',
+};
+
+/** Rótulo exibido para cada situação de alarme. */
+const STATUS_LABEL: Record<AlarmStatus, string> = {
+  active: 'Ativo',
+  acknowledged: 'Reconhecido',
+  cleared: 'Normalizado',
+};
+
+/**
+ * Renderiza o painel de alarmes. Alarmes ativos não reconhecidos aparecem primeiro.
+ * @param {AlarmPanelProps} props As props do componente.
+ * @returns {JSX.Element} O componente AlarmPanel.
+ */
+export function AlarmPanel({ alarms, onAcknowledge, onAcknowledgeAll, onNavigateToEquipment, onEditRules }: AlarmPanelProps): JSX.Element {
+  const statusOrder: AlarmStatus[] = ['active', 'cleared', 'acknowledged'];
+  const sortedAlarms = [...alarms].sort((a, b) =>
+    statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) || b.raisedAt.localeCompare(a.raisedAt)
+  );
+  const pendingCount = alarms.filter(alarm => alarm.status !== 'acknowledged').length;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center text-lg">
+          {pendingCount > 0
+            ? <BellRingIcon className="mr-2 h-5 w-5 text-destructive" />
+            : <BellIcon className="mr-2 h-5 w-5" />}
+          Alarmes
+          {pendingCount > 0 && <Badge variant="destructive" className="ml-2">{pendingCount}</Badge>}
+        </CardTitle>
+        <div className="flex items-center gap-1">
+          {pendingCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={onAcknowledgeAll}>
+              <CheckCheckIcon className="mr-1 h-3.5 w-3.5" />
+              Reconhecer todos
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onEditRules} aria-label="Editar regras de alarme" title="Regras de alarme">
+            <SlidersHorizontalIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {sortedAlarms.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center">Nenhum alarme.</p>
+        )}
+        {sortedAlarms.map(alarm => (
+          <div
+            key={alarm.id}
+            className={`flex items-start justify-between gap-2 rounded-md border p-2 text-xs ${alarm.status === 'active' ? 'border-destructive/60' : 'opacity-70'}`}
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-1">
+                <Badge variant={SEVERITY_BADGE_VARIANT[alarm.severity]} className="text-[10px]">{alarm.severity}</Badge>
+                <span className="text-muted-foreground">{STATUS_LABEL[alarm.status]}</span>
+                <span className="text-muted-foreground">· {format(parseISO(alarm.raisedAt), 'HH:mm:ss')}</span>
+              </div>
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0 text-xs text-left whitespace-normal"
+                onClick={() => onNavigateToEquipment(alarm.equipmentTag)}
+              >
+                {alarm.message}
+              </Button>
+            </div>
+            {alarm.status !== 'acknowledged' && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => onAcknowledge(alarm.id)}
+                aria-label={`Reconhecer alarme: ${alarm.message}`}
+                title="Reconhecer"
+              >
+                <CheckIcon className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,291 @@
+/**
+ * @fileoverview Componente de diálogo para editar as regras de alarme.
+ * Cada regra tem descrição, severidade, tipo de equipamento e condição: estado operacional igual a um valor,
+ * ou atributo numérico acima/abaixo de um limite com banda morta. As regras são validadas antes de salvar.
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { Equipment } from '@/lib/types';
+import {
+  parseAlarmRules,
+  NUMERIC_EQUIPMENT_FIELDS,
+  type AlarmRule,
+  type AlarmSeverity,
+  type NumericEquipmentField,
+} from '@/core/logic/alarm-engine';
+import { EQUIPMENT_TYPES } from '@/core/logic/equipment-validation';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontalIcon, PlusIcon, Trash2Icon, RotateCcwIcon } from 'lucide-react';
+
+/**
+ * Props para o componente AlarmRulesDialog.
+ * @interface AlarmRulesDialogProps
+ * @property {boolean} isOpen - Controla a visibilidade do diálogo.
+ * @property {(isOpen: boolean) => void} onOpenChange - Callback para alterar a visibilidade do diálogo.
+ * @property {AlarmRule[]} rules - As regras em uso.
+ * @property {boolean} hasCustomRules - Indica se as regras em uso foram editadas pelo operador.
+ * @property {(rules: AlarmRule[]) => void} onSave - Callback com as regras editadas e validadas.
+ * @property {() => void} onReset - Callback para voltar às regras padrão.
+ */
+interface AlarmRulesDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  rules: AlarmRule[];
+  hasCustomRules: boolean;
+  onSave: (rules: AlarmRule[]) => void;
+  onReset: () => void;
+}
+
+/** Valor do seletor de tipo de equipamento que aplica a regra a todos os tipos. */
+const ALL_TYPES = 'All';
+
+/** Rótulo exibido para cada condição de regra. */
+const KIND_LABEL: Record<AlarmRule['kind'], string> = {
+  stateEquals: 'Estado igual a',
+  above: 'Acima de',
+  below: 'Abaixo de',
+};
+
+/** Rótulo exibido para cada atributo numérico. */
+const FIELD_LABEL: Record<(typeof NUMERIC_EQUIPMENT_FIELDS)[number], string> = {
+  level: 'Nível (%)',
+  radius: 'Raio',
+  height: 'Altura',
+  bendRadius: 'Raio de curvatura',
+};
+
+const SEVERITIES: AlarmSeverity[] = ['alta', 'média', 'baixa'];
+
+/**
+ * Troca a condição de uma regra, preenchendo os campos da nova condição quando ela muda de tipo.
+ * @param {AlarmRule} rule A regra.
+ * @param {AlarmRule['kind']} kind A nova condição.
+ * @returns {AlarmRule} A regra com a nova condição.
+ */
+function withKind(rule: AlarmRule, kind: AlarmRule['kind']): AlarmRule {
+  const { id, description, severity, equipmentType, tags } = rule;
+  const base = { id, description, severity, equipmentType, tags };
+  if (kind === 'stateEquals') {
+    return { ...base, kind, state: rule.kind === 'stateEquals' ? rule.state : 'em falha' };
+  }
+  return rule.kind === 'stateEquals'
+    ? { ...base, kind, field: 'level', threshold: kind === 'above' ? 90 : 10, deadband: 2 }
+    : { ...rule, kind };
+}
+
+/**
+ * Cria uma regra nova, com um id único entre as regras existentes.
+ * @param {AlarmRule[]} rules As regras existentes.
+ * @returns {AlarmRule} A nova regra (nível alto de tanques).
+ */
+function createRule(rules: AlarmRule[]): AlarmRule {
+  let index = rules.length + 1;
+  while (rules.some(rule => rule.id === `rule-${index}`)) index++;
+  return { id: `rule-${index}`, description: 'Nova regra', severity: 'média', kind: 'above', equipmentType: 'Tank', field: 'level', threshold: 90, deadband: 2 };
+}
+
+/**
+ * Renderiza o editor das regras de alarme.
+ * @param {AlarmRulesDialogProps} props As props do componente.
+ * @returns {JSX.Element} O componente AlarmRulesDialog.
+ */
+export function AlarmRulesDialog({ isOpen, onOpenChange, rules, hasCustomRules, onSave, onReset }: AlarmRulesDialogProps): JSX.Element {
+  const [draftRules, setDraftRules] = useState<AlarmRule[]>(rules);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Cada abertura parte das regras em uso.
+  useEffect(() => {
+    if (isOpen) {
+      setDraftRules(rules);
+      setValidationError(null);
+    }
+  }, [isOpen, rules]);
+
+  const updateDraft = (index: number, rule: AlarmRule) => {
+    setDraftRules(prev => prev.map((current, i) => (i === index ? rule : current)));
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(parseAlarmRules(draftRules));
+      onOpenChange(false);
+    } catch (error) {
+      setValidationError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleReset = () => {
+    onReset();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <SlidersHorizontalIcon className="mr-2 h-5 w-5" />
+            Regras de Alarme
+          </DialogTitle>
+          <DialogDescription>
+            As regras editadas são gravadas neste navegador. O nível dos tanques é sempre comparado em porcentagem.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[55vh] space-y-2 overflow-y-auto">
+          {draftRules.length === 0 && (
+            <p className="py-6 text-sm text-muted-foreground text-center">Nenhuma regra: nenhum alarme será gerado.</p>
+          )}
+          {draftRules.map((rule, index) => (
+            <div key={index} className="grid grid-cols-2 sm:grid-cols-6 items-end gap-2 rounded-md border p-2">
+              <div className="col-span-2 space-y-1">
+                <Label htmlFor={`rule-description-${index}`} className="text-xs font-normal text-muted-foreground">Descrição</Label>
+                <Input
+                  id={`rule-description-${index}`}
+                  value={rule.description}
+                  onChange={(e) => updateDraft(index, { ...rule, description: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`rule-severity-${index}`} className="text-xs font-normal text-muted-foreground">Severidade</Label>
+                <Select value={rule.severity} onValueChange={(value) => updateDraft(index, { ...rule, severity: value as AlarmSeverity })}>
+                  <SelectTrigger id={`rule-severity-${index}`} className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SEVERITIES.map(severity => (
+                      <SelectItem key={severity} value={severity} className="text-xs">{severity}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`rule-type-${index}`} className="text-xs font-normal text-muted-foreground">Equipamento</Label>
+                <Select
+                  value={rule.equipmentType ?? ALL_TYPES}
+                  onValueChange={(value) => updateDraft(index, {
+                    ...rule,
+                    equipmentType: value === ALL_TYPES ? undefined : value as Equipment['type'],
+                  })}
+                >
+                  <SelectTrigger id={`rule-type-${index}`} className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TYPES} className="text-xs">Todos os tipos</SelectItem>
+                    {EQUIPMENT_TYPES.map(type => (
+                      <SelectItem key={type} value={type} className="text-xs">{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`rule-kind-${index}`} className="text-xs font-normal text-muted-foreground">Condição</Label>
+                <Select value={rule.kind} onValueChange={(value) => updateDraft(index, withKind(rule, value as AlarmRule['kind']))}>
+                  <SelectTrigger id={`rule-kind-${index}`} className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(KIND_LABEL) as AlarmRule['kind'][]).map(kind => (
+                      <SelectItem key={kind} value={kind} className="text-xs">{KIND_LABEL[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setDraftRules(prev => prev.filter((_, i) => i !== index))}
+                  aria-label={`Remover regra: ${rule.description}`}
+                  title="Remover"
+                >
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {rule.kind === 'stateEquals' ? (
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor={`rule-state-${index}`} className="text-xs font-normal text-muted-foreground">Estado operacional</Label>
+                  <Input
+                    id={`rule-state-${index}`}
+                    value={rule.state}
+                    onChange={(e) => updateDraft(index, { ...rule, state: e.target.value })}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              ) : (
+                <>
+                  <div className="col-span-2 space-y-1">
+                    <Label htmlFor={`rule-field-${index}`} className="text-xs font-normal text-muted-foreground">Atributo</Label>
+                    <Select value={rule.field} onValueChange={(value) => updateDraft(index, { ...rule, field: value as NumericEquipmentField })}>
+                      <SelectTrigger id={`rule-field-${index}`} className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {NUMERIC_EQUIPMENT_FIELDS.map(field => (
+                          <SelectItem key={field} value={field} className="text-xs">{FIELD_LABEL[field]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`rule-threshold-${index}`} className="text-xs font-normal text-muted-foreground">Limite</Label>
+                    <Input
+                      id={`rule-threshold-${index}`}
+                      type="number"
+                      value={Number.isNaN(rule.threshold) ? '' : rule.threshold}
+                      onChange={(e) => updateDraft(index, { ...rule, threshold: e.target.valueAsNumber })}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`rule-deadband-${index}`} className="text-xs font-normal text-muted-foreground">Banda morta</Label>
+                    <Input
+                      id={`rule-deadband-${index}`}
+                      type="number"
+                      min={0}
+                      value={Number.isNaN(rule.deadband) ? '' : rule.deadband}
+                      onChange={(e) => updateDraft(index, { ...rule, deadband: e.target.valueAsNumber })}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {validationError && <p className="text-xs text-destructive">{validationError}</p>}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => setDraftRules(prev => [...prev, createRule(prev)])}>
+              <PlusIcon className="mr-2 h-4 w-4" /> Adicionar regra
+            </Button>
+            <Button type="button" variant="ghost" onClick={handleReset} disabled={!hasCustomRules}>
+              <RotateCcwIcon className="mr-2 h-4 w-4" /> Restaurar padrão
+            </Button>
+          </div>
+          <Button type="button" onClick={handleSave}>
+            Salvar regras
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Componente de diálogo com o histórico global de alterações dos equipamentos.
+ * Permite filtrar os registros por sistema, área e intervalo de datas, informar o nome do operador
+ * gravado nos novos registros e exportar os registros filtrados em CSV. Os registros são carregados do mais
+ * recente para o mais antigo, uma página por vez; os filtros e a exportação valem para as páginas carregadas.
+ */
+"use client";
+
+import { useMemo, useState } from 'react';
+import type { AuditLogEntry } from '@/lib/types';
+import { AUDIT_FIELD_LABELS, filterAuditLog } from '@/core/logic/audit-log';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HistoryIcon, DownloadIcon, CloudIcon, CloudOffIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+/**
+ * Props para o componente AuditLogDialog.
+ * @interface AuditLogDialogProps
+ * @property {boolean} isOpen - Controla a visibilidade do diálogo.
+ * @property {(isOpen: boolean) => void} onOpenChange - Callback para alterar a visibilidade do diálogo.
+ * @property {AuditLogEntry[]} entries - Os registros carregados do histórico.
+ * @property {boolean} isPersisted - Indica se o histórico é persistido e compartilhado entre sessões.
+ * @property {boolean} hasMoreEntries - Indica se pode haver registros mais antigos que os carregados.
+ * @property {() => void} onLoadMore - Callback para carregar mais uma página de registros antigos.
+ * @property {string[]} availableSistemas - Sistemas disponíveis para filtro (inclui 'All').
+ * @property {string[]} availableAreas - Áreas disponíveis para filtro (inclui 'All').
+ * @property {string} userName - O nome declarado pelo operador, gravado nos novos registros.
+ * @property {(name: string) => void} onUserNameChange - Callback para alterar o nome do operador.
+ * @property {(entries: AuditLogEntry[]) => void} onExportCsv - Callback para exportar os registros filtrados em CSV.
+ * @property {(equipmentTag: string) => void} onNavigateToEquipment - Callback para selecionar e enquadrar o equipamento de um registro.
+ */
+interface AuditLogDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  entries: AuditLogEntry[];
+  isPersisted: boolean;
+  hasMoreEntries: boolean;
+  onLoadMore: () => void;
+  availableSistemas: string[];
+  availableAreas: string[];
+  userName: string;
+  onUserNameChange: (name: string) => void;
+  onExportCsv: (entries: AuditLogEntry[]) => void;
+  onNavigateToEquipment: (equipmentTag: string) => void;
+}
+
+/**
+ * Renderiza o histórico global de alterações, com filtros e exportação.
+ * @param {AuditLogDialogProps} props As props do componente.
+ * @returns {JSX.Element} O componente AuditLogDialog.
+ */
+export function AuditLogDialog({
+  isOpen,
+  onOpenChange,
+  entries,
+  isPersisted,
+  hasMoreEntries,
+  onLoadMore,
+  availableSistemas,
+  availableAreas,
+  userName,
+  onUserNameChange,
+  onExportCsv,
+  onNavigateToEquipment,
+}: AuditLogDialogProps): JSX.Element {
+  const [sistema, setSistema] = useState('All');
+  const [area, setArea] = useState('All');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const filteredEntries = useMemo(
+    () => filterAuditLog(entries, { sistema, area, fromDate: fromDate || undefined, toDate: toDate || undefined }),
+    [entries, sistema, area, fromDate, toDate]
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <HistoryIcon className="mr-2 h-5 w-5" />
+            Histórico de Alterações
+          </DialogTitle>
+          <DialogDescription className="flex items-center">
+            {isPersisted ? (
+              <><CloudIcon className="mr-1.5 h-3.5 w-3.5" /> Histórico compartilhado (Firestore).</>
+            ) : (
+              <><CloudOffIcon className="mr-1.5 h-3.5 w-3.5" /> Histórico apenas desta sessão.</>
+            )}
+            {' '}O operador é o nome informado em cada sessão, sem autenticação.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="audit-user" className="text-xs font-normal text-muted-foreground">Seu nome (informado)</Label>
+            <Input id="audit-user" value={userName} onChange={(e) => onUserNameChange(e.target.value)} className="h-8 text-xs" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-sistema" className="text-xs font-normal text-muted-foreground">Sistema</Label>
+            <Select value={sistema} onValueChange={setSistema}>
+              <SelectTrigger id="audit-sistema" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableSistemas.map(item => (
+                  <SelectItem key={item} value={item} className="text-xs">
+                    {item === 'All' ? 'Todos os Sistemas' : item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-area" className="text-xs font-normal text-muted-foreground">Área</Label>
+            <Select value={area} onValueChange={setArea}>
+              <SelectTrigger id="audit-area" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {availableAreas.map(item => (
+                  <SelectItem key={item} value={item} className="text-xs">
+                    {item === 'All' ? 'Todas as Áreas' : item}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs font-normal text-muted-foreground">De</Label>
+            <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="h-8 text-xs" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs font-normal text-muted-foreground">Até</Label>
+            <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="h-8 text-xs" />
+          </div>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto">
+          {filteredEntries.length === 0 ? (
+            <p className="py-6 text-sm text-muted-foreground text-center">Nenhuma alteração encontrada.</p>
+          ) : (
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data e hora</TableHead>
+                  <TableHead>Equipamento</TableHead>
+                  <TableHead>Campo</TableHead>
+                  <TableHead>Alteração</TableHead>
+                  <TableHead>Operador (informado)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredEntries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{format(parseISO(entry.timestamp), 'dd/MM/yyyy HH:mm:ss')}</TableCell>
+                    <TableCell>
+                      <Button variant="link" size="sm" className="h-auto p-0 text-xs font-mono" onClick={() => onNavigateToEquipment(entry.equipmentTag)}>
+                        {entry.equipmentTag}
+                      </Button>
+                    </TableCell>
+                    <TableCell>{AUDIT_FIELD_LABELS[entry.field]}</TableCell>
+                    <TableCell>
+                      {entry.oldValue ?? '—'} → {entry.newValue}
+                      {entry.reason && <p className="italic text-muted-foreground">{entry.reason}</p>}
+                    </TableCell>
+                    <TableCell>{entry.user}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          {hasMoreEntries && (
+            <Button type="button" variant="ghost" size="sm" className="mt-2 w-full text-xs" onClick={onLoadMore}>
+              Carregar alterações mais antigas ({entries.length} carregadas)
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onExportCsv(filteredEntries)} disabled={filteredEntries.length === 0}>
+            <DownloadIcon className="mr-2 h-4 w-4" /> Exportar CSV ({filteredEntries.length})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
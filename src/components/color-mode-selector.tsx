@@ -2,7 +2,7 @@
 /**
  * @fileOverview Componente para selecionar o modo de colorização dos equipamentos na cena 3D.
  * Permite ao usuário escolher como os equipamentos serão coloridos (por cor base,
- * estado operacional ou produto) através de um menu dropdown.
+ * estado operacional, produto, nível dos tanques ou um atributo customizado) através de um menu dropdown.
  */
 "use client";
 
@@ -11,25 +11,28 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import type { ColorMode } from '@/lib/types';
+import { getAttributeColorMode, type AttributeDefinition } from '@/core/logic/equipment-attributes';
 
 /**
  * Props para o componente ColorModeSelector.
  * @interface ColorModeSelectorProps
  * @property {ColorMode} colorMode - O modo de colorização atualmente selecionado.
  * @property {(mode: ColorMode) => void} onColorModeChange - Callback para quando o modo de colorização é alterado.
+ * @property {AttributeDefinition[]} [attributeOptions=[]] - Atributos customizados oferecidos como modo de colorização.
  */
 interface ColorModeSelectorProps {
   colorMode: ColorMode;
   onColorModeChange: (mode: ColorMode) => void;
+  attributeOptions?: AttributeDefinition[];
 }
 
 /**
  * Renderiza um Card com um dropdown para selecionar o modo de colorização dos equipamentos.
- * As opções são "Equipamento (Cor Base)", "Estado Operacional" e "Produto".
+ * As opções são "Equipamento (Cor Base)", "Estado Operacional", "Produto", "Nível dos Tanques" e os atributos customizados.
  * @param {ColorModeSelectorProps} props As props do componente.
  * @returns {JSX.Element} O componente do seletor de modo de coloração.
  */
-export function ColorModeSelector({ colorMode, onColorModeChange }: ColorModeSelectorProps): JSX.Element {
+export function ColorModeSelector({ colorMode, onColorModeChange, attributeOptions = [] }: ColorModeSelectorProps): JSX.Element {
   return (
     <Card className="shadow-md">
       <CardContent className="space-y-3 pt-4 p-3">
@@ -49,6 +52,12 @@ export function ColorModeSelector({ colorMode, onColorModeChange }: ColorModeSel
               <SelectItem value="Equipamento">Equipamento (Cor Base)</SelectItem>
               <SelectItem value="Estado Operacional">Estado Operacional</SelectItem>
               <SelectItem value="Produto">Produto</SelectItem>
+              <SelectItem value="Nível">Nível dos Tanques</SelectItem>
+              {attributeOptions.map(definition => (
+                <SelectItem key={definition.key} value={getAttributeColorMode(definition.key)}>
+                  Atributo: {definition.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
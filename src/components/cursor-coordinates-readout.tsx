@@ -0,0 +1,52 @@
+/**
+ * @fileOverview Leitura das coordenadas do ponto do chão sob o cursor, sobreposta à cena 3D.
+ * Exibe as coordenadas da cena e, se o terminal for georreferenciado, as coordenadas UTM e a latitude/longitude.
+ */
+"use client";
+
+import { CrosshairIcon } from 'lucide-react';
+import {
+  formatLatLon,
+  formatUtm,
+  getGeographicPosition,
+  type ScenePoint,
+  type SiteGeoreference,
+} from '@/core/logic/georeference';
+
+/**
+ * Props para o componente CursorCoordinatesReadout.
+ * @interface CursorCoordinatesReadoutProps
+ * @property {ScenePoint | null} point - O ponto do chão sob o cursor, ou null se o cursor não estiver sobre o chão.
+ * @property {SiteGeoreference} [georeference] - O georreferenciamento do terminal aberto.
+ */
+interface CursorCoordinatesReadoutProps {
+  point: ScenePoint | null;
+  georeference?: SiteGeoreference;
+}
+
+const SCENE_COORDINATE_FORMAT = new Intl.NumberFormat('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/**
+ * Renderiza as coordenadas do cursor no canto superior esquerdo da cena, abaixo do botão da barra lateral.
+ * @param {CursorCoordinatesReadoutProps} props As props do componente.
+ * @returns {JSX.Element | null} A leitura, ou null se o cursor não estiver sobre o chão.
+ */
+export function CursorCoordinatesReadout({ point, georeference }: CursorCoordinatesReadoutProps): JSX.Element | null {
+  if (!point) return null;
+  const geographic = georeference ? getGeographicPosition(point, georeference) : null;
+
+  return (
+    <div className="pointer-events-none absolute top-16 left-4 z-20 space-y-0.5 rounded-md bg-card/90 px-3 py-2 font-mono text-xs shadow-lg backdrop-blur-sm">
+      <p className="flex items-center text-muted-foreground">
+        <CrosshairIcon className="mr-1.5 h-3.5 w-3.5" />
+        Cena: X {SCENE_COORDINATE_FORMAT.format(point.x)} Z {SCENE_COORDINATE_FORMAT.format(point.z)}
+      </p>
+      {georeference && geographic && (
+        <>
+          <p>UTM {formatUtm(geographic, georeference.projection)}</p>
+          <p>{formatLatLon(geographic)}</p>
+        </>
+      )}
+    </div>
+  );
+}
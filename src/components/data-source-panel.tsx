@@ -0,0 +1,185 @@
+/**
+ * @fileOverview Componente para exibir e trocar a fonte de dados dos equipamentos.
+ * Mostra a fonte atual, se as alterações de estado são sincronizadas, e permite recarregá-la, carregar um arquivo JSON ou CSV enviado pelo usuário
+ * e exportar para CSV os equipamentos atualmente filtrados, no formato CSV escolhido (opcionalmente com as coordenadas do mundo).
+ */
+"use client";
+
+import { useRef, useState } from 'react';
+import { DatabaseIcon, UploadIcon, RefreshCwIcon, DownloadIcon, FileSpreadsheetIcon, CloudIcon, CloudOffIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EXCEL_PT_BR_CSV_FORMAT, type CsvFormatOptions } from '@/core/logic/equipment-csv';
+
+/**
+ * Props para o componente DataSourcePanel.
+ * @interface DataSourcePanelProps
+ * @property {string} dataSourceLabel - Descrição da fonte de dados atual.
+ * @property {boolean} isStatePersisted - Indica se as alterações de estado/produto são sincronizadas com o Firestore.
+ * @property {boolean} isLoading - Indica se a fonte está sendo carregada.
+ * @property {(file: File) => void} onUploadFile - Callback chamado com o arquivo JSON escolhido pelo usuário.
+ * @property {(file: File, format: CsvFormatOptions) => void} onUploadCsvFile - Callback chamado com o arquivo CSV escolhido e o formato selecionado.
+ * @property {number} exportableCount - Quantidade de equipamentos que seriam exportados (resultado do filtro atual).
+ * @property {(format: CsvFormatOptions, includeWorldCoordinates: boolean) => void} onExportCsv - Callback para exportar os equipamentos filtrados
+ *           no formato selecionado, com ou sem as coordenadas do mundo (UTM e latitude/longitude).
+ * @property {boolean} canExportWorldCoordinates - Indica se o terminal é georreferenciado (habilita a opção de exportar coordenadas do mundo).
+ * @property {() => void} onReload - Callback para recarregar a fonte atual.
+ */
+interface DataSourcePanelProps {
+  dataSourceLabel: string;
+  isStatePersisted: boolean;
+  isLoading: boolean;
+  onUploadFile: (file: File) => void;
+  onUploadCsvFile: (file: File, format: CsvFormatOptions) => void;
+  exportableCount: number;
+  onExportCsv: (format: CsvFormatOptions, includeWorldCoordinates: boolean) => void;
+  canExportWorldCoordinates: boolean;
+  onReload: () => void;
+}
+
+/**
+ * Renderiza um Card com a fonte de dados atual e ações de importação/exportação.
+ * O formato CSV (delimitador e separador decimal) vale tanto para a importação quanto para a exportação;
+ * o padrão é o do Excel em pt-BR.
+ * @param {DataSourcePanelProps} props As props do componente.
+ * @returns {JSX.Element} O componente DataSourcePanel.
+ */
+export function DataSourcePanel({
+  dataSourceLabel,
+  isStatePersisted,
+  isLoading,
+  onUploadFile,
+  onUploadCsvFile,
+  exportableCount,
+  onExportCsv,
+  canExportWorldCoordinates,
+  onReload,
+}: DataSourcePanelProps): JSX.Element {
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [csvFormat, setCsvFormat] = useState<CsvFormatOptions>(EXCEL_PT_BR_CSV_FORMAT);
+  const [includeWorldCoordinates, setIncludeWorldCoordinates] = useState(false);
+
+  /**
+   * Cria um manipulador de `change` que repassa o arquivo escolhido e limpa o input
+   * para permitir reenviar o mesmo arquivo.
+   * @param {(file: File) => void} onFile O callback que recebe o arquivo.
+   * @returns {(event: React.ChangeEvent<HTMLInputElement>) => void} O manipulador de evento.
+   */
+  const handleFileChange = (onFile: (file: File) => void) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onFile(file);
+    }
+    event.target.value = '';
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <DatabaseIcon className="mr-2 h-5 w-5" />
+          Fonte de Dados
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground break-words">
+          Atual: <span className="font-medium text-foreground">{dataSourceLabel}</span>
+        </p>
+        <p className="flex items-center text-xs text-muted-foreground">
+          {isStatePersisted ? (
+            <><CloudIcon className="mr-1.5 h-3.5 w-3.5" /> Estados sincronizados (Firestore)</>
+          ) : (
+            <><CloudOffIcon className="mr-1.5 h-3.5 w-3.5" /> Estados apenas nesta sessão</>
+          )}
+        </p>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => jsonInputRef.current?.click()} disabled={isLoading}>
+            <UploadIcon className="mr-2 h-4 w-4" /> Carregar JSON
+          </Button>
+          <Button variant="outline" size="icon" className="h-9 w-9" onClick={onReload} disabled={isLoading} aria-label="Recarregar fonte de dados">
+            <RefreshCwIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        <div className="space-y-2 border-t pt-3">
+          <p className="flex items-center text-xs font-medium text-muted-foreground">
+            <FileSpreadsheetIcon className="mr-1.5 h-3.5 w-3.5" />
+            Planilha (CSV)
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="csv-delimiter" className="text-xs font-normal text-muted-foreground">Delimitador</Label>
+              <Select
+                value={csvFormat.delimiter}
+                onValueChange={(value) => setCsvFormat(prev => ({ ...prev, delimiter: value as CsvFormatOptions['delimiter'] }))}
+              >
+                <SelectTrigger id="csv-delimiter" className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value=";" className="text-xs">Ponto e vírgula (;)</SelectItem>
+                  <SelectItem value="," className="text-xs">Vírgula (,)</SelectItem>
+                  <SelectItem value={'\t'} className="text-xs">Tabulação</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="csv-decimal" className="text-xs font-normal text-muted-foreground">Decimal</Label>
+              <Select
+                value={csvFormat.decimalSeparator}
+                onValueChange={(value) => setCsvFormat(prev => ({ ...prev, decimalSeparator: value as CsvFormatOptions['decimalSeparator'] }))}
+              >
+                <SelectTrigger id="csv-decimal" className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="," className="text-xs">Vírgula (1,5)</SelectItem>
+                  <SelectItem value="." className="text-xs">Ponto (1.5)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {canExportWorldCoordinates && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="csv-world-coordinates"
+                checked={includeWorldCoordinates}
+                onCheckedChange={checked => setIncludeWorldCoordinates(checked === true)}
+              />
+              <Label htmlFor="csv-world-coordinates" className="text-xs font-normal cursor-pointer">
+                Exportar coordenadas geográficas (UTM e lat/lon)
+              </Label>
+            </div>
+          )}
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={() => csvInputRef.current?.click()} disabled={isLoading}>
+              <UploadIcon className="mr-2 h-4 w-4" /> Importar
+            </Button>
+            <Button variant="outline" size="sm" className="flex-1" onClick={() => onExportCsv(csvFormat, canExportWorldCoordinates && includeWorldCoordinates)} disabled={exportableCount === 0}>
+              <DownloadIcon className="mr-2 h-4 w-4" /> Exportar ({exportableCount})
+            </Button>
+          </div>
+        </div>
+
+        <input
+          ref={jsonInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleFileChange(onUploadFile)}
+        />
+        <input
+          ref={csvInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={handleFileChange(file => onUploadCsvFile(file, csvFormat))}
+        />
+      </CardContent>
+    </Card>
+  );
+}
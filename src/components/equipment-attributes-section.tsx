@@ -0,0 +1,131 @@
+/**
+ * @fileOverview Seção do InfoPanel com os atributos customizados do equipamento (e.g., capacidade, material, data de inspeção).
+ * Exibe os atributos aceitos pelo tipo do equipamento e permite editá-los com um campo adequado a cada tipo de valor:
+ * textos, números e datas são gravados ao sair do campo (ou com Enter) e um campo vazio remove o atributo.
+ * Em modo somente leitura, apenas os atributos preenchidos são exibidos.
+ */
+"use client";
+
+import type { KeyboardEvent } from 'react';
+import type { AttributeValue, Equipment } from '@/lib/types';
+import { formatAttributeValue, getAttributeDefinitions, type AttributeDefinition } from '@/core/logic/equipment-attributes';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ListIcon } from 'lucide-react';
+
+/** Valor do seletor dos atributos booleanos que remove o atributo. */
+const UNSET_BOOLEAN_VALUE = 'unset';
+
+/**
+ * Props para o componente EquipmentAttributesSection.
+ * @interface EquipmentAttributesSectionProps
+ * @property {Equipment} equipment - O equipamento exibido.
+ * @property {(equipmentTag: string, key: string, value: AttributeValue | null) => void} onAttributeChange - Callback para definir (ou remover, com null) um atributo.
+ * @property {boolean} isReadOnly - Impede a edição (e.g., durante a revisão histórica).
+ */
+interface EquipmentAttributesSectionProps {
+  equipment: Equipment;
+  onAttributeChange: (equipmentTag: string, key: string, value: AttributeValue | null) => void;
+  isReadOnly: boolean;
+}
+
+/**
+ * Converte o texto digitado em um valor do atributo.
+ * @param {AttributeDefinition} definition A definição do atributo.
+ * @param {string} text O texto do campo.
+ * @returns {AttributeValue | null} O valor, ou null se o campo estiver vazio.
+ */
+function parseInputValue(definition: AttributeDefinition, text: string): AttributeValue | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  return definition.type === 'number' ? Number(trimmed) : trimmed;
+}
+
+/**
+ * Renderiza os atributos customizados do equipamento.
+ * @param {EquipmentAttributesSectionProps} props As props do componente.
+ * @returns {JSX.Element | null} A seção, ou null se não houver atributos a exibir.
+ */
+export function EquipmentAttributesSection({ equipment, onAttributeChange, isReadOnly }: EquipmentAttributesSectionProps): JSX.Element | null {
+  const attributes = equipment.attributes ?? {};
+  const definitions = getAttributeDefinitions(equipment.type)
+    .filter(definition => !isReadOnly || attributes[definition.key] !== undefined);
+  if (definitions.length === 0) return null;
+
+  /**
+   * Grava o valor do campo, se ele mudou.
+   * @param {AttributeDefinition} definition A definição do atributo.
+   * @param {string} text O texto do campo.
+   */
+  const commitInput = (definition: AttributeDefinition, text: string) => {
+    const value = parseInputValue(definition, text);
+    if (value === (attributes[definition.key] ?? null)) return;
+    onAttributeChange(equipment.tag, definition.key, value);
+  };
+
+  /** Com Enter, sai do campo (o que grava o valor). */
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') event.currentTarget.blur();
+  };
+
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="flex items-center text-xs font-normal text-muted-foreground">
+        <ListIcon className="mr-1.5 h-3.5 w-3.5" />
+        Atributos:
+      </p>
+      <div className="pl-5 space-y-1.5">
+        {definitions.map(definition => {
+          const value = attributes[definition.key];
+          const inputId = `attribute-${equipment.tag}-${definition.key}`;
+          const label = definition.unit ? `${definition.label} (${definition.unit})` : definition.label;
+
+          if (isReadOnly) {
+            return (
+              <p key={definition.key} className="text-xs">
+                {definition.label}: {value !== undefined && formatAttributeValue(definition, value)}
+              </p>
+            );
+          }
+
+          return (
+            <div key={definition.key} className="grid grid-cols-2 items-center gap-2">
+              <Label htmlFor={inputId} className="text-xs font-normal">{label}</Label>
+              {definition.type === 'boolean' ? (
+                <Select
+                  value={value === undefined ? UNSET_BOOLEAN_VALUE : String(value)}
+                  onValueChange={selected => onAttributeChange(
+                    equipment.tag,
+                    definition.key,
+                    selected === UNSET_BOOLEAN_VALUE ? null : selected === 'true'
+                  )}
+                >
+                  <SelectTrigger id={inputId} className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET_BOOLEAN_VALUE} className="text-xs">—</SelectItem>
+                    <SelectItem value="true" className="text-xs">Sim</SelectItem>
+                    <SelectItem value="false" className="text-xs">Não</SelectItem>
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  // A chave inclui o valor para que o campo seja reiniciado quando o valor mudar fora dele.
+                  key={`${equipment.tag}-${String(value)}`}
+                  id={inputId}
+                  type={definition.type === 'number' ? 'number' : definition.type === 'date' ? 'date' : 'text'}
+                  defaultValue={value === undefined ? '' : String(value)}
+                  onBlur={event => commitInput(definition, event.target.value)}
+                  onKeyDown={handleKeyDown}
+                  className="h-7 text-xs"
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Componente que sinaliza, sobre a cena 3D, o carregamento dos equipamentos
+ * e eventuais falhas da fonte de dados, oferecendo a opção de tentar novamente.
+ */
+"use client";
+
+import { Loader2Icon, AlertTriangleIcon } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Props para o componente EquipmentLoadStatus.
+ * @interface EquipmentLoadStatusProps
+ * @property {boolean} isLoading - Indica se os equipamentos estão sendo carregados.
+ * @property {string | null} loadError - Mensagem de erro do último carregamento, ou null.
+ * @property {() => void} onRetry - Callback para tentar carregar novamente.
+ */
+interface EquipmentLoadStatusProps {
+  isLoading: boolean;
+  loadError: string | null;
+  onRetry: () => void;
+}
+
+/**
+ * Renderiza um indicador de carregamento ou um alerta de erro centralizado no topo da cena, abaixo da barra da simulação
+ * (a parte inferior fica com a linha do tempo da revisão histórica).
+ * @param {EquipmentLoadStatusProps} props As props do componente.
+ * @returns {JSX.Element | null} O indicador, o alerta, ou null quando não há nada a sinalizar.
+ */
+export function EquipmentLoadStatus({ isLoading, loadError, onRetry }: EquipmentLoadStatusProps): JSX.Element | null {
+  if (isLoading) {
+    return (
+      <div className="absolute top-16 left-1/2 -translate-x-1/2 z-20 flex items-center rounded-md bg-card/90 px-3 py-2 text-sm shadow-lg backdrop-blur-sm">
+        <Loader2Icon className="mr-2 h-4 w-4 animate-spin text-primary" />
+        Carregando equipamentos...
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <Alert variant="destructive" className="absolute top-16 left-1/2 -translate-x-1/2 z-20 w-96 bg-card/95 shadow-lg">
+        <AlertTriangleIcon className="h-4 w-4" />
+        <AlertTitle>Falha ao carregar equipamentos</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p className="text-xs break-words">{loadError}</p>
+          <Button size="sm" variant="outline" onClick={onRetry}>Tentar novamente</Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return null;
+}
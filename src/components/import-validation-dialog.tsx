@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Componente de diálogo modal que exibe o relatório de validação de uma importação de equipamentos.
+ * Lista cada registro inválido com sua linha, TAG e todos os motivos de rejeição, e permite
+ * importar apenas os registros válidos ou cancelar a importação.
+ */
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { AlertTriangleIcon } from 'lucide-react';
+import type { PendingEquipmentImport } from '@/hooks/use-equipment-data-manager';
+
+/**
+ * Props para o componente ImportValidationDialog.
+ * @interface ImportValidationDialogProps
+ * @property {PendingEquipmentImport | null} pendingImport - A importação retida; o diálogo fica aberto enquanto não for null.
+ * @property {() => void} onConfirm - Callback para importar apenas os registros válidos.
+ * @property {() => void} onCancel - Callback para descartar a importação.
+ */
+interface ImportValidationDialogProps {
+  pendingImport: PendingEquipmentImport | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Renderiza o relatório de validação de uma importação de equipamentos com registros inválidos.
+ * @param {ImportValidationDialogProps} props As props do componente.
+ * @returns {JSX.Element} O componente ImportValidationDialog.
+ */
+export function ImportValidationDialog({ pendingImport, onConfirm, onCancel }: ImportValidationDialogProps): JSX.Element {
+  const validation = pendingImport?.validation;
+  const validCount = validation?.validEquipment.length ?? 0;
+  const invalidCount = validation?.issues.length ?? 0;
+
+  return (
+    <Dialog open={pendingImport !== null} onOpenChange={(isOpen) => { if (!isOpen) onCancel(); }}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <AlertTriangleIcon className="mr-2 h-5 w-5 text-destructive" />
+            Registros inválidos na importação
+          </DialogTitle>
+          <DialogDescription>
+            {pendingImport?.sourceLabel}: {invalidCount} de {validation?.totalRecords ?? 0} registro(s) não passaram na validação.
+            Nada foi aplicado à cena ainda.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-[50vh] overflow-y-auto pr-1">
+          <ul className="space-y-2">
+            {validation?.issues.map(issue => (
+              <li key={issue.row} className="rounded border bg-muted/40 p-2 text-sm">
+                <p className="font-medium">
+                  Linha {issue.row}
+                  {issue.tag && <span className="ml-2 font-mono text-xs bg-muted px-1 py-0.5 rounded">{issue.tag}</span>}
+                </p>
+                <ul className="mt-1 list-disc pl-5 text-xs text-muted-foreground">
+                  {issue.reasons.map((reason, index) => (
+                    <li key={index}>{reason}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancelar importação
+          </Button>
+          <Button type="button" onClick={onConfirm} disabled={validCount === 0}>
+            Importar {validCount} válido(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
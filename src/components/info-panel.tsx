@@ -1,20 +1,55 @@
 
 /**
  * @fileoverview Componente para exibir o painel de informações detalhadas de um equipamento selecionado.
- * Permite visualizar atributos, alterar estado operacional, produto e gerenciar anotações.
+ * Permite visualizar atributos e o inventário dos tanques, alterar estado operacional, produto e atributos customizados, navegar para os equipamentos conectados,
+ * rastrear o caminho do fluxo, planejar o isolamento e gerenciar anotações.
+ * O estado operacional só pode ser alterado para as transições permitidas pelo modelo de estados do tipo;
+ * estados que exigem justificativa pedem o texto antes de confirmar a alteração.
+ * Em modo somente leitura (revisão histórica), estado, produto e atributos são apenas exibidos.
+ * A aba "Histórico" mostra a linha do tempo das alterações de estado e produto do equipamento.
  * Renderiza apenas se um único equipamento estiver selecionado.
  */
 "use client";
 
-import type { Equipment, Annotation } from '@/lib/types';
+import { useState } from 'react';
+import type { Equipment, Annotation, AuditLogEntry, AttributeValue } from '@/lib/types';
+import type { FlowDirection } from '@/core/logic/flow-tracing';
+import { getTankInventory } from '@/core/logic/tank-inventory';
+import { getPipeLength } from '@/core/logic/pipe-path';
+import { AUDIT_FIELD_LABELS } from '@/core/logic/audit-log';
+import { getAllowedTransitions, getOperationalStateLabel } from '@/core/logic/operational-state-model';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
-import { XIcon, InfoIcon, TagIcon, LocateIcon, ActivityIcon, FileTextIcon, Settings2Icon, MessageSquarePlusIcon, Edit3Icon, Trash2Icon, CalendarDays, PackageIcon } from 'lucide-react';
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EquipmentAttributesSection } from '@/components/equipment-attributes-section';
+import { XIcon, InfoIcon, TagIcon, LocateIcon, ActivityIcon, FileTextIcon, Settings2Icon, MessageSquarePlusIcon, Edit3Icon, Trash2Icon, CalendarDays, PackageIcon, Link2Icon, ArrowLeftIcon, ArrowRightIcon, WavesIcon, ShieldIcon, GaugeIcon, HistoryIcon, RulerIcon } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 
+/**
+ * Um equipamento conectado ao equipamento exibido, para navegação no painel.
+ * @interface ConnectedEquipmentLink
+ * @property {string} tag - TAG do equipamento conectado.
+ * @property {string} name - Nome do equipamento conectado.
+ * @property {'upstream' | 'downstream'} direction - 'upstream' se o fluxo vem dele; 'downstream' se vai para ele.
+ * @property {string} [neighborNozzle] - Bocal do equipamento conectado usado na ligação, se informado.
+ * @property {string} [localNozzle] - Bocal do equipamento exibido usado na ligação, se informado.
+ */
+export interface ConnectedEquipmentLink {
+  tag: string;
+  name: string;
+  direction: 'upstream' | 'downstream';
+  neighborNozzle?: string;
+  localNozzle?: string;
+}
+
+/** Abas do painel: os detalhes do equipamento ou a linha do tempo das alterações. */
+type InfoPanelTab = 'details' | 'history';
+
 /**
  * Props para o componente InfoPanel.
  * @interface InfoPanelProps
@@ -23,10 +58,16 @@ import { format, parseISO } from 'date-fns';
  * @property {() => void} onClose - Callback para fechar o painel de informações.
  * @property {() => void} onOpenAnnotationDialog - Callback para abrir o diálogo de anotação.
  * @property {(equipmentTag: string) => void} onDeleteAnnotation - Callback para excluir a anotação do equipamento.
- * @property {(equipmentTag: string, newState: string) => void} onOperationalStateChange - Callback para alterar o estado operacional.
- * @property {string[]} availableOperationalStatesList - Lista de estados operacionais disponíveis para seleção.
+ * @property {(equipmentTag: string, newState: string, reason?: string) => void} onOperationalStateChange - Callback para alterar o estado operacional.
  * @property {(equipmentTag: string, newProduct: string) => void} onProductChange - Callback para alterar o produto.
+ * @property {(equipmentTag: string, key: string, value: AttributeValue | null) => void} onAttributeChange - Callback para definir (ou remover, com null) um atributo customizado.
  * @property {string[]} availableProductsList - Lista de produtos disponíveis para seleção.
+ * @property {ConnectedEquipmentLink[]} connectedEquipment - Equipamentos conectados ao equipamento exibido.
+ * @property {(equipmentTag: string) => void} onNavigateToEquipment - Callback para selecionar e enquadrar um equipamento conectado.
+ * @property {(equipmentTag: string, direction: FlowDirection) => void} onTraceFlow - Callback para rastrear o caminho do fluxo a partir do equipamento.
+ * @property {(equipmentTag: string) => void} onPlanIsolation - Callback para calcular as válvulas que isolam o equipamento.
+ * @property {AuditLogEntry[]} history - Alterações registradas do equipamento, da mais recente para a mais antiga.
+ * @property {boolean} [isReadOnly=false] - Impede a alteração de estado e produto (e.g., durante a revisão histórica).
  */
 interface InfoPanelProps {
   equipment: Equipment | null;
@@ -34,10 +75,16 @@ interface InfoPanelProps {
   onClose: () => void;
   onOpenAnnotationDialog: () => void;
   onDeleteAnnotation: (equipmentTag: string) => void;
-  onOperationalStateChange: (equipmentTag: string, newState: string) => void;
-  availableOperationalStatesList: string[];
+  onOperationalStateChange: (equipmentTag: string, newState: string, reason?: string) => void;
   onProductChange: (equipmentTag: string, newProduct: string) => void;
+  onAttributeChange: (equipmentTag: string, key: string, value: AttributeValue | null) => void;
   availableProductsList: string[];
+  connectedEquipment: ConnectedEquipmentLink[];
+  onNavigateToEquipment: (equipmentTag: string) => void;
+  onTraceFlow: (equipmentTag: string, direction: FlowDirection) => void;
+  onPlanIsolation: (equipmentTag: string) => void;
+  history: AuditLogEntry[];
+  isReadOnly?: boolean;
 }
 
 /**
@@ -53,12 +100,51 @@ export function InfoPanel({
   onOpenAnnotationDialog,
   onDeleteAnnotation,
   onOperationalStateChange,
-  availableOperationalStatesList,
   onProductChange,
-  availableProductsList
+  onAttributeChange,
+  availableProductsList,
+  connectedEquipment,
+  onNavigateToEquipment,
+  onTraceFlow,
+  onPlanIsolation,
+  history,
+  isReadOnly = false,
 }: InfoPanelProps): JSX.Element | null {
+  // Transição que aguarda a justificativa do operador; vale apenas para o equipamento em que foi iniciada.
+  const [pendingTransition, setPendingTransition] = useState<{ tag: string; state: string } | null>(null);
+  const [transitionReason, setTransitionReason] = useState('');
+  const [activeTab, setActiveTab] = useState<InfoPanelTab>('details');
+
   if (!equipment) return null;
 
+  /**
+   * Estados para os quais o equipamento pode passar a partir do estado atual.
+   */
+  const allowedTransitions = getAllowedTransitions(equipment);
+  const pendingState = !isReadOnly && pendingTransition?.tag === equipment.tag ? pendingTransition.state : null;
+
+  /**
+   * Aplica a escolha de um novo estado, pedindo antes a justificativa se o estado a exigir.
+   * @param {string} newState O estado escolhido.
+   */
+  const handleStateSelect = (newState: string) => {
+    if (allowedTransitions.find(definition => definition.value === newState)?.requiresReason) {
+      setPendingTransition({ tag: equipment.tag, state: newState });
+      setTransitionReason('');
+      return;
+    }
+    onOperationalStateChange(equipment.tag, newState);
+  };
+
+  /**
+   * Confirma a transição pendente com a justificativa informada.
+   */
+  const handleConfirmTransition = () => {
+    if (!pendingState) return;
+    onOperationalStateChange(equipment.tag, pendingState, transitionReason.trim());
+    setPendingTransition(null);
+  };
+
   /**
    * Manipula o clique no botão de excluir anotação.
    */
@@ -74,6 +160,23 @@ export function InfoPanel({
    */
   const formattedDate = annotation?.createdAt ? format(parseISO(annotation.createdAt), "dd/MM/yyyy HH:mm") : null;
 
+  /**
+   * Inventário do tanque (nível, volume e capacidade livre), se o equipamento for um tanque com nível.
+   */
+  const tankInventory = getTankInventory(equipment);
+
+  /**
+   * Comprimento da tubulação (pelo traçado, se houver), ou null se o equipamento não for uma tubulação.
+   */
+  const pipeLength = getPipeLength(equipment);
+
+  /**
+   * Formata um número com uma casa decimal no padrão brasileiro.
+   * @param {number} value O valor.
+   * @returns {string} O valor formatado.
+   */
+  const formatNumber = (value: number) => value.toLocaleString('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
   return (
     <Card className="absolute top-4 right-4 w-80 shadow-xl z-20 bg-card/90 backdrop-blur-sm max-h-[calc(100vh-2rem)] flex flex-col">
       <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -85,7 +188,39 @@ export function InfoPanel({
           <XIcon className="h-4 w-4" />
         </Button>
       </CardHeader>
-      <CardContent className="space-y-3 pb-3 overflow-y-auto flex-grow">
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as InfoPanelTab)} className="px-6 pb-3">
+        <TabsList className="grid w-full grid-cols-2 h-8">
+          <TabsTrigger value="details" className="text-xs">Detalhes</TabsTrigger>
+          <TabsTrigger value="history" className="text-xs">
+            <HistoryIcon className="mr-1 h-3.5 w-3.5" />
+            Histórico ({history.length})
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+      {activeTab === 'history' && (
+        <CardContent className="pb-3 overflow-y-auto flex-grow">
+          {history.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center">Nenhuma alteração registrada.</p>
+          ) : (
+            <ol className="space-y-2">
+              {history.map(entry => (
+                <li key={entry.id} className="rounded-md border p-2 text-xs space-y-0.5">
+                  <p className="flex items-center text-muted-foreground">
+                    <CalendarDays className="mr-1 h-3 w-3" />
+                    {format(parseISO(entry.timestamp), "dd/MM/yyyy HH:mm:ss")} · informado por {entry.user}
+                  </p>
+                  <p>
+                    <span className="font-medium">{AUDIT_FIELD_LABELS[entry.field]}:</span>{' '}
+                    {entry.oldValue ?? '—'} → {entry.newValue}
+                  </p>
+                  {entry.reason && <p className="italic text-muted-foreground">{entry.reason}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      )}
+      <CardContent className={activeTab === 'details' ? "space-y-3 pb-3 overflow-y-auto flex-grow" : "hidden"}>
         <h3 className="text-md font-semibold">{equipment.name}</h3>
         <p className="text-sm">
           TAG: <span className="font-mono text-xs bg-muted px-1 py-0.5 rounded">{equipment.tag}</span>
@@ -105,6 +240,30 @@ export function InfoPanel({
           </p>
         )}
 
+        <EquipmentAttributesSection equipment={equipment} onAttributeChange={onAttributeChange} isReadOnly={isReadOnly} />
+
+        {pipeLength !== null && (
+          <p className="text-sm flex items-center">
+            <RulerIcon className="mr-1.5 h-3.5 w-3.5 text-muted-foreground" />
+            Comprimento: {formatNumber(pipeLength)} m
+          </p>
+        )}
+
+        {tankInventory && (
+          <div className="space-y-1 text-sm">
+            <p className="flex items-center text-xs font-normal text-muted-foreground">
+              <GaugeIcon className="mr-1.5 h-3.5 w-3.5" />
+              Inventário:
+            </p>
+            <Progress value={tankInventory.levelPercent} className="h-2" aria-label="Nível do tanque" />
+            <div className="pl-5 text-xs space-y-0.5">
+              <p>Nível: {formatNumber(tankInventory.levelPercent)}% ({formatNumber(tankInventory.levelMeters)} m)</p>
+              <p>Volume: {formatNumber(tankInventory.volumeM3)} m³ de {formatNumber(tankInventory.capacityM3)} m³</p>
+              <p>Capacidade livre: {formatNumber(tankInventory.freeCapacityM3)} m³</p>
+            </div>
+          </div>
+        )}
+
         {equipment.product && (
           <div className="space-y-1 text-sm">
             <Label htmlFor={`product-select-${equipment.tag}`} className="flex items-center text-xs font-normal text-muted-foreground">
@@ -114,6 +273,7 @@ export function InfoPanel({
             <Select
               value={equipment.product}
               onValueChange={(newProduct) => onProductChange(equipment.tag, newProduct)}
+              disabled={isReadOnly}
             >
               <SelectTrigger id={`product-select-${equipment.tag}`} className="h-8 text-xs">
                 <SelectValue placeholder="Selecionar produto" />
@@ -136,21 +296,46 @@ export function InfoPanel({
               Estado Operacional:
             </Label>
             <Select
-              value={equipment.operationalState}
-              onValueChange={(newState) => onOperationalStateChange(equipment.tag, newState)}
-              disabled={equipment.operationalState === "Não aplicável" && availableOperationalStatesList.filter(s => s !== "Não aplicável").length === 0}
+              value={pendingState ?? equipment.operationalState}
+              onValueChange={handleStateSelect}
+              disabled={isReadOnly || allowedTransitions.length === 0 || pendingState !== null}
             >
               <SelectTrigger id={`op-state-select-${equipment.tag}`} className="h-8 text-xs">
                 <SelectValue placeholder="Selecionar estado" />
               </SelectTrigger>
               <SelectContent>
-                {availableOperationalStatesList.map(state => (
-                  <SelectItem key={state} value={state} className="text-xs">
-                    {state}
+                <SelectItem value={equipment.operationalState} className="text-xs" disabled>
+                  {getOperationalStateLabel(equipment.type, equipment.operationalState)} (atual)
+                </SelectItem>
+                {allowedTransitions.map(definition => (
+                  <SelectItem key={definition.value} value={definition.value} className="text-xs">
+                    {definition.label}{definition.requiresReason ? ' *' : ''}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
+            {pendingState && (
+              <div className="space-y-1 pt-1">
+                <Label htmlFor={`op-state-reason-${equipment.tag}`} className="text-xs font-normal text-muted-foreground">
+                  Justificativa (obrigatória):
+                </Label>
+                <Textarea
+                  id={`op-state-reason-${equipment.tag}`}
+                  value={transitionReason}
+                  onChange={(e) => setTransitionReason(e.target.value)}
+                  className="min-h-[60px] text-xs"
+                  autoFocus
+                />
+                <div className="flex space-x-2">
+                  <Button size="sm" variant="outline" className="flex-1 h-7 text-xs" onClick={() => setPendingTransition(null)}>
+                    Cancelar
+                  </Button>
+                  <Button size="sm" className="flex-1 h-7 text-xs" onClick={handleConfirmTransition} disabled={!transitionReason.trim()}>
+                    Confirmar
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -163,6 +348,51 @@ export function InfoPanel({
             <p id={`details-text-${equipment.tag}`} className="italic pl-5 text-xs">{equipment.details}</p>
           </div>
         )}
+        {connectedEquipment.length > 0 && (
+          <div className="text-sm pt-2">
+            <p className="flex items-center text-xs font-normal text-muted-foreground">
+              <Link2Icon className="mr-1.5 h-3.5 w-3.5" />
+              Conexões:
+            </p>
+            <ul className="pl-5 space-y-0.5">
+              {connectedEquipment.map(link => (
+                <li key={`${link.direction}-${link.tag}`} className="flex items-center text-xs">
+                  {link.direction === 'upstream'
+                    ? <ArrowLeftIcon className="mr-1 h-3 w-3 text-muted-foreground" aria-label="Montante" />
+                    : <ArrowRightIcon className="mr-1 h-3 w-3 text-muted-foreground" aria-label="Jusante" />}
+                  <Button
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => onNavigateToEquipment(link.tag)}
+                    title={link.direction === 'upstream' ? 'Montante (origem do fluxo)' : 'Jusante (destino do fluxo)'}
+                  >
+                    {link.name}
+                  </Button>
+                  {link.neighborNozzle && <span className="ml-1 text-muted-foreground">({link.neighborNozzle})</span>}
+                  {link.localNozzle && <span className="ml-1 text-muted-foreground">via {link.localNozzle}</span>}
+                </li>
+              ))}
+            </ul>
+            <div className="pt-2 space-y-1">
+              <p className="flex items-center text-xs font-normal text-muted-foreground">
+                <WavesIcon className="mr-1.5 h-3.5 w-3.5" />
+                Rastrear fluxo:
+              </p>
+              <div className="flex space-x-2">
+                <Button size="sm" variant="outline" className="flex-1 h-7 text-xs" onClick={() => onTraceFlow(equipment.tag, 'upstream')}>
+                  <ArrowLeftIcon className="mr-1 h-3 w-3" /> Montante
+                </Button>
+                <Button size="sm" variant="outline" className="flex-1 h-7 text-xs" onClick={() => onTraceFlow(equipment.tag, 'downstream')}>
+                  Jusante <ArrowRightIcon className="ml-1 h-3 w-3" />
+                </Button>
+              </div>
+              <Button size="sm" variant="outline" className="w-full h-7 text-xs" onClick={() => onPlanIsolation(equipment.tag)}>
+                <ShieldIcon className="mr-1 h-3 w-3" /> Planejar isolamento
+              </Button>
+            </div>
+          </div>
+        )}
         <Separator className="my-3"/>
         {annotation ? (
           <div className="space-y-2">
@@ -0,0 +1,99 @@
+/**
+ * @fileOverview Painel flutuante com o plano de isolamento de um equipamento.
+ * Lista as válvulas que devem ser fechadas (indicando as que já estão fechadas) ou, se o isolamento
+ * não for possível apenas com válvulas, as fontes que continuam ligadas ao equipamento.
+ */
+"use client";
+
+import type { Equipment } from '@/lib/types';
+import type { IsolationPlan } from '@/core/logic/isolation-planner';
+import { isValveClosed } from '@/core/logic/flow-tracing';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ShieldAlertIcon, ShieldCheckIcon, XIcon } from 'lucide-react';
+
+/**
+ * Props para o componente IsolationPlanPanel.
+ * @interface IsolationPlanPanelProps
+ * @property {IsolationPlan | null} plan - O plano de isolamento exibido; o painel não é renderizado se for null.
+ * @property {Equipment[]} equipment - A lista de equipamentos, para exibir nomes e estados.
+ * @property {(equipmentTag: string) => void} onNavigateToEquipment - Callback para selecionar e enquadrar um equipamento da lista.
+ * @property {() => void} onClose - Callback para fechar o painel (e remover o destaque das válvulas).
+ */
+interface IsolationPlanPanelProps {
+  plan: IsolationPlan | null;
+  equipment: Equipment[];
+  onNavigateToEquipment: (equipmentTag: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Renderiza o plano de isolamento no canto inferior esquerdo da cena.
+ * @param {IsolationPlanPanelProps} props As props do componente.
+ * @returns {JSX.Element | null} O painel, ou null se não houver plano.
+ */
+export function IsolationPlanPanel({ plan, equipment, onNavigateToEquipment, onClose }: IsolationPlanPanelProps): JSX.Element | null {
+  if (!plan) return null;
+
+  const findEquipment = (tag: string) => equipment.find(e => e.tag === tag);
+  const targetName = findEquipment(plan.targetTag)?.name ?? plan.targetTag;
+
+  /**
+   * Renderiza um item clicável da lista, com o nome do equipamento e sua TAG.
+   * @param {string} tag A TAG do equipamento.
+   * @returns {JSX.Element} O botão do item.
+   */
+  const renderEquipmentLink = (tag: string) => (
+    <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => onNavigateToEquipment(tag)}>
+      {findEquipment(tag)?.name ?? tag}
+      <span className="ml-1 font-mono text-muted-foreground">({tag})</span>
+    </Button>
+  );
+
+  return (
+    <Card className="absolute bottom-4 left-4 w-80 shadow-xl z-20 bg-card/90 backdrop-blur-sm max-h-[50vh] flex flex-col">
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-base flex items-center">
+          {plan.isIsolable
+            ? <ShieldCheckIcon className="mr-2 h-5 w-5 text-primary" />
+            : <ShieldAlertIcon className="mr-2 h-5 w-5 text-destructive" />}
+          Isolamento: {targetName}
+        </CardTitle>
+        <Button variant="ghost" size="icon" onClick={onClose} aria-label="Fechar plano de isolamento">
+          <XIcon className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2 pb-3 overflow-y-auto text-sm">
+        {!plan.isIsolable ? (
+          <>
+            <p className="text-xs text-destructive">
+              Não é possível isolar apenas com válvulas: as fontes abaixo estão ligadas ao equipamento por caminhos sem válvulas.
+            </p>
+            <ul className="pl-2 space-y-0.5">
+              {plan.unisolableSources.map(tag => <li key={tag}>{renderEquipmentLink(tag)}</li>)}
+            </ul>
+          </>
+        ) : plan.valveTags.length === 0 ? (
+          <p className="text-xs text-muted-foreground">O equipamento não está ligado a nenhuma outra fonte; nenhuma válvula precisa ser fechada.</p>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Feche {plan.valveTags.length} válvula(s) para isolar o equipamento de {plan.connectedSources.length} fonte(s):
+            </p>
+            <ul className="pl-2 space-y-1">
+              {plan.valveTags.map(tag => (
+                <li key={tag} className="flex items-center justify-between">
+                  {renderEquipmentLink(tag)}
+                  {isValveClosed(findEquipment(tag)) && (
+                    <Badge variant="secondary" className="text-[10px]">já fechada</Badge>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,14 +1,29 @@
 
 /**
  * @fileoverview Componente responsável por renderizar a área principal da cena 3D,
- * que inclui o componente `ThreeScene` (a própria cena 3D) e o `InfoPanel` (painel de detalhes).
+ * que inclui o componente `ThreeScene` (a própria cena 3D), o `InfoPanel` (painel de detalhes),
+ * a `SimulationTransportBar` (controle do relógio da simulação), a `CursorCoordinatesReadout` (coordenadas do cursor)
+ * e o `EquipmentLoadStatus` (estado de carregamento da fonte de dados). Falhas ao carregar os modelos glTF/GLB
+ * dos equipamentos são avisadas com um toast.
  * Este componente atua como um contêiner para os elementos visuais centrais da aplicação.
  */
 "use client";
 
-import type { Equipment, Layer, CameraState, Annotation, ColorMode } from '@/lib/types';
+import { useState, useCallback } from 'react';
+import type { Equipment, Layer, CameraState, Annotation, ColorMode, AuditLogEntry, SiteBounds, AttributeValue } from '@/lib/types';
 import ThreeScene from '@/components/three-scene';
-import { InfoPanel } from '@/components/info-panel';
+import { InfoPanel, type ConnectedEquipmentLink } from '@/components/info-panel';
+import { EquipmentLoadStatus } from '@/components/equipment-load-status';
+import type { FlowDirection } from '@/core/logic/flow-tracing';
+import type { FlowingPipe } from '@/core/logic/flow-simulation';
+import type { SimulationClock } from '@/core/logic/simulation-clock';
+import { SimulationTransportBar } from '@/components/simulation-transport-bar';
+import { CursorCoordinatesReadout } from '@/components/cursor-coordinates-readout';
+import type { ScenePoint, SiteGeoreference } from '@/core/logic/georeference';
+import type { EquipmentTypeModels } from '@/core/three/equipment-model-loader';
+import type { TerrainSurface } from '@/core/logic/terrain-elevation';
+import type { SitePlanOverlay } from '@/core/three/site-plan-overlay-utils';
+import { useToast } from '@/hooks/use-toast';
 
 /**
  * Props para o componente MainSceneArea.
@@ -24,17 +39,37 @@ import { InfoPanel } from '@/components/info-panel';
  * @property {(cameraState: CameraState) => void} onCameraChange - Callback para quando o estado da câmera muda devido à interação do usuário na cena.
  * @property {{ x: number; y: number; z: number }} initialCameraPosition - Posição inicial da câmera.
  * @property {{ x: number; y: number; z: number }} initialCameraLookAt - Ponto de observação (lookAt) inicial da câmera.
+ * @property {SiteBounds} groundBounds - Limites da área do terminal aberto, cobertos pelo plano de chão.
+ * @property {TerrainSurface | null} [terrain] - Relevo do terreno, que substitui o plano de chão (null para chão plano).
+ * @property {SitePlanOverlay | null} [sitePlan] - Planta do terminal, desenhada sobre o chão.
+ * @property {EquipmentTypeModels} [equipmentTypeModels] - Modelos glTF/GLB por tipo de equipamento do terminal aberto.
+ * @property {SiteGeoreference} [georeference] - Georreferenciamento do terminal aberto, usado na leitura das coordenadas do cursor.
  * @property {ColorMode} colorMode - O modo de colorização atual para os equipamentos.
  * @property {string | null} targetSystemToFrame - O sistema que deve ser enquadrado pela câmera (se houver).
  * @property {() => void} onSystemFramed - Callback chamado após a câmera terminar de enquadrar um sistema.
+ * @property {string[] | null} targetTagsToFrame - As TAGs dos equipamentos que devem ser enquadrados pela câmera (se houver).
+ * @property {() => void} onEquipmentFramed - Callback chamado após a câmera terminar de enquadrar os equipamentos.
  * @property {Equipment | null} selectedEquipmentDetails - Detalhes do equipamento único selecionado (para InfoPanel).
  * @property {Annotation | null} equipmentAnnotation - Anotação do equipamento único selecionado (para InfoPanel).
  * @property {() => void} onOpenAnnotationDialog - Callback para abrir o diálogo de anotação.
  * @property {(equipmentTag: string) => void} onDeleteAnnotation - Callback para excluir uma anotação.
- * @property {(equipmentTag: string, newState: string) => void} onOperationalStateChange - Callback para alterar o estado operacional de um equipamento.
- * @property {string[]} availableOperationalStatesList - Lista de estados operacionais disponíveis.
+ * @property {(equipmentTag: string, newState: string, reason?: string) => void} onOperationalStateChange - Callback para alterar o estado operacional de um equipamento.
  * @property {(equipmentTag: string, newProduct: string) => void} onProductChange - Callback para alterar o produto de um equipamento.
+ * @property {(equipmentTag: string, key: string, value: AttributeValue | null) => void} onAttributeChange - Callback para alterar um atributo customizado de um equipamento.
  * @property {string[]} availableProductsList - Lista de produtos disponíveis.
+ * @property {ConnectedEquipmentLink[]} connectedEquipment - Equipamentos conectados ao equipamento selecionado (para InfoPanel).
+ * @property {(equipmentTag: string) => void} onNavigateToEquipment - Callback para selecionar e enquadrar um equipamento conectado.
+ * @property {(equipmentTag: string, direction: FlowDirection) => void} onTraceFlow - Callback para rastrear o caminho do fluxo a partir de um equipamento.
+ * @property {(equipmentTag: string) => void} onPlanIsolation - Callback para calcular o plano de isolamento de um equipamento.
+ * @property {AuditLogEntry[]} equipmentHistory - Alterações registradas do equipamento único selecionado (para InfoPanel).
+ * @property {boolean} isReadOnly - Indica se a cena exibe um estado passado (revisão histórica), sem permitir alterações.
+ * @property {string[]} isolationValveTags - Tags das válvulas do plano de isolamento atual, destacadas na cena.
+ * @property {FlowingPipe[]} flowingPipes - Tubulações com fluxo ativo, animadas na cena.
+ * @property {string[]} alarmedEquipmentTags - TAGs dos equipamentos com alarmes não reconhecidos, destacados na cena.
+ * @property {SimulationClock} simulationClock - Relógio da simulação, controlado pela barra sobreposta à cena.
+ * @property {boolean} isEquipmentLoading - Indica se os equipamentos estão sendo carregados da fonte de dados.
+ * @property {string | null} equipmentLoadError - Mensagem de erro do último carregamento de equipamentos, ou null.
+ * @property {() => void} onRetryEquipmentLoad - Callback para tentar carregar os equipamentos novamente.
  */
 interface MainSceneAreaProps {
   equipment: Equipment[];
@@ -48,22 +83,42 @@ interface MainSceneAreaProps {
   onCameraChange: (cameraState: CameraState) => void;
   initialCameraPosition: { x: number; y: number; z: number };
   initialCameraLookAt: { x: number; y: number; z: number };
+  groundBounds: SiteBounds;
+  terrain?: TerrainSurface | null;
+  sitePlan?: SitePlanOverlay | null;
+  equipmentTypeModels?: EquipmentTypeModels;
+  georeference?: SiteGeoreference;
   colorMode: ColorMode;
   targetSystemToFrame: string | null;
   onSystemFramed: () => void;
+  targetTagsToFrame: string[] | null;
+  onEquipmentFramed: () => void;
   selectedEquipmentDetails: Equipment | null;
   equipmentAnnotation: Annotation | null;
   onOpenAnnotationDialog: () => void;
   onDeleteAnnotation: (equipmentTag: string) => void;
-  onOperationalStateChange: (equipmentTag: string, newState: string) => void;
-  availableOperationalStatesList: string[];
+  onOperationalStateChange: (equipmentTag: string, newState: string, reason?: string) => void;
   onProductChange: (equipmentTag: string, newProduct: string) => void;
+  onAttributeChange: (equipmentTag: string, key: string, value: AttributeValue | null) => void;
   availableProductsList: string[];
+  connectedEquipment: ConnectedEquipmentLink[];
+  onNavigateToEquipment: (equipmentTag: string) => void;
+  onTraceFlow: (equipmentTag: string, direction: FlowDirection) => void;
+  onPlanIsolation: (equipmentTag: string) => void;
+  equipmentHistory: AuditLogEntry[];
+  isReadOnly: boolean;
+  isolationValveTags: string[];
+  flowingPipes: FlowingPipe[];
+  alarmedEquipmentTags: string[];
+  simulationClock: SimulationClock;
+  isEquipmentLoading: boolean;
+  equipmentLoadError: string | null;
+  onRetryEquipmentLoad: () => void;
 }
 
 /**
- * Renderiza a área principal da cena 3D e o InfoPanel sobreposto.
- * Passa todas as props necessárias para os componentes filhos `ThreeScene` e `InfoPanel`.
+ * Renderiza a área principal da cena 3D, com o InfoPanel, a barra da simulação, as coordenadas do cursor e o indicador de carregamento sobrepostos.
+ * Passa todas as props necessárias para os componentes filhos `ThreeScene`, `InfoPanel`, `SimulationTransportBar`, `CursorCoordinatesReadout` e `EquipmentLoadStatus`.
  * @param {MainSceneAreaProps} props As props do componente.
  * @returns {JSX.Element} O componente MainSceneArea.
  */
@@ -79,18 +134,49 @@ export function MainSceneArea({
   onCameraChange,
   initialCameraPosition,
   initialCameraLookAt,
+  groundBounds,
+  terrain = null,
+  sitePlan = null,
+  equipmentTypeModels,
+  georeference,
   colorMode,
   targetSystemToFrame,
   onSystemFramed,
+  targetTagsToFrame,
+  onEquipmentFramed,
   selectedEquipmentDetails,
   equipmentAnnotation,
   onOpenAnnotationDialog,
   onDeleteAnnotation,
   onOperationalStateChange,
-  availableOperationalStatesList,
   onProductChange,
+  onAttributeChange,
   availableProductsList,
+  connectedEquipment,
+  onNavigateToEquipment,
+  onTraceFlow,
+  onPlanIsolation,
+  equipmentHistory,
+  isReadOnly,
+  isolationValveTags,
+  flowingPipes,
+  alarmedEquipmentTags,
+  simulationClock,
+  isEquipmentLoading,
+  equipmentLoadError,
+  onRetryEquipmentLoad,
 }: MainSceneAreaProps): JSX.Element {
+  const [cursorPoint, setCursorPoint] = useState<ScenePoint | null>(null);
+  const { toast } = useToast();
+
+  const handleModelLoadError = useCallback((error: Error) => {
+    toast({
+      title: "Falha ao Carregar o Modelo 3D",
+      description: `${error.message} O equipamento segue com a forma padrão; uma nova tentativa é feita após um minuto, quando a cena for atualizada.`,
+      variant: "destructive",
+    });
+  }, [toast]);
+
   return (
     <div className="flex-1 relative w-full bg-muted/20 min-w-0"> {/* min-w-0 é importante para flexbox */}
       <ThreeScene
@@ -105,10 +191,24 @@ export function MainSceneArea({
         onCameraChange={onCameraChange}
         initialCameraPosition={initialCameraPosition}
         initialCameraLookAt={initialCameraLookAt}
+        groundBounds={groundBounds}
+        terrain={terrain}
+        sitePlan={sitePlan}
+        equipmentTypeModels={equipmentTypeModels}
+        onModelLoadError={handleModelLoadError}
         colorMode={colorMode}
         targetSystemToFrame={targetSystemToFrame}
         onSystemFramed={onSystemFramed}
+        targetTagsToFrame={targetTagsToFrame}
+        onEquipmentFramed={onEquipmentFramed}
+        isolationValveTags={isolationValveTags}
+        flowingPipes={flowingPipes}
+        alarmedEquipmentTags={alarmedEquipmentTags}
+        simulationClock={simulationClock}
+        onCursorPositionChange={setCursorPoint}
       />
+      <SimulationTransportBar simulationClock={simulationClock} />
+      <CursorCoordinatesReadout point={cursorPoint} georeference={georeference} />
       <InfoPanel
         equipment={selectedEquipmentDetails}
         annotation={equipmentAnnotation}
@@ -116,9 +216,20 @@ export function MainSceneArea({
         onOpenAnnotationDialog={onOpenAnnotationDialog}
         onDeleteAnnotation={onDeleteAnnotation}
         onOperationalStateChange={onOperationalStateChange}
-        availableOperationalStatesList={availableOperationalStatesList}
         onProductChange={onProductChange}
+        onAttributeChange={onAttributeChange}
         availableProductsList={availableProductsList}
+        connectedEquipment={connectedEquipment}
+        onNavigateToEquipment={onNavigateToEquipment}
+        onTraceFlow={onTraceFlow}
+        onPlanIsolation={onPlanIsolation}
+        history={equipmentHistory}
+        isReadOnly={isReadOnly}
+      />
+      <EquipmentLoadStatus
+        isLoading={isEquipmentLoading}
+        loadError={equipmentLoadError}
+        onRetry={onRetryEquipmentLoad}
       />
     </div>
   );
@@ -0,0 +1,137 @@
+/**
+ * @fileOverview Linha do tempo da revisão histórica, sobreposta à parte inferior da cena 3D.
+ * Fora da revisão, exibe apenas o botão para iniciá-la. Durante a revisão, exibe o instante reconstruído,
+ * o controle de reprodução e de velocidade, o cursor da linha do tempo e um marcador para cada alteração.
+ */
+"use client";
+
+import { HistoryIcon, PauseIcon, PlayIcon, XIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PLAYBACK_SPEEDS, type PlaybackMarker, type PlaybackRange } from '@/core/logic/state-playback';
+
+/**
+ * Props para o componente PlaybackTimeline.
+ * @interface PlaybackTimelineProps
+ * @property {boolean} isActive - Indica se a revisão histórica está ativa.
+ * @property {boolean} canStart - Indica se há alterações registradas para revisar.
+ * @property {PlaybackRange | null} range - O intervalo da linha do tempo.
+ * @property {PlaybackMarker[]} markers - Os marcadores das alterações.
+ * @property {number} time - O instante exibido, em milissegundos desde a época.
+ * @property {boolean} isPlaying - Indica se a reprodução está avançando.
+ * @property {number} speed - A velocidade de reprodução.
+ * @property {() => void} onStart - Callback para iniciar a revisão.
+ * @property {() => void} onStop - Callback para encerrar a revisão.
+ * @property {(time: number) => void} onSeek - Callback para posicionar a linha do tempo.
+ * @property {() => void} onTogglePlaying - Callback para iniciar/pausar a reprodução.
+ * @property {(speed: number) => void} onSpeedChange - Callback para alterar a velocidade.
+ */
+interface PlaybackTimelineProps {
+  isActive: boolean;
+  canStart: boolean;
+  range: PlaybackRange | null;
+  markers: PlaybackMarker[];
+  time: number;
+  isPlaying: boolean;
+  speed: number;
+  onStart: () => void;
+  onStop: () => void;
+  onSeek: (time: number) => void;
+  onTogglePlaying: () => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+/**
+ * Renderiza a linha do tempo da revisão histórica.
+ * @param {PlaybackTimelineProps} props As props do componente.
+ * @returns {JSX.Element} O componente PlaybackTimeline.
+ */
+export function PlaybackTimeline({
+  isActive,
+  canStart,
+  range,
+  markers,
+  time,
+  isPlaying,
+  speed,
+  onStart,
+  onStop,
+  onSeek,
+  onTogglePlaying,
+  onSpeedChange,
+}: PlaybackTimelineProps): JSX.Element {
+  if (!isActive || !range) {
+    return (
+      <Button
+        variant="secondary"
+        size="sm"
+        className="absolute bottom-4 right-4 z-20 shadow-lg"
+        onClick={onStart}
+        disabled={!canStart}
+        title={canStart ? 'Rever o estado da planta em um instante passado' : 'Nenhuma alteração registrada para revisar'}
+      >
+        <HistoryIcon className="mr-2 h-4 w-4" /> Revisão histórica
+      </Button>
+    );
+  }
+
+  const duration = Math.max(range.end - range.start, 1);
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 w-[min(40rem,calc(100%-2rem))] space-y-2 rounded-md bg-card/90 px-3 py-2 text-sm shadow-lg backdrop-blur-sm">
+      <div className="flex items-center gap-2">
+        <Badge variant="secondary" className="text-[10px]">Somente leitura</Badge>
+        <span className="font-mono text-xs tabular-nums">{format(time, 'dd/MM/yyyy HH:mm:ss')}</span>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onTogglePlaying}
+            aria-label={isPlaying ? 'Pausar reprodução' : 'Reproduzir'}
+            title={isPlaying ? 'Pausar' : 'Reproduzir'}
+          >
+            {isPlaying ? <PauseIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+          </Button>
+          <Select value={String(speed)} onValueChange={(value) => onSpeedChange(Number(value))}>
+            <SelectTrigger className="h-7 w-[5.5rem] text-xs" aria-label="Velocidade da reprodução">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_SPEEDS.map(option => (
+                <SelectItem key={option} value={String(option)} className="text-xs">{option}x</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onStop} aria-label="Encerrar revisão histórica" title="Voltar ao estado atual">
+            <XIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="relative pt-3">
+        {markers.map(marker => (
+          <button
+            key={marker.id}
+            type="button"
+            className={`absolute top-0 h-3 w-1 -translate-x-1/2 rounded-sm ${marker.time <= time ? 'bg-primary' : 'bg-muted-foreground/50'}`}
+            style={{ left: `${((marker.time - range.start) / duration) * 100}%` }}
+            onClick={() => onSeek(marker.time)}
+            title={`${format(marker.time, 'dd/MM/yyyy HH:mm:ss')} · ${marker.description}`}
+            aria-label={`Ir para a alteração: ${marker.description}`}
+          />
+        ))}
+        <Slider
+          min={range.start}
+          max={range.end}
+          step={1000}
+          value={[time]}
+          onValueChange={([value]) => onSeek(value)}
+          aria-label="Instante da revisão"
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 
 /**
  * @fileoverview Componente para renderizar o conteúdo principal da sidebar.
- * Inclui os controles de filtro (busca por texto, sistema, área), o seletor de modo de coloração,
- * o gerenciador de camadas de visibilidade e os controles de câmera ("Focus on System").
+ * Inclui os controles de filtro (busca por texto, sistema, área, atributo), o seletor de modo de coloração,
+ * o gerenciador de camadas de visibilidade, o relevo do terreno, a planta do terminal, os controles de câmera ("Focus on System"), o painel de fonte de dados
+ * a lista de alarmes, os snapshots do espaço de trabalho e o acesso ao histórico de alterações.
  */
 "use client";
 
@@ -16,7 +17,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { LayerManager } from "@/components/layer-manager";
 import { ColorModeSelector } from "@/components/color-mode-selector";
 import { CameraControlsPanel } from "@/components/camera-controls-panel";
-import { XIcon, SearchIcon, FilterIcon } from "lucide-react";
+import { DataSourcePanel } from "@/components/data-source-panel";
+import { AlarmPanel } from "@/components/alarm-panel";
+import { WorkspacePanel } from "@/components/workspace-panel";
+import { TerrainPanel } from "@/components/terrain-panel";
+import { SitePlanPanel } from "@/components/site-plan-panel";
+import type { Alarm } from "@/core/logic/alarm-engine";
+import type { CsvFormatOptions } from "@/core/logic/equipment-csv";
+import type { WorkspaceSnapshot } from "@/core/logic/workspace-snapshot";
+import type { TerrainSettings, TerrainSurface } from "@/core/logic/terrain-elevation";
+import type { SitePlanControlPoint } from "@/core/logic/site-plan";
+import { formatAttributeValue, type AttributeDefinition, type AttributeFilter } from "@/core/logic/equipment-attributes";
+import { XIcon, SearchIcon, FilterIcon, HistoryIcon } from "lucide-react";
 
 /**
  * Props para o componente SidebarContentLayout.
@@ -29,12 +41,61 @@ import { XIcon, SearchIcon, FilterIcon } from "lucide-react";
  * @property {string} selectedArea - A área selecionada para filtro.
  * @property {(value: string) => void} setSelectedArea - Função para atualizar a área selecionada.
  * @property {string[]} availableAreas - Lista de áreas disponíveis para filtro.
+ * @property {AttributeFilter | null} attributeFilter - O filtro por atributo customizado (ou null).
+ * @property {(filter: AttributeFilter | null) => void} setAttributeFilter - Função para atualizar o filtro por atributo.
+ * @property {AttributeDefinition[]} availableAttributes - Atributos disponíveis para filtro e para o modo de coloração.
+ * @property {string[]} availableAttributeValues - Valores disponíveis do atributo filtrado.
  * @property {ColorMode} colorMode - O modo de colorização atual.
  * @property {(mode: ColorMode) => void} onColorModeChange - Função para atualizar o modo de colorização.
  * @property {Layer[]} layers - Lista de camadas para o LayerManager.
  * @property {(layerId: string) => void} onToggleLayer - Função para alternar a visibilidade de uma camada.
+ * @property {TerrainSurface | null} terrain - O relevo do terreno, ou null se o chão for plano.
+ * @property {string | null} terrainLabel - Origem do relevo atual (URL ou nome do arquivo).
+ * @property {TerrainSettings} terrainSettings - A extensão e a escala vertical do relevo.
+ * @property {boolean} isTerrainLoading - Indica se um relevo está sendo carregado.
+ * @property {string | null} terrainError - Mensagem do último erro ao carregar o relevo, ou null.
+ * @property {boolean} snapEquipmentToTerrain - Se os equipamentos estão assentados sobre o terreno.
+ * @property {(snap: boolean) => void} onSnapEquipmentToTerrainChange - Callback para ligar ou desligar o assentamento.
+ * @property {(file: File) => void} onUploadTerrainFile - Callback para carregar um mapa de altura ou uma grade de elevações.
+ * @property {(settings: Pick<TerrainSettings, 'extent' | 'verticalScale'>) => void} onApplyTerrainSettings - Callback para alterar a extensão e a escala vertical.
+ * @property {() => void} onClearTerrain - Callback para voltar ao chão plano.
+ * @property {string | null} sitePlanImageName - Nome da imagem da planta do terminal, ou null se não houver planta.
+ * @property {{ width: number; height: number } | null} sitePlanImageSize - Dimensões da imagem da planta, em pixels.
+ * @property {SitePlanControlPoint[]} sitePlanControlPoints - Os pontos de controle da planta.
+ * @property {number} sitePlanOpacity - A opacidade da planta, de 0 a 1.
+ * @property {number | null} sitePlanFitError - Erro médio quadrático dos pontos de controle, em metros.
+ * @property {boolean} isSitePlanLoading - Indica se uma planta está sendo carregada.
+ * @property {boolean} isSitePlanPersisted - Indica se a planta é gravada no navegador.
+ * @property {(file: File) => void} onUploadSitePlanImage - Callback para usar uma imagem PNG/JPG como planta.
+ * @property {(points: SitePlanControlPoint[]) => void} onApplySitePlanControlPoints - Callback para aplicar os pontos de controle.
+ * @property {(opacity: number) => void} onSitePlanOpacityChange - Callback para alterar a opacidade da planta.
+ * @property {() => void} onClearSitePlan - Callback para remover a planta.
+ * @property {() => void} onCopySitePlanConfig - Callback para copiar a configuração da planta para o terminal.
  * @property {string[]} cameraViewSystems - Lista de nomes de sistemas para o CameraControlsPanel.
  * @property {(systemName: string) => void} onFocusAndSelectSystem - Callback para focar e selecionar um sistema.
+ * @property {string} dataSourceLabel - Descrição da fonte de dados de equipamentos atual.
+ * @property {boolean} isStatePersisted - Indica se as alterações de estado/produto são sincronizadas com o Firestore.
+ * @property {boolean} isEquipmentLoading - Indica se os equipamentos estão sendo carregados.
+ * @property {(file: File) => void} onUploadEquipmentFile - Callback para carregar equipamentos de um arquivo enviado pelo usuário.
+ * @property {() => void} onReloadEquipment - Callback para recarregar a fonte de dados atual.
+ * @property {(file: File, format: CsvFormatOptions) => void} onUploadEquipmentCsv - Callback para importar equipamentos de um CSV.
+ * @property {number} exportableEquipmentCount - Quantidade de equipamentos filtrados disponíveis para exportação.
+ * @property {(format: CsvFormatOptions, includeWorldCoordinates: boolean) => void} onExportEquipmentCsv - Callback para exportar os equipamentos filtrados em CSV.
+ * @property {boolean} canExportWorldCoordinates - Indica se o terminal aberto é georreferenciado.
+ * @property {Alarm[]} alarms - A lista de alarmes.
+ * @property {(alarmId: string) => void} onAcknowledgeAlarm - Callback para reconhecer um alarme.
+ * @property {() => void} onAcknowledgeAllAlarms - Callback para reconhecer todos os alarmes.
+ * @property {(equipmentTag: string) => void} onNavigateToEquipment - Callback para selecionar e enquadrar um equipamento (e.g., o de um alarme).
+ * @property {() => void} onOpenAlarmRules - Callback para abrir o editor das regras de alarme.
+ * @property {number} auditEntryCount - Quantidade de registros no histórico de alterações.
+ * @property {() => void} onOpenAuditLog - Callback para abrir o histórico de alterações.
+ * @property {WorkspaceSnapshot[]} workspaceSnapshots - Os snapshots salvos do espaço de trabalho.
+ * @property {boolean} isWorkspacePersisted - Indica se os snapshots são gravados no navegador.
+ * @property {(name: string) => void} onSaveWorkspace - Callback para salvar o espaço de trabalho com um nome.
+ * @property {(name: string) => void} onExportWorkspace - Callback para exportar o espaço de trabalho em JSON.
+ * @property {(file: File) => void} onImportWorkspaceFile - Callback chamado com o arquivo JSON de um snapshot a importar.
+ * @property {(name: string) => void} onRestoreWorkspace - Callback para restaurar um snapshot salvo.
+ * @property {(name: string) => void} onDeleteWorkspace - Callback para excluir um snapshot salvo.
  */
 interface SidebarContentLayoutProps {
   searchTerm: string;
@@ -45,12 +106,74 @@ interface SidebarContentLayoutProps {
   selectedArea: string;
   setSelectedArea: (value: string) => void;
   availableAreas: string[];
+  attributeFilter: AttributeFilter | null;
+  setAttributeFilter: (filter: AttributeFilter | null) => void;
+  availableAttributes: AttributeDefinition[];
+  availableAttributeValues: string[];
   colorMode: ColorMode;
   onColorModeChange: (mode: ColorMode) => void;
   layers: Layer[];
   onToggleLayer: (layerId: string) => void;
+  terrain: TerrainSurface | null;
+  terrainLabel: string | null;
+  terrainSettings: TerrainSettings;
+  isTerrainLoading: boolean;
+  terrainError: string | null;
+  snapEquipmentToTerrain: boolean;
+  onSnapEquipmentToTerrainChange: (snap: boolean) => void;
+  onUploadTerrainFile: (file: File) => void;
+  onApplyTerrainSettings: (settings: Pick<TerrainSettings, 'extent' | 'verticalScale'>) => void;
+  onClearTerrain: () => void;
+  sitePlanImageName: string | null;
+  sitePlanImageSize: { width: number; height: number } | null;
+  sitePlanControlPoints: SitePlanControlPoint[];
+  sitePlanOpacity: number;
+  sitePlanFitError: number | null;
+  isSitePlanLoading: boolean;
+  isSitePlanPersisted: boolean;
+  onUploadSitePlanImage: (file: File) => void;
+  onApplySitePlanControlPoints: (points: SitePlanControlPoint[]) => void;
+  onSitePlanOpacityChange: (opacity: number) => void;
+  onClearSitePlan: () => void;
+  onCopySitePlanConfig: () => void;
   cameraViewSystems: string[];
   onFocusAndSelectSystem: (systemName: string) => void;
+  dataSourceLabel: string;
+  isStatePersisted: boolean;
+  isEquipmentLoading: boolean;
+  onUploadEquipmentFile: (file: File) => void;
+  onReloadEquipment: () => void;
+  onUploadEquipmentCsv: (file: File, format: CsvFormatOptions) => void;
+  exportableEquipmentCount: number;
+  onExportEquipmentCsv: (format: CsvFormatOptions, includeWorldCoordinates: boolean) => void;
+  canExportWorldCoordinates: boolean;
+  alarms: Alarm[];
+  onAcknowledgeAlarm: (alarmId: string) => void;
+  onAcknowledgeAllAlarms: () => void;
+  onNavigateToEquipment: (equipmentTag: string) => void;
+  onOpenAlarmRules: () => void;
+  auditEntryCount: number;
+  onOpenAuditLog: () => void;
+  workspaceSnapshots: WorkspaceSnapshot[];
+  isWorkspacePersisted: boolean;
+  onSaveWorkspace: (name: string) => void;
+  onExportWorkspace: (name: string) => void;
+  onImportWorkspaceFile: (file: File) => void;
+  onRestoreWorkspace: (name: string) => void;
+  onDeleteWorkspace: (name: string) => void;
+}
+
+/**
+ * Formata uma opção do filtro por atributo (o valor vem como texto; números e booleanos são convertidos de volta).
+ * @param {AttributeDefinition | undefined} definition A definição do atributo filtrado.
+ * @param {string} value O valor, em `attributeValueToString`.
+ * @returns {string} O valor formatado para exibição.
+ */
+function formatAttributeFilterValue(definition: AttributeDefinition | undefined, value: string): string {
+  if (!definition) return value;
+  if (definition.type === 'number') return formatAttributeValue(definition, Number(value));
+  if (definition.type === 'boolean') return formatAttributeValue(definition, value === 'true');
+  return formatAttributeValue(definition, value);
 }
 
 /**
@@ -68,16 +191,72 @@ export function SidebarContentLayout({
   selectedArea,
   setSelectedArea,
   availableAreas,
+  attributeFilter,
+  setAttributeFilter,
+  availableAttributes,
+  availableAttributeValues,
   colorMode,
   onColorModeChange,
   layers,
   onToggleLayer,
+  terrain,
+  terrainLabel,
+  terrainSettings,
+  isTerrainLoading,
+  terrainError,
+  snapEquipmentToTerrain,
+  onSnapEquipmentToTerrainChange,
+  onUploadTerrainFile,
+  onApplyTerrainSettings,
+  onClearTerrain,
+  sitePlanImageName,
+  sitePlanImageSize,
+  sitePlanControlPoints,
+  sitePlanOpacity,
+  sitePlanFitError,
+  isSitePlanLoading,
+  isSitePlanPersisted,
+  onUploadSitePlanImage,
+  onApplySitePlanControlPoints,
+  onSitePlanOpacityChange,
+  onClearSitePlan,
+  onCopySitePlanConfig,
   cameraViewSystems,
   onFocusAndSelectSystem,
+  dataSourceLabel,
+  isStatePersisted,
+  isEquipmentLoading,
+  onUploadEquipmentFile,
+  onReloadEquipment,
+  onUploadEquipmentCsv,
+  exportableEquipmentCount,
+  onExportEquipmentCsv,
+  canExportWorldCoordinates,
+  alarms,
+  onAcknowledgeAlarm,
+  onAcknowledgeAllAlarms,
+  onNavigateToEquipment,
+  onOpenAlarmRules,
+  auditEntryCount,
+  onOpenAuditLog,
+  workspaceSnapshots,
+  isWorkspacePersisted,
+  onSaveWorkspace,
+  onExportWorkspace,
+  onImportWorkspaceFile,
+  onRestoreWorkspace,
+  onDeleteWorkspace,
 }: SidebarContentLayoutProps): JSX.Element {
   return (
     <ScrollArea className="h-full flex-1">
       <div className="p-4 space-y-6 pb-6">
+        <AlarmPanel
+          alarms={alarms}
+          onAcknowledge={onAcknowledgeAlarm}
+          onAcknowledgeAll={onAcknowledgeAllAlarms}
+          onNavigateToEquipment={onNavigateToEquipment}
+          onEditRules={onOpenAlarmRules}
+        />
         <CameraControlsPanel systems={cameraViewSystems} onSetView={onFocusAndSelectSystem} />
 
         <Card className="shadow-md">
@@ -150,14 +329,107 @@ export function SidebarContentLayout({
                 </SelectContent>
               </Select>
             </div>
+
+            {availableAttributes.length > 0 && (
+              <div className="space-y-1">
+                <Label htmlFor="filter-attribute" className="text-xs text-muted-foreground">
+                  Filtrar por Atributo
+                </Label>
+                <Select
+                  value={attributeFilter?.key ?? 'All'}
+                  onValueChange={(key) => setAttributeFilter(key === 'All' ? null : { key, value: null })}
+                >
+                  <SelectTrigger id="filter-attribute" className="h-9">
+                    <SelectValue placeholder="Nenhum atributo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="All">Nenhum atributo</SelectItem>
+                    {availableAttributes.map((definition) => (
+                      <SelectItem key={definition.key} value={definition.key}>
+                        {definition.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {attributeFilter && (
+                  <Select
+                    value={attributeFilter.value ?? 'All'}
+                    onValueChange={(value) => setAttributeFilter({ key: attributeFilter.key, value: value === 'All' ? null : value })}
+                  >
+                    <SelectTrigger id="filter-attribute-value" className="h-9" aria-label="Valor do atributo">
+                      <SelectValue placeholder="Qualquer valor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="All">Qualquer valor</SelectItem>
+                      {availableAttributeValues.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {formatAttributeFilterValue(availableAttributes.find(definition => definition.key === attributeFilter.key), value)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
         <ColorModeSelector
           colorMode={colorMode}
           onColorModeChange={onColorModeChange}
+          attributeOptions={availableAttributes}
         />
         <LayerManager layers={layers} onToggleLayer={onToggleLayer} />
+        <TerrainPanel
+          terrain={terrain}
+          terrainLabel={terrainLabel}
+          settings={terrainSettings}
+          isLoading={isTerrainLoading}
+          loadError={terrainError}
+          snapEquipment={snapEquipmentToTerrain}
+          onSnapEquipmentChange={onSnapEquipmentToTerrainChange}
+          onUploadFile={onUploadTerrainFile}
+          onApplySettings={onApplyTerrainSettings}
+          onClear={onClearTerrain}
+        />
+        <SitePlanPanel
+          imageName={sitePlanImageName}
+          imageSize={sitePlanImageSize}
+          controlPoints={sitePlanControlPoints}
+          opacity={sitePlanOpacity}
+          fitError={sitePlanFitError}
+          isLoading={isSitePlanLoading}
+          isPersisted={isSitePlanPersisted}
+          onUploadImage={onUploadSitePlanImage}
+          onApplyControlPoints={onApplySitePlanControlPoints}
+          onOpacityChange={onSitePlanOpacityChange}
+          onClear={onClearSitePlan}
+          onCopyConfig={onCopySitePlanConfig}
+        />
+        <DataSourcePanel
+          dataSourceLabel={dataSourceLabel}
+          isStatePersisted={isStatePersisted}
+          isLoading={isEquipmentLoading}
+          onUploadFile={onUploadEquipmentFile}
+          onUploadCsvFile={onUploadEquipmentCsv}
+          exportableCount={exportableEquipmentCount}
+          onExportCsv={onExportEquipmentCsv}
+          canExportWorldCoordinates={canExportWorldCoordinates}
+          onReload={onReloadEquipment}
+        />
+        <WorkspacePanel
+          snapshots={workspaceSnapshots}
+          isPersisted={isWorkspacePersisted}
+          onSave={onSaveWorkspace}
+          onExport={onExportWorkspace}
+          onImportFile={onImportWorkspaceFile}
+          onRestore={onRestoreWorkspace}
+          onDelete={onDeleteWorkspace}
+        />
+        <Button variant="outline" className="w-full" onClick={onOpenAuditLog}>
+          <HistoryIcon className="mr-2 h-4 w-4" />
+          Histórico de Alterações ({auditEntryCount})
+        </Button>
       </div>
     </ScrollArea>
   );
@@ -0,0 +1,78 @@
+/**
+ * @fileOverview Barra de controle da simulação (play/pause, passo e velocidade), sobreposta à cena 3D.
+ * Exibe o tempo simulado decorrido e atua diretamente sobre o relógio da simulação.
+ */
+"use client";
+
+import { PauseIcon, PlayIcon, StepForwardIcon, TimerIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SIMULATION_SPEEDS, type SimulationClock } from '@/core/logic/simulation-clock';
+import { useSimulationClockState } from '@/hooks/use-simulation-clock-state';
+
+/**
+ * Props para o componente SimulationTransportBar.
+ * @interface SimulationTransportBarProps
+ * @property {SimulationClock} simulationClock - O relógio da simulação controlado pela barra.
+ */
+interface SimulationTransportBarProps {
+  simulationClock: SimulationClock;
+}
+
+/**
+ * Formata um tempo em segundos como "HH:MM:SS".
+ * @param {number} totalSeconds - O tempo em segundos.
+ * @returns {string} O tempo formatado.
+ */
+function formatElapsedTime(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Renderiza a barra de controle da simulação centralizada no topo da cena.
+ * @param {SimulationTransportBarProps} props As props do componente.
+ * @returns {JSX.Element} A barra de controle.
+ */
+export function SimulationTransportBar({ simulationClock }: SimulationTransportBarProps): JSX.Element {
+  const { isRunning, speed, elapsedSeconds } = useSimulationClockState(simulationClock);
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-1 rounded-md bg-card/90 px-2 py-1 text-sm shadow-lg backdrop-blur-sm">
+      <TimerIcon className="h-4 w-4 text-muted-foreground" />
+      <span className="w-16 font-mono text-xs tabular-nums" title="Tempo simulado">{formatElapsedTime(elapsedSeconds)}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={isRunning ? simulationClock.pause : simulationClock.play}
+        aria-label={isRunning ? 'Pausar simulação' : 'Iniciar simulação'}
+        title={isRunning ? 'Pausar' : 'Iniciar'}
+      >
+        {isRunning ? <PauseIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7"
+        onClick={() => simulationClock.step()}
+        disabled={isRunning}
+        aria-label="Avançar um segundo"
+        title="Avançar 1 s (com a simulação pausada)"
+      >
+        <StepForwardIcon className="h-4 w-4" />
+      </Button>
+      <Select value={String(speed)} onValueChange={(value) => simulationClock.setSpeed(Number(value))}>
+        <SelectTrigger className="h-7 w-[4.5rem] text-xs" aria-label="Velocidade da simulação">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SIMULATION_SPEEDS.map(option => (
+            <SelectItem key={option} value={String(option)} className="text-xs">{option}x</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * @fileOverview Componente para carregar e posicionar a planta do terminal (imagem 2D) sobre o chão.
+ * Permite enviar uma imagem PNG/JPG, editar os pontos de controle (pixel da imagem ↔ ponto da cena), ajustar a
+ * opacidade e remover a planta. A visibilidade da planta acompanha a camada "Terreno". A planta é gravada apenas neste
+ * navegador; a configuração copiada pelo painel pode ser incluída no terminal para compartilhá-la.
+ */
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { MapIcon, UploadIcon, Trash2Icon, CheckIcon, PlusIcon, XIcon, CopyIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { MIN_SITE_PLAN_CONTROL_POINTS, type SitePlanControlPoint } from '@/core/logic/site-plan';
+
+/**
+ * Props para o componente SitePlanPanel.
+ * @interface SitePlanPanelProps
+ * @property {string | null} imageName - Nome do arquivo (ou URL) da planta atual, ou null se não houver planta.
+ * @property {{ width: number; height: number } | null} imageSize - Dimensões da imagem, em pixels.
+ * @property {SitePlanControlPoint[]} controlPoints - Os pontos de controle atuais.
+ * @property {number} opacity - A opacidade atual, de 0 a 1.
+ * @property {number | null} fitError - Erro médio quadrático dos pontos de controle, em metros.
+ * @property {boolean} isLoading - Indica se uma planta está sendo carregada.
+ * @property {boolean} isPersisted - Indica se a planta é gravada no navegador.
+ * @property {(file: File) => void} onUploadImage - Callback chamado com a imagem escolhida pelo usuário.
+ * @property {(points: SitePlanControlPoint[]) => void} onApplyControlPoints - Callback para aplicar os pontos de controle.
+ * @property {(opacity: number) => void} onOpacityChange - Callback para alterar a opacidade.
+ * @property {() => void} onClear - Callback para remover a planta.
+ * @property {() => void} onCopyConfig - Callback para copiar a configuração da planta para o terminal.
+ */
+interface SitePlanPanelProps {
+  imageName: string | null;
+  imageSize: { width: number; height: number } | null;
+  controlPoints: SitePlanControlPoint[];
+  opacity: number;
+  fitError: number | null;
+  isLoading: boolean;
+  isPersisted: boolean;
+  onUploadImage: (file: File) => void;
+  onApplyControlPoints: (points: SitePlanControlPoint[]) => void;
+  onOpacityChange: (opacity: number) => void;
+  onClear: () => void;
+  onCopyConfig: () => void;
+}
+
+/** Um ponto de controle em edição, como texto (para permitir valores parciais durante a digitação). */
+type ControlPointDraft = Record<keyof SitePlanControlPoint, string>;
+
+/** Campos de um ponto de controle, na ordem das colunas do formulário. */
+const CONTROL_POINT_FIELDS: { key: keyof SitePlanControlPoint; label: string }[] = [
+  { key: 'pixelX', label: 'Pixel X' },
+  { key: 'pixelY', label: 'Pixel Y' },
+  { key: 'sceneX', label: 'Cena X' },
+  { key: 'sceneZ', label: 'Cena Z' },
+];
+
+const EMPTY_DRAFT: ControlPointDraft = { pixelX: '', pixelY: '', sceneX: '', sceneZ: '' };
+
+const ERROR_FORMAT = new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 2 });
+
+/**
+ * Converte os pontos de controle nos textos dos campos.
+ * @param {SitePlanControlPoint[]} points Os pontos.
+ * @returns {ControlPointDraft[]} Os textos.
+ */
+const toDrafts = (points: SitePlanControlPoint[]): ControlPointDraft[] =>
+  points.map(point => ({
+    pixelX: String(point.pixelX),
+    pixelY: String(point.pixelY),
+    sceneX: String(point.sceneX),
+    sceneZ: String(point.sceneZ),
+  }));
+
+/**
+ * Converte um ponto em edição em números.
+ * @param {ControlPointDraft} draft O ponto em edição.
+ * @returns {SitePlanControlPoint | null} O ponto, ou null se algum campo estiver vazio ou não for um número.
+ */
+const parseDraft = (draft: ControlPointDraft): SitePlanControlPoint | null => {
+  const values = CONTROL_POINT_FIELDS.map(({ key }) => Number(draft[key].replace(',', '.')));
+  if (CONTROL_POINT_FIELDS.some(({ key }) => draft[key].trim() === '') || !values.every(Number.isFinite)) return null;
+  const [pixelX, pixelY, sceneX, sceneZ] = values;
+  return { pixelX, pixelY, sceneX, sceneZ };
+};
+
+/**
+ * Renderiza um Card com a planta atual, seus pontos de controle e a opacidade.
+ * @param {SitePlanPanelProps} props As props do componente.
+ * @returns {JSX.Element} O componente SitePlanPanel.
+ */
+export function SitePlanPanel({
+  imageName,
+  imageSize,
+  controlPoints,
+  opacity,
+  fitError,
+  isLoading,
+  isPersisted,
+  onUploadImage,
+  onApplyControlPoints,
+  onOpacityChange,
+  onClear,
+  onCopyConfig,
+}: SitePlanPanelProps): JSX.Element {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [drafts, setDrafts] = useState<ControlPointDraft[]>(() => toDrafts(controlPoints));
+  // Opacidade exibida durante o arraste; só é aplicada (e gravada) ao soltar o controle.
+  const [opacityDraft, setOpacityDraft] = useState(opacity);
+
+  // Os campos acompanham a planta quando ela muda por fora (e.g., ao trocar de terminal ou enviar outra imagem).
+  useEffect(() => { setDrafts(toDrafts(controlPoints)); }, [controlPoints]);
+  useEffect(() => { setOpacityDraft(opacity); }, [opacity]);
+
+  const parsedPoints = drafts.map(parseDraft);
+  const isDraftValid = parsedPoints.length >= MIN_SITE_PLAN_CONTROL_POINTS && parsedPoints.every(point => point !== null);
+  const hasPlan = imageName !== null;
+
+  /**
+   * Repassa o arquivo escolhido e limpa o input para permitir reenviar o mesmo arquivo.
+   * @param {React.ChangeEvent<HTMLInputElement>} event O evento de `change` do input.
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onUploadImage(file);
+    }
+    event.target.value = '';
+  };
+
+  const updateDraft = (index: number, key: keyof SitePlanControlPoint, value: string) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, [key]: value } : draft)));
+  };
+
+  const handleApply = () => {
+    if (!isDraftValid) return;
+    onApplyControlPoints(parsedPoints as SitePlanControlPoint[]);
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <MapIcon className="mr-2 h-5 w-5" />
+          Planta do Terminal
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground break-words">
+          Atual: <span className="font-medium text-foreground">{imageName ?? 'Nenhuma'}</span>
+          {imageSize && ` (${imageSize.width} x ${imageSize.height} px)`}
+        </p>
+
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+            <UploadIcon className="mr-2 h-4 w-4" /> {isLoading ? 'Carregando...' : 'Carregar Planta'}
+          </Button>
+          <Button variant="outline" size="icon" className="h-9 w-9" onClick={onClear} disabled={!hasPlan && !isLoading} aria-label="Remover a planta">
+            <Trash2Icon className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {hasPlan && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="site-plan-opacity" className="text-xs font-normal text-muted-foreground">
+                Opacidade: {Math.round(opacityDraft * 100)}%
+              </Label>
+              <Slider
+                id="site-plan-opacity"
+                min={0}
+                max={100}
+                step={5}
+                value={[Math.round(opacityDraft * 100)]}
+                onValueChange={([value]) => setOpacityDraft(value / 100)}
+                onValueCommit={([value]) => onOpacityChange(value / 100)}
+              />
+            </div>
+
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-xs text-muted-foreground">
+                Pontos de controle: o pixel da imagem (a partir do canto superior esquerdo) e o ponto correspondente no chão da cena.
+              </p>
+              <div className="grid grid-cols-[repeat(4,minmax(0,1fr))_auto] gap-1 items-center">
+                {CONTROL_POINT_FIELDS.map(({ key, label }) => (
+                  <span key={key} className="text-[10px] text-muted-foreground">{label}</span>
+                ))}
+                <span />
+                {drafts.map((draft, index) => (
+                  <div key={index} className="contents">
+                    {CONTROL_POINT_FIELDS.map(({ key, label }) => (
+                      <Input
+                        key={key}
+                        inputMode="decimal"
+                        value={draft[key]}
+                        onChange={(e) => updateDraft(index, key, e.target.value)}
+                        className="h-7 px-1 text-xs"
+                        aria-label={`${label} do ponto ${index + 1}`}
+                      />
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                      disabled={drafts.length <= MIN_SITE_PLAN_CONTROL_POINTS}
+                      aria-label={`Remover o ponto ${index + 1}`}
+                    >
+                      <XIcon className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" className="flex-1" onClick={() => setDrafts(prev => [...prev, EMPTY_DRAFT])}>
+                  <PlusIcon className="mr-2 h-4 w-4" /> Ponto
+                </Button>
+                <Button variant="outline" size="sm" className="flex-1" onClick={handleApply} disabled={!isDraftValid}>
+                  <CheckIcon className="mr-2 h-4 w-4" /> Aplicar
+                </Button>
+              </div>
+              {fitError !== null && controlPoints.length > MIN_SITE_PLAN_CONTROL_POINTS && (
+                <p className="text-xs text-muted-foreground">Erro médio dos pontos: {ERROR_FORMAT.format(fitError)} m</p>
+              )}
+            </div>
+          </>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          {isPersisted
+            ? 'A planta e seus pontos de controle são gravados apenas neste navegador; outros operadores não a veem. Para compartilhá-la, copie a configuração e inclua-a no terminal.'
+            : 'A planta não será gravada: o armazenamento do navegador não está disponível.'}
+        </p>
+        {hasPlan && (
+          <Button variant="outline" size="sm" className="w-full" onClick={onCopyConfig}>
+            <CopyIcon className="mr-2 h-4 w-4" /> Copiar configuração
+          </Button>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/png,image/jpeg,.png,.jpg,.jpeg"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </CardContent>
+    </Card>
+  );
+}
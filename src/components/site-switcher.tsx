@@ -0,0 +1,43 @@
+/**
+ * @fileOverview Seletor do terminal (site) exibido no cabeçalho da sidebar.
+ * Trocar de terminal carrega os equipamentos, as camadas e a câmera padrão do terminal escolhido.
+ */
+"use client";
+
+import { MapPinIcon } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Site } from '@/core/data/sites';
+
+/**
+ * Props para o componente SiteSwitcher.
+ * @interface SiteSwitcherProps
+ * @property {Site[]} sites - Os terminais disponíveis.
+ * @property {string} activeSiteId - O id do terminal aberto.
+ * @property {(siteId: string) => void} onSiteChange - Callback para abrir outro terminal.
+ */
+interface SiteSwitcherProps {
+  sites: Site[];
+  activeSiteId: string;
+  onSiteChange: (siteId: string) => void;
+}
+
+/**
+ * Renderiza o seletor de terminais.
+ * @param {SiteSwitcherProps} props As props do componente.
+ * @returns {JSX.Element} O componente SiteSwitcher.
+ */
+export function SiteSwitcher({ sites, activeSiteId, onSiteChange }: SiteSwitcherProps): JSX.Element {
+  return (
+    <Select value={activeSiteId} onValueChange={onSiteChange} disabled={sites.length < 2}>
+      <SelectTrigger className="h-8 text-sm" aria-label="Terminal">
+        <MapPinIcon className="mr-1.5 h-4 w-4 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {sites.map(site => (
+          <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * @fileOverview Componente para carregar e ajustar o relevo do terreno.
+ * Mostra a origem do terreno atual, permite carregar um mapa de altura (imagem em tons de cinza) ou uma grade de
+ * elevações (CSV ou ESRI ASCII Grid), ajustar a extensão e a escala vertical, assentar os equipamentos sobre o
+ * terreno e voltar ao chão plano. A visibilidade do terreno continua sendo controlada pela camada "Terreno".
+ */
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { MountainIcon, UploadIcon, Trash2Icon, CheckIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { SiteBounds } from '@/lib/types';
+import type { TerrainSettings, TerrainSurface } from '@/core/logic/terrain-elevation';
+
+/**
+ * Props para o componente TerrainPanel.
+ * @interface TerrainPanelProps
+ * @property {TerrainSurface | null} terrain - O terreno atual, ou null se o chão for plano.
+ * @property {string | null} terrainLabel - Origem do terreno atual (URL ou nome do arquivo).
+ * @property {TerrainSettings} settings - A extensão e a escala vertical atuais.
+ * @property {boolean} isLoading - Indica se um terreno está sendo carregado.
+ * @property {string | null} loadError - Mensagem do último erro de carregamento, ou null.
+ * @property {boolean} snapEquipment - Se os equipamentos estão assentados sobre o terreno.
+ * @property {(snap: boolean) => void} onSnapEquipmentChange - Callback para ligar ou desligar o assentamento.
+ * @property {(file: File) => void} onUploadFile - Callback chamado com o arquivo escolhido pelo usuário.
+ * @property {(settings: Pick<TerrainSettings, 'extent' | 'verticalScale'>) => void} onApplySettings - Callback para aplicar a extensão e a escala vertical.
+ * @property {() => void} onClear - Callback para voltar ao chão plano.
+ */
+interface TerrainPanelProps {
+  terrain: TerrainSurface | null;
+  terrainLabel: string | null;
+  settings: TerrainSettings;
+  isLoading: boolean;
+  loadError: string | null;
+  snapEquipment: boolean;
+  onSnapEquipmentChange: (snap: boolean) => void;
+  onUploadFile: (file: File) => void;
+  onApplySettings: (settings: Pick<TerrainSettings, 'extent' | 'verticalScale'>) => void;
+  onClear: () => void;
+}
+
+/** Campos editáveis do painel, como texto (para permitir valores parciais durante a digitação). */
+type SettingsDraft = Record<keyof SiteBounds | 'verticalScale', string>;
+
+/**
+ * Converte a configuração atual nos textos dos campos.
+ * @param {TerrainSettings} settings A configuração.
+ * @returns {SettingsDraft} Os textos.
+ */
+const toDraft = (settings: TerrainSettings): SettingsDraft => ({
+  minX: String(settings.extent.minX),
+  maxX: String(settings.extent.maxX),
+  minZ: String(settings.extent.minZ),
+  maxZ: String(settings.extent.maxZ),
+  verticalScale: String(settings.verticalScale),
+});
+
+/** Rótulos dos campos da extensão, na ordem da grade do formulário. */
+const EXTENT_FIELDS: { key: keyof SiteBounds; label: string }[] = [
+  { key: 'minX', label: 'X mín.' },
+  { key: 'maxX', label: 'X máx.' },
+  { key: 'minZ', label: 'Z mín.' },
+  { key: 'maxZ', label: 'Z máx.' },
+];
+
+const HEIGHT_FORMAT = new Intl.NumberFormat('pt-BR', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/**
+ * Renderiza um Card com o terreno atual e os controles de relevo.
+ * @param {TerrainPanelProps} props As props do componente.
+ * @returns {JSX.Element} O componente TerrainPanel.
+ */
+export function TerrainPanel({
+  terrain,
+  terrainLabel,
+  settings,
+  isLoading,
+  loadError,
+  snapEquipment,
+  onSnapEquipmentChange,
+  onUploadFile,
+  onApplySettings,
+  onClear,
+}: TerrainPanelProps): JSX.Element {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<SettingsDraft>(() => toDraft(settings));
+
+  // Os campos acompanham a configuração quando ela muda por fora (e.g., ao trocar de terminal ou carregar um arquivo).
+  useEffect(() => { setDraft(toDraft(settings)); }, [settings]);
+
+  const parsed = Object.fromEntries(
+    Object.entries(draft).map(([key, text]) => [key, Number(text.replace(',', '.'))])
+  ) as Record<keyof SettingsDraft, number>;
+  const isDraftValid = Object.entries(draft).every(([, text]) => text.trim() !== '')
+    && Object.values(parsed).every(Number.isFinite)
+    && parsed.verticalScale > 0
+    && parsed.maxX > parsed.minX
+    && parsed.maxZ > parsed.minZ;
+
+  /**
+   * Repassa o arquivo escolhido e limpa o input para permitir reenviar o mesmo arquivo.
+   * @param {React.ChangeEvent<HTMLInputElement>} event O evento de `change` do input.
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      onUploadFile(file);
+    }
+    event.target.value = '';
+  };
+
+  const handleApply = () => {
+    if (!isDraftValid) return;
+    const { verticalScale, minX, maxX, minZ, maxZ } = parsed;
+    onApplySettings({ extent: { minX, maxX, minZ, maxZ }, verticalScale });
+  };
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <MountainIcon className="mr-2 h-5 w-5" />
+          Terreno
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground break-words">
+          Atual: <span className="font-medium text-foreground">{terrainLabel ?? 'Plano (sem relevo)'}</span>
+        </p>
+        {terrain && (
+          <p className="text-xs text-muted-foreground">
+            Elevação de {HEIGHT_FORMAT.format(terrain.minHeight)} m a {HEIGHT_FORMAT.format(terrain.maxHeight)} m
+            ({terrain.columns} x {terrain.rows} pontos)
+          </p>
+        )}
+        {loadError && <p className="text-xs text-destructive break-words">{loadError}</p>}
+
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+            <UploadIcon className="mr-2 h-4 w-4" /> {isLoading ? 'Carregando...' : 'Carregar Relevo'}
+          </Button>
+          <Button variant="outline" size="icon" className="h-9 w-9" onClick={onClear} disabled={!terrain && !isLoading} aria-label="Voltar ao chão plano">
+            <Trash2Icon className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Mapa de altura (imagem em tons de cinza) ou grade de elevações (CSV ou ESRI ASCII Grid). A primeira linha é a borda norte (menor Z).
+        </p>
+
+        <div className="space-y-2 border-t pt-3">
+          <div className="grid grid-cols-2 gap-2">
+            {EXTENT_FIELDS.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <Label htmlFor={`terrain-${key}`} className="text-xs font-normal text-muted-foreground">{label}</Label>
+                <Input
+                  id={`terrain-${key}`}
+                  inputMode="decimal"
+                  value={draft[key]}
+                  onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="h-8 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="terrain-vertical-scale" className="text-xs font-normal text-muted-foreground">
+              Escala vertical (m por unidade; altura do branco nos mapas de altura)
+            </Label>
+            <Input
+              id="terrain-vertical-scale"
+              inputMode="decimal"
+              value={draft.verticalScale}
+              onChange={(e) => setDraft(prev => ({ ...prev, verticalScale: e.target.value }))}
+              className="h-8 text-xs"
+            />
+          </div>
+          <Button variant="outline" size="sm" className="w-full" onClick={handleApply} disabled={!isDraftValid}>
+            <CheckIcon className="mr-2 h-4 w-4" /> Aplicar
+          </Button>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="terrain-snap-equipment"
+            checked={snapEquipment}
+            onCheckedChange={checked => onSnapEquipmentChange(checked === true)}
+            disabled={!terrain}
+          />
+          <Label htmlFor="terrain-snap-equipment" className="text-xs font-normal cursor-pointer">
+            Assentar equipamentos no terreno
+          </Label>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,.csv,.txt,.asc"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </CardContent>
+    </Card>
+  );
+}
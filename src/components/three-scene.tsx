@@ -5,29 +5,41 @@
  * Responsabilidades Principais:
  * - Orquestrar o setup inicial da cena 3D (câmera, luzes, renderizadores, controles, chão, pós-processamento)
  *   utilizando módulos utilitários de `src/core/three/`.
- * - Gerenciar a criação e atualização dos meshes de equipamentos na cena, delegando para `scene-elements-setup`.
+ * - Gerenciar a criação e atualização dos meshes de equipamentos na cena, delegando para `scene-elements-setup`;
+ *   equipamentos idênticos são desenhados por instâncias (`equipment-instancing`).
  * - Gerenciar a exibição de indicadores visuais (pins) para anotações, delegando para `label-renderer-utils`.
- * - Delegar interações do mouse (clique, hover) para o `mouse-interaction-manager`.
- * - Utilizar o hook `useSceneOutline` para aplicar efeitos visuais (aura do OutlinePass) para seleção e hover.
- * - Controlar a câmera programaticamente (aplicar estado externo, focar em sistemas), utilizando `camera-utils`.
+ * - Delegar interações do mouse (clique, hover, ponto do chão sob o cursor) para o `mouse-interaction-manager`.
+ * - Utilizar o hook `useSceneOutline` para aplicar efeitos visuais (aura do OutlinePass) para seleção, hover, válvulas de isolamento e alarmes.
+ * - Controlar a câmera programaticamente (aplicar estado externo, focar em sistemas ou em equipamentos específicos), utilizando `camera-utils`.
+ * - Exibir a animação do fluxo de produto nas tubulações com fluxo ativo, delegando para `flow-animation-utils`.
  * - Gerenciar o loop de animação (usando `useAnimationLoop`) e o redimensionamento da cena.
  */
 "use client";
 
-import React, { useRef, useEffect, useCallback, useState } from 'react';
+import React, { useRef, useEffect, useCallback, useState, useMemo } from 'react';
 import * as THREE from 'three';
 import type { OrbitControls as OrbitControlsType } from 'three/examples/jsm/controls/OrbitControls.js'; // Correção para importação de tipo
 import type { CSS2DRenderer, CSS2DObject } from 'three/examples/jsm/renderers/CSS2DRenderer.js';
 import type { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import type { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass.js';
 
-import type { Equipment, Layer, CameraState, Annotation, ColorMode } from '@/lib/types';
+import type { Equipment, Layer, CameraState, Annotation, ColorMode, SiteBounds } from '@/lib/types';
 import { getEquipmentColor } from '@/core/graphics/color-utils';
-import { createGeometryForItem } from '@/core/three/equipment-geometry-factory';
-import { setupLighting, setupGroundPlane, setupRenderPipeline, updateEquipmentMeshesInScene } from '@/core/three/scene-elements-setup';
+import { getAttributeRange, getColorModeAttributeKey } from '@/core/logic/equipment-attributes';
+import { createGeometryForItem, getEquipmentGeometryKey } from '@/core/three/equipment-geometry-factory';
+import { createInstancedEquipmentMesh, findEquipmentObjects } from '@/core/three/equipment-instancing';
+import { hasPipePath } from '@/core/logic/pipe-path';
+import type { TerrainSurface } from '@/core/logic/terrain-elevation';
+import { applyEquipmentModel, getEquipmentModelUrl, type EquipmentTypeModels } from '@/core/three/equipment-model-loader';
+import { setupLighting, setupGroundPlane, disposeGroundPlane, setupRenderPipeline, updateEquipmentMeshesInScene, disposeEquipmentMesh } from '@/core/three/scene-elements-setup';
+import { createTankFillMesh, hasTankFill, TANK_SHELL_OPACITY } from '@/core/three/tank-fill-utils';
+import { createSitePlanOverlayMesh, disposeSitePlanOverlayMesh, type SitePlanOverlay } from '@/core/three/site-plan-overlay-utils';
 import { updateAnnotationPins } from '@/core/three/label-renderer-utils';
 import { calculateViewForMeshes } from '@/core/three/camera-utils';
-import { processSceneClick, processSceneMouseMove } from '@/core/three/mouse-interaction-manager';
+import { processSceneClick, processSceneMouseMove, getGroundPointUnderCursor } from '@/core/three/mouse-interaction-manager';
+import { advanceFlowIndicators, clearFlowIndicators, updateFlowIndicators } from '@/core/three/flow-animation-utils';
+import type { FlowingPipe } from '@/core/logic/flow-simulation';
+import type { SimulationClock } from '@/core/logic/simulation-clock';
 import { useAnimationLoop } from '@/hooks/use-animation-loop';
 import { useSceneOutline } from '@/hooks/use-scene-outline';
 
@@ -49,6 +61,20 @@ import { useSceneOutline } from '@/hooks/use-scene-outline';
  * @property {ColorMode} colorMode - O modo de colorização atual para os equipamentos.
  * @property {string | null} targetSystemToFrame - O sistema que deve ser enquadrado pela câmera. Se não nulo, a câmera tentará focar nos equipamentos deste sistema.
  * @property {() => void} onSystemFramed - Callback chamado após a câmera terminar de enquadrar um sistema.
+ * @property {string[] | null} targetTagsToFrame - As TAGs dos equipamentos que devem ser enquadrados pela câmera (e.g., um equipamento conectado).
+ * @property {() => void} onEquipmentFramed - Callback chamado após a câmera terminar de enquadrar os equipamentos.
+ * @property {string[]} [isolationValveTags] - Tags das válvulas de um plano de isolamento, destacadas com um contorno próprio.
+ * @property {FlowingPipe[]} [flowingPipes] - Tubulações com fluxo ativo, que recebem a animação do produto escoando.
+ * @property {string[]} [alarmedEquipmentTags] - TAGs dos equipamentos com alarmes não reconhecidos, destacados com contorno pulsante.
+ * @property {SimulationClock} [simulationClock] - Relógio da simulação: avançado pelo loop de animação e usado para animar o fluxo.
+ * @property {SiteBounds} [groundBounds] - Limites da área do terminal, cobertos pelo plano de chão. Padrão: 100 x 100 centrado na origem.
+ * @property {TerrainSurface | null} [terrain] - Relevo do terreno, desenhado no lugar do plano de chão.
+ * @property {SitePlanOverlay | null} [sitePlan] - Planta do terminal, desenhada sobre o chão e exibida com a camada do terreno.
+ * @property {EquipmentTypeModels} [equipmentTypeModels] - Modelos glTF/GLB por tipo de equipamento, usados no lugar das geometrias primitivas.
+ * @property {(error: Error) => void} [onModelLoadError] - Callback com a falha do carregamento de um modelo glTF/GLB (uma vez por falha);
+ *           o equipamento continua com a geometria primitiva.
+ * @property {(point: { x: number; z: number } | null) => void} [onCursorPositionChange] - Callback com o ponto do plano de chão sob o cursor
+ *           (ou do relevo) a cada movimento do mouse (null quando o cursor sai da cena ou não aponta para o chão).
  */
 export interface ThreeSceneProps {
   equipment: Equipment[];
@@ -65,6 +91,40 @@ export interface ThreeSceneProps {
   colorMode: ColorMode;
   targetSystemToFrame: string | null;
   onSystemFramed: () => void;
+  targetTagsToFrame: string[] | null;
+  onEquipmentFramed: () => void;
+  isolationValveTags?: string[];
+  flowingPipes?: FlowingPipe[];
+  alarmedEquipmentTags?: string[];
+  simulationClock?: SimulationClock;
+  groundBounds?: SiteBounds;
+  terrain?: TerrainSurface | null;
+  sitePlan?: SitePlanOverlay | null;
+  equipmentTypeModels?: EquipmentTypeModels;
+  onModelLoadError?: (error: Error) => void;
+  onCursorPositionChange?: (point: { x: number; z: number } | null) => void;
+}
+
+/**
+ * Cria o material de um equipamento, usado tanto pelos meshes individuais quanto pelos `InstancedMesh`
+ * (que recebem branco e levam a cor de cada item na cor da instância).
+ * Equipamentos "Não aplicável" são translúcidos.
+ * @param {THREE.ColorRepresentation} color A cor do material.
+ * @param {Equipment['operationalState']} operationalState O estado operacional do equipamento.
+ * @returns {THREE.MeshStandardMaterial} O material criado.
+ */
+function createEquipmentMaterial(
+  color: THREE.ColorRepresentation,
+  operationalState: Equipment['operationalState']
+): THREE.MeshStandardMaterial {
+  const isTransparent = operationalState === 'Não aplicável';
+  return new THREE.MeshStandardMaterial({
+    color,
+    metalness: 0.3,
+    roughness: 0.6,
+    transparent: isTransparent,
+    opacity: isTransparent ? 0.4 : 1.0, // Aumentada a transparência
+  });
 }
 
 /**
@@ -92,6 +152,18 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
     colorMode,
     targetSystemToFrame,
     onSystemFramed,
+    targetTagsToFrame,
+    onEquipmentFramed,
+    isolationValveTags,
+    flowingPipes,
+    alarmedEquipmentTags,
+    simulationClock,
+    groundBounds,
+    terrain = null,
+    sitePlan = null,
+    equipmentTypeModels,
+    onModelLoadError,
+    onCursorPositionChange,
   } = props;
 
   // console.log('[ThreeScene RENDER] Props:', {
@@ -111,14 +183,19 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
   const controlsRef = useRef<OrbitControlsType | null>(null);
   const composerRef = useRef<EffectComposer | null>(null);
   const outlinePassRef = useRef<OutlinePass | null>(null);
+  const alarmOutlinePassRef = useRef<OutlinePass | null>(null);
 
   // Refs para objetos da cena
   const equipmentMeshesRef = useRef<THREE.Object3D[]>([]);
   const annotationPinObjectsRef = useRef<CSS2DObject[]>([]);
   const groundMeshRef = useRef<THREE.Mesh | null>(null);
+  const sitePlanMeshRef = useRef<THREE.Mesh | null>(null);
+  const flowIndicatorsRef = useRef<THREE.Mesh[]>([]);
 
   // Estado para controlar se a cena está pronta para interações e renderização
   const [isSceneReady, setIsSceneReady] = useState(false);
+  // Incrementado a cada recriação dos objetos dos equipamentos, para que o contorno seja reaplicado aos novos objetos.
+  const [equipmentMeshesVersion, setEquipmentMeshesVersion] = useState(0);
 
   // Refs para callbacks para evitar stale closures em manipuladores de eventos e useEffects
   // Isso garante que as versões mais recentes das funções de callback sejam usadas.
@@ -126,49 +203,94 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
   const setHoveredEquipmentTagCallbackRef = useRef(setHoveredEquipmentTag);
   const onCameraChangeRef = useRef(onCameraChange);
   const onSystemFramedRef = useRef(onSystemFramed);
+  const onEquipmentFramedRef = useRef(onEquipmentFramed);
+  const onCursorPositionChangeRef = useRef(onCursorPositionChange);
+  const onModelLoadErrorRef = useRef(onModelLoadError);
 
   useEffect(() => { onSelectEquipmentRef.current = onSelectEquipment; }, [onSelectEquipment]);
   useEffect(() => { setHoveredEquipmentTagCallbackRef.current = setHoveredEquipmentTag; }, [setHoveredEquipmentTag]);
   useEffect(() => { onCameraChangeRef.current = onCameraChange; }, [onCameraChange]);
   useEffect(() => { onSystemFramedRef.current = onSystemFramed; }, [onSystemFramed]);
+  useEffect(() => { onEquipmentFramedRef.current = onEquipmentFramed; }, [onEquipmentFramed]);
+  useEffect(() => { onCursorPositionChangeRef.current = onCursorPositionChange; }, [onCursorPositionChange]);
+  useEffect(() => { onModelLoadErrorRef.current = onModelLoadError; }, [onModelLoadError]);
+
+  /** Faixa dos valores do atributo usado no modo de cor por atributo (números e datas), calculada sobre os equipamentos exibidos. */
+  const attributeColorRange = useMemo(() => {
+    const attributeKey = getColorModeAttributeKey(colorMode);
+    return attributeKey ? getAttributeRange(equipment, attributeKey) : null;
+  }, [equipment, colorMode]);
 
   /**
    * @function createSingleEquipmentMesh
    * Cria um mesh 3D para um equipamento individual.
    * Utiliza a fábrica de geometria (`createGeometryForItem`) e o utilitário de cor (`getEquipmentColor`).
    * Define a posição, rotação, `userData` e propriedades de sombra do mesh.
+   * Tanques com nível recebem o preenchimento interno como filho e um casco translúcido.
+   * Equipamentos com modelo glTF (do item ou do tipo) trocam a primitiva pelo modelo assim que ele é carregado.
    * @param {Equipment} item - O objeto de equipamento para o qual o mesh será criado.
    * @returns {THREE.Object3D} O mesh 3D criado.
    */
   const createSingleEquipmentMesh = useCallback((item: Equipment): THREE.Object3D => {
     // console.log(`[ThreeScene createSingleEquipmentMesh] Creating mesh for ${item.tag} (Type: ${item.type}) with colorMode: ${colorMode}`);
-    const finalColor = getEquipmentColor(item, colorMode);
-    const material = new THREE.MeshStandardMaterial({
-      color: finalColor,
-      metalness: 0.3,
-      roughness: 0.6,
-    });
-
-    if (item.operationalState === 'Não aplicável') {
-      material.transparent = true;
-      material.opacity = 0.4; // Aumentada a transparência
-    } else {
-      material.transparent = false;
-      material.opacity = 1.0;
-    }
+    const finalColor = getEquipmentColor(item, colorMode, attributeColorRange);
+    const material = createEquipmentMaterial(finalColor, item.operationalState);
 
     const geometry = createGeometryForItem(item);
     const mesh = new THREE.Mesh(geometry, material);
 
+    const fillMesh = item.type === 'Tank' ? createTankFillMesh(item) : null;
+    if (fillMesh) {
+      material.transparent = true;
+      material.opacity = Math.min(material.opacity, TANK_SHELL_OPACITY);
+      material.depthWrite = false; // Permite ver o preenchimento através do casco
+      mesh.add(fillMesh);
+    }
+
     mesh.position.set(item.position.x, item.position.y, item.position.z);
-    if (item.rotation) {
+    if (item.rotation && !hasPipePath(item)) { // O traçado já está em coordenadas da cena
       mesh.rotation.set(item.rotation.x, item.rotation.y, item.rotation.z);
     }
     mesh.userData = { tag: item.tag, type: item.type, sistema: item.sistema }; // Adiciona sistema para o OutlinePass
     mesh.castShadow = false;
     mesh.receiveShadow = false;
+
+    const modelUrl = getEquipmentModelUrl(item, equipmentTypeModels);
+    if (modelUrl) {
+      applyEquipmentModel(mesh, modelUrl, error => onModelLoadErrorRef.current?.(error));
+    }
+    return mesh;
+  }, [colorMode, attributeColorRange, equipmentTypeModels]); // colorMode é a dependência principal aqui
+
+  /**
+   * @function getInstancingKey
+   * Obtém a chave de instância de um equipamento: a chave da geometria mais a transparência do material.
+   * Itens com modelo glTF ou com preenchimento de tanque precisam de um mesh próprio (null).
+   * @param {Equipment} item - O equipamento.
+   * @returns {string | null} A chave, ou null.
+   */
+  const getInstancingKey = useCallback((item: Equipment): string | null => {
+    if (getEquipmentModelUrl(item, equipmentTypeModels) || hasTankFill(item)) return null;
+    const geometryKey = getEquipmentGeometryKey(item);
+    if (geometryKey === null) return null;
+    return `${geometryKey}|${item.operationalState === 'Não aplicável' ? 'transparent' : 'opaque'}`;
+  }, [equipmentTypeModels]);
+
+  /**
+   * @function createInstancedGroupMesh
+   * Cria o `InstancedMesh` de um grupo de equipamentos com a mesma chave de instância, com o material de
+   * `createEquipmentMaterial` em branco e a cor de cada item na cor da instância.
+   * @param {Equipment[]} items - Os equipamentos do grupo.
+   * @returns {THREE.Object3D} O `InstancedMesh` criado.
+   */
+  const createInstancedGroupMesh = useCallback((items: Equipment[]): THREE.Object3D => {
+    const material = createEquipmentMaterial(0xffffff, items[0].operationalState);
+    const mesh = createInstancedEquipmentMesh(items, createGeometryForItem(items[0]), material,
+      item => getEquipmentColor(item, colorMode, attributeColorRange));
+    mesh.castShadow = false;
+    mesh.receiveShadow = false;
     return mesh;
-  }, [colorMode]); // colorMode é a dependência principal aqui
+  }, [colorMode, attributeColorRange]);
 
   /**
    * @function handleResize
@@ -193,6 +315,7 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
       labelRendererRef.current?.setSize(width, height); // do label-renderer-utils
       composerRef.current?.setSize(width, height); // do postprocessing-utils
       outlinePassRef.current?.resolution.set(width, height); // do postprocessing-utils
+      alarmOutlinePassRef.current?.resolution.set(width, height);
     }
   }, []); // Sem dependências, pois usa refs que não mudam de identidade
 
@@ -236,12 +359,13 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
     labelRendererRef.current = pipeline.labelRenderer;
     composerRef.current = pipeline.composer;
     outlinePassRef.current = pipeline.outlinePass;
+    alarmOutlinePassRef.current = pipeline.alarmOutlinePass;
     // console.log('[ThreeScene Setup] Render pipeline (WebGL, CSS2D, Composer, OutlinePass) created and DOM elements appended.');
     
     setupLighting(sceneRef.current);
     // console.log('[ThreeScene Setup] Lighting setup.');
     
-    groundMeshRef.current = setupGroundPlane(sceneRef.current);
+    groundMeshRef.current = setupGroundPlane(sceneRef.current, groundBounds, terrain);
     // console.log('[ThreeScene Setup] Ground plane setup.');
     
     const handleControlsChangeEnd = () => { 
@@ -320,6 +444,7 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
       composerRef.current?.dispose(); // Composer também precisa ser disposed
       composerRef.current = null;
       outlinePassRef.current = null; // O outlinePass é parte do composer, sua remoção é gerenciada lá.
+      alarmOutlinePassRef.current = null;
 
       // Remoção do DOM e dispose do labelRenderer
       if (labelRendererRef.current?.domElement?.parentNode) {
@@ -338,14 +463,7 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
       // Mas podemos garantir aqui a limpeza final de equipmentMeshesRef.current
       equipmentMeshesRef.current.forEach(mesh => {
         sceneRef.current?.remove(mesh); // Remover da cena
-        if (mesh instanceof THREE.Mesh) {
-            mesh.geometry?.dispose();
-            if (Array.isArray(mesh.material)) {
-                mesh.material.forEach(m => m.dispose());
-            } else if (mesh.material) {
-                (mesh.material as THREE.Material).dispose();
-            }
-        }
+        disposeEquipmentMesh(mesh);
       });
       equipmentMeshesRef.current = [];
 
@@ -357,17 +475,20 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
       });
       annotationPinObjectsRef.current = [];
 
+      if (sceneRef.current) {
+        clearFlowIndicators(sceneRef.current, flowIndicatorsRef);
+      }
+
       if (groundMeshRef.current) {
-        sceneRef.current?.remove(groundMeshRef.current);
-        groundMeshRef.current.geometry?.dispose();
-        if (Array.isArray(groundMeshRef.current.material)) {
-            groundMeshRef.current.material.forEach(m => m.dispose());
-        } else {
-            (groundMeshRef.current.material as THREE.Material)?.dispose();
-        }
+        disposeGroundPlane(sceneRef.current, groundMeshRef.current);
         groundMeshRef.current = null;
       }
 
+      if (sitePlanMeshRef.current) {
+        disposeSitePlanOverlayMesh(sceneRef.current, sitePlanMeshRef.current);
+        sitePlanMeshRef.current = null;
+      }
+
       sceneRef.current?.clear(); // Limpa a cena
       sceneRef.current = null;
       
@@ -398,10 +519,56 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
       layers,
       colorMode,
       createSingleEquipmentMesh, // Passa a função de criação
+      getInstancingKey,
+      createInstancedGroupMesh,
       groundMeshRef,
     });
+    setEquipmentMeshesVersion(version => version + 1);
     // console.log(`[ThreeScene EquipmentUpdate useEffect] Done. Meshes in ref: ${equipmentMeshesRef.current.length}`);
-  }, [equipment, layers, colorMode, isSceneReady, createSingleEquipmentMesh]); // createSingleEquipmentMesh é agora uma dependência
+  }, [equipment, layers, colorMode, isSceneReady, createSingleEquipmentMesh, getInstancingKey, createInstancedGroupMesh]); // createSingleEquipmentMesh é agora uma dependência
+
+  /**
+   * useEffect para recriar o plano de chão quando os limites do terminal mudam (e.g., ao trocar de terminal)
+   * ou quando o relevo do terreno muda. O novo plano respeita a visibilidade atual da camada do terreno.
+   */
+  useEffect(() => {
+    if (!isSceneReady || !sceneRef.current || !groundBounds || !groundMeshRef.current) return;
+    const currentBounds = groundMeshRef.current.userData.bounds as SiteBounds | undefined;
+    if (currentBounds &&
+        currentBounds.minX === groundBounds.minX && currentBounds.maxX === groundBounds.maxX &&
+        currentBounds.minZ === groundBounds.minZ && currentBounds.maxZ === groundBounds.maxZ &&
+        groundMeshRef.current.userData.terrain === terrain) {
+      return;
+    }
+    disposeGroundPlane(sceneRef.current, groundMeshRef.current);
+    groundMeshRef.current = setupGroundPlane(sceneRef.current, groundBounds, terrain);
+    const terrainLayer = layers.find(l => l.id === 'layer-terrain');
+    if (terrainLayer && !terrainLayer.isVisible) {
+      sceneRef.current.remove(groundMeshRef.current);
+    }
+  }, [groundBounds, terrain, layers, isSceneReady]);
+
+  /**
+   * useEffect para desenhar a planta do terminal sobre o chão. A malha é recriada quando a imagem, os pontos de
+   * controle ou o relevo mudam; a opacidade e a visibilidade (camada do terreno) são apenas atualizadas.
+   */
+  useEffect(() => {
+    if (!isSceneReady || !sceneRef.current) return;
+    const current = sitePlanMeshRef.current;
+    const isUpToDate = current && sitePlan &&
+      current.userData.overlay.image === sitePlan.image &&
+      current.userData.overlay.transform === sitePlan.transform &&
+      current.userData.terrain === terrain;
+    if (!isUpToDate) {
+      if (current) disposeSitePlanOverlayMesh(sceneRef.current, current);
+      sitePlanMeshRef.current = sitePlan ? createSitePlanOverlayMesh(sitePlan, terrain) : null;
+      if (sitePlanMeshRef.current) sceneRef.current.add(sitePlanMeshRef.current);
+    }
+    if (sitePlan && sitePlanMeshRef.current) {
+      (sitePlanMeshRef.current.material as THREE.MeshBasicMaterial).opacity = sitePlan.opacity;
+      sitePlanMeshRef.current.visible = layers.find(l => l.id === 'layer-terrain')?.isVisible ?? true;
+    }
+  }, [sitePlan, terrain, layers, isSceneReady]);
 
   /**
    * @fileOverview useEffect para gerenciar os pins de anotação.
@@ -424,12 +591,32 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
     });
   }, [annotations, layers, equipment, isSceneReady]); 
 
+  /**
+   * useEffect para recriar os indicadores de fluxo nas tubulações com fluxo ativo.
+   * É acionado quando `flowingPipes`, `equipment`, `layers` ou `isSceneReady` mudam.
+   * Utiliza `updateFlowIndicators` de `flow-animation-utils.ts`; a animação avança com o relógio da simulação.
+   */
+  useEffect(() => {
+    if (!isSceneReady || !sceneRef.current || !Array.isArray(equipment)) return;
+    updateFlowIndicators({
+      scene: sceneRef.current,
+      flowIndicatorsRef,
+      flowingPipes: flowingPipes ?? [],
+      equipmentData: equipment,
+      layers,
+    });
+  }, [flowingPipes, equipment, layers, isSceneReady]);
+
   // Hook para gerenciar o efeito de contorno (OutlinePass).
   useSceneOutline({
     outlinePassRef,
+    alarmOutlinePassRef,
     equipmentMeshesRef,
+    equipmentMeshesVersion,
     selectedEquipmentTags: selectedEquipmentTags,
     hoveredEquipmentTag: hoveredEquipmentTag,
+    isolationValveTags,
+    alarmedEquipmentTags,
     isSceneReady,
   });
 
@@ -477,7 +664,7 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
       return;
     }
     // console.log('[ThreeScene FocusSystem useEffect] Finding meshes for system:', targetSystemToFrame);
-    const systemMeshes = equipmentMeshesRef.current.filter(mesh => mesh.userData.sistema === targetSystemToFrame && mesh.visible);
+    const systemMeshes = findEquipmentObjects(equipmentMeshesRef.current, item => item.sistema === targetSystemToFrame);
     // console.log(`[ThreeScene FocusSystem useEffect] Found ${systemMeshes.length} meshes for system ${targetSystemToFrame}.`);
 
     if (systemMeshes.length === 0) {
@@ -498,7 +685,40 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
     }
   }, [targetSystemToFrame, isSceneReady, equipment]); // Adicionado equipment como dependência
 
+  /**
+   * useEffect para enquadrar um conjunto específico de equipamentos (por TAG).
+   * Segue o mesmo fluxo do foco em sistema: calcula a visão com `calculateViewForMeshes`
+   * considerando apenas os meshes visíveis e sempre sinaliza a conclusão com `onEquipmentFramed`.
+   */
+  useEffect(() => {
+    if (!targetTagsToFrame) return;
+    if (!cameraRef.current || !isSceneReady || equipmentMeshesRef.current.length === 0) {
+      onEquipmentFramedRef.current();
+      return;
+    }
+    const tagsToFrame = new Set(targetTagsToFrame);
+    const targetMeshes = findEquipmentObjects(equipmentMeshesRef.current, item => tagsToFrame.has(item.tag));
+    const newView = calculateViewForMeshes(targetMeshes, cameraRef.current);
+    if (newView) {
+      onCameraChangeRef.current({
+        position: { x: newView.position.x, y: newView.position.y, z: newView.position.z },
+        lookAt: { x: newView.lookAt.x, y: newView.lookAt.y, z: newView.lookAt.z },
+      });
+    }
+    onEquipmentFramedRef.current();
+  }, [targetTagsToFrame, isSceneReady, equipment]);
+
   // Hook para gerenciar o loop de animação.
+  /**
+   * useEffect para animar o fluxo a cada avanço do relógio da simulação (pausado, o fluxo fica parado).
+   */
+  useEffect(() => {
+    if (!simulationClock) return;
+    return simulationClock.subscribe(({ deltaSeconds }) => {
+      advanceFlowIndicators(flowIndicatorsRef.current, deltaSeconds);
+    });
+  }, [simulationClock]);
+
   useAnimationLoop({
     isSceneReady,
     sceneRef,
@@ -506,6 +726,7 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
     controlsRef,
     composerRef,
     labelRendererRef,
+    simulationClock,
   });
 
   /**
@@ -539,8 +760,14 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
             }
         }
     );
+    onCursorPositionChangeRef.current?.(getGroundPointUnderCursor(event, mountRef.current, cameraRef.current, groundMeshRef.current));
   }, [isSceneReady]); // Adicionadas dependências para refs e callbacks, embora eles não devam mudar. isSceneReady é crucial.
 
+  /** Ao sair da cena, o cursor deixa de apontar para o chão. */
+  const handleMouseLeave = useCallback(() => {
+    onCursorPositionChangeRef.current?.(null);
+  }, []);
+
   /**
    * Manipulador para o evento de clique na cena.
    * Utiliza o `mouse-interaction-manager` para processar a seleção.
@@ -583,8 +810,8 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
   }, [isSceneReady]); // Adicionadas dependências para refs e callbacks. isSceneReady é crucial.
 
   /**
-   * @fileOverview useEffect para adicionar e remover ouvintes de eventos do mouse (click e mousemove).
-   * Depende de `handleClick`, `handleMouseMove` e `isSceneReady`.
+   * @fileOverview useEffect para adicionar e remover ouvintes de eventos do mouse (click, mousemove e mouseleave).
+   * Depende de `handleClick`, `handleMouseMove`, `handleMouseLeave` e `isSceneReady`.
    * Quando `isSceneReady` se torna true, os listeners são adicionados.
    * Quando as funções de callback (handleClick, handleMouseMove) mudam (porque `isSceneReady` mudou),
    * os listeners antigos são removidos e os novos (com a `isSceneReady` correta) são adicionados.
@@ -595,19 +822,22 @@ const ThreeScene: React.FC<ThreeSceneProps> = (props) => {
       // console.log('[ThreeScene EventListeners useEffect] ADDING mouse event listeners (isSceneReady: true).');
       currentMount.addEventListener('click', handleClick);
       currentMount.addEventListener('mousemove', handleMouseMove);
+      currentMount.addEventListener('mouseleave', handleMouseLeave);
 
       return () => {
         // console.log('[ThreeScene EventListeners useEffect] REMOVING mouse event listeners.');
         currentMount.removeEventListener('click', handleClick);
         currentMount.removeEventListener('mousemove', handleMouseMove);
+        currentMount.removeEventListener('mouseleave', handleMouseLeave);
       };
     } else if (currentMount) {
         // console.log('[ThreeScene EventListeners useEffect] SKIPPING adding mouse listeners (isSceneReady: false). Removing any existing.');
         // Garante que listeners não fiquem presos se isSceneReady se tornar false por algum motivo
         currentMount.removeEventListener('click', handleClick);
         currentMount.removeEventListener('mousemove', handleMouseMove);
+        currentMount.removeEventListener('mouseleave', handleMouseLeave);
     }
-  }, [handleClick, handleMouseMove, isSceneReady]); // Dependências cruciais
+  }, [handleClick, handleMouseMove, handleMouseLeave, isSceneReady]); // Dependências cruciais
 
 
   // O componente em si renderiza apenas o div de montagem.
@@ -0,0 +1,133 @@
+/**
+ * @fileOverview Componente para salvar, restaurar e transferir snapshots do espaço de trabalho.
+ * Permite salvar o estado atual com um nome, exportá-lo em JSON, importar um arquivo exportado
+ * e restaurar ou excluir os snapshots salvos.
+ */
+"use client";
+
+import { useRef, useState } from 'react';
+import { BookmarkIcon, SaveIcon, DownloadIcon, UploadIcon, RotateCcwIcon, Trash2Icon, HardDriveIcon, CloudOffIcon } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import type { WorkspaceSnapshot } from '@/core/logic/workspace-snapshot';
+
+/**
+ * Props para o componente WorkspacePanel.
+ * @interface WorkspacePanelProps
+ * @property {WorkspaceSnapshot[]} snapshots - Os snapshots salvos, na ordem de exibição.
+ * @property {boolean} isPersisted - Indica se os snapshots são gravados no navegador.
+ * @property {(name: string) => void} onSave - Callback para salvar o estado atual com um nome.
+ * @property {(name: string) => void} onExport - Callback para exportar o estado atual, com um nome, em JSON.
+ * @property {(file: File) => void} onImportFile - Callback chamado com o arquivo JSON escolhido pelo usuário.
+ * @property {(name: string) => void} onRestore - Callback para restaurar um snapshot salvo.
+ * @property {(name: string) => void} onDelete - Callback para excluir um snapshot salvo.
+ */
+interface WorkspacePanelProps {
+  snapshots: WorkspaceSnapshot[];
+  isPersisted: boolean;
+  onSave: (name: string) => void;
+  onExport: (name: string) => void;
+  onImportFile: (file: File) => void;
+  onRestore: (name: string) => void;
+  onDelete: (name: string) => void;
+}
+
+/**
+ * Renderiza um Card com os snapshots do espaço de trabalho.
+ * @param {WorkspacePanelProps} props As props do componente.
+ * @returns {JSX.Element} O componente WorkspacePanel.
+ */
+export function WorkspacePanel({
+  snapshots,
+  isPersisted,
+  onSave,
+  onExport,
+  onImportFile,
+  onRestore,
+  onDelete,
+}: WorkspacePanelProps): JSX.Element {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const hasName = name.trim().length > 0;
+
+  return (
+    <Card className="shadow-md">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <BookmarkIcon className="mr-2 h-5 w-5" />
+          Espaço de Trabalho
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="flex items-center text-xs text-muted-foreground">
+          {isPersisted ? (
+            <><HardDriveIcon className="mr-1.5 h-3.5 w-3.5" /> Salvos neste navegador</>
+          ) : (
+            <><CloudOffIcon className="mr-1.5 h-3.5 w-3.5" /> Salvos apenas nesta sessão</>
+          )}
+        </p>
+        <form
+          className="flex space-x-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!hasName) return;
+            onSave(name);
+            setName('');
+          }}
+        >
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nome do snapshot"
+            aria-label="Nome do snapshot"
+            className="h-9 text-sm"
+          />
+          <Button type="submit" variant="outline" size="icon" className="h-9 w-9 shrink-0" disabled={!hasName} aria-label="Salvar espaço de trabalho" title="Salvar">
+            <SaveIcon className="h-4 w-4" />
+          </Button>
+        </form>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => onExport(name)} disabled={!hasName} title={hasName ? undefined : 'Informe um nome para exportar'}>
+            <DownloadIcon className="mr-2 h-4 w-4" /> Exportar JSON
+          </Button>
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+            <UploadIcon className="mr-2 h-4 w-4" /> Importar JSON
+          </Button>
+        </div>
+
+        {snapshots.length > 0 && (
+          <ul className="space-y-1 border-t pt-3">
+            {snapshots.map(snapshot => (
+              <li key={snapshot.name} className="flex items-center gap-1 text-sm">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{snapshot.name}</p>
+                  <p className="text-xs text-muted-foreground">{format(parseISO(snapshot.savedAt), 'dd/MM/yyyy HH:mm')}</p>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onRestore(snapshot.name)} aria-label={`Restaurar ${snapshot.name}`} title="Restaurar">
+                  <RotateCcwIcon className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDelete(snapshot.name)} aria-label={`Excluir ${snapshot.name}`} title="Excluir">
+                  <Trash2Icon className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) onImportFile(file);
+            event.target.value = '';
+          }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
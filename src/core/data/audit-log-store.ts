@@ -0,0 +1,122 @@
+/**
+ * @fileOverview Persistência do histórico de alterações (auditoria) dos equipamentos.
+ *
+ * Responsabilidades:
+ * - Definir a interface `AuditLogStore`, usada por `useAuditLogManager` para gravar os registros
+ *   e receber, em tempo real, os registros feitos por outras sessões.
+ * - Fornecer a implementação baseada no Firestore (`createFirestoreAuditLogStore`), com um documento
+ *   por registro (id = id do registro) na subcoleção do terminal (`<coleção>/<id do terminal>/entries`).
+ *   A leitura traz apenas os registros mais recentes, até o limite pedido.
+ * - Escolher o armazenamento padrão conforme a configuração do ambiente (`createDefaultAuditLogStore`).
+ *
+ * Exporta:
+ * - `AuditLogStore`: Interface do armazenamento.
+ * - `AUDIT_LOG_COLLECTION`: Nome padrão da coleção no Firestore.
+ * - `createFirestoreAuditLogStore`: Implementação com Firestore.
+ * - `createDefaultAuditLogStore`: Armazenamento padrão (ou null, para manter o histórico apenas em memória).
+ */
+import {
+  collection,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  type CollectionReference,
+  type Firestore,
+} from 'firebase/firestore';
+import type { AuditLogEntry } from '@/lib/types';
+import { getFirestoreDb } from '@/core/data/firebase-client';
+
+/**
+ * Armazenamento persistente do histórico de alterações.
+ * @interface AuditLogStore
+ * @property {(entry: AuditLogEntry) => Promise<void>} appendEntry - Grava um novo registro no histórico do terminal do registro.
+ * @property {(siteId: string, maxEntries: number, onEntries: (entries: AuditLogEntry[]) => void, onError: (error: Error) => void) => () => void} subscribe -
+ *           Observa os `maxEntries` registros mais recentes do histórico do terminal; `onEntries` recebe esses registros
+ *           (do mais recente para o mais antigo) a cada alteração. Retorna a função para cancelar.
+ */
+export interface AuditLogStore {
+  appendEntry: (entry: AuditLogEntry) => Promise<void>;
+  subscribe: (
+    siteId: string,
+    maxEntries: number,
+    onEntries: (entries: AuditLogEntry[]) => void,
+    onError: (error: Error) => void
+  ) => () => void;
+}
+
+/** Nome padrão da coleção do Firestore que guarda o histórico de alterações. */
+export const AUDIT_LOG_COLLECTION = 'auditLog';
+
+/**
+ * Converte um documento em registro do histórico, descartando documentos incompletos.
+ * @param {string} id O id do documento.
+ * @param {string} siteId O terminal da subcoleção do documento.
+ * @param {Record<string, unknown>} data Os dados do documento.
+ * @returns {AuditLogEntry | null} O registro, ou null se o documento não tiver os campos obrigatórios.
+ */
+function toAuditLogEntry(id: string, siteId: string, data: Record<string, unknown>): AuditLogEntry | null {
+  const { equipmentTag, field, oldValue, newValue, timestamp, user, sistema, area, reason } = data;
+  if (typeof equipmentTag !== 'string' || typeof newValue !== 'string' || typeof timestamp !== 'string') return null;
+  if (field !== 'operationalState' && field !== 'product') return null;
+  return {
+    id,
+    siteId,
+    equipmentTag,
+    field,
+    oldValue: typeof oldValue === 'string' ? oldValue : null,
+    newValue,
+    timestamp,
+    user: typeof user === 'string' ? user : '',
+    sistema: typeof sistema === 'string' ? sistema : undefined,
+    area: typeof area === 'string' ? area : undefined,
+    reason: typeof reason === 'string' ? reason : undefined,
+  };
+}
+
+/**
+ * Cria um armazenamento do histórico baseado no Firestore.
+ * O `timestamp` é gravado como texto ISO 8601 gerado pelo cliente, para que a ordem exibida
+ * seja a mesma antes e depois da confirmação do servidor.
+ * @param {Firestore} db A instância do Firestore.
+ * @param {string} [collectionPath=AUDIT_LOG_COLLECTION] O caminho da coleção.
+ * @returns {AuditLogStore} O armazenamento criado.
+ */
+export function createFirestoreAuditLogStore(
+  db: Firestore,
+  collectionPath: string = AUDIT_LOG_COLLECTION
+): AuditLogStore {
+  const getSiteCollection = (siteId: string): CollectionReference => collection(db, collectionPath, siteId, 'entries');
+  return {
+    appendEntry: async ({ id, siteId, ...entry }) => {
+      // O Firestore não aceita campos `undefined`.
+      const data = Object.fromEntries(Object.entries(entry).filter(([, value]) => value !== undefined));
+      await setDoc(doc(getSiteCollection(siteId), id), data);
+    },
+    subscribe: (siteId, maxEntries, onEntries, onError) =>
+      onSnapshot(
+        // O `timestamp` é ISO 8601 em UTC, então a ordem do texto é a ordem cronológica.
+        query(getSiteCollection(siteId), orderBy('timestamp', 'desc'), limit(maxEntries)),
+        snapshot => {
+          const entries: AuditLogEntry[] = [];
+          snapshot.forEach(entryDoc => {
+            const entry = toAuditLogEntry(entryDoc.id, siteId, entryDoc.data());
+            if (entry) entries.push(entry);
+          });
+          onEntries(entries);
+        },
+        onError
+      ),
+  };
+}
+
+/**
+ * Cria o armazenamento do histórico padrão da aplicação.
+ * @returns {AuditLogStore | null} O armazenamento no Firestore, ou null se o Firebase não estiver configurado.
+ */
+export function createDefaultAuditLogStore(): AuditLogStore | null {
+  const db = getFirestoreDb();
+  return db ? createFirestoreAuditLogStore(db) : null;
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileOverview Abstração de fonte de dados para os equipamentos (padrão Repository).
+ *
+ * Responsabilidades:
+ * - Definir a interface `EquipmentRepository`, consumida por `useEquipmentDataManager`,
+ *   de forma que a origem dos equipamentos não fique acoplada ao código da aplicação.
+ * - Fornecer implementações para as fontes suportadas:
+ *   - Arquivo JSON embarcado no bundle (`createBundledEquipmentRepository`).
+ *   - Arquivo JSON enviado pelo usuário (`createFileEquipmentRepository`).
+ *   - Arquivo CSV enviado pelo usuário (`createCsvFileEquipmentRepository`).
+ *   - Endpoint REST (`createRestEquipmentRepository`).
+ * - Entregar os registros brutos: a validação do formato é responsabilidade de `equipment-validation.ts`,
+ *   aplicada por `useEquipmentDataManager` antes de os dados chegarem à cena.
+ * - Converter para a cena as posições informadas em coordenadas geográficas (`createGeoreferencedEquipmentRepository`),
+ *   envolvendo qualquer outra fonte.
+ * - Escolher a fonte padrão conforme a configuração do ambiente (`createDefaultEquipmentRepository`),
+ *   permitindo que cada terminal distribua seu próprio conjunto de dados.
+ *
+ * Exporta:
+ * - `EquipmentRepository`, `EquipmentRecords`: Interface comum das fontes de dados e tipo dos registros carregados.
+ * - `parseEquipmentPayload`: Extrai a lista de equipamentos de um payload JSON.
+ * - `createBundledEquipmentRepository`, `createFileEquipmentRepository`, `createCsvFileEquipmentRepository`,
+ *   `createRestEquipmentRepository`: Implementações.
+ * - `createGeoreferencedEquipmentRepository`: Conversão das posições geográficas de outra fonte.
+ * - `createDefaultEquipmentRepository`: Fonte padrão da aplicação.
+ */
+import { parseEquipmentCsv, type CsvFormatOptions } from '@/core/logic/equipment-csv';
+import { resolveGeographicPosition, type SiteGeoreference } from '@/core/logic/georeference';
+
+/**
+ * Registros brutos carregados de uma fonte.
+ * @interface EquipmentRecords
+ * @property {unknown[]} records - Os registros, ainda não validados.
+ * @property {number[]} [lines] - A linha do arquivo de origem de cada registro, nas fontes em que um registro é
+ *           uma linha (CSV). Sem elas, os registros são identificados pela posição na lista.
+ */
+export interface EquipmentRecords {
+  records: unknown[];
+  lines?: number[];
+}
+
+/**
+ * Fonte de dados de equipamentos.
+ * @interface EquipmentRepository
+ * @property {string} sourceLabel - Descrição legível da fonte (exibida na UI e em mensagens de erro).
+ * @property {() => Promise<EquipmentRecords>} loadEquipment - Carrega os registros brutos (ainda não validados) de equipamentos da fonte.
+ */
+export interface EquipmentRepository {
+  readonly sourceLabel: string;
+  loadEquipment: () => Promise<EquipmentRecords>;
+}
+
+/**
+ * Extrai a lista de registros de equipamentos de um payload JSON já desserializado.
+ * Aceita tanto um array de equipamentos quanto um objeto no formato `{ equipment: [...] }`.
+ * @param {unknown} payload - O conteúdo JSON desserializado.
+ * @param {string} sourceLabel - Descrição da fonte, usada na mensagem de erro.
+ * @returns {unknown[]} Os registros contidos no payload, sem validação individual.
+ * @throws {Error} Se o payload não contiver uma lista de equipamentos.
+ */
+export function parseEquipmentPayload(payload: unknown, sourceLabel: string): unknown[] {
+  const list = Array.isArray(payload)
+    ? payload
+    : (payload && typeof payload === 'object' && Array.isArray((payload as { equipment?: unknown }).equipment))
+      ? (payload as { equipment: unknown[] }).equipment
+      : null;
+
+  if (!list) {
+    throw new Error(`${sourceLabel}: o conteúdo não contém uma lista de equipamentos.`);
+  }
+  return list;
+}
+
+/**
+ * Cria um repositório que lê um arquivo JSON embarcado no bundle da aplicação.
+ * O carregamento é feito via `import()` dinâmico para que o arquivo não faça parte do chunk inicial.
+ * @param {() => Promise<unknown>} loadModule - Função que importa o módulo JSON (e.g., `() => import('./meu-terminal.json')`).
+ * @param {string} [sourceLabel='Dados embarcados'] - Descrição da fonte.
+ * @returns {EquipmentRepository} O repositório criado.
+ */
+export function createBundledEquipmentRepository(
+  loadModule: () => Promise<unknown>,
+  sourceLabel = 'Dados embarcados'
+): EquipmentRepository {
+  return {
+    sourceLabel,
+    loadEquipment: async () => {
+      const module = await loadModule();
+      // Módulos JSON importados dinamicamente expõem o conteúdo em `default`.
+      const payload = module && typeof module === 'object' && 'default' in module
+        ? (module as { default: unknown }).default
+        : module;
+      return { records: parseEquipmentPayload(payload, sourceLabel) };
+    },
+  };
+}
+
+/**
+ * Cria um repositório que lê um arquivo JSON enviado pelo usuário (e.g., via `<input type="file">`).
+ * @param {File} file - O arquivo selecionado pelo usuário.
+ * @returns {EquipmentRepository} O repositório criado.
+ */
+export function createFileEquipmentRepository(file: File): EquipmentRepository {
+  const sourceLabel = `Arquivo "${file.name}"`;
+  return {
+    sourceLabel,
+    loadEquipment: async () => {
+      const text = await file.text();
+      let payload: unknown;
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        throw new Error(`${sourceLabel}: o arquivo não é um JSON válido.`);
+      }
+      return { records: parseEquipmentPayload(payload, sourceLabel) };
+    },
+  };
+}
+
+/**
+ * Cria um repositório que lê um arquivo CSV enviado pelo usuário (e.g., uma planilha exportada do Excel).
+ * @param {File} file - O arquivo CSV selecionado pelo usuário.
+ * @param {CsvFormatOptions} format - O delimitador e o separador decimal usados no arquivo.
+ * @returns {EquipmentRepository} O repositório criado.
+ */
+export function createCsvFileEquipmentRepository(file: File, format: CsvFormatOptions): EquipmentRepository {
+  const sourceLabel = `Arquivo CSV "${file.name}"`;
+  return {
+    sourceLabel,
+    loadEquipment: async () => {
+      try {
+        return parseEquipmentCsv(await file.text(), format);
+      } catch (error) {
+        throw new Error(`${sourceLabel}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+  };
+}
+
+/**
+ * Cria um repositório que busca os equipamentos em um endpoint REST via `GET`.
+ * @param {string} url - A URL do endpoint que retorna os equipamentos em JSON.
+ * @param {RequestInit} [init] - Opções adicionais para o `fetch` (e.g., cabeçalhos de autenticação).
+ * @returns {EquipmentRepository} O repositório criado.
+ */
+export function createRestEquipmentRepository(url: string, init?: RequestInit): EquipmentRepository {
+  const sourceLabel = `API ${url}`;
+  return {
+    sourceLabel,
+    loadEquipment: async () => {
+      const headers = new Headers(init?.headers);
+      if (!headers.has('Accept')) headers.set('Accept', 'application/json');
+      const response = await fetch(url, { ...init, headers });
+      if (!response.ok) {
+        throw new Error(`${sourceLabel}: a requisição falhou com status ${response.status} ${response.statusText}.`);
+      }
+      return { records: parseEquipmentPayload(await response.json(), sourceLabel) };
+    },
+  };
+}
+
+/**
+ * Envolve uma fonte de dados para aceitar equipamentos posicionados em coordenadas geográficas
+ * (latitude/longitude ou UTM), convertendo-as para as coordenadas da cena do terminal.
+ * Registros já posicionados na cena passam sem alteração.
+ * @param {EquipmentRepository} repository - A fonte de dados original.
+ * @param {SiteGeoreference} georeference - O georreferenciamento do terminal que receberá os equipamentos.
+ * @returns {EquipmentRepository} O repositório criado, com a mesma descrição da fonte original.
+ */
+export function createGeoreferencedEquipmentRepository(
+  repository: EquipmentRepository,
+  georeference: SiteGeoreference
+): EquipmentRepository {
+  return {
+    sourceLabel: repository.sourceLabel,
+    loadEquipment: async () => {
+      const { records, lines } = await repository.loadEquipment();
+      return { records: records.map(record => resolveGeographicPosition(record, georeference)), lines };
+    },
+  };
+}
+
+/**
+ * Cria a fonte de dados padrão da aplicação.
+ * Se a variável de ambiente `NEXT_PUBLIC_EQUIPMENT_API_URL` estiver definida, usa o endpoint REST;
+ * caso contrário, usa o conjunto embarcado `default-equipment.json`.
+ * @returns {EquipmentRepository} O repositório padrão.
+ */
+export function createDefaultEquipmentRepository(): EquipmentRepository {
+  const apiUrl = process.env.NEXT_PUBLIC_EQUIPMENT_API_URL;
+  if (apiUrl) {
+    return createRestEquipmentRepository(apiUrl);
+  }
+  return createBundledEquipmentRepository(() => import('@/core/data/default-equipment.json'));
+}
@@ -0,0 +1,167 @@
+/**
+ * @fileOverview Persistência do estado operacional, do produto e dos atributos customizados dos equipamentos.
+ *
+ * Responsabilidades:
+ * - Definir a interface `EquipmentStateStore`, usada por `useEquipmentDataManager` para gravar
+ *   as alterações feitas pelos operadores e receber, em tempo real, as alterações de outras sessões.
+ * - Fornecer a implementação baseada no Firestore (`createFirestoreEquipmentStateStore`), com um
+ *   documento por equipamento (id = TAG) na subcoleção do terminal (`<coleção>/<id do terminal>/equipment`):
+ *   terminais diferentes podem ter TAGs iguais.
+ * - Escolher o armazenamento padrão conforme a configuração do ambiente (`createDefaultEquipmentStateStore`).
+ *
+ * Exporta:
+ * - `EquipmentStatePatch`: Campos persistidos de um equipamento.
+ * - `applyEquipmentStatePatch`: Aplica os campos persistidos sobre um equipamento.
+ * - `EquipmentStateStore`: Interface do armazenamento.
+ * - `EQUIPMENT_STATE_COLLECTION`: Nome padrão da coleção no Firestore.
+ * - `createFirestoreEquipmentStateStore`: Implementação com Firestore.
+ * - `createDefaultEquipmentStateStore`: Armazenamento padrão (ou null, para operar apenas em memória).
+ */
+import {
+  collection,
+  deleteField,
+  doc,
+  FieldPath,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  type CollectionReference,
+  type FieldValue,
+  type Firestore,
+} from 'firebase/firestore';
+import type { AttributeValue, Equipment } from '@/lib/types';
+import { getFirestoreDb } from '@/core/data/firebase-client';
+
+/**
+ * Campos de um equipamento que são persistidos. `attributes` traz apenas os atributos alterados, aplicados um a um
+ * sobre os da fonte de dados: `null` registra a remoção do atributo e `undefined` descarta o valor persistido
+ * (o equipamento volta ao valor da fonte).
+ * @typedef {object} EquipmentStatePatch
+ */
+export type EquipmentStatePatch = Partial<Pick<Equipment, 'operationalState' | 'product'>> & {
+  attributes?: Record<string, AttributeValue | null | undefined>;
+};
+
+/**
+ * Aplica os campos persistidos sobre um equipamento.
+ * @param {Equipment} equipment O equipamento (como veio da fonte de dados ou com as alterações em memória).
+ * @param {EquipmentStatePatch} patch Os campos persistidos.
+ * @returns {Equipment} O equipamento com os campos aplicados.
+ */
+export function applyEquipmentStatePatch(equipment: Equipment, { attributes: attributePatch, ...fields }: EquipmentStatePatch): Equipment {
+  if (!attributePatch) return { ...equipment, ...fields };
+  const attributes: Record<string, AttributeValue> = { ...equipment.attributes };
+  Object.entries(attributePatch).forEach(([key, value]) => {
+    if (value === null || value === undefined) {
+      delete attributes[key];
+    } else {
+      attributes[key] = value;
+    }
+  });
+  return { ...equipment, ...fields, attributes };
+}
+
+/**
+ * Armazenamento persistente do estado dos equipamentos.
+ * @interface EquipmentStateStore
+ * @property {(siteId: string, tag: string, patch: EquipmentStatePatch) => Promise<void>} saveState - Grava (mesclando)
+ *           os campos informados de um equipamento do terminal.
+ * @property {(siteId: string, onStates: (states: Record<string, EquipmentStatePatch>) => void, onError: (error: Error) => void) => () => void} subscribe -
+ *           Observa os estados persistidos do terminal; `onStates` recebe o mapa completo (TAG → campos) a cada alteração.
+ *           Retorna a função para cancelar.
+ */
+export interface EquipmentStateStore {
+  saveState: (siteId: string, tag: string, patch: EquipmentStatePatch) => Promise<void>;
+  subscribe: (
+    siteId: string,
+    onStates: (states: Record<string, EquipmentStatePatch>) => void,
+    onError: (error: Error) => void
+  ) => () => void;
+}
+
+/** Nome padrão da coleção do Firestore que guarda o estado dos equipamentos. */
+export const EQUIPMENT_STATE_COLLECTION = 'equipmentState';
+
+/**
+ * Extrai de um documento apenas os campos persistidos conhecidos, ignorando metadados (e.g., `updatedAt`).
+ * @param {Record<string, unknown>} data Os dados do documento.
+ * @returns {EquipmentStatePatch} Os campos de estado válidos.
+ */
+function toStatePatch(data: Record<string, unknown>): EquipmentStatePatch {
+  const patch: EquipmentStatePatch = {};
+  if (typeof data.operationalState === 'string') patch.operationalState = data.operationalState;
+  if (typeof data.product === 'string') patch.product = data.product;
+  if (data.attributes && typeof data.attributes === 'object') {
+    patch.attributes = Object.fromEntries(
+      Object.entries(data.attributes as Record<string, unknown>).filter(
+        (entry): entry is [string, AttributeValue | null] =>
+          entry[1] === null || ['string', 'number', 'boolean'].includes(typeof entry[1])
+      )
+    );
+  }
+  return patch;
+}
+
+/**
+ * Monta os dados e os caminhos gravados por `setDoc` para um patch. Cada atributo é gravado no próprio caminho
+ * (`attributes.<chave>`), para que edições simultâneas de atributos diferentes não se sobrescrevam; os atributos
+ * com valor `undefined` são apagados do documento com `deleteField()`.
+ * @param {EquipmentStatePatch} patch Os campos alterados.
+ * @returns {{ data: Record<string, unknown>, fieldPaths: FieldPath[] }} Os dados e os caminhos a gravar.
+ */
+function toDocumentWrite({ attributes, ...fields }: EquipmentStatePatch): { data: Record<string, unknown>; fieldPaths: FieldPath[] } {
+  const data: Record<string, unknown> = { ...fields, updatedAt: serverTimestamp() };
+  const fieldPaths = Object.keys(data).map(key => new FieldPath(key));
+  if (attributes) {
+    const attributeData: Record<string, AttributeValue | null | FieldValue> = {};
+    Object.entries(attributes).forEach(([key, value]) => {
+      attributeData[key] = value === undefined ? deleteField() : value;
+      fieldPaths.push(new FieldPath('attributes', key));
+    });
+    data.attributes = attributeData;
+  }
+  return { data, fieldPaths };
+}
+
+/**
+ * Cria um armazenamento de estado baseado no Firestore.
+ * Cada equipamento é um documento cujo id é a TAG, na subcoleção `equipment` do documento do terminal; as gravações
+ * substituem apenas os campos informados (`mergeFields`), atributo por atributo, para não apagar os demais.
+ * @param {Firestore} db A instância do Firestore.
+ * @param {string} [collectionPath=EQUIPMENT_STATE_COLLECTION] O caminho da coleção.
+ * @returns {EquipmentStateStore} O armazenamento criado.
+ */
+export function createFirestoreEquipmentStateStore(
+  db: Firestore,
+  collectionPath: string = EQUIPMENT_STATE_COLLECTION
+): EquipmentStateStore {
+  const getSiteCollection = (siteId: string): CollectionReference => collection(db, collectionPath, siteId, 'equipment');
+  return {
+    saveState: async (siteId, tag, patch) => {
+      const { data, fieldPaths } = toDocumentWrite(patch);
+      await setDoc(doc(getSiteCollection(siteId), tag), data, { mergeFields: fieldPaths });
+    },
+    subscribe: (siteId, onStates, onError) =>
+      onSnapshot(
+        getSiteCollection(siteId),
+        snapshot => {
+          const states: Record<string, EquipmentStatePatch> = {};
+          snapshot.forEach(stateDoc => {
+            states[stateDoc.id] = toStatePatch(stateDoc.data());
+          });
+          onStates(states);
+        },
+        onError
+      ),
+  };
+}
+
+/**
+ * Cria o armazenamento de estado padrão da aplicação.
+ * @returns {EquipmentStateStore | null} O armazenamento no Firestore, ou null se o Firebase não estiver configurado
+ *          (nesse caso, as alterações ficam apenas em memória).
+ */
+export function createDefaultEquipmentStateStore(): EquipmentStateStore | null {
+  const db = getFirestoreDb();
+  return db ? createFirestoreEquipmentStateStore(db) : null;
+}
@@ -0,0 +1,75 @@
+/**
+ * @fileOverview Inicialização do cliente Firebase/Firestore a partir das variáveis de ambiente.
+ *
+ * Responsabilidades:
+ * - Ler a configuração do Firebase (`NEXT_PUBLIC_FIREBASE_*`) e inicializar o app uma única vez.
+ * - Conectar o Firestore ao emulador local quando `NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST` estiver definido
+ *   (e.g., `127.0.0.1:8080`), para desenvolvimento e testes.
+ * - Indicar quando a persistência não está configurada, permitindo que a aplicação funcione apenas em memória.
+ *
+ * Exporta:
+ * - `isFirestoreConfigured`: Indica se há configuração suficiente para usar o Firestore.
+ * - `getFirestoreDb`: Obtém a instância (singleton) do Firestore, ou null se não configurado.
+ */
+import { initializeApp, getApps, getApp, type FirebaseOptions } from 'firebase/app';
+import { getFirestore, connectFirestoreEmulator, type Firestore } from 'firebase/firestore';
+
+/** Instância única do Firestore, criada sob demanda. */
+let firestoreInstance: Firestore | null = null;
+
+/**
+ * Monta a configuração do Firebase a partir das variáveis de ambiente públicas.
+ * As variáveis são lidas individualmente para que o Next.js possa embuti-las no bundle do cliente.
+ * @returns {FirebaseOptions} A configuração do Firebase.
+ */
+function getFirebaseOptions(): FirebaseOptions {
+  return {
+    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+  };
+}
+
+/**
+ * Obtém o endereço do emulador do Firestore, se configurado.
+ * @returns {{ host: string; port: number } | null} Host e porta do emulador, ou null.
+ */
+function getEmulatorAddress(): { host: string; port: number } | null {
+  const emulatorHost = process.env.NEXT_PUBLIC_FIRESTORE_EMULATOR_HOST;
+  if (!emulatorHost) return null;
+  const [host, port] = emulatorHost.split(':');
+  return { host: host || '127.0.0.1', port: Number(port) || 8080 };
+}
+
+/**
+ * Indica se o Firestore pode ser usado: é necessário ao menos o `projectId`
+ * (suficiente para o emulador; em produção, também a `apiKey`).
+ * @returns {boolean} True se a persistência no Firestore estiver configurada.
+ */
+export function isFirestoreConfigured(): boolean {
+  const options = getFirebaseOptions();
+  return Boolean(options.projectId && (options.apiKey || getEmulatorAddress()));
+}
+
+/**
+ * Obtém a instância do Firestore, inicializando o app Firebase na primeira chamada.
+ * Quando um emulador está configurado, a instância é conectada a ele antes de qualquer uso.
+ * @returns {Firestore | null} A instância do Firestore, ou null se a persistência não estiver configurada.
+ */
+export function getFirestoreDb(): Firestore | null {
+  if (firestoreInstance) return firestoreInstance;
+  if (!isFirestoreConfigured()) return null;
+
+  const options = getFirebaseOptions();
+  const emulator = getEmulatorAddress();
+  // O emulador aceita qualquer apiKey, mas o SDK exige que ela exista.
+  const app = getApps().length > 0 ? getApp() : initializeApp({ ...options, apiKey: options.apiKey || 'emulator' });
+
+  firestoreInstance = getFirestore(app);
+  if (emulator) {
+    connectFirestoreEmulator(firestoreInstance, emulator.host, emulator.port);
+    console.info(`[FirebaseClient] Firestore conectado ao emulador em ${emulator.host}:${emulator.port}.`);
+  }
+  return firestoreInstance;
+}
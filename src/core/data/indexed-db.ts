@@ -0,0 +1,73 @@
+/**
+ * @fileOverview Acesso ao IndexedDB compartilhado pelos armazenamentos locais do navegador.
+ *
+ * Responsabilidades:
+ * - Converter requisições do IndexedDB em Promises.
+ * - Abrir o banco sob demanda, uma única vez, criando ou atualizando seus object stores, e permitir uma nova
+ *   tentativa no próximo acesso se a abertura falhar.
+ *
+ * Exporta:
+ * - `IndexedDbConnection`: Acesso aos object stores de um banco.
+ * - `requestToPromise`: Converte uma requisição em Promise.
+ * - `createIndexedDbConnection`: Cria o acesso a um banco, aberto no primeiro uso.
+ */
+
+/**
+ * Acesso aos object stores de um banco IndexedDB.
+ * @interface IndexedDbConnection
+ * @property {<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>} withStore -
+ *           Executa uma requisição em um object store, em uma transação própria, e retorna o resultado.
+ */
+export interface IndexedDbConnection {
+  withStore: <T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>;
+}
+
+/**
+ * Converte uma requisição do IndexedDB em Promise.
+ * @param {IDBRequest<T>} request A requisição.
+ * @returns {Promise<T>} O resultado da requisição.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Falha na operação do IndexedDB.'));
+  });
+}
+
+/**
+ * Cria o acesso a um banco IndexedDB. O banco é aberto (e criado ou atualizado, se necessário) no primeiro acesso.
+ * @param {IDBFactory} factory A fábrica do IndexedDB (normalmente `window.indexedDB`).
+ * @param {string} dbName O nome do banco.
+ * @param {number} version A versão do banco.
+ * @param {(db: IDBDatabase, transaction: IDBTransaction) => void} upgrade Cria ou atualiza os object stores quando o
+ *        banco é criado ou está em uma versão anterior.
+ * @returns {IndexedDbConnection} O acesso ao banco.
+ */
+export function createIndexedDbConnection(
+  factory: IDBFactory,
+  dbName: string,
+  version: number,
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void
+): IndexedDbConnection {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      const request = factory.open(dbName, version);
+      request.onupgradeneeded = () => {
+        if (request.transaction) upgrade(request.result, request.transaction);
+      };
+      dbPromise = requestToPromise(request);
+      // Permite uma nova tentativa no próximo acesso se a abertura falhar.
+      dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+  };
+
+  return {
+    withStore: async (storeName, mode, run) => {
+      const db = await openDb();
+      return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+    },
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileOverview Fontes e persistência da planta do terminal (imagem PNG/JPG do desenho 2D posicionada sobre o chão).
+ *
+ * Responsabilidades:
+ * - Definir a planta configurada em um terminal (`SitePlanConfig`) e a planta gravada no navegador (`StoredSitePlan`).
+ * - Definir a interface `SitePlanStore`, usada por `useSitePlanManager` para ler, gravar e excluir a planta de
+ *   cada terminal, e fornecer a implementação baseada no IndexedDB (`createIndexedDbSitePlanStore`), com um registro
+ *   por terminal (chave = id do terminal) que guarda a própria imagem. Registros inválidos são ignorados.
+ *   A planta gravada fica apenas no navegador; para compartilhá-la, sua configuração (`toSitePlanConfig`) é
+ *   incluída no terminal, em `src/core/data/sites.ts`.
+ * - Baixar e decodificar as imagens das plantas.
+ *
+ * Exporta:
+ * - `SitePlanConfig`, `StoredSitePlan`, `SitePlanStore`: Tipos.
+ * - `DEFAULT_SITE_PLAN_OPACITY`: Opacidade inicial da planta.
+ * - `SITE_PLAN_DB_NAME`, `SITE_PLAN_OBJECT_STORE`: Nomes padrão do banco e do object store.
+ * - `toSitePlanConfig`: Configuração de terminal equivalente a uma planta gravada.
+ * - `isSitePlanImageFile`: Verifica se um arquivo é uma imagem PNG ou JPG.
+ * - `fetchSitePlanImage`: Baixa a imagem de uma planta.
+ * - `decodeSitePlanImage`: Decodifica a imagem de uma planta.
+ * - `createIndexedDbSitePlanStore`: Implementação com IndexedDB.
+ * - `createDefaultSitePlanStore`: Armazenamento padrão (ou null, para operar apenas em memória).
+ */
+import type { SitePlanControlPoint } from '@/core/logic/site-plan';
+import { createIndexedDbConnection } from '@/core/data/indexed-db';
+
+/**
+ * Planta configurada para um terminal em `src/core/data/sites.ts`.
+ * @interface SitePlanConfig
+ * @property {string} url - URL da imagem PNG/JPG (arquivos em `public/` são servidos a partir da raiz).
+ * @property {SitePlanControlPoint[]} controlPoints - Pontos de controle (pixel da imagem ↔ ponto da cena), ao menos dois.
+ * @property {number} [opacity=DEFAULT_SITE_PLAN_OPACITY] - Opacidade inicial, de 0 a 1.
+ */
+export interface SitePlanConfig {
+  url: string;
+  controlPoints: SitePlanControlPoint[];
+  opacity?: number;
+}
+
+/**
+ * Planta de um terminal gravada no navegador.
+ * @interface StoredSitePlan
+ * @property {string} siteId - O id do terminal.
+ * @property {Blob} image - A imagem da planta.
+ * @property {string} imageName - Nome do arquivo (ou URL) de origem da imagem.
+ * @property {SitePlanControlPoint[]} controlPoints - Os pontos de controle.
+ * @property {number} opacity - A opacidade, de 0 a 1.
+ */
+export interface StoredSitePlan {
+  siteId: string;
+  image: Blob;
+  imageName: string;
+  controlPoints: SitePlanControlPoint[];
+  opacity: number;
+}
+
+/**
+ * Armazenamento das plantas dos terminais.
+ * @interface SitePlanStore
+ * @property {(siteId: string) => Promise<StoredSitePlan | null>} loadSitePlan - Lê a planta gravada de um terminal (null se não houver).
+ * @property {(plan: StoredSitePlan) => Promise<void>} saveSitePlan - Grava a planta de um terminal, substituindo a anterior.
+ * @property {(siteId: string) => Promise<void>} deleteSitePlan - Exclui a planta gravada de um terminal.
+ */
+export interface SitePlanStore {
+  loadSitePlan: (siteId: string) => Promise<StoredSitePlan | null>;
+  saveSitePlan: (plan: StoredSitePlan) => Promise<void>;
+  deleteSitePlan: (siteId: string) => Promise<void>;
+}
+
+/** Opacidade inicial da planta. */
+export const DEFAULT_SITE_PLAN_OPACITY = 0.7;
+
+/** Nome padrão do banco IndexedDB das plantas. */
+export const SITE_PLAN_DB_NAME = 'terminal3d-site-plans';
+/** Nome padrão do object store das plantas. */
+export const SITE_PLAN_OBJECT_STORE = 'sitePlans';
+
+/**
+ * Monta a configuração de terminal (`Site.sitePlan`) equivalente a uma planta gravada no navegador. Imagens enviadas
+ * pelo usuário são referenciadas pelo nome do arquivo na raiz de `public/`, onde devem ser copiadas.
+ * @param {StoredSitePlan} plan A planta gravada.
+ * @returns {SitePlanConfig} A configuração.
+ */
+export function toSitePlanConfig(plan: StoredSitePlan): SitePlanConfig {
+  const isUrl = /^(\/|https?:\/\/)/i.test(plan.imageName);
+  return {
+    url: isUrl ? plan.imageName : `/${plan.imageName}`,
+    controlPoints: plan.controlPoints,
+    opacity: plan.opacity,
+  };
+}
+
+/**
+ * Verifica se um arquivo é uma imagem PNG ou JPG.
+ * @param {File} file O arquivo.
+ * @returns {boolean} `true` para PNG e JPG.
+ */
+export function isSitePlanImageFile(file: File): boolean {
+  return ['image/png', 'image/jpeg'].includes(file.type) || /\.(png|jpe?g)$/i.test(file.name);
+}
+
+/**
+ * Baixa a imagem de uma planta.
+ * @param {string} url A URL da imagem.
+ * @returns {Promise<Blob>} A imagem.
+ * @throws {Error} Se a requisição falhar.
+ */
+export async function fetchSitePlanImage(url: string): Promise<Blob> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Planta "${url}": a requisição falhou com status ${response.status} ${response.statusText}.`);
+  }
+  return response.blob();
+}
+
+/**
+ * Decodifica a imagem de uma planta, para uso como textura.
+ * @param {Blob} image A imagem.
+ * @returns {Promise<HTMLImageElement>} A imagem decodificada.
+ * @throws {Error} Se o conteúdo não for uma imagem válida.
+ */
+export async function decodeSitePlanImage(image: Blob): Promise<HTMLImageElement> {
+  const objectUrl = URL.createObjectURL(image);
+  const element = new Image();
+  element.src = objectUrl;
+  try {
+    await element.decode();
+  } catch {
+    throw new Error('não foi possível decodificar a imagem da planta.');
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+  return element;
+}
+
+/**
+ * Verifica se um registro lido do IndexedDB é uma planta válida.
+ * @param {unknown} record O registro.
+ * @returns {record is StoredSitePlan} `true` se o registro tiver todos os campos, com os tipos esperados.
+ */
+function isStoredSitePlan(record: unknown): record is StoredSitePlan {
+  if (typeof record !== 'object' || record === null) return false;
+  const plan = record as Partial<StoredSitePlan>;
+  return typeof plan.siteId === 'string'
+    && plan.image instanceof Blob
+    && typeof plan.imageName === 'string'
+    && typeof plan.opacity === 'number'
+    && Array.isArray(plan.controlPoints)
+    && plan.controlPoints.every(point =>
+      typeof point === 'object' && point !== null
+      && [point.pixelX, point.pixelY, point.sceneX, point.sceneZ].every(Number.isFinite));
+}
+
+/**
+ * Cria um armazenamento de plantas baseado no IndexedDB. O banco é aberto (e criado, se necessário) no primeiro acesso.
+ * @param {IDBFactory} factory A fábrica do IndexedDB (normalmente `window.indexedDB`).
+ * @param {string} [dbName=SITE_PLAN_DB_NAME] O nome do banco.
+ * @param {string} [storeName=SITE_PLAN_OBJECT_STORE] O nome do object store.
+ * @returns {SitePlanStore} O armazenamento criado.
+ */
+export function createIndexedDbSitePlanStore(
+  factory: IDBFactory,
+  dbName: string = SITE_PLAN_DB_NAME,
+  storeName: string = SITE_PLAN_OBJECT_STORE
+): SitePlanStore {
+  const connection = createIndexedDbConnection(factory, dbName, 1, db => {
+    if (!db.objectStoreNames.contains(storeName)) {
+      db.createObjectStore(storeName, { keyPath: 'siteId' });
+    }
+  });
+  const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    connection.withStore(storeName, mode, run);
+
+  return {
+    loadSitePlan: async (siteId) => {
+      const record = await withStore<unknown>('readonly', store => store.get(siteId));
+      return isStoredSitePlan(record) ? record : null;
+    },
+    saveSitePlan: async (plan) => {
+      await withStore('readwrite', store => store.put(plan));
+    },
+    deleteSitePlan: async (siteId) => {
+      await withStore('readwrite', store => store.delete(siteId));
+    },
+  };
+}
+
+/**
+ * Cria o armazenamento de plantas padrão da aplicação.
+ * @returns {SitePlanStore | null} O armazenamento no IndexedDB, ou null se o IndexedDB não estiver disponível
+ *          (e.g., na renderização no servidor).
+ */
+export function createDefaultSitePlanStore(): SitePlanStore | null {
+  return typeof window !== 'undefined' && window.indexedDB ? createIndexedDbSitePlanStore(window.indexedDB) : null;
+}
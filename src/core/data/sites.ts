@@ -0,0 +1,109 @@
+/**
+ * @fileOverview Cadastro dos terminais (sites) disponíveis no visualizador.
+ *
+ * Responsabilidades:
+ * - Definir a interface `Site`: identificação, limites da área (usados pelo plano de chão), câmera padrão,
+ *   fonte dos equipamentos, camadas de visibilidade, modelos 3D por tipo, georreferenciamento, relevo do terreno
+ *   e planta de cada terminal.
+ * - Listar os terminais da aplicação (`SITES`). Para adicionar um terminal, inclua uma entrada com sua própria
+ *   fonte de dados (e.g., um JSON embarcado ou `createRestEquipmentRepository`).
+ *
+ * As TAGs só precisam ser únicas dentro de um terminal: os estados persistidos e o histórico de alterações são
+ * gravados por terminal (pelo `id`), e a troca de terminal reinicia os alarmes e a revisão histórica.
+ *
+ * Exporta:
+ * - `Site`: Interface de um terminal.
+ * - `SITES`: Terminais disponíveis.
+ * - `DEFAULT_SITE_ID`: Terminal aberto por padrão.
+ * - `getSiteById`: Busca um terminal pelo id.
+ */
+import type { CameraState, Layer, SiteBounds } from '@/lib/types';
+import {
+  createBundledEquipmentRepository,
+  createDefaultEquipmentRepository,
+  type EquipmentRepository,
+} from '@/core/data/equipment-repository';
+import { initialLayers } from '@/core/data/initial-data';
+import type { SiteGeoreference } from '@/core/logic/georeference';
+import type { EquipmentTypeModels } from '@/core/three/equipment-model-loader';
+import type { SiteTerrain } from '@/core/data/terrain-source';
+import type { SitePlanConfig } from '@/core/data/site-plan-store';
+
+/**
+ * Um terminal (site) da empresa.
+ * @interface Site
+ * @property {string} id - Identificador único (usado na URL, no navegador para lembrar o terminal escolhido e como chave
+ *           dos estados e do histórico persistidos; não deve mudar depois que o terminal estiver em uso).
+ * @property {string} name - Nome exibido no seletor de terminais.
+ * @property {SiteBounds} bounds - Limites da área do terminal; definem o tamanho e a posição do plano de chão.
+ * @property {CameraState} defaultCamera - Câmera ao abrir o terminal.
+ * @property {() => EquipmentRepository} createEquipmentRepository - Cria a fonte dos equipamentos do terminal.
+ * @property {Layer[]} layers - Camadas de visibilidade do terminal, com a visibilidade inicial.
+ * @property {EquipmentTypeModels} [equipmentTypeModels] - Modelos glTF/GLB por tipo de equipamento (e.g., `{ Crane: '/models/guindaste.glb' }`);
+ *           os equipamentos também podem informar o próprio modelo em `modelUrl`.
+ * @property {SiteGeoreference} [georeference] - Posição e orientação da cena no mundo. Sem ele, não é possível importar
+ *           equipamentos em coordenadas geográficas nem exibir/exportar coordenadas do mundo.
+ * @property {SiteTerrain} [terrain] - Relevo do terreno (mapa de altura ou grade de elevações). Sem ele, o chão é plano.
+ * @property {SitePlanConfig} [sitePlan] - Planta do terminal (imagem 2D sobre o chão). Uma planta enviada pelo usuário
+ *           e gravada no navegador tem precedência.
+ */
+export interface Site {
+  id: string;
+  name: string;
+  bounds: SiteBounds;
+  defaultCamera: CameraState;
+  createEquipmentRepository: () => EquipmentRepository;
+  layers: Layer[];
+  equipmentTypeModels?: EquipmentTypeModels;
+  georeference?: SiteGeoreference;
+  terrain?: SiteTerrain;
+  sitePlan?: SitePlanConfig;
+}
+
+/** Terminais disponíveis, na ordem do seletor. */
+export const SITES: Site[] = [
+  {
+    id: 'terminal-principal',
+    name: 'Terminal Principal',
+    bounds: { minX: -50, maxX: 50, minZ: -50, maxZ: 50 },
+    defaultCamera: { position: { x: 25, y: 20, z: 25 }, lookAt: { x: 0, y: 2, z: 0 } },
+    createEquipmentRepository: createDefaultEquipmentRepository,
+    layers: initialLayers,
+    georeference: {
+      projection: { type: 'utm', zone: 23, hemisphere: 'S' },
+      origin: { easting: 364660, northing: 7350670 },
+      rotationDegrees: 0,
+    },
+  },
+  {
+    id: 'terminal-norte',
+    name: 'Terminal Norte',
+    bounds: { minX: -80, maxX: 60, minZ: -40, maxZ: 40 },
+    defaultCamera: { position: { x: 10, y: 45, z: 70 }, lookAt: { x: -10, y: 2, z: 0 } },
+    createEquipmentRepository: () => createBundledEquipmentRepository(
+      () => import('@/core/data/terminal-norte-equipment.json'),
+      'Terminal Norte (dados embarcados)'
+    ),
+    // O Terminal Norte não tem guindastes.
+    layers: initialLayers.filter(layer => layer.equipmentType !== 'Crane'),
+    // O arranjo do Terminal Norte segue o alinhamento do píer, girado em relação ao norte.
+    georeference: {
+      projection: { type: 'utm', zone: 23, hemisphere: 'S' },
+      origin: { easting: 366180, northing: 7353920 },
+      rotationDegrees: 12,
+    },
+  },
+];
+
+/** Id do terminal aberto por padrão. */
+export const DEFAULT_SITE_ID = SITES[0].id;
+
+/**
+ * Busca um terminal pelo id.
+ * @param {string} id O id do terminal.
+ * @param {Site[]} [sites=SITES] Os terminais disponíveis.
+ * @returns {Site | undefined} O terminal, ou undefined se não existir.
+ */
+export function getSiteById(id: string, sites: Site[] = SITES): Site | undefined {
+  return sites.find(site => site.id === id);
+}
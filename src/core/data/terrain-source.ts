@@ -0,0 +1,137 @@
+/**
+ * @fileOverview Fontes do relevo do terreno: mapas de altura (imagens em tons de cinza) e grades de elevação
+ * (CSV ou ESRI ASCII Grid), configurados por terminal ou enviados pelo usuário.
+ *
+ * Responsabilidades:
+ * - Definir a configuração do terreno de um terminal (`SiteTerrain`).
+ * - Carregar a grade de elevações de uma URL ou de um arquivo enviado. Os mapas de altura são decodificados
+ *   em um canvas: a luminância de cada pixel vira um valor de 0 (preto) a 1 (branco), e imagens grandes são
+ *   reduzidas para no máximo `MAX_HEIGHTMAP_SIZE` pixels de lado, limitando o número de vértices do terreno.
+ *
+ * Exporta:
+ * - `TerrainFormat`, `SiteTerrain`: Tipos.
+ * - `MAX_HEIGHTMAP_SIZE`: Maior lado, em pixels, de um mapa de altura decodificado.
+ * - `getTerrainFileFormat`: Identifica o formato de um arquivo de terreno.
+ * - `loadTerrainGrid`: Carrega a grade de elevações de uma URL.
+ * - `readTerrainGridFile`: Lê a grade de elevações de um arquivo enviado pelo usuário.
+ */
+import type { SiteBounds } from '@/lib/types';
+import { parseElevationGrid, type ElevationGrid } from '@/core/logic/terrain-elevation';
+
+/**
+ * Formato de uma fonte de terreno: mapa de altura (imagem) ou grade de elevações em texto.
+ * @typedef {'heightmap' | 'grid'} TerrainFormat
+ */
+export type TerrainFormat = 'heightmap' | 'grid';
+
+/**
+ * Terreno configurado para um terminal.
+ * @interface SiteTerrain
+ * @property {string} url - URL do mapa de altura ou da grade (arquivos em `public/` são servidos a partir da raiz).
+ * @property {TerrainFormat} format - O formato do arquivo.
+ * @property {SiteBounds} [extent] - A área coberta pelo terreno. Padrão: os limites do terminal.
+ * @property {number} verticalScale - Metros por unidade: a altura do branco, nos mapas de altura, ou o fator
+ *           aplicado aos valores da grade (1 para grades em metros).
+ * @property {number} [baseElevation=0] - Cota somada a todas as elevações, em metros.
+ * @property {boolean} [snapEquipment=false] - Se os equipamentos começam assentados sobre o terreno.
+ */
+export interface SiteTerrain {
+  url: string;
+  format: TerrainFormat;
+  extent?: SiteBounds;
+  verticalScale: number;
+  baseElevation?: number;
+  snapEquipment?: boolean;
+}
+
+/** Maior lado, em pixels, de um mapa de altura decodificado. */
+export const MAX_HEIGHTMAP_SIZE = 512;
+
+/**
+ * Identifica o formato de um arquivo de terreno: imagens são mapas de altura; os demais arquivos, grades em texto.
+ * @param {File} file O arquivo.
+ * @returns {TerrainFormat} O formato.
+ */
+export function getTerrainFileFormat(file: File): TerrainFormat {
+  return file.type.startsWith('image/') || /\.(png|jpe?g|webp|bmp|gif)$/i.test(file.name) ? 'heightmap' : 'grid';
+}
+
+/**
+ * Decodifica um mapa de altura em uma grade de valores de 0 a 1 (luminância dos pixels).
+ * @param {string} src A URL da imagem (inclusive `blob:`).
+ * @returns {Promise<ElevationGrid>} A grade, com no máximo `MAX_HEIGHTMAP_SIZE` pontos de lado.
+ * @throws {Error} Se a imagem não puder ser carregada ou for menor que 2 x 2 pixels.
+ */
+async function decodeHeightmap(src: string): Promise<ElevationGrid> {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = src;
+  try {
+    await image.decode();
+  } catch {
+    throw new Error('não foi possível carregar a imagem do mapa de altura.');
+  }
+
+  const scale = Math.min(1, MAX_HEIGHTMAP_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const columns = Math.max(1, Math.round(image.naturalWidth * scale));
+  const rows = Math.max(1, Math.round(image.naturalHeight * scale));
+  if (columns < 2 || rows < 2) {
+    throw new Error('o mapa de altura deve ter ao menos 2 x 2 pixels.');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = columns;
+  canvas.height = rows;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('o navegador não permitiu ler os pixels do mapa de altura.');
+  }
+  context.drawImage(image, 0, 0, columns, rows);
+  const { data } = context.getImageData(0, 0, columns, rows);
+
+  const values = new Float32Array(columns * rows);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = (0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]) / 255;
+  }
+  return { columns, rows, values };
+}
+
+/**
+ * Carrega a grade de elevações de uma URL.
+ * @param {string} url A URL do mapa de altura ou da grade.
+ * @param {TerrainFormat} format O formato do arquivo.
+ * @returns {Promise<ElevationGrid>} A grade.
+ * @throws {Error} Se o arquivo não puder ser baixado ou interpretado.
+ */
+export async function loadTerrainGrid(url: string, format: TerrainFormat): Promise<ElevationGrid> {
+  try {
+    if (format === 'heightmap') return await decodeHeightmap(url);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`a requisição falhou com status ${response.status} ${response.statusText}.`);
+    }
+    return parseElevationGrid(await response.text());
+  } catch (error) {
+    throw new Error(`Terreno "${url}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Lê a grade de elevações de um arquivo enviado pelo usuário (imagem ou grade em texto).
+ * @param {File} file O arquivo.
+ * @returns {Promise<ElevationGrid>} A grade.
+ * @throws {Error} Se o arquivo não puder ser interpretado.
+ */
+export async function readTerrainGridFile(file: File): Promise<ElevationGrid> {
+  try {
+    if (getTerrainFileFormat(file) === 'grid') return parseElevationGrid(await file.text());
+    const objectUrl = URL.createObjectURL(file);
+    try {
+      return await decodeHeightmap(objectUrl);
+    } finally {
+      URL.revokeObjectURL(objectUrl);
+    }
+  } catch (error) {
+    throw new Error(`Arquivo "${file.name}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
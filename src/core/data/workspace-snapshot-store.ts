@@ -0,0 +1,116 @@
+/**
+ * @fileOverview Persistência local dos snapshots nomeados do espaço de trabalho.
+ *
+ * Responsabilidades:
+ * - Definir a interface `WorkspaceSnapshotStore`, usada por `useWorkspaceSnapshotManager` para listar,
+ *   gravar e excluir snapshots.
+ * - Fornecer a implementação baseada no IndexedDB do navegador (`createIndexedDbWorkspaceSnapshotStore`),
+ *   com um registro por snapshot (chave = terminal + nome). Registros inválidos (e.g., de uma versão incompatível) são ignorados.
+ *   Os registros gravados antes dos terminais (chave = nome) são migrados para o terminal padrão.
+ * - Escolher o armazenamento padrão conforme o ambiente (`createDefaultWorkspaceSnapshotStore`).
+ *
+ * Exporta:
+ * - `WorkspaceSnapshotStore`: Interface do armazenamento.
+ * - `WORKSPACE_SNAPSHOT_DB_NAME`, `WORKSPACE_SNAPSHOT_OBJECT_STORE`: Nomes padrão do banco e do object store.
+ * - `createIndexedDbWorkspaceSnapshotStore`: Implementação com IndexedDB.
+ * - `createDefaultWorkspaceSnapshotStore`: Armazenamento padrão (ou null, para operar apenas em memória).
+ */
+import { parseWorkspaceSnapshot, type WorkspaceSnapshot } from '@/core/logic/workspace-snapshot';
+import { DEFAULT_SITE_ID } from '@/core/data/sites';
+import { createIndexedDbConnection } from '@/core/data/indexed-db';
+
+/**
+ * Armazenamento dos snapshots nomeados do espaço de trabalho.
+ * @interface WorkspaceSnapshotStore
+ * @property {() => Promise<WorkspaceSnapshot[]>} listSnapshots - Lista os snapshots gravados, de todos os terminais.
+ * @property {(snapshot: WorkspaceSnapshot) => Promise<void>} saveSnapshot - Grava um snapshot, substituindo outro de mesmo nome no mesmo terminal.
+ * @property {(siteId: string, name: string) => Promise<void>} deleteSnapshot - Exclui o snapshot do terminal com o nome informado.
+ */
+export interface WorkspaceSnapshotStore {
+  listSnapshots: () => Promise<WorkspaceSnapshot[]>;
+  saveSnapshot: (snapshot: WorkspaceSnapshot) => Promise<void>;
+  deleteSnapshot: (siteId: string, name: string) => Promise<void>;
+}
+
+/** Nome padrão do banco IndexedDB. */
+export const WORKSPACE_SNAPSHOT_DB_NAME = 'terminal3d';
+/** Nome padrão do object store dos snapshots. */
+export const WORKSPACE_SNAPSHOT_OBJECT_STORE = 'workspaceSnapshots';
+
+/** Chave dos registros: o terminal e o nome do snapshot. */
+const SNAPSHOT_KEY_PATH = ['siteId', 'name'];
+
+/**
+ * Recria o object store da versão 1 do banco (chave = nome) com a chave atual, atribuindo ao terminal informado
+ * os registros que não têm terminal. Executado dentro da transação de atualização do banco.
+ * @param {IDBDatabase} db O banco em atualização.
+ * @param {IDBTransaction} transaction A transação de atualização.
+ * @param {string} storeName O nome do object store.
+ * @param {string} legacySiteId O terminal dos registros antigos.
+ */
+function migrateNameKeyedStore(db: IDBDatabase, transaction: IDBTransaction, storeName: string, legacySiteId: string): void {
+  const readRequest = transaction.objectStore(storeName).getAll();
+  readRequest.onsuccess = () => {
+    db.deleteObjectStore(storeName);
+    const store = db.createObjectStore(storeName, { keyPath: SNAPSHOT_KEY_PATH });
+    readRequest.result.forEach((record: unknown) => {
+      if (typeof record !== 'object' || record === null || typeof (record as { name?: unknown }).name !== 'string') return;
+      const { siteId } = record as { siteId?: unknown };
+      store.put({ ...record, siteId: typeof siteId === 'string' && siteId ? siteId : legacySiteId });
+    });
+  };
+}
+
+/**
+ * Cria um armazenamento de snapshots baseado no IndexedDB. O banco é aberto (e criado ou atualizado, se necessário)
+ * no primeiro acesso.
+ * @param {IDBFactory} factory A fábrica do IndexedDB (normalmente `window.indexedDB`).
+ * @param {string} [legacySiteId=DEFAULT_SITE_ID] O terminal atribuído aos snapshots gravados antes dos terminais.
+ * @param {string} [dbName=WORKSPACE_SNAPSHOT_DB_NAME] O nome do banco.
+ * @param {string} [storeName=WORKSPACE_SNAPSHOT_OBJECT_STORE] O nome do object store.
+ * @returns {WorkspaceSnapshotStore} O armazenamento criado.
+ */
+export function createIndexedDbWorkspaceSnapshotStore(
+  factory: IDBFactory,
+  legacySiteId: string = DEFAULT_SITE_ID,
+  dbName: string = WORKSPACE_SNAPSHOT_DB_NAME,
+  storeName: string = WORKSPACE_SNAPSHOT_OBJECT_STORE
+): WorkspaceSnapshotStore {
+  const connection = createIndexedDbConnection(factory, dbName, 2, (db, transaction) => {
+    if (!db.objectStoreNames.contains(storeName)) {
+      db.createObjectStore(storeName, { keyPath: SNAPSHOT_KEY_PATH });
+    } else if (transaction.objectStore(storeName).keyPath === 'name') {
+      migrateNameKeyedStore(db, transaction, storeName, legacySiteId);
+    }
+  });
+  const withStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    connection.withStore(storeName, mode, run);
+
+  return {
+    listSnapshots: async () => {
+      const records = await withStore<unknown[]>('readonly', store => store.getAll());
+      return records.flatMap(record => {
+        try {
+          return [parseWorkspaceSnapshot(record, legacySiteId)];
+        } catch {
+          return [];
+        }
+      });
+    },
+    saveSnapshot: async (snapshot) => {
+      await withStore('readwrite', store => store.put(snapshot));
+    },
+    deleteSnapshot: async (siteId, name) => {
+      await withStore('readwrite', store => store.delete([siteId, name]));
+    },
+  };
+}
+
+/**
+ * Cria o armazenamento de snapshots padrão da aplicação.
+ * @returns {WorkspaceSnapshotStore | null} O armazenamento no IndexedDB, ou null se o IndexedDB não estiver disponível
+ *          (e.g., na renderização no servidor).
+ */
+export function createDefaultWorkspaceSnapshotStore(): WorkspaceSnapshotStore | null {
+  return typeof window !== 'undefined' && window.indexedDB ? createIndexedDbWorkspaceSnapshotStore(window.indexedDB) : null;
+}
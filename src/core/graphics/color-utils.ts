@@ -7,8 +7,10 @@
  * - Fornecer uma função `getEquipmentColor` que calcula a cor final de um equipamento.
  * - Implementar a lógica de coloração para os modos:
  *   - 'Equipamento': Usa a cor base definida nos dados do equipamento.
- *   - 'Estado Operacional': Mapeia estados operacionais específicos para cores predefinidas.
+ *   - 'Estado Operacional': Usa a cor do estado no modelo de estados do tipo do equipamento (`operational-state-model`).
  *   - 'Produto': Gera uma cor proceduralmente a partir dos três primeiros caracteres do código do produto.
+ *   - 'Nível': Interpola a cor dos tanques entre vazio e cheio pelo percentual de enchimento.
+ *   - 'Atributo:<chave>': Interpola números e datas na faixa dos valores, gera uma cor por texto e usa duas cores para booleanos.
  * - Incluir uma função auxiliar `getCharNumericValue` para a coloração por produto.
  *
  * Exporta:
@@ -16,6 +18,25 @@
  */
 import * as THREE from 'three';
 import type { Equipment, ColorMode } from '@/lib/types';
+import { getTankInventory } from '@/core/logic/tank-inventory';
+import { getStateDefinition } from '@/core/logic/operational-state-model';
+import {
+  getAttributeDefinitions,
+  getAttributeNumericValue,
+  getColorModeAttributeKey,
+  type AttributeRange,
+} from '@/core/logic/equipment-attributes';
+
+/** Cores do modo 'Nível': tanque vazio, tanque cheio e equipamentos sem nível. */
+const EMPTY_TANK_COLOR = new THREE.Color(0xE3F2FD);
+const FULL_TANK_COLOR = new THREE.Color(0x0D47A1);
+const NO_LEVEL_COLOR = new THREE.Color(0x9E9E9E);
+
+/** Cores do modo por atributo: extremos da faixa numérica/de datas e valores booleanos. */
+const ATTRIBUTE_LOW_COLOR = new THREE.Color(0xFFF59D);
+const ATTRIBUTE_HIGH_COLOR = new THREE.Color(0xC62828);
+const ATTRIBUTE_TRUE_COLOR = new THREE.Color(0x2E7D32);
+const ATTRIBUTE_FALSE_COLOR = new THREE.Color(0xB0BEC5);
 
 /**
  * Converte um caractere ('0'-'9' ou 'A'-'Z') para um valor numérico (0-35).
@@ -35,16 +56,53 @@ function getCharNumericValue(char: string): number {
   return 0;
 }
 
+/**
+ * Gera uma cor estável para um texto (mesmo texto, mesma cor), variando o matiz.
+ * @param {string} text O texto.
+ * @returns {THREE.Color} A cor gerada.
+ */
+function getTextColor(text: string): THREE.Color {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return new THREE.Color().setHSL((Math.abs(hash) % 360) / 360, 0.6, 0.5);
+}
+
+/**
+ * Determina a cor de um equipamento pelo valor de um atributo customizado.
+ * @param {Equipment} item O equipamento.
+ * @param {string} key A chave do atributo.
+ * @param {AttributeRange | null} range A faixa dos valores do atributo (números e datas).
+ * @returns {THREE.Color} A cor do valor, ou cinza neutro se o equipamento não tiver o atributo.
+ */
+function getAttributeColor(item: Equipment, key: string, range: AttributeRange | null): THREE.Color {
+  const definition = getAttributeDefinitions(item.type).find(candidate => candidate.key === key);
+  const value = item.attributes?.[key];
+  if (!definition || value === undefined) return NO_LEVEL_COLOR.clone();
+  if (typeof value === 'boolean') return (value ? ATTRIBUTE_TRUE_COLOR : ATTRIBUTE_FALSE_COLOR).clone();
+  const numericValue = getAttributeNumericValue(definition, value);
+  if (numericValue === null) return getTextColor(String(value));
+  const t = range && range.max > range.min ? (numericValue - range.min) / (range.max - range.min) : 1;
+  return new THREE.Color().lerpColors(ATTRIBUTE_LOW_COLOR, ATTRIBUTE_HIGH_COLOR, Math.min(Math.max(t, 0), 1));
+}
+
 /**
  * Determina a cor final de um equipamento com base no modo de colorização e seus atributos.
  * @param {Equipment} item O equipamento para o qual a cor será determinada.
- * @param {ColorMode} colorMode O modo de colorização selecionado ('Equipamento', 'Estado Operacional', 'Produto').
+ * @param {ColorMode} colorMode O modo de colorização selecionado ('Equipamento', 'Estado Operacional', 'Produto', 'Nível' ou 'Atributo:<chave>').
+ * @param {AttributeRange | null} [attributeRange] Faixa dos valores do atributo no modo por atributo (ver `getAttributeRange`).
  * @returns {THREE.Color} A cor calculada para o equipamento.
  */
-export function getEquipmentColor(item: Equipment, colorMode: ColorMode): THREE.Color {
+export function getEquipmentColor(item: Equipment, colorMode: ColorMode, attributeRange: AttributeRange | null = null): THREE.Color {
   const baseColor = new THREE.Color(item.color);
   let finalColor = new THREE.Color();
 
+  const attributeKey = getColorModeAttributeKey(colorMode);
+  if (attributeKey) {
+    return getAttributeColor(item, attributeKey, attributeRange);
+  }
+
   switch (colorMode) {
     case 'Produto':
       if (item.product && item.product !== "Não aplicável" && item.product.length >= 3) {
@@ -56,18 +114,21 @@ export function getEquipmentColor(item: Equipment, colorMode: ColorMode): THREE.
         finalColor.copy(baseColor);
       }
       break;
-    case 'Estado Operacional':
-      switch (item.operationalState) {
-        case 'operando': finalColor.setHex(0xFF0000); break;       // Vermelho
-        case 'não operando': finalColor.setHex(0x00FF00); break; // Verde
-        case 'manutenção': finalColor.setHex(0xFFFF00); break;   // Amarelo
-        case 'em falha': finalColor.setHex(0xDA70D6); break;       // Roxo Orchid (quase rosa)
-        case 'Não aplicável':
-        default:
-          finalColor.copy(baseColor);
-          break;
+    case 'Estado Operacional': {
+      // Estados sem cor no modelo (e.g., 'Não aplicável') ou fora dele mantêm a cor do equipamento.
+      const stateColor = getStateDefinition(item.type, item.operationalState)?.color;
+      finalColor.copy(stateColor ? new THREE.Color(stateColor) : baseColor);
+      break;
+    }
+    case 'Nível': {
+      const inventory = getTankInventory(item);
+      if (inventory) {
+        finalColor.lerpColors(EMPTY_TANK_COLOR, FULL_TANK_COLOR, inventory.levelPercent / 100);
+      } else {
+        finalColor.copy(NO_LEVEL_COLOR);
       }
       break;
+    }
     case 'Equipamento':
     default:
       finalColor.copy(baseColor);
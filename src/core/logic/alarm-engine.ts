@@ -0,0 +1,263 @@
+/**
+ * @fileOverview Motor de alarmes: avalia regras configuráveis contra os dados dos equipamentos.
+ *
+ * Responsabilidades:
+ * - Definir as regras de alarme: estado operacional igual a um valor, ou atributo numérico acima/abaixo
+ *   de um limite, com banda morta (histerese) para evitar que o alarme oscile perto do limite.
+ * - Avaliar as regras a cada mudança dos dados, mantendo o ciclo de vida de cada alarme:
+ *   'active' (condição presente, não reconhecido) → 'acknowledged' (reconhecido pelo operador), ou
+ *   'cleared' (condição normalizada antes do reconhecimento, aguardando-o para sair da lista).
+ * - Informar quais alarmes foram gerados na avaliação, para que a interface notifique o operador.
+ * - Validar regras configuradas pelo operador (e.g., lidas do navegador), com todos os problemas encontrados.
+ *
+ * Exporta:
+ * - `NumericEquipmentField`: Atributos numéricos de `Equipment` que podem ser monitorados.
+ * - `NUMERIC_EQUIPMENT_FIELDS`: A lista desses atributos.
+ * - `AlarmSeverity`, `AlarmRule`, `AlarmStatus`, `Alarm`, `AlarmEvaluation`: Tipos do motor.
+ * - `DEFAULT_ALARM_RULES`: Regras padrão (falha de equipamento e nível alto/baixo de tanques).
+ * - `evaluateAlarms`: Avalia as regras e produz a nova lista de alarmes.
+ * - `acknowledgeAlarms`: Reconhece alarmes (e remove os já normalizados).
+ * - `parseAlarmRules`: Valida dados brutos como uma lista de regras.
+ */
+import { z } from 'zod';
+import type { Equipment } from '@/lib/types';
+import { getTankLevelPercent } from '@/core/logic/tank-inventory';
+import { EQUIPMENT_TYPES } from '@/core/logic/equipment-validation';
+
+/**
+ * Atributos numéricos de `Equipment` que podem ser usados em regras de limite.
+ * @typedef {'radius' | 'height' | 'level'} NumericEquipmentField
+ */
+export type NumericEquipmentField = {
+  [K in keyof Equipment]-?: Equipment[K] extends number | undefined ? K : never;
+}[keyof Equipment];
+
+/** Atributos numéricos que podem ser usados em regras de limite. */
+export const NUMERIC_EQUIPMENT_FIELDS = ['level', 'radius', 'height', 'bendRadius'] as const satisfies readonly NumericEquipmentField[];
+
+/**
+ * Severidade de um alarme.
+ * @typedef {'alta' | 'média' | 'baixa'} AlarmSeverity
+ */
+export type AlarmSeverity = 'alta' | 'média' | 'baixa';
+
+/**
+ * Campos comuns a todas as regras de alarme.
+ * @interface AlarmRuleBase
+ * @property {string} id - Identificador único da regra.
+ * @property {string} description - Descrição exibida no alarme (e.g., "Nível alto").
+ * @property {AlarmSeverity} severity - Severidade dos alarmes gerados pela regra.
+ * @property {Equipment['type']} [equipmentType] - Restringe a regra a um tipo de equipamento.
+ * @property {string[]} [tags] - Restringe a regra a equipamentos específicos.
+ */
+interface AlarmRuleBase {
+  id: string;
+  description: string;
+  severity: AlarmSeverity;
+  equipmentType?: Equipment['type'];
+  tags?: string[];
+}
+
+/**
+ * Uma regra de alarme.
+ * - `stateEquals`: dispara enquanto o estado operacional for igual a `state`.
+ * - `above`: dispara quando `field` ultrapassa `threshold` e normaliza abaixo de `threshold - deadband`.
+ *   O campo `level` é sempre comparado em porcentagem, mesmo nos tanques com nível informado em metros.
+ * - `below`: dispara quando `field` fica abaixo de `threshold` e normaliza acima de `threshold + deadband`.
+ * @typedef {object} AlarmRule
+ */
+export type AlarmRule =
+  | (AlarmRuleBase & { kind: 'stateEquals'; state: string })
+  | (AlarmRuleBase & { kind: 'above' | 'below'; field: NumericEquipmentField; threshold: number; deadband: number });
+
+/**
+ * Situação de um alarme.
+ * @typedef {'active' | 'acknowledged' | 'cleared'} AlarmStatus
+ */
+export type AlarmStatus = 'active' | 'acknowledged' | 'cleared';
+
+/**
+ * Um alarme gerado por uma regra para um equipamento.
+ * @interface Alarm
+ * @property {string} id - Identificador do alarme (regra + TAG).
+ * @property {string} ruleId - A regra que gerou o alarme.
+ * @property {string} equipmentTag - A TAG do equipamento em alarme.
+ * @property {string} message - Mensagem legível do alarme.
+ * @property {AlarmSeverity} severity - Severidade do alarme.
+ * @property {AlarmStatus} status - Situação atual do alarme.
+ * @property {string} raisedAt - Data e hora (ISO 8601) em que o alarme foi gerado.
+ * @property {string} [acknowledgedAt] - Data e hora do reconhecimento, se reconhecido.
+ * @property {string} [clearedAt] - Data e hora da normalização, se normalizado.
+ */
+export interface Alarm {
+  id: string;
+  ruleId: string;
+  equipmentTag: string;
+  message: string;
+  severity: AlarmSeverity;
+  status: AlarmStatus;
+  raisedAt: string;
+  acknowledgedAt?: string;
+  clearedAt?: string;
+}
+
+/**
+ * Resultado de uma avaliação das regras.
+ * @interface AlarmEvaluation
+ * @property {Alarm[]} alarms - A nova lista de alarmes (ativos, reconhecidos e normalizados pendentes).
+ * @property {Alarm[]} raised - Os alarmes gerados nesta avaliação.
+ */
+export interface AlarmEvaluation {
+  alarms: Alarm[];
+  raised: Alarm[];
+}
+
+/** Regras padrão: falha de qualquer equipamento e nível alto/baixo dos tanques. */
+export const DEFAULT_ALARM_RULES: AlarmRule[] = [
+  { id: 'equipment-failure', description: 'Equipamento em falha', severity: 'alta', kind: 'stateEquals', state: 'em falha' },
+  { id: 'tank-level-high', description: 'Nível alto', severity: 'média', kind: 'above', equipmentType: 'Tank', field: 'level', threshold: 90, deadband: 2 },
+  { id: 'tank-level-low', description: 'Nível baixo', severity: 'baixa', kind: 'below', equipmentType: 'Tank', field: 'level', threshold: 10, deadband: 2 },
+];
+
+const alarmRuleBaseSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1),
+  severity: z.enum(['alta', 'média', 'baixa']),
+  equipmentType: z.enum(EQUIPMENT_TYPES).optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+const alarmRulesSchema = z.array(z.discriminatedUnion('kind', [
+  alarmRuleBaseSchema.extend({ kind: z.literal('stateEquals'), state: z.string().min(1) }),
+  alarmRuleBaseSchema.extend({
+    kind: z.enum(['above', 'below']),
+    field: z.enum(NUMERIC_EQUIPMENT_FIELDS),
+    threshold: z.number().finite(),
+    deadband: z.number().finite().min(0),
+  }),
+])).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'id'], message: `Id de regra duplicado: "${rule.id}"` });
+    }
+    seen.add(rule.id);
+  });
+});
+
+/**
+ * Indica se uma regra se aplica a um equipamento (pelo tipo e pelas TAGs).
+ */
+function ruleAppliesTo(rule: AlarmRule, item: Equipment): boolean {
+  if (rule.equipmentType && rule.equipmentType !== item.type) return false;
+  return !rule.tags || rule.tags.includes(item.tag);
+}
+
+/**
+ * Avalia a condição de uma regra para um equipamento.
+ * Nas regras de limite, a banda morta só é considerada enquanto o alarme está em condição
+ * (`wasInAlarm`): para disparar basta cruzar o limite, para normalizar é preciso sair da banda.
+ * @returns {{ inAlarm: boolean; message: string }} Se a condição está presente e a mensagem do alarme.
+ */
+function evaluateRule(rule: AlarmRule, item: Equipment, wasInAlarm: boolean): { inAlarm: boolean; message: string } {
+  if (rule.kind === 'stateEquals') {
+    return { inAlarm: item.operationalState === rule.state, message: `${rule.description}: ${item.name}` };
+  }
+  const value = rule.field === 'level' ? getTankLevelPercent(item) : item[rule.field];
+  if (value === undefined) return { inAlarm: false, message: '' };
+  const message = `${rule.description}: ${item.name} (${value} ${rule.kind === 'above' ? '>' : '<'} ${rule.threshold})`;
+  if (rule.kind === 'above') {
+    return { inAlarm: wasInAlarm ? value >= rule.threshold - rule.deadband : value > rule.threshold, message };
+  }
+  return { inAlarm: wasInAlarm ? value <= rule.threshold + rule.deadband : value < rule.threshold, message };
+}
+
+/**
+ * Normaliza um alarme cuja condição deixou de existir.
+ * @returns {Alarm | null} O alarme 'cleared' a manter na lista, ou null se ele já havia sido reconhecido.
+ */
+function clearAlarm(alarm: Alarm, now: string): Alarm | null {
+  if (alarm.status === 'acknowledged') return null;
+  return alarm.status === 'cleared' ? alarm : { ...alarm, status: 'cleared', clearedAt: now };
+}
+
+/**
+ * Avalia as regras contra os equipamentos, partindo da lista de alarmes anterior.
+ * - Condição presente sem alarme em condição: gera um novo alarme 'active' (substituindo um 'cleared' anterior).
+ * - Condição presente com alarme em condição: mantém o alarme (e seu reconhecimento), atualizando a mensagem.
+ * - Condição ausente com alarme em condição: se já reconhecido, o alarme sai da lista; senão, passa a
+ *   'cleared' e fica na lista até ser reconhecido.
+ * Alarmes de equipamentos que deixaram de existir também são normalizados.
+ *
+ * @param {AlarmRule[]} rules - As regras de alarme.
+ * @param {Equipment[]} equipment - A lista completa de equipamentos.
+ * @param {Alarm[]} previousAlarms - A lista de alarmes da avaliação anterior.
+ * @param {string} now - Data e hora (ISO 8601) da avaliação.
+ * @returns {AlarmEvaluation} A nova lista de alarmes e os alarmes gerados.
+ */
+export function evaluateAlarms(rules: AlarmRule[], equipment: Equipment[], previousAlarms: Alarm[], now: string): AlarmEvaluation {
+  const previousById = new Map(previousAlarms.map(alarm => [alarm.id, alarm]));
+  const evaluatedIds = new Set<string>();
+  const alarms: Alarm[] = [];
+  const raised: Alarm[] = [];
+
+  rules.forEach(rule => {
+    equipment.filter(item => ruleAppliesTo(rule, item)).forEach(item => {
+      const id = `${rule.id}:${item.tag}`;
+      const previous = previousById.get(id);
+      const wasInAlarm = previous !== undefined && previous.status !== 'cleared';
+      const { inAlarm, message } = evaluateRule(rule, item, wasInAlarm);
+      evaluatedIds.add(id);
+
+      if (inAlarm && wasInAlarm) {
+        alarms.push({ ...previous, message });
+      } else if (inAlarm) {
+        const alarm: Alarm = { id, ruleId: rule.id, equipmentTag: item.tag, message, severity: rule.severity, status: 'active', raisedAt: now };
+        alarms.push(alarm);
+        raised.push(alarm);
+      } else if (previous) {
+        const cleared = clearAlarm(previous, now);
+        if (cleared) alarms.push(cleared);
+      }
+    });
+  });
+
+  previousAlarms
+    .filter(alarm => !evaluatedIds.has(alarm.id))
+    .forEach(alarm => {
+      const cleared = clearAlarm(alarm, now);
+      if (cleared) alarms.push(cleared);
+    });
+
+  return { alarms, raised };
+}
+
+/**
+ * Reconhece alarmes: os que estão em condição passam a 'acknowledged'; os já normalizados saem da lista.
+ * @param {Alarm[]} alarms - A lista de alarmes.
+ * @param {string[]} alarmIds - Os identificadores dos alarmes a reconhecer.
+ * @param {string} now - Data e hora (ISO 8601) do reconhecimento.
+ * @returns {Alarm[]} A nova lista de alarmes.
+ */
+export function acknowledgeAlarms(alarms: Alarm[], alarmIds: string[], now: string): Alarm[] {
+  const ids = new Set(alarmIds);
+  return alarms
+    .filter(alarm => !(ids.has(alarm.id) && alarm.status === 'cleared'))
+    .map(alarm => (ids.has(alarm.id) && alarm.status === 'active' ? { ...alarm, status: 'acknowledged', acknowledgedAt: now } : alarm));
+}
+
+/**
+ * Valida dados brutos como uma lista de regras de alarme (ids únicos, severidade, tipo de equipamento e
+ * atributo conhecidos, limite numérico e banda morta não negativa).
+ * @param {unknown} raw - Os dados (e.g., o resultado de `JSON.parse` das regras gravadas).
+ * @returns {AlarmRule[]} As regras validadas.
+ * @throws {Error} Se os dados não forem uma lista de regras válida, com todos os problemas encontrados na mensagem.
+ */
+export function parseAlarmRules(raw: unknown): AlarmRule[] {
+  const parsed = alarmRulesSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.') || 'regras'}: ${issue.message}`);
+    throw new Error(`Regras de alarme inválidas (${problems.join('; ')})`);
+  }
+  return parsed.data;
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileOverview Consultas e exportação do histórico de alterações (auditoria) dos equipamentos.
+ *
+ * Responsabilidades:
+ * - Filtrar os registros do histórico por equipamento, sistema, área e intervalo de datas.
+ * - Ordenar os registros do mais recente para o mais antigo.
+ * - Serializar os registros em CSV, com os mesmos formatos da exportação de equipamentos.
+ *
+ * Exporta:
+ * - `AUDIT_FIELD_LABELS`: Rótulos legíveis dos campos auditados.
+ * - `AuditLogFilters`: Os filtros do histórico.
+ * - `filterAuditLog`: Filtra e ordena os registros.
+ * - `auditLogToCsv`: Serializa os registros em CSV.
+ */
+import type { AuditLogEntry } from '@/lib/types';
+import { DEFAULT_CSV_FORMAT, escapeCell, type CsvFormatOptions } from '@/core/logic/equipment-csv';
+
+/** Rótulos legíveis dos campos auditados. */
+export const AUDIT_FIELD_LABELS: Record<AuditLogEntry['field'], string> = {
+  operationalState: 'Estado Operacional',
+  product: 'Produto',
+};
+
+/**
+ * Filtros do histórico. Campos ausentes (ou 'All', para sistema e área) não restringem o resultado.
+ * @interface AuditLogFilters
+ * @property {string} [equipmentTag] - Apenas os registros deste equipamento.
+ * @property {string} [sistema] - Apenas os registros de equipamentos deste sistema.
+ * @property {string} [area] - Apenas os registros de equipamentos desta área.
+ * @property {string} [fromDate] - Data inicial (AAAA-MM-DD, inclusiva, no fuso local).
+ * @property {string} [toDate] - Data final (AAAA-MM-DD, inclusiva, no fuso local).
+ */
+export interface AuditLogFilters {
+  equipmentTag?: string;
+  sistema?: string;
+  area?: string;
+  fromDate?: string;
+  toDate?: string;
+}
+
+/**
+ * Converte uma data AAAA-MM-DD no início ou no fim daquele dia, no fuso local.
+ * @returns {number} O instante em milissegundos.
+ */
+function dayBoundary(date: string, endOfDay: boolean): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999).getTime()
+    : new Date(year, month - 1, day).getTime();
+}
+
+/**
+ * Filtra os registros do histórico e os ordena do mais recente para o mais antigo.
+ * @param {AuditLogEntry[]} entries - Os registros.
+ * @param {AuditLogFilters} filters - Os filtros.
+ * @returns {AuditLogEntry[]} Os registros filtrados.
+ */
+export function filterAuditLog(entries: AuditLogEntry[], filters: AuditLogFilters): AuditLogEntry[] {
+  const from = filters.fromDate ? dayBoundary(filters.fromDate, false) : -Infinity;
+  const to = filters.toDate ? dayBoundary(filters.toDate, true) : Infinity;
+  return entries
+    .filter(entry => {
+      if (filters.equipmentTag && entry.equipmentTag !== filters.equipmentTag) return false;
+      if (filters.sistema && filters.sistema !== 'All' && entry.sistema !== filters.sistema) return false;
+      if (filters.area && filters.area !== 'All' && entry.area !== filters.area) return false;
+      const time = new Date(entry.timestamp).getTime();
+      return time >= from && time <= to;
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/** Colunas do CSV do histórico: cabeçalho e extração do valor de cada registro. */
+const AUDIT_LOG_CSV_COLUMNS: { header: string; value: (entry: AuditLogEntry) => string }[] = [
+  { header: 'timestamp', value: entry => entry.timestamp },
+  { header: 'user', value: entry => entry.user },
+  { header: 'tag', value: entry => entry.equipmentTag },
+  { header: 'sistema', value: entry => entry.sistema ?? '' },
+  { header: 'area', value: entry => entry.area ?? '' },
+  { header: 'field', value: entry => entry.field },
+  { header: 'oldValue', value: entry => entry.oldValue ?? '' },
+  { header: 'newValue', value: entry => entry.newValue },
+  { header: 'reason', value: entry => entry.reason ?? '' },
+];
+
+/**
+ * Serializa os registros do histórico em CSV, com uma linha de cabeçalho e uma linha por registro.
+ * @param {AuditLogEntry[]} entries - Os registros a exportar.
+ * @param {CsvFormatOptions} [options=DEFAULT_CSV_FORMAT] - As opções de formato (apenas o delimitador é relevante).
+ * @returns {string} O conteúdo CSV (linhas separadas por CRLF).
+ */
+export function auditLogToCsv(entries: AuditLogEntry[], options: CsvFormatOptions = DEFAULT_CSV_FORMAT): string {
+  const { delimiter } = options;
+  const headerLine = AUDIT_LOG_CSV_COLUMNS.map(col => escapeCell(col.header, delimiter)).join(delimiter);
+  const dataLines = entries.map(entry =>
+    AUDIT_LOG_CSV_COLUMNS.map(col => escapeCell(col.value(entry), delimiter)).join(delimiter)
+  );
+  return [headerLine, ...dataLines].join('\r\n');
+}
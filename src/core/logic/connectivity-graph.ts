@@ -0,0 +1,185 @@
+/**
+ * @fileOverview Grafo de conectividade entre equipamentos, construído a partir das referências `from`/`to`.
+ *
+ * Responsabilidades:
+ * - Converter as referências de conexão dos equipamentos (TAG e bocal opcional) em arestas direcionadas,
+ *   no sentido do fluxo: `from` → equipamento → `to`.
+ * - Eliminar arestas repetidas (a mesma ligação pode ser declarada pelos dois equipamentos envolvidos)
+ *   e registrar referências para TAGs inexistentes, sem interromper a construção.
+ * - Responder consultas de vizinhança: vizinhos a montante (upstream) e a jusante (downstream).
+ *
+ * Exporta:
+ * - `ConnectionEdge`: Uma ligação direcionada entre dois equipamentos.
+ * - `DanglingConnectionReference`: Uma referência a uma TAG que não existe nos dados.
+ * - `ConnectivityGraph`: O grafo construído.
+ * - `ConnectedNeighbor`: Um vizinho de um equipamento, com o sentido da ligação.
+ * - `buildConnectivityGraph`: Constrói o grafo a partir da lista de equipamentos.
+ * - `getUpstreamNeighbors`, `getDownstreamNeighbors`, `getConnectedNeighbors`: Consultas de vizinhança.
+ */
+import type { Equipment } from '@/lib/types';
+
+/**
+ * Uma ligação direcionada (no sentido do fluxo) entre dois equipamentos.
+ * @interface ConnectionEdge
+ * @property {string} fromTag - TAG do equipamento de origem.
+ * @property {string} toTag - TAG do equipamento de destino.
+ * @property {string} [fromNozzle] - Bocal de saída no equipamento de origem, se informado.
+ * @property {string} [toNozzle] - Bocal de entrada no equipamento de destino, se informado.
+ */
+export interface ConnectionEdge {
+  fromTag: string;
+  toTag: string;
+  fromNozzle?: string;
+  toNozzle?: string;
+}
+
+/**
+ * Uma referência de conexão que aponta para uma TAG inexistente.
+ * @interface DanglingConnectionReference
+ * @property {string} tag - TAG do equipamento que declarou a referência.
+ * @property {'from' | 'to'} side - O lado da referência.
+ * @property {string} missingTag - A TAG referenciada que não foi encontrada.
+ */
+export interface DanglingConnectionReference {
+  tag: string;
+  side: 'from' | 'to';
+  missingTag: string;
+}
+
+/**
+ * Grafo de conectividade dos equipamentos.
+ * @interface ConnectivityGraph
+ * @property {ConnectionEdge[]} edges - Todas as ligações, sem repetições.
+ * @property {Map<string, ConnectionEdge[]>} outgoing - Ligações que saem de cada TAG (a jusante).
+ * @property {Map<string, ConnectionEdge[]>} incoming - Ligações que chegam a cada TAG (a montante).
+ * @property {DanglingConnectionReference[]} danglingReferences - Referências para TAGs inexistentes (ignoradas no grafo).
+ */
+export interface ConnectivityGraph {
+  edges: ConnectionEdge[];
+  outgoing: Map<string, ConnectionEdge[]>;
+  incoming: Map<string, ConnectionEdge[]>;
+  danglingReferences: DanglingConnectionReference[];
+}
+
+/**
+ * Um equipamento vizinho, com o sentido da ligação em relação ao equipamento consultado.
+ * @interface ConnectedNeighbor
+ * @property {string} tag - TAG do vizinho.
+ * @property {'upstream' | 'downstream'} direction - 'upstream' se o fluxo vem do vizinho; 'downstream' se vai para ele.
+ * @property {string} [neighborNozzle] - Bocal do vizinho usado na ligação, se informado.
+ * @property {string} [localNozzle] - Bocal do equipamento consultado usado na ligação, se informado.
+ */
+export interface ConnectedNeighbor {
+  tag: string;
+  direction: 'upstream' | 'downstream';
+  neighborNozzle?: string;
+  localNozzle?: string;
+}
+
+/**
+ * Adiciona um item à lista associada a uma chave do mapa, criando a lista se necessário.
+ */
+function pushToMap<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    map.set(key, [value]);
+  }
+}
+
+/**
+ * Constrói o grafo de conectividade a partir das referências `from`/`to` dos equipamentos.
+ * Para um equipamento X, `from: { tag: A }` gera a ligação A → X e `to: { tag: B }` gera X → B.
+ * Ligações repetidas são mescladas (preservando os bocais informados em qualquer uma das declarações).
+ *
+ * @param {Equipment[]} equipment - A lista de equipamentos.
+ * @returns {ConnectivityGraph} O grafo construído.
+ */
+export function buildConnectivityGraph(equipment: Equipment[]): ConnectivityGraph {
+  const knownTags = new Set(equipment.map(item => item.tag));
+  const edgesByKey = new Map<string, ConnectionEdge>();
+  const danglingReferences: DanglingConnectionReference[] = [];
+
+  const addEdge = (edge: ConnectionEdge) => {
+    if (edge.fromTag === edge.toTag) return;
+    const key = `${edge.fromTag}->${edge.toTag}`;
+    const existing = edgesByKey.get(key);
+    if (existing) {
+      existing.fromNozzle ??= edge.fromNozzle;
+      existing.toNozzle ??= edge.toNozzle;
+    } else {
+      edgesByKey.set(key, { ...edge });
+    }
+  };
+
+  equipment.forEach(item => {
+    if (item.from) {
+      if (knownTags.has(item.from.tag)) {
+        addEdge({ fromTag: item.from.tag, toTag: item.tag, fromNozzle: item.from.nozzle });
+      } else {
+        danglingReferences.push({ tag: item.tag, side: 'from', missingTag: item.from.tag });
+      }
+    }
+    if (item.to) {
+      if (knownTags.has(item.to.tag)) {
+        addEdge({ fromTag: item.tag, toTag: item.to.tag, toNozzle: item.to.nozzle });
+      } else {
+        danglingReferences.push({ tag: item.tag, side: 'to', missingTag: item.to.tag });
+      }
+    }
+  });
+
+  const edges = Array.from(edgesByKey.values());
+  const outgoing = new Map<string, ConnectionEdge[]>();
+  const incoming = new Map<string, ConnectionEdge[]>();
+  edges.forEach(edge => {
+    pushToMap(outgoing, edge.fromTag, edge);
+    pushToMap(incoming, edge.toTag, edge);
+  });
+
+  return { edges, outgoing, incoming, danglingReferences };
+}
+
+/**
+ * Obtém as TAGs dos equipamentos imediatamente a montante (de onde o fluxo vem).
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {string} tag - A TAG consultada.
+ * @returns {string[]} As TAGs a montante.
+ */
+export function getUpstreamNeighbors(graph: ConnectivityGraph, tag: string): string[] {
+  return (graph.incoming.get(tag) ?? []).map(edge => edge.fromTag);
+}
+
+/**
+ * Obtém as TAGs dos equipamentos imediatamente a jusante (para onde o fluxo vai).
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {string} tag - A TAG consultada.
+ * @returns {string[]} As TAGs a jusante.
+ */
+export function getDownstreamNeighbors(graph: ConnectivityGraph, tag: string): string[] {
+  return (graph.outgoing.get(tag) ?? []).map(edge => edge.toTag);
+}
+
+/**
+ * Obtém todos os vizinhos de um equipamento, primeiro os a montante e depois os a jusante,
+ * com os bocais usados em cada ligação.
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {string} tag - A TAG consultada.
+ * @returns {ConnectedNeighbor[]} Os vizinhos do equipamento.
+ */
+export function getConnectedNeighbors(graph: ConnectivityGraph, tag: string): ConnectedNeighbor[] {
+  const upstream = (graph.incoming.get(tag) ?? []).map<ConnectedNeighbor>(edge => ({
+    tag: edge.fromTag,
+    direction: 'upstream',
+    neighborNozzle: edge.fromNozzle,
+    localNozzle: edge.toNozzle,
+  }));
+  const downstream = (graph.outgoing.get(tag) ?? []).map<ConnectedNeighbor>(edge => ({
+    tag: edge.toTag,
+    direction: 'downstream',
+    neighborNozzle: edge.toNozzle,
+    localNozzle: edge.fromNozzle,
+  }));
+  return [...upstream, ...downstream];
+}
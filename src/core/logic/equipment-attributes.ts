@@ -0,0 +1,309 @@
+/**
+ * @fileOverview Atributos customizados dos equipamentos (`Equipment.attributes`) e o schema de atributos por tipo.
+ *
+ * Responsabilidades:
+ * - Definir, para cada tipo de equipamento, os atributos aceitos (chave, rótulo, tipo do valor e unidade).
+ *   Uma mesma chave pode aparecer em vários tipos, mas deve ter o mesmo tipo de valor em todos eles, pois
+ *   filtros e modos de cor tratam a chave como uma única grandeza.
+ * - Verificar valores contra o schema (datas são gravadas como texto `AAAA-MM-DD`).
+ * - Formatar valores para exibição e para a busca textual.
+ * - Apoiar o filtro por atributo (opções de valores e correspondência) e o modo de cor por atributo
+ *   (modos `Atributo:<chave>` e faixa dos valores numéricos/datas).
+ *
+ * Exporta:
+ * - `AttributeType`, `AttributeDefinition`, `AttributeSchemas`, `AttributeFilter`, `AttributeRange`: Tipos do modelo.
+ * - `DEFAULT_ATTRIBUTE_SCHEMAS`: Schema padrão da aplicação.
+ * - `getAttributeDefinitions`, `getAttributeDefinition`: Consultas ao schema.
+ * - `checkAttributeValue`: Verifica um valor contra a definição do atributo.
+ * - `attributeValueToString`, `formatAttributeValue`, `getAttributeSearchText`: Conversões para texto.
+ * - `getAvailableAttributes`, `getAttributeFilterValues`, `matchesAttributeFilter`: Apoio ao filtro por atributo.
+ * - `ATTRIBUTE_COLOR_MODE_PREFIX`, `getAttributeColorMode`, `getColorModeAttributeKey`, `getAttributeRange`,
+ *   `getAttributeNumericValue`: Apoio ao modo de cor por atributo.
+ */
+import { format, isValid, parseISO } from 'date-fns';
+import type { AttributeColorMode, AttributeValue, ColorMode, Equipment } from '@/lib/types';
+
+/**
+ * Tipos de valor aceitos pelos atributos.
+ * @typedef {'string' | 'number' | 'date' | 'boolean'} AttributeType
+ */
+export type AttributeType = 'string' | 'number' | 'date' | 'boolean';
+
+/**
+ * Um atributo aceito por um tipo de equipamento.
+ * @interface AttributeDefinition
+ * @property {string} key - A chave em `Equipment.attributes`.
+ * @property {string} label - O rótulo exibido na interface.
+ * @property {AttributeType} type - O tipo do valor.
+ * @property {string} [unit] - A unidade dos valores numéricos (e.g., 'm³').
+ */
+export interface AttributeDefinition {
+  key: string;
+  label: string;
+  type: AttributeType;
+  unit?: string;
+}
+
+/**
+ * Atributos aceitos por cada tipo de equipamento, na ordem em que são exibidos.
+ * @typedef {Record<Equipment['type'], AttributeDefinition[]>} AttributeSchemas
+ */
+export type AttributeSchemas = Record<Equipment['type'], AttributeDefinition[]>;
+
+/**
+ * Filtro por atributo.
+ * @interface AttributeFilter
+ * @property {string} key - A chave do atributo.
+ * @property {string | null} value - O valor exigido (em `attributeValueToString`), ou null para qualquer valor preenchido.
+ */
+export interface AttributeFilter {
+  key: string;
+  value: string | null;
+}
+
+/**
+ * Faixa dos valores de um atributo numérico ou de data (datas em milissegundos desde a época).
+ * @interface AttributeRange
+ * @property {number} min - O menor valor.
+ * @property {number} max - O maior valor.
+ */
+export interface AttributeRange {
+  min: number;
+  max: number;
+}
+
+const INSPECTION_DATE: AttributeDefinition = { key: 'dataInspecao', label: 'Última inspeção', type: 'date' };
+const MATERIAL: AttributeDefinition = { key: 'material', label: 'Material', type: 'string' };
+const DIAMETER: AttributeDefinition = { key: 'diametro', label: 'Diâmetro', type: 'number', unit: 'pol' };
+
+/** Schema padrão da aplicação. */
+export const DEFAULT_ATTRIBUTE_SCHEMAS: AttributeSchemas = {
+  Building: [
+    { key: 'pavimentos', label: 'Pavimentos', type: 'number' },
+    INSPECTION_DATE,
+  ],
+  Crane: [
+    { key: 'capacidadeCarga', label: 'Capacidade de carga', type: 'number', unit: 't' },
+    INSPECTION_DATE,
+  ],
+  Tank: [
+    { key: 'capacidade', label: 'Capacidade', type: 'number', unit: 'm³' },
+    MATERIAL,
+    { key: 'tetoFlutuante', label: 'Teto flutuante', type: 'boolean' },
+    INSPECTION_DATE,
+  ],
+  Pipe: [DIAMETER, MATERIAL, INSPECTION_DATE],
+  Valve: [
+    DIAMETER,
+    { key: 'atuada', label: 'Atuada (motorizada)', type: 'boolean' },
+    INSPECTION_DATE,
+  ],
+  Terrain: [],
+};
+
+/** Prefixo dos modos de cor por atributo (e.g., `Atributo:capacidade`). */
+export const ATTRIBUTE_COLOR_MODE_PREFIX = 'Atributo:';
+
+/** Formato das datas gravadas nos atributos. */
+const ATTRIBUTE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Lista os atributos aceitos por um tipo de equipamento.
+ * @param {Equipment['type']} type - O tipo do equipamento.
+ * @param {AttributeSchemas} [schemas=DEFAULT_ATTRIBUTE_SCHEMAS] - O schema de atributos.
+ * @returns {AttributeDefinition[]} As definições dos atributos do tipo.
+ */
+export function getAttributeDefinitions(
+  type: Equipment['type'],
+  schemas: AttributeSchemas = DEFAULT_ATTRIBUTE_SCHEMAS
+): AttributeDefinition[] {
+  return schemas[type] ?? [];
+}
+
+/**
+ * Obtém a definição de um atributo pela chave, em qualquer tipo de equipamento.
+ * @param {string} key - A chave do atributo.
+ * @param {AttributeSchemas} [schemas=DEFAULT_ATTRIBUTE_SCHEMAS] - O schema de atributos.
+ * @returns {AttributeDefinition | null} A definição, ou null se nenhum tipo aceitar a chave.
+ */
+export function getAttributeDefinition(
+  key: string,
+  schemas: AttributeSchemas = DEFAULT_ATTRIBUTE_SCHEMAS
+): AttributeDefinition | null {
+  for (const definitions of Object.values(schemas)) {
+    const definition = definitions.find(candidate => candidate.key === key);
+    if (definition) return definition;
+  }
+  return null;
+}
+
+/**
+ * Verifica se um valor é aceito pela definição do atributo.
+ * @param {AttributeDefinition} definition - A definição do atributo.
+ * @param {unknown} value - O valor a verificar.
+ * @returns {string | null} O motivo da recusa, ou null se o valor for válido.
+ */
+export function checkAttributeValue(definition: AttributeDefinition, value: unknown): string | null {
+  switch (definition.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `"${definition.label}" deve ser um número`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `"${definition.label}" deve ser verdadeiro ou falso`;
+    case 'date':
+      return typeof value === 'string' && ATTRIBUTE_DATE_PATTERN.test(value) && isValid(parseISO(value))
+        ? null
+        : `"${definition.label}" deve ser uma data no formato AAAA-MM-DD`;
+    case 'string':
+    default:
+      return typeof value === 'string' ? null : `"${definition.label}" deve ser um texto`;
+  }
+}
+
+/**
+ * Converte um valor de atributo no texto usado pelo filtro (e.g., `true`, `12.5`, `2024-03-01`).
+ * @param {AttributeValue} value - O valor.
+ * @returns {string} O texto do valor.
+ */
+export function attributeValueToString(value: AttributeValue): string {
+  return String(value);
+}
+
+/**
+ * Formata um valor de atributo para exibição (números e datas no formato pt-BR, booleanos como Sim/Não).
+ * @param {AttributeDefinition | null} definition - A definição do atributo (sem ela, o valor é exibido como está).
+ * @param {AttributeValue} value - O valor.
+ * @returns {string} O valor formatado.
+ */
+export function formatAttributeValue(definition: AttributeDefinition | null, value: AttributeValue): string {
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'number') {
+    const formatted = value.toLocaleString('pt-BR');
+    return definition?.unit ? `${formatted} ${definition.unit}` : formatted;
+  }
+  if (definition?.type === 'date' && ATTRIBUTE_DATE_PATTERN.test(value)) {
+    const date = parseISO(value);
+    return isValid(date) ? format(date, 'dd/MM/yyyy') : value;
+  }
+  return value;
+}
+
+/**
+ * Monta o texto dos atributos de um equipamento para a busca textual: os valores como gravados e formatados
+ * e, nos atributos booleanos verdadeiros, o rótulo (e.g., "teto flutuante").
+ * @param {Equipment} item - O equipamento.
+ * @param {AttributeSchemas} [schemas=DEFAULT_ATTRIBUTE_SCHEMAS] - O schema de atributos.
+ * @returns {string} O texto, em minúsculas.
+ */
+export function getAttributeSearchText(item: Equipment, schemas: AttributeSchemas = DEFAULT_ATTRIBUTE_SCHEMAS): string {
+  if (!item.attributes) return '';
+  const definitions = getAttributeDefinitions(item.type, schemas);
+  return Object.entries(item.attributes)
+    .map(([key, value]) => {
+      const definition = definitions.find(candidate => candidate.key === key) ?? null;
+      if (typeof value === 'boolean') return value && definition ? definition.label : '';
+      return `${attributeValueToString(value)} ${formatAttributeValue(definition, value)}`;
+    })
+    .join(' ')
+    .toLowerCase();
+}
+
+/**
+ * Lista os atributos preenchidos em ao menos um dos equipamentos, na ordem do schema.
+ * @param {Equipment[]} equipment - Os equipamentos.
+ * @param {AttributeSchemas} [schemas=DEFAULT_ATTRIBUTE_SCHEMAS] - O schema de atributos.
+ * @returns {AttributeDefinition[]} As definições (uma por chave).
+ */
+export function getAvailableAttributes(
+  equipment: Equipment[],
+  schemas: AttributeSchemas = DEFAULT_ATTRIBUTE_SCHEMAS
+): AttributeDefinition[] {
+  const usedKeys = new Set(equipment.flatMap(equip => Object.keys(equip.attributes ?? {})));
+  const available = new Map<string, AttributeDefinition>();
+  Object.values(schemas).flat().forEach(definition => {
+    if (usedKeys.has(definition.key) && !available.has(definition.key)) available.set(definition.key, definition);
+  });
+  return Array.from(available.values());
+}
+
+/**
+ * Lista os valores distintos de um atributo nos equipamentos (em `attributeValueToString`), ordenados.
+ * @param {Equipment[]} equipment - Os equipamentos.
+ * @param {string} key - A chave do atributo.
+ * @returns {string[]} Os valores distintos; números em ordem numérica, demais em ordem alfabética.
+ */
+export function getAttributeFilterValues(equipment: Equipment[], key: string): string[] {
+  const values = new Map<string, AttributeValue>();
+  equipment.forEach(equip => {
+    const value = equip.attributes?.[key];
+    if (value !== undefined) values.set(attributeValueToString(value), value);
+  });
+  return Array.from(values.entries())
+    .sort(([textA, a], [textB, b]) => (typeof a === 'number' && typeof b === 'number' ? a - b : textA.localeCompare(textB)))
+    .map(([text]) => text);
+}
+
+/**
+ * Verifica se um equipamento atende ao filtro por atributo.
+ * @param {Equipment} item - O equipamento.
+ * @param {AttributeFilter} filter - O filtro.
+ * @returns {boolean} true se o atributo estiver preenchido (e, se o filtro exigir um valor, for igual a ele).
+ */
+export function matchesAttributeFilter(item: Equipment, filter: AttributeFilter): boolean {
+  const value = item.attributes?.[filter.key];
+  if (value === undefined) return false;
+  return filter.value === null || attributeValueToString(value) === filter.value;
+}
+
+/**
+ * Monta o modo de cor de um atributo.
+ * @param {string} key - A chave do atributo.
+ * @returns {AttributeColorMode} O modo de cor (e.g., `Atributo:capacidade`).
+ */
+export function getAttributeColorMode(key: string): AttributeColorMode {
+  return `${ATTRIBUTE_COLOR_MODE_PREFIX}${key}`;
+}
+
+/**
+ * Extrai a chave do atributo de um modo de cor.
+ * @param {ColorMode} colorMode - O modo de cor.
+ * @returns {string | null} A chave, ou null se o modo não for por atributo.
+ */
+export function getColorModeAttributeKey(colorMode: ColorMode): string | null {
+  return colorMode.startsWith(ATTRIBUTE_COLOR_MODE_PREFIX) ? colorMode.slice(ATTRIBUTE_COLOR_MODE_PREFIX.length) || null : null;
+}
+
+/**
+ * Converte um valor numérico ou de data em número (datas em milissegundos desde a época).
+ * @param {AttributeDefinition} definition - A definição do atributo.
+ * @param {AttributeValue | undefined} value - O valor.
+ * @returns {number | null} O número, ou null se o atributo não for numérico/data ou o valor for inválido.
+ */
+export function getAttributeNumericValue(definition: AttributeDefinition, value: AttributeValue | undefined): number | null {
+  if (definition.type === 'number' && typeof value === 'number') return value;
+  if (definition.type === 'date' && typeof value === 'string') {
+    const date = parseISO(value);
+    return isValid(date) ? date.getTime() : null;
+  }
+  return null;
+}
+
+/**
+ * Calcula a faixa dos valores de um atributo numérico ou de data nos equipamentos.
+ * @param {Equipment[]} equipment - Os equipamentos.
+ * @param {string} key - A chave do atributo.
+ * @param {AttributeSchemas} [schemas=DEFAULT_ATTRIBUTE_SCHEMAS] - O schema de atributos.
+ * @returns {AttributeRange | null} A faixa, ou null se o atributo não for numérico/data ou não tiver valores.
+ */
+export function getAttributeRange(
+  equipment: Equipment[],
+  key: string,
+  schemas: AttributeSchemas = DEFAULT_ATTRIBUTE_SCHEMAS
+): AttributeRange | null {
+  const definition = getAttributeDefinition(key, schemas);
+  if (!definition) return null;
+  const values = equipment
+    .map(equip => getAttributeNumericValue(definition, equip.attributes?.[key]))
+    .filter((value): value is number => value !== null);
+  if (values.length === 0) return null;
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
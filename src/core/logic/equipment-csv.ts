@@ -0,0 +1,378 @@
+/**
+ * @fileOverview Conversão da lista de equipamentos de/para CSV, compatível com planilhas.
+ *
+ * Responsabilidades:
+ * - Definir as colunas do CSV, achatando `position`, `rotation`, `size` e as conexões em colunas individuais
+ *   (e.g., `position.x`, `size.width`, `from.tag`). O traçado das tubulações (`path`) e os atributos customizados
+ *   (`attributes`) ocupam uma única célula cada, em JSON.
+ * - Serializar equipamentos em CSV com delimitador e separador decimal configuráveis
+ *   (e.g., `;` e vírgula decimal para o Excel em pt-BR) e, opcionalmente, com as coordenadas do mundo
+ *   (UTM e latitude/longitude) calculadas pelo georreferenciamento do terminal.
+ * - Interpretar um CSV de volta em registros brutos de equipamentos, com a linha do arquivo de cada registro.
+ *   Os registros não são validados aqui: eles seguem o mesmo fluxo de validação das demais fontes (`equipment-validation.ts`).
+ * - Proteger as planilhas contra injeção de fórmulas: células de texto que começam com `=`, `+`, `-` ou `@`
+ *   são exportadas com um apóstrofo na frente, removido na importação. Textos que já começam com apóstrofo
+ *   também o recebem, para voltarem intactos.
+ *
+ * Exporta:
+ * - `CsvFormatOptions`: Opções de formato (delimitador e separador decimal).
+ * - `DEFAULT_CSV_FORMAT`, `EXCEL_PT_BR_CSV_FORMAT`: Formatos predefinidos.
+ * - `EQUIPMENT_CSV_COLUMNS`: A ordem das colunas do CSV.
+ * - `GEOGRAPHIC_CSV_COLUMNS`: Colunas das coordenadas do mundo (exportadas sob demanda e aceitas na importação).
+ * - `equipmentToCsv`: Serializa equipamentos em CSV.
+ * - `ParsedEquipmentCsv`: Tipo dos registros interpretados e de suas linhas.
+ * - `parseEquipmentCsv`: Interpreta um CSV como registros brutos de equipamentos.
+ * - `escapeCell`: Escapa uma célula CSV (reutilizado por outras exportações, e.g., o histórico de alterações).
+ */
+import type { Equipment } from '@/lib/types';
+import { getGeographicPosition, type SiteGeoreference } from '@/core/logic/georeference';
+
+/**
+ * Opções de formato do CSV.
+ * @interface CsvFormatOptions
+ * @property {',' | ';' | '\t'} delimiter - O delimitador de colunas.
+ * @property {'.' | ','} decimalSeparator - O separador decimal dos números.
+ */
+export interface CsvFormatOptions {
+  delimiter: ',' | ';' | '\t';
+  decimalSeparator: '.' | ',';
+}
+
+/** Formato CSV padrão (RFC 4180): vírgula como delimitador e ponto decimal. */
+export const DEFAULT_CSV_FORMAT: CsvFormatOptions = { delimiter: ',', decimalSeparator: '.' };
+
+/** Formato usado pelo Excel configurado em pt-BR: ponto e vírgula como delimitador e vírgula decimal. */
+export const EXCEL_PT_BR_CSV_FORMAT: CsvFormatOptions = { delimiter: ';', decimalSeparator: ',' };
+
+/**
+ * Descreve uma coluna do CSV: seu cabeçalho, o caminho no objeto `Equipment`, se é numérica e se o valor
+ * é serializado em JSON (listas e objetos que não são achatados em colunas).
+ */
+interface CsvColumn {
+  header: string;
+  path: string[];
+  numeric: boolean;
+  json?: boolean;
+}
+
+/** Constrói uma coluna a partir do cabeçalho, derivando o caminho pelos pontos. */
+const column = (header: string, numeric = false): CsvColumn => ({ header, path: header.split('.'), numeric });
+
+/** Constrói uma coluna cujo valor é escrito como JSON (com ponto decimal, independentemente do formato). */
+const jsonColumn = (header: string): CsvColumn => ({ ...column(header), json: true });
+
+/** Colunas do CSV de equipamentos, na ordem em que são exportadas. */
+export const EQUIPMENT_CSV_COLUMNS: readonly CsvColumn[] = [
+  column('tag'),
+  column('name'),
+  column('type'),
+  column('sistema'),
+  column('area'),
+  column('operationalState'),
+  column('product'),
+  column('position.x', true),
+  column('position.y', true),
+  column('position.z', true),
+  column('rotation.x', true),
+  column('rotation.y', true),
+  column('rotation.z', true),
+  column('size.width', true),
+  column('size.height', true),
+  column('size.depth', true),
+  column('radius', true),
+  column('height', true),
+  column('level', true),
+  column('levelUnit'),
+  column('craneKind'),
+  column('color'),
+  column('details'),
+  column('modelUrl'),
+  column('from.tag'),
+  column('from.nozzle'),
+  column('to.tag'),
+  column('to.nozzle'),
+  jsonColumn('path'),
+  column('bendRadius', true),
+  jsonColumn('attributes'),
+];
+
+/**
+ * Colunas das coordenadas do mundo da posição do equipamento, adicionadas ao final do CSV quando a exportação
+ * inclui coordenadas geográficas. Na importação, substituem `position.x`/`position.z` quando estes estão vazios
+ * (a conversão para a cena é feita por `createGeoreferencedEquipmentRepository`).
+ */
+export const GEOGRAPHIC_CSV_COLUMNS: readonly CsvColumn[] = [
+  column('position.easting', true),
+  column('position.northing', true),
+  column('position.latitude', true),
+  column('position.longitude', true),
+];
+
+/**
+ * Registros interpretados de um CSV.
+ * @interface ParsedEquipmentCsv
+ * @property {unknown[]} records - Os registros brutos, um por linha de dados, na ordem do arquivo.
+ * @property {number[]} lines - A linha do arquivo (1-based, contando o cabeçalho) onde cada registro começa.
+ */
+export interface ParsedEquipmentCsv {
+  records: unknown[];
+  lines: number[];
+}
+
+/** Caracteres que fazem uma planilha interpretar a célula como fórmula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Apóstrofo que protege uma célula de texto; a importação remove exatamente um. */
+const FORMULA_GUARD = "'";
+
+/** Casas decimais das coordenadas do mundo exportadas: milímetros em UTM e ~1 mm em graus. */
+const GEOGRAPHIC_FRACTION_DIGITS = { easting: 3, northing: 3, latitude: 8, longitude: 8 } as const;
+
+/**
+ * Lê um valor aninhado de um objeto seguindo um caminho de propriedades.
+ * @param {unknown} source O objeto de origem.
+ * @param {string[]} path O caminho de propriedades.
+ * @returns {unknown} O valor encontrado, ou undefined.
+ */
+function getPathValue(source: unknown, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+/**
+ * Escreve um valor aninhado em um objeto, criando os objetos intermediários necessários.
+ * @param {Record<string, unknown>} target O objeto de destino.
+ * @param {string[]} path O caminho de propriedades.
+ * @param {unknown} value O valor a ser escrito.
+ */
+function setPathValue(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let current = target;
+  path.slice(0, -1).forEach(key => {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  });
+  current[path[path.length - 1]] = value;
+}
+
+/**
+ * Escapa uma célula conforme a RFC 4180: envolve em aspas quando contém delimitador, aspas ou quebra de linha.
+ * Textos que começam como fórmula (`=`, `+`, `-`, `@`) recebem um apóstrofo na frente, para que a planilha
+ * não os execute; números (inclusive negativos) não são alterados. Textos que já começam com apóstrofo também
+ * recebem um, para que a importação, ao remover exatamente um apóstrofo, devolva o texto original.
+ * @param {string} cell O conteúdo da célula.
+ * @param {string} delimiter O delimitador em uso.
+ * @returns {string} A célula pronta para ser escrita.
+ */
+export function escapeCell(cell: string, delimiter: string): string {
+  if (cell.startsWith(FORMULA_GUARD) || (FORMULA_PREFIX.test(cell) && !Number.isFinite(Number(cell.replace(',', '.'))))) {
+    cell = `${FORMULA_GUARD}${cell}`;
+  }
+  if (cell.includes(delimiter) || cell.includes('"') || cell.includes('\n') || cell.includes('\r')) {
+    return `"${cell.replace(/"/g, '""')}"`;
+  }
+  return cell;
+}
+
+/**
+ * Formata um valor de célula para exportação, aplicando o separador decimal aos números.
+ * @param {unknown} value O valor a ser formatado.
+ * @param {CsvColumn} col A coluna do valor.
+ * @param {CsvFormatOptions} options As opções de formato.
+ * @returns {string} O texto da célula.
+ */
+function formatCellValue(value: unknown, col: CsvColumn, options: CsvFormatOptions): string {
+  if (value === undefined || value === null) return '';
+  if (col.json) return JSON.stringify(value);
+  if (typeof value === 'number') {
+    const text = String(value);
+    return options.decimalSeparator === ',' ? text.replace('.', ',') : text;
+  }
+  return String(value);
+}
+
+/**
+ * Acrescenta à posição de um equipamento as suas coordenadas do mundo, arredondadas para exportação.
+ * @param {Equipment} item O equipamento.
+ * @param {SiteGeoreference} georeference O georreferenciamento do terminal.
+ * @returns {Equipment & { position: Record<string, number> }} Uma cópia do equipamento com a posição estendida.
+ */
+function withGeographicPosition(item: Equipment, georeference: SiteGeoreference): Equipment & { position: Record<string, number> } {
+  const geographic = getGeographicPosition(item.position, georeference);
+  const rounded = Object.fromEntries(
+    Object.entries(GEOGRAPHIC_FRACTION_DIGITS).map(([key, digits]) => [
+      key,
+      Number(geographic[key as keyof typeof GEOGRAPHIC_FRACTION_DIGITS].toFixed(digits)),
+    ])
+  );
+  return { ...item, position: { ...item.position, ...rounded } };
+}
+
+/**
+ * Serializa uma lista de equipamentos em CSV, com uma linha de cabeçalho e uma linha por equipamento.
+ * @param {Equipment[]} equipment Os equipamentos a serem exportados.
+ * @param {CsvFormatOptions} [options=DEFAULT_CSV_FORMAT] As opções de formato.
+ * @param {SiteGeoreference} [georeference] Georreferenciamento do terminal; se informado, as colunas de
+ *        `GEOGRAPHIC_CSV_COLUMNS` são incluídas com as coordenadas do mundo de cada equipamento.
+ * @returns {string} O conteúdo CSV (linhas separadas por CRLF).
+ */
+export function equipmentToCsv(
+  equipment: Equipment[],
+  options: CsvFormatOptions = DEFAULT_CSV_FORMAT,
+  georeference?: SiteGeoreference
+): string {
+  const { delimiter } = options;
+  const columns = georeference ? [...EQUIPMENT_CSV_COLUMNS, ...GEOGRAPHIC_CSV_COLUMNS] : EQUIPMENT_CSV_COLUMNS;
+  const headerLine = columns.map(col => escapeCell(col.header, delimiter)).join(delimiter);
+  const dataLines = equipment.map(item => {
+    const row = georeference ? withGeographicPosition(item, georeference) : item;
+    return columns
+      .map(col => escapeCell(formatCellValue(getPathValue(row, col.path), col, options), delimiter))
+      .join(delimiter);
+  });
+  return [headerLine, ...dataLines].join('\r\n');
+}
+
+/**
+ * Desfaz a proteção contra fórmulas de `escapeCell`, removendo o apóstrofo antes de um texto que começa como fórmula
+ * ou com outro apóstrofo.
+ * @param {string} cell O conteúdo da célula.
+ * @returns {string} O conteúdo original.
+ */
+function unescapeFormulaCell(cell: string): string {
+  if (!cell.startsWith(FORMULA_GUARD)) return cell;
+  const guarded = cell.slice(FORMULA_GUARD.length);
+  return FORMULA_PREFIX.test(guarded) || guarded.startsWith(FORMULA_GUARD) ? guarded : cell;
+}
+
+/**
+ * Divide o texto CSV em linhas de células, respeitando campos entre aspas (que podem conter
+ * delimitadores, aspas escapadas e quebras de linha).
+ * @param {string} text O conteúdo CSV.
+ * @param {string} delimiter O delimitador de colunas.
+ * @returns {{ cells: string[]; line: number }[]} As linhas, cada uma com suas células e a linha do arquivo
+ *          (1-based) onde começa; uma célula entre aspas pode ocupar várias linhas do arquivo.
+ */
+function splitCsvRows(text: string, delimiter: string): { cells: string[]; line: number }[] {
+  const rows: { cells: string[]; line: number }[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ cells: row, line: rowLine });
+      row = [];
+      cell = '';
+      rowLine = ++line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push({ cells: row, line: rowLine });
+  }
+  // Ignora linhas totalmente vazias (e.g., linha em branco no final do arquivo).
+  return rows.filter(r => r.cells.some(c => c.trim() !== ''));
+}
+
+/**
+ * Converte o texto de uma célula numérica em número, considerando o separador decimal.
+ * Se o texto não for um número válido, ele é mantido como string para que a validação o reporte.
+ * @param {string} text O texto da célula.
+ * @param {CsvFormatOptions} options As opções de formato.
+ * @returns {number | string} O número convertido ou o texto original.
+ */
+function parseNumericCell(text: string, options: CsvFormatOptions): number | string {
+  const normalized = options.decimalSeparator === ',' ? text.replace(',', '.') : text;
+  const value = Number(normalized);
+  return normalized.trim() !== '' && Number.isFinite(value) ? value : text;
+}
+
+/**
+ * Converte o texto de uma célula JSON no valor que ela representa.
+ * Se o texto não for um JSON válido, ele é mantido como string para que a validação o reporte.
+ * @param {string} text O texto da célula.
+ * @returns {unknown} O valor convertido ou o texto original.
+ */
+function parseJsonCell(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Converte o texto de uma célula no valor do registro, conforme o tipo da coluna.
+ * @param {string} cell O texto da célula, sem espaços nas pontas.
+ * @param {CsvColumn} col A coluna da célula.
+ * @param {CsvFormatOptions} options As opções de formato.
+ * @returns {unknown} O valor do registro.
+ */
+function parseCell(cell: string, col: CsvColumn, options: CsvFormatOptions): unknown {
+  if (col.numeric) return parseNumericCell(cell, options);
+  if (col.json) return parseJsonCell(cell);
+  return unescapeFormulaCell(cell);
+}
+
+/**
+ * Interpreta um CSV de equipamentos como registros brutos.
+ * A primeira linha deve ser o cabeçalho com os nomes de `EQUIPMENT_CSV_COLUMNS` ou `GEOGRAPHIC_CSV_COLUMNS`
+ * (em qualquer ordem); colunas desconhecidas são ignoradas e células vazias são omitidas do registro.
+ * @param {string} text O conteúdo CSV.
+ * @param {CsvFormatOptions} [options=DEFAULT_CSV_FORMAT] As opções de formato.
+ * @returns {ParsedEquipmentCsv} Os registros brutos, um por linha de dados, e a linha do arquivo de cada um.
+ * @throws {Error} Se o CSV não tiver cabeçalho ou nenhuma coluna conhecida.
+ */
+export function parseEquipmentCsv(text: string, options: CsvFormatOptions = DEFAULT_CSV_FORMAT): ParsedEquipmentCsv {
+  // Remove o BOM que o Excel adiciona a arquivos UTF-8.
+  const rows = splitCsvRows(text.replace(/^\uFEFF/, ''), options.delimiter);
+  if (rows.length === 0) {
+    throw new Error('O CSV está vazio.');
+  }
+
+  const headers = rows[0].cells.map(h => h.trim());
+  const knownColumns = [...EQUIPMENT_CSV_COLUMNS, ...GEOGRAPHIC_CSV_COLUMNS];
+  const columnsByIndex = headers.map(header => knownColumns.find(col => col.header === header));
+  if (!columnsByIndex.some(Boolean)) {
+    throw new Error(`Nenhuma coluna reconhecida no cabeçalho do CSV. Verifique o delimitador ("${options.delimiter === '\t' ? 'Tab' : options.delimiter}").`);
+  }
+
+  const dataRows = rows.slice(1);
+  const records = dataRows.map(({ cells }) => {
+    const record: Record<string, unknown> = {};
+    cells.forEach((rawCell, index) => {
+      const col = columnsByIndex[index];
+      const cell = rawCell.trim();
+      if (!col || cell === '') return;
+      setPathValue(record, col.path, parseCell(cell, col, options));
+    });
+    return record;
+  });
+  return { records, lines: dataRows.map(row => row.line) };
+}
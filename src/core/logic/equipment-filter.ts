@@ -4,14 +4,15 @@
  *
  * Responsabilidades:
  * - Definir a interface `EquipmentFilterCriteria` para os critérios de filtro.
- * - Exportar a função `getFilteredEquipment` que aplica os filtros de Sistema, Área, e
- *   um termo de busca textual (verificando nome, tipo e tag do equipamento) de forma combinada.
+ * - Exportar a função `getFilteredEquipment` que aplica os filtros de Sistema, Área, atributo customizado e
+ *   um termo de busca textual (verificando nome, tipo, tag e atributos do equipamento) de forma combinada.
  *
  * Exporta:
  * - `EquipmentFilterCriteria`: Interface para os critérios de filtro.
  * - `getFilteredEquipment`: Função para filtrar equipamentos.
  */
 import type { Equipment } from '@/lib/types';
+import { getAttributeSearchText, matchesAttributeFilter, type AttributeFilter } from '@/core/logic/equipment-attributes';
 
 /**
  * Define os critérios de filtro aplicáveis aos equipamentos.
@@ -19,17 +20,19 @@ import type { Equipment } from '@/lib/types';
  * @property {string} searchTerm - Termo de busca textual. Múltiplos termos separados por espaço são tratados com lógica "E".
  * @property {string} selectedSistema - Sistema selecionado para filtro (ou "All" para não filtrar por sistema).
  * @property {string} selectedArea - Área selecionada para filtro (ou "All" para não filtrar por área).
+ * @property {AttributeFilter | null} [attributeFilter] - Filtro por atributo customizado (ou null para não filtrar por atributo).
  */
 export interface EquipmentFilterCriteria {
   searchTerm: string;
   selectedSistema: string;
   selectedArea: string;
+  attributeFilter?: AttributeFilter | null;
 }
 
 /**
  * Filtra uma lista de equipamentos com base nos critérios fornecidos.
- * A filtragem ocorre na seguinte ordem: Sistema, depois Área, depois Termo de Busca.
- * A filtragem textual por `searchTerm` considera nome, tipo e tag, com lógica "E" para múltiplos termos.
+ * A filtragem ocorre na seguinte ordem: Sistema, depois Área, depois Atributo, depois Termo de Busca.
+ * A filtragem textual por `searchTerm` considera nome, tipo, tag e os valores dos atributos, com lógica "E" para múltiplos termos.
  * Os filtros de sistema e área são aplicados se não forem "All".
  *
  * @param {Equipment[]} allEquipment - A lista completa de equipamentos a serem filtrados.
@@ -40,7 +43,7 @@ export function getFilteredEquipment(
   allEquipment: Equipment[],
   criteria: EquipmentFilterCriteria
 ): Equipment[] {
-  const { searchTerm, selectedSistema, selectedArea } = criteria;
+  const { searchTerm, selectedSistema, selectedArea, attributeFilter } = criteria;
   let itemsToFilter = Array.isArray(allEquipment) ? allEquipment : [];
 
   // Filtra por Sistema
@@ -53,18 +56,25 @@ export function getFilteredEquipment(
     itemsToFilter = itemsToFilter.filter(equip => equip.area === selectedArea);
   }
 
-  // Filtra por termo de busca (nome, tipo, tag)
+  // Filtra por atributo customizado
+  if (attributeFilter) {
+    itemsToFilter = itemsToFilter.filter(equip => matchesAttributeFilter(equip, attributeFilter));
+  }
+
+  // Filtra por termo de busca (nome, tipo, tag, atributos)
   if (searchTerm.trim()) {
     const searchTermsArray = searchTerm.toLowerCase().split(' ').filter(term => term.length > 0);
     itemsToFilter = itemsToFilter.filter(equip => {
       const name = equip.name.toLowerCase();
       const type = equip.type.toLowerCase();
       const tag = equip.tag.toLowerCase(); // Usando 'tag' conforme atualizado
+      const attributes = getAttributeSearchText(equip);
 
       return searchTermsArray.every(term =>
         name.includes(term) ||
         type.includes(term) ||
-        tag.includes(term)
+        tag.includes(term) ||
+        attributes.includes(term)
       );
     });
   }
@@ -0,0 +1,225 @@
+/**
+ * @fileOverview Validação dos registros de equipamentos vindos de fontes externas, baseada em zod.
+ *
+ * Responsabilidades:
+ * - Definir o schema `equipmentSchema`, que verifica o formato de `Equipment`, os tipos conhecidos,
+ *   coordenadas plausíveis, as referências de conexão (`from`/`to`) e as dimensões exigidas por cada tipo
+ *   (`size` para Building/Crane, `radius`/`height` para Tank/Pipe, com `path` no lugar de `height` nas tubulações com traçado) e o nível (apenas em tanques, até 100% ou até a altura do costado), evitando que `createGeometryForItem`
+ *   recorra silenciosamente a padrões, além do estado operacional, que deve pertencer ao modelo de estados do tipo,
+ *   e dos atributos customizados, que devem seguir o schema de atributos do tipo.
+ * - Validar uma lista completa de registros (`validateEquipmentRecords`), incluindo a unicidade das tags,
+ *   e produzir um relatório por linha com todos os motivos de rejeição.
+ *
+ * Exporta:
+ * - `EQUIPMENT_TYPES`: Lista dos tipos de equipamento conhecidos.
+ * - `MAX_COORDINATE_MAGNITUDE`: Limite absoluto para coordenadas consideradas plausíveis.
+ * - `equipmentSchema`: Schema zod de um equipamento.
+ * - `EquipmentValidationIssue`, `EquipmentValidationResult`: Tipos do relatório de validação.
+ * - `validateEquipmentRecords`: Função que valida uma lista de registros brutos.
+ */
+import { z } from 'zod';
+import type { Equipment } from '@/lib/types';
+import { DEFAULT_OPERATIONAL_STATE_MODELS, getStateDefinition } from '@/core/logic/operational-state-model';
+import { checkAttributeValue, getAttributeDefinitions } from '@/core/logic/equipment-attributes';
+import { getTankShellHeight } from '@/core/logic/tank-inventory';
+
+/** Tipos de equipamento conhecidos pela aplicação. */
+export const EQUIPMENT_TYPES = ['Building', 'Crane', 'Tank', 'Terrain', 'Pipe', 'Valve'] as const satisfies readonly Equipment['type'][];
+
+/** Maior valor absoluto aceito para uma coordenada da cena (unidades da cena). */
+export const MAX_COORDINATE_MAGNITUDE = 10000;
+
+/**
+ * Mensagens de erro em português para os erros genéricos do zod.
+ * Os erros específicos do domínio definem suas próprias mensagens no schema.
+ */
+const portugueseErrorMap: z.ZodErrorMap = (issue, ctx) => {
+  switch (issue.code) {
+    case z.ZodIssueCode.invalid_type:
+      if (issue.received === z.ZodParsedType.undefined) {
+        return { message: 'campo obrigatório ausente' };
+      }
+      return { message: `esperado ${issue.expected}, recebido ${issue.received}` };
+    case z.ZodIssueCode.invalid_enum_value:
+      return { message: `valor "${String(issue.received)}" desconhecido; esperado um de: ${issue.options.join(', ')}` };
+    case z.ZodIssueCode.too_small:
+      return { message: `deve ser maior que ${issue.inclusive ? 'ou igual a ' : ''}${String(issue.minimum)}` };
+    case z.ZodIssueCode.too_big:
+      return { message: `deve ser menor que ${issue.inclusive ? 'ou igual a ' : ''}${String(issue.maximum)}` };
+    default:
+      return { message: ctx.defaultError };
+  }
+};
+
+const coordinateSchema = z.number().finite().min(-MAX_COORDINATE_MAGNITUDE).max(MAX_COORDINATE_MAGNITUDE);
+const vector3Schema = z.object({ x: coordinateSchema, y: coordinateSchema, z: coordinateSchema });
+const positiveDimensionSchema = z.number().finite().positive();
+const connectionRefSchema = z.object({
+  tag: z.string().trim().min(1, 'a TAG da conexão não pode ser vazia'),
+  nozzle: z.string().trim().min(1, 'o bocal não pode ser vazio').optional(),
+});
+
+/**
+ * Schema zod de um equipamento.
+ * Além do formato de `Equipment`, exige as dimensões que a fábrica de geometria usa para cada tipo.
+ */
+export const equipmentSchema = z.object({
+  tag: z.string().trim().min(1, 'a TAG não pode ser vazia'),
+  name: z.string().trim().min(1, 'o nome não pode ser vazio'),
+  type: z.enum(EQUIPMENT_TYPES),
+  sistema: z.string().optional(),
+  area: z.string().optional(),
+  operationalState: z.string().optional(),
+  product: z.string().optional(),
+  position: vector3Schema,
+  rotation: z.object({ x: z.number().finite(), y: z.number().finite(), z: z.number().finite() }).optional(),
+  size: z.object({ width: positiveDimensionSchema, height: positiveDimensionSchema, depth: positiveDimensionSchema }).optional(),
+  radius: positiveDimensionSchema.optional(),
+  height: positiveDimensionSchema.optional(),
+  path: z.array(vector3Schema).min(2, 'o traçado deve ter ao menos dois pontos').optional(),
+  bendRadius: z.number().finite().min(0, 'o raio de curvatura não pode ser negativo').optional(),
+  level: z.number().finite().min(0).optional(),
+  levelUnit: z.enum(['percent', 'meters']).optional(),
+  craneKind: z.enum(['gantry', 'jib']).optional(),
+  color: z.string().regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, 'a cor deve estar no formato hexadecimal (#RGB ou #RRGGBB)'),
+  details: z.string().optional(),
+  modelUrl: z.string().trim().min(1, 'a URL do modelo não pode ser vazia').optional(),
+  from: connectionRefSchema.optional(),
+  to: connectionRefSchema.optional(),
+  attributes: z.record(z.union([z.string(), z.number().finite(), z.boolean()])).optional(),
+}).superRefine((item, ctx) => {
+  if (item.from?.tag === item.tag || item.to?.tag === item.tag) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [item.from?.tag === item.tag ? 'from' : 'to'], message: 'o equipamento não pode estar conectado a si mesmo' });
+  }
+  if (item.operationalState !== undefined && !getStateDefinition(item.type, item.operationalState)) {
+    const validStates = DEFAULT_OPERATIONAL_STATE_MODELS[item.type].states.map(state => state.value);
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['operationalState'], message: `estado "${item.operationalState}" inválido para ${item.type}; esperado um de: ${validStates.join(', ')}` });
+  }
+  if (item.attributes) {
+    const definitions = getAttributeDefinitions(item.type);
+    Object.entries(item.attributes).forEach(([key, value]) => {
+      const definition = definitions.find(candidate => candidate.key === key);
+      const refusal = definition
+        ? checkAttributeValue(definition, value)
+        : `atributo "${key}" desconhecido para ${item.type}; esperado um de: ${definitions.map(candidate => candidate.key).join(', ') || '(nenhum)'}`;
+      if (refusal) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['attributes', key], message: refusal });
+      }
+    });
+  }
+  if ((item.path !== undefined || item.bendRadius !== undefined) && item.type !== 'Pipe') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [item.path !== undefined ? 'path' : 'bendRadius'], message: 'apenas equipamentos do tipo Pipe têm traçado ("path" e "bendRadius")' });
+  }
+  if ((item.level !== undefined || item.levelUnit !== undefined) && item.type !== 'Tank') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [item.level !== undefined ? 'level' : 'levelUnit'], message: 'apenas equipamentos do tipo Tank têm nível ("level" e "levelUnit")' });
+  }
+  if (item.level !== undefined && item.levelUnit !== 'meters' && item.level > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['level'], message: 'o nível percentual deve estar entre 0 e 100' });
+  }
+  if (item.level !== undefined && item.levelUnit === 'meters' && item.radius !== undefined && item.height !== undefined) {
+    const shellHeight = getTankShellHeight(item.radius, item.height);
+    if (item.level > shellHeight) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['level'], message: `o nível (${item.level} m) não pode ser maior que a altura do costado do tanque (${Number(shellHeight.toFixed(2))} m)` });
+    }
+  }
+  switch (item.type) {
+    case 'Building':
+    case 'Crane':
+      if (!item.size) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['size'], message: `equipamentos do tipo ${item.type} exigem "size" (width, height, depth)` });
+      }
+      break;
+    case 'Tank':
+    case 'Pipe':
+      if (item.radius === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['radius'], message: `equipamentos do tipo ${item.type} exigem "radius"` });
+      }
+      if (item.height === undefined && !(item.type === 'Pipe' && item.path)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['height'], message: `equipamentos do tipo ${item.type} exigem "height"${item.type === 'Pipe' ? ' (ou "path")' : ''}` });
+      }
+      break;
+    default:
+      break;
+  }
+});
+
+/**
+ * Problemas encontrados em um registro.
+ * @interface EquipmentValidationIssue
+ * @property {number} row - Número da linha do registro no arquivo de origem (CSV, contando o cabeçalho) ou,
+ *           nas demais fontes, sua posição (1-based) na lista.
+ * @property {string | null} tag - A TAG do registro, se puder ser identificada.
+ * @property {string[]} reasons - Todos os motivos de rejeição do registro.
+ */
+export interface EquipmentValidationIssue {
+  row: number;
+  tag: string | null;
+  reasons: string[];
+}
+
+/**
+ * Resultado da validação de uma lista de registros.
+ * @interface EquipmentValidationResult
+ * @property {Equipment[]} validEquipment - Os registros válidos, já tipados como `Equipment`.
+ * @property {EquipmentValidationIssue[]} issues - Os registros inválidos e seus motivos, na ordem da fonte.
+ * @property {number} totalRecords - Quantidade total de registros analisados.
+ */
+export interface EquipmentValidationResult {
+  validEquipment: Equipment[];
+  issues: EquipmentValidationIssue[];
+  totalRecords: number;
+}
+
+/**
+ * Converte o caminho de um erro do zod em texto legível (e.g., `position.x`).
+ * @param {(string | number)[]} path O caminho do erro.
+ * @returns {string} O caminho formatado, ou "registro" para erros na raiz.
+ */
+function formatIssuePath(path: (string | number)[]): string {
+  return path.length > 0 ? path.join('.') : 'registro';
+}
+
+/**
+ * Valida uma lista de registros brutos de equipamentos.
+ * Cada registro é verificado pelo `equipmentSchema`; em seguida, TAGs repetidas são rejeitadas
+ * (a primeira ocorrência é mantida). Um registro é considerado válido apenas se não tiver nenhum problema.
+ *
+ * @param {unknown[]} records - Os registros brutos, na ordem da fonte.
+ * @param {number[]} [lines] - A linha do arquivo de origem de cada registro; sem ela, a posição na lista (1-based).
+ * @returns {EquipmentValidationResult} Os equipamentos válidos e o relatório por linha dos inválidos.
+ */
+export function validateEquipmentRecords(records: unknown[], lines?: number[]): EquipmentValidationResult {
+  const validEquipment: Equipment[] = [];
+  const issues: EquipmentValidationIssue[] = [];
+  const firstRowByTag = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const row = lines?.[index] ?? index + 1;
+    const reasons: string[] = [];
+    const rawTag = record && typeof record === 'object' && typeof (record as { tag?: unknown }).tag === 'string'
+      ? ((record as { tag: string }).tag.trim() || null)
+      : null;
+
+    const parsed = equipmentSchema.safeParse(record, { errorMap: portugueseErrorMap });
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => reasons.push(`${formatIssuePath(issue.path)}: ${issue.message}`));
+    }
+
+    if (rawTag) {
+      const firstRow = firstRowByTag.get(rawTag);
+      if (firstRow !== undefined) {
+        reasons.push(`tag: TAG "${rawTag}" duplicada (já usada na linha ${firstRow})`);
+      } else {
+        firstRowByTag.set(rawTag, row);
+      }
+    }
+
+    if (reasons.length > 0) {
+      issues.push({ row, tag: rawTag, reasons });
+    } else if (parsed.success) {
+      validEquipment.push(parsed.data as Equipment);
+    }
+  });
+
+  return { validEquipment, issues, totalRecords: records.length };
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Regras da simulação de fluxo de produto nas tubulações (RF007).
+ *
+ * Responsabilidades:
+ * - Determinar quais tubulações têm produto escoando: a tubulação precisa estar 'operando' e nenhuma
+ *   válvula a montante dela pode estar fechada (as mesmas regras de barreira de `traceFlowPath`). Em vez de
+ *   rastrear a montante de cada tubulação, um único percurso a jusante parte de todas as válvulas fechadas
+ *   e marca os equipamentos bloqueados, em tempo linear no tamanho do grafo.
+ * - Informar, para cada tubulação com fluxo, os equipamentos vizinhos de entrada e de saída, usados pela
+ *   cena para orientar a animação no sentido do escoamento.
+ *
+ * Exporta:
+ * - `FlowingPipe`: Uma tubulação com fluxo ativo.
+ * - `getFlowingPipes`: Calcula as tubulações com fluxo ativo.
+ */
+import type { Equipment } from '@/lib/types';
+import { getDownstreamNeighbors, getUpstreamNeighbors, type ConnectivityGraph } from '@/core/logic/connectivity-graph';
+import { isValveClosed } from '@/core/logic/flow-tracing';
+
+/**
+ * Uma tubulação com fluxo ativo na simulação.
+ * @interface FlowingPipe
+ * @property {string} tag - TAG da tubulação.
+ * @property {string} [upstreamTag] - TAG do equipamento de onde o produto chega, se houver ligação a montante.
+ * @property {string} [downstreamTag] - TAG do equipamento para onde o produto segue, se houver ligação a jusante.
+ */
+export interface FlowingPipe {
+  tag: string;
+  upstreamTag?: string;
+  downstreamTag?: string;
+}
+
+/**
+ * Obtém os equipamentos a jusante de alguma válvula fechada, com um único percurso em largura que parte de todas elas.
+ * Um equipamento está nesse conjunto exatamente quando o rastreamento a montante a partir dele (`traceFlowPath`)
+ * encontra uma válvula fechada: no caminho até ele, a última válvula fechada é a barreira que esse rastreamento encontraria.
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {Equipment[]} equipment - A lista de equipamentos.
+ * @returns {Set<string>} As TAGs dos equipamentos bloqueados.
+ */
+function getTagsDownstreamOfClosedValves(graph: ConnectivityGraph, equipment: Equipment[]): Set<string> {
+  const blockedTags = new Set<string>();
+  const queue = equipment.filter(isValveClosed).map(item => item.tag);
+  for (let i = 0; i < queue.length; i++) {
+    getDownstreamNeighbors(graph, queue[i]).forEach(nextTag => {
+      if (blockedTags.has(nextTag)) return;
+      blockedTags.add(nextTag);
+      queue.push(nextTag);
+    });
+  }
+  return blockedTags;
+}
+
+/**
+ * Calcula as tubulações com produto escoando.
+ * Uma tubulação tem fluxo se estiver no estado 'operando' e não houver nenhuma válvula fechada a montante dela.
+ * Tubulações sem ligações a montante seguem apenas o próprio estado.
+ *
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {Equipment[]} equipment - A lista completa de equipamentos (não filtrada), para que o estado das válvulas seja sempre considerado.
+ * @returns {FlowingPipe[]} As tubulações com fluxo ativo.
+ */
+export function getFlowingPipes(graph: ConnectivityGraph, equipment: Equipment[]): FlowingPipe[] {
+  const blockedTags = getTagsDownstreamOfClosedValves(graph, equipment);
+  return equipment
+    .filter(item => item.type === 'Pipe' && item.operationalState === 'operando' && !blockedTags.has(item.tag))
+    .map(item => ({
+      tag: item.tag,
+      upstreamTag: getUpstreamNeighbors(graph, item.tag)[0],
+      downstreamTag: getDownstreamNeighbors(graph, item.tag)[0],
+    }));
+}
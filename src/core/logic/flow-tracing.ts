@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Rastreamento do caminho do fluxo de produto pelo grafo de conectividade.
+ *
+ * Responsabilidades:
+ * - Percorrer o grafo a partir de um equipamento, a jusante (para onde o produto vai) ou a montante
+ *   (de onde o produto vem), coletando todos os equipamentos alcançados.
+ * - Tratar válvulas fechadas como barreiras: a válvula fechada faz parte do caminho (é onde o fluxo para),
+ *   mas o percurso não continua além dela.
+ *
+ * Exporta:
+ * - `FlowDirection`: O sentido do rastreamento.
+ * - `FlowTraceResult`: O resultado do rastreamento.
+ * - `isValveClosed`: Indica se um equipamento é uma válvula fechada.
+ * - `traceFlowPath`: Rastreia o caminho do fluxo a partir de um equipamento.
+ */
+import type { Equipment } from '@/lib/types';
+import { getDownstreamNeighbors, getUpstreamNeighbors, type ConnectivityGraph } from '@/core/logic/connectivity-graph';
+
+/**
+ * Sentido do rastreamento: 'downstream' segue o fluxo; 'upstream' segue no sentido contrário.
+ * @typedef {'upstream' | 'downstream'} FlowDirection
+ */
+export type FlowDirection = 'upstream' | 'downstream';
+
+/**
+ * Resultado do rastreamento de fluxo.
+ * @interface FlowTraceResult
+ * @property {string[]} tags - TAGs de todos os equipamentos do caminho, incluindo o de partida, na ordem em que foram alcançados.
+ * @property {string[]} barrierTags - TAGs das válvulas fechadas onde o percurso foi interrompido.
+ */
+export interface FlowTraceResult {
+  tags: string[];
+  barrierTags: string[];
+}
+
+/**
+ * Indica se um equipamento é uma válvula fechada, ou seja, uma válvula que não está operando.
+ * @param {Equipment | undefined} item - O equipamento.
+ * @returns {boolean} True se for uma válvula fora do estado 'operando'.
+ */
+export function isValveClosed(item: Equipment | undefined): boolean {
+  return item?.type === 'Valve' && item.operationalState !== 'operando';
+}
+
+/**
+ * Rastreia o caminho do fluxo a partir de um equipamento, em largura.
+ * O equipamento de partida é sempre expandido (mesmo que seja uma válvula fechada), para que o operador
+ * veja para onde o produto seguiria; as demais válvulas fechadas encontradas interrompem o percurso.
+ *
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {Equipment[]} equipment - A lista de equipamentos, usada para identificar as válvulas fechadas.
+ * @param {string} startTag - A TAG do equipamento de partida.
+ * @param {FlowDirection} direction - O sentido do rastreamento.
+ * @returns {FlowTraceResult} Os equipamentos do caminho e as barreiras encontradas.
+ */
+export function traceFlowPath(
+  graph: ConnectivityGraph,
+  equipment: Equipment[],
+  startTag: string,
+  direction: FlowDirection
+): FlowTraceResult {
+  const equipmentByTag = new Map(equipment.map(item => [item.tag, item]));
+  const getNextTags = direction === 'downstream' ? getDownstreamNeighbors : getUpstreamNeighbors;
+  const visited = new Set<string>([startTag]);
+  const tags: string[] = [startTag];
+  const barrierTags: string[] = [];
+  const queue: string[] = [startTag];
+
+  while (queue.length > 0) {
+    const currentTag = queue.shift() as string;
+    getNextTags(graph, currentTag).forEach(nextTag => {
+      if (visited.has(nextTag)) return;
+      visited.add(nextTag);
+      tags.push(nextTag);
+      if (isValveClosed(equipmentByTag.get(nextTag))) {
+        barrierTags.push(nextTag);
+      } else {
+        queue.push(nextTag);
+      }
+    });
+  }
+
+  return { tags, barrierTags };
+}
@@ -0,0 +1,330 @@
+/**
+ * @fileOverview Georreferenciamento da cena: conversão entre as coordenadas da cena, UTM e latitude/longitude (WGS84).
+ *
+ * Responsabilidades:
+ * - Definir o georreferenciamento de um terminal (`SiteGeoreference`): a projeção (fuso UTM), as coordenadas
+ *   UTM da origem da cena e a rotação da cena em relação ao norte da quadrícula.
+ * - Converter entre latitude/longitude e UTM (projeção Transversa de Mercator sobre o elipsoide WGS84).
+ * - Converter entre as coordenadas da cena e as coordenadas do mundo (UTM ou latitude/longitude).
+ * - Converter a posição de registros brutos de equipamentos informada em coordenadas geográficas
+ *   (`latitude`/`longitude` ou `easting`/`northing`) para as coordenadas da cena, antes da validação.
+ *
+ * Convenções da cena: a unidade é o metro, +X aponta para o leste e −Z para o norte quando a rotação é zero.
+ * A rotação é o azimute (em graus, no sentido horário a partir do norte da quadrícula) do eixo −Z da cena.
+ * A altura (Y) não é convertida: ela permanece relativa ao plano de chão da cena.
+ *
+ * Exporta:
+ * - `UtmProjection`, `SiteGeoreference`, `UtmCoordinate`, `LatLon`, `ScenePoint`, `GeographicPosition`: Tipos.
+ * - `getUtmZone`: Fuso UTM de uma longitude.
+ * - `latLonToUtm`, `utmToLatLon`: Conversões entre latitude/longitude e UTM.
+ * - `sceneToUtm`, `utmToScene`, `sceneToLatLon`, `latLonToScene`: Conversões entre a cena e o mundo.
+ * - `getGeographicPosition`: Coordenadas do mundo de um ponto da cena (UTM e latitude/longitude).
+ * - `resolveGeographicPosition`: Converte a posição geográfica de um registro bruto para a cena.
+ * - `formatUtm`, `formatLatLon`: Formatação para exibição (pt-BR).
+ */
+
+/**
+ * Projeção UTM de um terminal.
+ * @interface UtmProjection
+ * @property {'utm'} type - O tipo da projeção (apenas UTM é suportada).
+ * @property {number} zone - O fuso UTM (1 a 60).
+ * @property {'N' | 'S'} hemisphere - O hemisfério; no sul, o norte falso é 10.000.000 m.
+ */
+export interface UtmProjection {
+  type: 'utm';
+  zone: number;
+  hemisphere: 'N' | 'S';
+}
+
+/**
+ * Coordenadas UTM (em metros) em um fuso conhecido.
+ * @interface UtmCoordinate
+ * @property {number} easting - A coordenada leste (E).
+ * @property {number} northing - A coordenada norte (N).
+ */
+export interface UtmCoordinate {
+  easting: number;
+  northing: number;
+}
+
+/**
+ * Coordenadas geográficas (WGS84), em graus decimais.
+ * @interface LatLon
+ * @property {number} latitude - A latitude (negativa no hemisfério sul).
+ * @property {number} longitude - A longitude (negativa a oeste de Greenwich).
+ */
+export interface LatLon {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Um ponto no plano de chão da cena.
+ * @interface ScenePoint
+ * @property {number} x - A coordenada X da cena.
+ * @property {number} z - A coordenada Z da cena.
+ */
+export interface ScenePoint {
+  x: number;
+  z: number;
+}
+
+/**
+ * Georreferenciamento de um terminal: onde a origem da cena está no mundo e como a cena está orientada.
+ * @interface SiteGeoreference
+ * @property {UtmProjection} projection - A projeção das coordenadas UTM.
+ * @property {UtmCoordinate} origin - As coordenadas UTM da origem da cena (x = 0, z = 0).
+ * @property {number} rotationDegrees - Azimute do eixo −Z da cena, em graus no sentido horário a partir do norte da quadrícula.
+ */
+export interface SiteGeoreference {
+  projection: UtmProjection;
+  origin: UtmCoordinate;
+  rotationDegrees: number;
+}
+
+/**
+ * Coordenadas do mundo de um ponto da cena.
+ * @typedef {UtmCoordinate & LatLon} GeographicPosition
+ */
+export type GeographicPosition = UtmCoordinate & LatLon;
+
+// Parâmetros do elipsoide WGS84 e da projeção UTM.
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257223563;
+const SCALE_FACTOR = 0.9996;
+const FALSE_EASTING = 500000;
+const SOUTH_FALSE_NORTHING = 10000000;
+
+const E2 = FLATTENING * (2 - FLATTENING);
+const E4 = E2 * E2;
+const E6 = E4 * E2;
+const EP2 = E2 / (1 - E2);
+const M_COEFFICIENTS = [
+  1 - E2 / 4 - (3 * E4) / 64 - (5 * E6) / 256,
+  (3 * E2) / 8 + (3 * E4) / 32 + (45 * E6) / 1024,
+  (15 * E4) / 256 + (45 * E6) / 1024,
+  (35 * E6) / 3072,
+];
+const E1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Calcula a longitude do meridiano central de um fuso UTM.
+ * @param {number} zone O fuso UTM.
+ * @returns {number} A longitude do meridiano central, em graus.
+ */
+function getCentralMeridian(zone: number): number {
+  return (zone - 1) * 6 - 180 + 3;
+}
+
+/**
+ * Calcula o fuso UTM que contém uma longitude.
+ * @param {number} longitude A longitude, em graus.
+ * @returns {number} O fuso UTM (1 a 60).
+ */
+export function getUtmZone(longitude: number): number {
+  return Math.min(60, Math.floor((longitude + 180) / 6) + 1);
+}
+
+/**
+ * Converte latitude/longitude em coordenadas UTM de um fuso (mesmo que o ponto esteja fora dele, como
+ * ocorre com terminais próximos à divisa entre fusos).
+ * @param {LatLon} point As coordenadas geográficas.
+ * @param {UtmProjection} projection O fuso e o hemisfério de destino.
+ * @returns {UtmCoordinate} As coordenadas UTM.
+ */
+export function latLonToUtm({ latitude, longitude }: LatLon, projection: UtmProjection): UtmCoordinate {
+  const phi = toRadians(latitude);
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const n = SEMI_MAJOR_AXIS / Math.sqrt(1 - E2 * sinPhi * sinPhi);
+  const t = Math.tan(phi) ** 2;
+  const c = EP2 * cosPhi * cosPhi;
+  const a = cosPhi * toRadians(longitude - getCentralMeridian(projection.zone));
+  const m = SEMI_MAJOR_AXIS * (
+    M_COEFFICIENTS[0] * phi
+    - M_COEFFICIENTS[1] * Math.sin(2 * phi)
+    + M_COEFFICIENTS[2] * Math.sin(4 * phi)
+    - M_COEFFICIENTS[3] * Math.sin(6 * phi)
+  );
+
+  const easting = FALSE_EASTING + SCALE_FACTOR * n * (
+    a
+    + ((1 - t + c) * a ** 3) / 6
+    + ((5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5) / 120
+  );
+  const northing = SCALE_FACTOR * (
+    m + n * Math.tan(phi) * (
+      (a * a) / 2
+      + ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24
+      + ((61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6) / 720
+    )
+  );
+  return {
+    easting,
+    northing: projection.hemisphere === 'S' ? northing + SOUTH_FALSE_NORTHING : northing,
+  };
+}
+
+/**
+ * Converte coordenadas UTM em latitude/longitude.
+ * @param {UtmCoordinate} point As coordenadas UTM.
+ * @param {UtmProjection} projection O fuso e o hemisfério das coordenadas.
+ * @returns {LatLon} As coordenadas geográficas.
+ */
+export function utmToLatLon({ easting, northing }: UtmCoordinate, projection: UtmProjection): LatLon {
+  const m = (projection.hemisphere === 'S' ? northing - SOUTH_FALSE_NORTHING : northing) / SCALE_FACTOR;
+  const mu = m / (SEMI_MAJOR_AXIS * M_COEFFICIENTS[0]);
+  const phi1 = mu
+    + ((3 * E1) / 2 - (27 * E1 ** 3) / 32) * Math.sin(2 * mu)
+    + ((21 * E1 * E1) / 16 - (55 * E1 ** 4) / 32) * Math.sin(4 * mu)
+    + ((151 * E1 ** 3) / 96) * Math.sin(6 * mu)
+    + ((1097 * E1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sinPhi1 = Math.sin(phi1);
+  const cosPhi1 = Math.cos(phi1);
+  const c1 = EP2 * cosPhi1 * cosPhi1;
+  const t1 = Math.tan(phi1) ** 2;
+  const n1 = SEMI_MAJOR_AXIS / Math.sqrt(1 - E2 * sinPhi1 * sinPhi1);
+  const r1 = (SEMI_MAJOR_AXIS * (1 - E2)) / (1 - E2 * sinPhi1 * sinPhi1) ** 1.5;
+  const d = (easting - FALSE_EASTING) / (n1 * SCALE_FACTOR);
+
+  const phi = phi1 - ((n1 * Math.tan(phi1)) / r1) * (
+    (d * d) / 2
+    - ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4) / 24
+    + ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6) / 720
+  );
+  const lambda = (
+    d
+    - ((1 + 2 * t1 + c1) * d ** 3) / 6
+    + ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5) / 120
+  ) / cosPhi1;
+
+  return {
+    latitude: toDegrees(phi),
+    longitude: getCentralMeridian(projection.zone) + toDegrees(lambda),
+  };
+}
+
+/**
+ * Converte um ponto da cena em coordenadas UTM.
+ * @param {ScenePoint} point O ponto da cena.
+ * @param {SiteGeoreference} georeference O georreferenciamento do terminal.
+ * @returns {UtmCoordinate} As coordenadas UTM.
+ */
+export function sceneToUtm({ x, z }: ScenePoint, georeference: SiteGeoreference): UtmCoordinate {
+  const theta = toRadians(georeference.rotationDegrees);
+  const north = -z;
+  return {
+    easting: georeference.origin.easting + x * Math.cos(theta) + north * Math.sin(theta),
+    northing: georeference.origin.northing - x * Math.sin(theta) + north * Math.cos(theta),
+  };
+}
+
+/**
+ * Converte coordenadas UTM (no fuso do terminal) em um ponto da cena.
+ * @param {UtmCoordinate} point As coordenadas UTM.
+ * @param {SiteGeoreference} georeference O georreferenciamento do terminal.
+ * @returns {ScenePoint} O ponto da cena.
+ */
+export function utmToScene({ easting, northing }: UtmCoordinate, georeference: SiteGeoreference): ScenePoint {
+  const theta = toRadians(georeference.rotationDegrees);
+  const deltaEast = easting - georeference.origin.easting;
+  const deltaNorth = northing - georeference.origin.northing;
+  return {
+    x: deltaEast * Math.cos(theta) - deltaNorth * Math.sin(theta),
+    z: -(deltaEast * Math.sin(theta) + deltaNorth * Math.cos(theta)),
+  };
+}
+
+/**
+ * Converte um ponto da cena em latitude/longitude.
+ * @param {ScenePoint} point O ponto da cena.
+ * @param {SiteGeoreference} georeference O georreferenciamento do terminal.
+ * @returns {LatLon} As coordenadas geográficas.
+ */
+export function sceneToLatLon(point: ScenePoint, georeference: SiteGeoreference): LatLon {
+  return utmToLatLon(sceneToUtm(point, georeference), georeference.projection);
+}
+
+/**
+ * Converte latitude/longitude em um ponto da cena.
+ * @param {LatLon} point As coordenadas geográficas.
+ * @param {SiteGeoreference} georeference O georreferenciamento do terminal.
+ * @returns {ScenePoint} O ponto da cena.
+ */
+export function latLonToScene(point: LatLon, georeference: SiteGeoreference): ScenePoint {
+  return utmToScene(latLonToUtm(point, georeference.projection), georeference);
+}
+
+/**
+ * Calcula as coordenadas do mundo (UTM e latitude/longitude) de um ponto da cena.
+ * @param {ScenePoint} point O ponto da cena.
+ * @param {SiteGeoreference} georeference O georreferenciamento do terminal.
+ * @returns {GeographicPosition} As coordenadas do mundo.
+ */
+export function getGeographicPosition(point: ScenePoint, georeference: SiteGeoreference): GeographicPosition {
+  const utm = sceneToUtm(point, georeference);
+  return { ...utm, ...utmToLatLon(utm, georeference.projection) };
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Converte para a cena a posição de um registro bruto de equipamento informada em coordenadas geográficas:
+ * `position.latitude`/`position.longitude` (WGS84) ou `position.easting`/`position.northing` (UTM no fuso do terminal).
+ * Registros que já têm `position.x` e `position.z` são mantidos como estão; se houver UTM e latitude/longitude,
+ * o UTM prevalece (não depende da conversão do elipsoide). A altura (`position.y`) é preservada.
+ * Os campos geográficos são removidos da posição convertida.
+ * @param {unknown} record O registro bruto (ainda não validado).
+ * @param {SiteGeoreference} georeference O georreferenciamento do terminal.
+ * @returns {unknown} O registro com a posição na cena, ou o registro original se não houver o que converter.
+ */
+export function resolveGeographicPosition(record: unknown, georeference: SiteGeoreference): unknown {
+  if (!record || typeof record !== 'object') return record;
+  const position = (record as { position?: unknown }).position;
+  if (!position || typeof position !== 'object') return record;
+
+  const { latitude, longitude, easting, northing, ...scenePosition } = position as Record<string, unknown>;
+  if (isFiniteNumber(scenePosition.x) && isFiniteNumber(scenePosition.z)) return record;
+
+  let point: ScenePoint;
+  if (isFiniteNumber(easting) && isFiniteNumber(northing)) {
+    point = utmToScene({ easting, northing }, georeference);
+  } else if (isFiniteNumber(latitude) && isFiniteNumber(longitude)) {
+    point = latLonToScene({ latitude, longitude }, georeference);
+  } else {
+    return record;
+  }
+  return { ...record, position: { ...scenePosition, x: point.x, z: point.z } };
+}
+
+const decimalFormat = (fractionDigits: number) => new Intl.NumberFormat('pt-BR', {
+  minimumFractionDigits: fractionDigits,
+  maximumFractionDigits: fractionDigits,
+});
+const METERS_FORMAT = decimalFormat(1);
+const DEGREES_FORMAT = decimalFormat(6);
+
+/**
+ * Formata coordenadas UTM para exibição (e.g., "23S 365.432,1 E 7.354.321,0 N").
+ * @param {UtmCoordinate} point As coordenadas UTM.
+ * @param {UtmProjection} projection O fuso e o hemisfério.
+ * @returns {string} O texto formatado.
+ */
+export function formatUtm({ easting, northing }: UtmCoordinate, projection: UtmProjection): string {
+  return `${projection.zone}${projection.hemisphere} ${METERS_FORMAT.format(easting)} E ${METERS_FORMAT.format(northing)} N`;
+}
+
+/**
+ * Formata latitude/longitude para exibição, com hemisférios em português (e.g., "23,912345° S 46,301234° O").
+ * @param {LatLon} point As coordenadas geográficas.
+ * @returns {string} O texto formatado.
+ */
+export function formatLatLon({ latitude, longitude }: LatLon): string {
+  const latitudeText = `${DEGREES_FORMAT.format(Math.abs(latitude))}° ${latitude < 0 ? 'S' : 'N'}`;
+  const longitudeText = `${DEGREES_FORMAT.format(Math.abs(longitude))}° ${longitude < 0 ? 'O' : 'L'}`;
+  return `${latitudeText} ${longitudeText}`;
+}
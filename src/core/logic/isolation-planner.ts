@@ -0,0 +1,204 @@
+/**
+ * @fileOverview Planejamento de isolamento: quais válvulas fechar para isolar um equipamento.
+ *
+ * Responsabilidades:
+ * - Identificar as fontes do grafo de conectividade (tanques e equipamentos sem nada a montante).
+ * - Calcular o menor conjunto de válvulas cujo fechamento desconecta o equipamento alvo de todas as
+ *   outras fontes. O problema é um corte mínimo de vértices, resolvido como fluxo máximo (Edmonds-Karp)
+ *   com cada válvula desdobrada em dois nós ligados por uma aresta de capacidade 1; os demais equipamentos
+ *   e as ligações têm capacidade "infinita", e as ligações valem nos dois sentidos (o isolamento precisa
+ *   impedir também o refluxo).
+ * - Informar quando o alvo não pode ser isolado apenas por válvulas, indicando as fontes ligadas a ele
+ *   por caminhos sem nenhuma válvula.
+ *
+ * Exporta:
+ * - `IsolationPlan`: O resultado do planejamento.
+ * - `getFlowSources`: Obtém as TAGs das fontes do grafo.
+ * - `planIsolation`: Calcula o plano de isolamento de um equipamento.
+ */
+import type { Equipment } from '@/lib/types';
+import type { ConnectivityGraph } from '@/core/logic/connectivity-graph';
+
+/**
+ * Resultado do planejamento de isolamento.
+ * @interface IsolationPlan
+ * @property {string} targetTag - TAG do equipamento a ser isolado.
+ * @property {boolean} isIsolable - Indica se o alvo pode ser isolado fechando válvulas.
+ * @property {string[]} valveTags - O menor conjunto de válvulas a fechar (vazio se o alvo não estiver ligado a nenhuma fonte ou não for isolável).
+ * @property {string[]} connectedSources - Fontes ligadas ao alvo (ignorando o estado atual das válvulas).
+ * @property {string[]} unisolableSources - Fontes ligadas ao alvo por caminhos sem válvulas (impedem o isolamento).
+ */
+export interface IsolationPlan {
+  targetTag: string;
+  isIsolable: boolean;
+  valveTags: string[];
+  connectedSources: string[];
+  unisolableSources: string[];
+}
+
+/** Capacidade usada para arestas que não podem ser cortadas. */
+const UNBOUNDED_CAPACITY = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Obtém as fontes do grafo: tanques e equipamentos conectados que não têm nada a montante.
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {Equipment[]} equipment - A lista de equipamentos.
+ * @returns {string[]} As TAGs das fontes.
+ */
+export function getFlowSources(graph: ConnectivityGraph, equipment: Equipment[]): string[] {
+  return equipment
+    .filter(item => {
+      const isConnected = graph.outgoing.has(item.tag) || graph.incoming.has(item.tag);
+      return isConnected && (item.type === 'Tank' || !graph.incoming.has(item.tag));
+    })
+    .map(item => item.tag);
+}
+
+/**
+ * Obtém os vizinhos de um equipamento sem considerar o sentido das ligações.
+ */
+function getUndirectedNeighbors(graph: ConnectivityGraph, tag: string): string[] {
+  const downstream = (graph.outgoing.get(tag) ?? []).map(edge => edge.toTag);
+  const upstream = (graph.incoming.get(tag) ?? []).map(edge => edge.fromTag);
+  return [...downstream, ...upstream];
+}
+
+/**
+ * Percorre o grafo (sem sentido) a partir de um equipamento.
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {string} startTag - A TAG de partida.
+ * @param {(tag: string) => boolean} canPass - Indica se o percurso pode atravessar um equipamento.
+ * @returns {Set<string>} As TAGs alcançadas (inclusive as que não puderam ser atravessadas).
+ */
+function collectReachable(graph: ConnectivityGraph, startTag: string, canPass: (tag: string) => boolean): Set<string> {
+  const reached = new Set<string>([startTag]);
+  const queue = [startTag];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    getUndirectedNeighbors(graph, current).forEach(next => {
+      if (reached.has(next)) return;
+      reached.add(next);
+      if (canPass(next)) queue.push(next);
+    });
+  }
+  return reached;
+}
+
+/**
+ * Rede de fluxo residual, com capacidades indexadas por "origem" e "destino".
+ */
+type ResidualNetwork = Map<string, Map<string, number>>;
+
+/**
+ * Adiciona capacidade a uma aresta da rede, criando também a aresta reversa (residual) com capacidade zero.
+ */
+function addCapacity(network: ResidualNetwork, from: string, to: string, capacity: number): void {
+  if (!network.has(from)) network.set(from, new Map());
+  if (!network.has(to)) network.set(to, new Map());
+  const forward = network.get(from) as Map<string, number>;
+  forward.set(to, Math.min(UNBOUNDED_CAPACITY, (forward.get(to) ?? 0) + capacity));
+  const backward = network.get(to) as Map<string, number>;
+  if (!backward.has(from)) backward.set(from, 0);
+}
+
+/**
+ * Busca em largura por um caminho aumentante na rede residual.
+ * @returns {Map<string, string> | null} O predecessor de cada nó visitado, ou null se o sorvedouro não for alcançado.
+ */
+function findAugmentingPath(network: ResidualNetwork, source: string, sink: string): Map<string, string> | null {
+  const parents = new Map<string, string>();
+  const visited = new Set<string>([source]);
+  const queue = [source];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const [next, capacity] of network.get(current) ?? []) {
+      if (capacity <= 0 || visited.has(next)) continue;
+      visited.add(next);
+      parents.set(next, current);
+      if (next === sink) return parents;
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/**
+ * Calcula o plano de isolamento de um equipamento: o menor conjunto de válvulas cujo fechamento
+ * o desconecta de todas as outras fontes do grafo. O estado atual das válvulas não é considerado,
+ * para que o plano sirva como procedimento completo (válvulas já fechadas continuam listadas).
+ *
+ * @param {ConnectivityGraph} graph - O grafo de conectividade.
+ * @param {Equipment[]} equipment - A lista de equipamentos.
+ * @param {string} targetTag - A TAG do equipamento a ser isolado.
+ * @returns {IsolationPlan} O plano de isolamento.
+ */
+export function planIsolation(graph: ConnectivityGraph, equipment: Equipment[], targetTag: string): IsolationPlan {
+  const equipmentByTag = new Map(equipment.map(item => [item.tag, item]));
+  const isValve = (tag: string) => tag !== targetTag && equipmentByTag.get(tag)?.type === 'Valve';
+
+  const reachable = collectReachable(graph, targetTag, () => true);
+  const connectedSources = getFlowSources(graph, equipment).filter(tag => tag !== targetTag && reachable.has(tag));
+  if (connectedSources.length === 0) {
+    return { targetTag, isIsolable: true, valveTags: [], connectedSources, unisolableSources: [] };
+  }
+
+  const reachableWithoutValves = collectReachable(graph, targetTag, tag => !isValve(tag));
+  const unisolableSources = connectedSources.filter(tag => reachableWithoutValves.has(tag) && !isValve(tag));
+  if (unisolableSources.length > 0) {
+    return { targetTag, isIsolable: false, valveTags: [], connectedSources, unisolableSources };
+  }
+
+  // Cada equipamento vira os nós "tag:in" e "tag:out"; apenas válvulas têm capacidade finita entre eles.
+  const superSource = '__sources__';
+  const sink = `${targetTag}:in`;
+  const network: ResidualNetwork = new Map();
+  reachable.forEach(tag => {
+    addCapacity(network, `${tag}:in`, `${tag}:out`, isValve(tag) ? 1 : UNBOUNDED_CAPACITY);
+  });
+  graph.edges.forEach(edge => {
+    if (!reachable.has(edge.fromTag) || !reachable.has(edge.toTag)) return;
+    addCapacity(network, `${edge.fromTag}:out`, `${edge.toTag}:in`, UNBOUNDED_CAPACITY);
+    addCapacity(network, `${edge.toTag}:out`, `${edge.fromTag}:in`, UNBOUNDED_CAPACITY);
+  });
+  connectedSources.forEach(tag => addCapacity(network, superSource, `${tag}:in`, UNBOUNDED_CAPACITY));
+
+  let parents = findAugmentingPath(network, superSource, sink);
+  while (parents) {
+    let bottleneck = UNBOUNDED_CAPACITY;
+    for (let node = sink; node !== superSource; node = parents.get(node) as string) {
+      const previous = parents.get(node) as string;
+      bottleneck = Math.min(bottleneck, (network.get(previous) as Map<string, number>).get(node) as number);
+    }
+    for (let node = sink; node !== superSource; node = parents.get(node) as string) {
+      const previous = parents.get(node) as string;
+      const forward = network.get(previous) as Map<string, number>;
+      forward.set(node, (forward.get(node) as number) - bottleneck);
+      const backward = network.get(node) as Map<string, number>;
+      backward.set(previous, Math.min(UNBOUNDED_CAPACITY, (backward.get(previous) ?? 0) + bottleneck));
+    }
+    parents = findAugmentingPath(network, superSource, sink);
+  }
+
+  // Entre os cortes mínimos, escolhe o mais próximo do alvo (válvulas adjacentes a ele, quando possível):
+  // o lado do alvo é formado pelos nós que ainda alcançam o sorvedouro na rede residual.
+  const targetSide = new Set<string>([sink]);
+  let expanded = true;
+  while (expanded) {
+    expanded = false;
+    network.forEach((edges, node) => {
+      if (targetSide.has(node)) return;
+      for (const [next, capacity] of edges) {
+        if (capacity > 0 && targetSide.has(next)) {
+          targetSide.add(node);
+          expanded = true;
+          break;
+        }
+      }
+    });
+  }
+  const valveTags = Array.from(reachable)
+    .filter(tag => isValve(tag) && targetSide.has(`${tag}:out`) && !targetSide.has(`${tag}:in`))
+    .sort();
+
+  return { targetTag, isIsolable: true, valveTags, connectedSources, unisolableSources: [] };
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileOverview Modelo de estados operacionais por tipo de equipamento (máquina de estados).
+ *
+ * Responsabilidades:
+ * - Definir, para cada tipo de equipamento, os estados operacionais válidos, seus rótulos e cores,
+ *   as transições permitidas a partir de cada estado e se a entrada no estado exige uma justificativa.
+ * - Consultar o modelo: definição de um estado, transições permitidas para um equipamento e
+ *   verificação de uma transição.
+ *
+ * O modelo é usado pelo InfoPanel (apenas transições permitidas são oferecidas), por `getEquipmentColor`
+ * (cores do modo 'Estado Operacional') e pela validação da importação (estados desconhecidos para o tipo).
+ *
+ * Exporta:
+ * - `OperationalStateDefinition`, `OperationalStateModel`, `OperationalStateModels`: Tipos do modelo.
+ * - `DEFAULT_OPERATIONAL_STATE_MODELS`: Modelo padrão da aplicação.
+ * - `getStateDefinition`: Definição de um estado para um tipo de equipamento.
+ * - `getOperationalStateLabel`: Rótulo legível de um estado.
+ * - `getAllowedTransitions`: Estados para os quais um equipamento pode passar.
+ * - `checkStateTransition`: Verifica uma transição e informa o motivo da recusa.
+ */
+import type { Equipment } from '@/lib/types';
+
+/**
+ * Um estado operacional de um tipo de equipamento.
+ * @interface OperationalStateDefinition
+ * @property {string} value - O valor gravado em `Equipment.operationalState`.
+ * @property {string} label - O rótulo exibido na interface.
+ * @property {string} [color] - Cor hexadecimal do estado no modo 'Estado Operacional'; sem cor, usa a cor do equipamento.
+ * @property {string[]} transitions - Estados para os quais é permitido passar a partir deste.
+ * @property {boolean} [requiresReason] - Indica se a entrada neste estado exige uma justificativa do operador.
+ */
+export interface OperationalStateDefinition {
+  value: string;
+  label: string;
+  color?: string;
+  transitions: string[];
+  requiresReason?: boolean;
+}
+
+/**
+ * Modelo de estados de um tipo de equipamento.
+ * @interface OperationalStateModel
+ * @property {OperationalStateDefinition[]} states - Os estados válidos, na ordem em que são exibidos.
+ */
+export interface OperationalStateModel {
+  states: OperationalStateDefinition[];
+}
+
+/**
+ * Modelos de estados de todos os tipos de equipamento.
+ * @typedef {Record<Equipment['type'], OperationalStateModel>} OperationalStateModels
+ */
+export type OperationalStateModels = Record<Equipment['type'], OperationalStateModel>;
+
+/** Modelo de equipamentos sem estado operacional (edificações, terreno). */
+const NOT_APPLICABLE_MODEL: OperationalStateModel = {
+  states: [{ value: 'Não aplicável', label: 'Não aplicável', transitions: [] }],
+};
+
+/** Modelo dos equipamentos de processo: parada, manutenção e falha exigem passar por "não operando" para voltar a operar. */
+const PROCESS_EQUIPMENT_MODEL: OperationalStateModel = {
+  states: [
+    { value: 'operando', label: 'Operando', color: '#FF0000', transitions: ['não operando', 'em falha'] },
+    { value: 'não operando', label: 'Não operando', color: '#00FF00', transitions: ['operando', 'manutenção', 'em falha'] },
+    { value: 'manutenção', label: 'Em manutenção', color: '#FFFF00', transitions: ['não operando'], requiresReason: true },
+    { value: 'em falha', label: 'Em falha', color: '#DA70D6', transitions: ['manutenção', 'não operando'], requiresReason: true },
+  ],
+};
+
+/** Modelo padrão da aplicação. */
+export const DEFAULT_OPERATIONAL_STATE_MODELS: OperationalStateModels = {
+  Building: NOT_APPLICABLE_MODEL,
+  Terrain: NOT_APPLICABLE_MODEL,
+  Crane: PROCESS_EQUIPMENT_MODEL,
+  Tank: PROCESS_EQUIPMENT_MODEL,
+  Pipe: PROCESS_EQUIPMENT_MODEL,
+  Valve: PROCESS_EQUIPMENT_MODEL,
+};
+
+/**
+ * Obtém a definição de um estado para um tipo de equipamento.
+ * @param {Equipment['type']} type - O tipo do equipamento.
+ * @param {string | undefined} state - O estado operacional.
+ * @param {OperationalStateModels} [models=DEFAULT_OPERATIONAL_STATE_MODELS] - O modelo de estados.
+ * @returns {OperationalStateDefinition | null} A definição, ou null se o estado não pertencer ao modelo do tipo.
+ */
+export function getStateDefinition(
+  type: Equipment['type'],
+  state: string | undefined,
+  models: OperationalStateModels = DEFAULT_OPERATIONAL_STATE_MODELS
+): OperationalStateDefinition | null {
+  if (state === undefined) return null;
+  return models[type]?.states.find(definition => definition.value === state) ?? null;
+}
+
+/**
+ * Obtém o rótulo legível de um estado. Estados fora do modelo são exibidos como estão.
+ * @param {Equipment['type']} type - O tipo do equipamento.
+ * @param {string} state - O estado operacional.
+ * @param {OperationalStateModels} [models=DEFAULT_OPERATIONAL_STATE_MODELS] - O modelo de estados.
+ * @returns {string} O rótulo do estado.
+ */
+export function getOperationalStateLabel(
+  type: Equipment['type'],
+  state: string,
+  models: OperationalStateModels = DEFAULT_OPERATIONAL_STATE_MODELS
+): string {
+  return getStateDefinition(type, state, models)?.label ?? state;
+}
+
+/**
+ * Lista os estados para os quais um equipamento pode passar a partir do estado atual.
+ * Se o estado atual não pertencer ao modelo (e.g., um valor legado), qualquer estado do tipo é permitido,
+ * para que o operador possa corrigi-lo.
+ * @param {Equipment} item - O equipamento.
+ * @param {OperationalStateModels} [models=DEFAULT_OPERATIONAL_STATE_MODELS] - O modelo de estados.
+ * @returns {OperationalStateDefinition[]} As definições dos estados de destino permitidos.
+ */
+export function getAllowedTransitions(
+  item: Equipment,
+  models: OperationalStateModels = DEFAULT_OPERATIONAL_STATE_MODELS
+): OperationalStateDefinition[] {
+  const model = models[item.type];
+  if (!model) return [];
+  const current = getStateDefinition(item.type, item.operationalState, models);
+  if (!current) return model.states.filter(definition => definition.value !== item.operationalState);
+  return model.states.filter(definition => current.transitions.includes(definition.value));
+}
+
+/**
+ * Verifica se um equipamento pode passar para um novo estado.
+ * @param {Equipment} item - O equipamento.
+ * @param {string} newState - O estado de destino.
+ * @param {string} [reason] - A justificativa informada pelo operador.
+ * @param {OperationalStateModels} [models=DEFAULT_OPERATIONAL_STATE_MODELS] - O modelo de estados.
+ * @returns {string | null} O motivo da recusa, ou null se a transição for permitida.
+ */
+export function checkStateTransition(
+  item: Equipment,
+  newState: string,
+  reason?: string,
+  models: OperationalStateModels = DEFAULT_OPERATIONAL_STATE_MODELS
+): string | null {
+  const target = getAllowedTransitions(item, models).find(definition => definition.value === newState);
+  if (!target) {
+    const from = item.operationalState ? getOperationalStateLabel(item.type, item.operationalState, models) : 'sem estado';
+    return `transição de "${from}" para "${getOperationalStateLabel(item.type, newState, models)}" não é permitida para ${item.type}`;
+  }
+  if (target.requiresReason && !reason?.trim()) {
+    return `o estado "${target.label}" exige uma justificativa`;
+  }
+  return null;
+}
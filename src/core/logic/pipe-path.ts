@@ -0,0 +1,168 @@
+/**
+ * @fileOverview Traçado das tubulações definidas por uma poligonal (`Equipment.path`).
+ *
+ * Responsabilidades:
+ * - Identificar as tubulações com traçado e obter o raio de curvatura das suas curvas.
+ * - Decompor a poligonal em trechos retos e curvas: em cada vértice, os trechos adjacentes são encurtados
+ *   para dar lugar a uma curva tangente a ambos, com o raio de curvatura informado (reduzido quando os trechos
+ *   são curtos demais para ele).
+ * - Obter os pontos das curvas, que são arcos de circunferência (os mesmos desenhados na cena).
+ * - Calcular o comprimento real da tubulação (trechos retos mais arcos), considerando as unidades da cena como metros.
+ *
+ * Os pontos do traçado estão em coordenadas da cena; `position` continua sendo o ponto de referência do equipamento.
+ *
+ * Exporta:
+ * - `PathPoint`, `PipeRunSegment`: Tipos.
+ * - `DEFAULT_BEND_RADIUS_FACTOR`: Raio de curvatura padrão, em raios do tubo.
+ * - `hasPipePath`: Indica se uma tubulação é definida por traçado.
+ * - `getPipeBendRadius`: Raio de curvatura das curvas de uma tubulação.
+ * - `buildPipeRun`: Decompõe um traçado em trechos retos e curvas.
+ * - `getPipeBendPoint`: Ponto de uma curva do traçado.
+ * - `getPipeRunLength`: Comprimento de um traçado decomposto.
+ * - `getPipeLength`: Comprimento de uma tubulação (com ou sem traçado).
+ */
+import type { Equipment } from '@/lib/types';
+
+/**
+ * Um ponto do traçado, em coordenadas da cena.
+ * @typedef {{ x: number; y: number; z: number }} PathPoint
+ */
+export type PathPoint = { x: number; y: number; z: number };
+
+/**
+ * Um trecho do traçado decomposto: reto ou curva. As curvas vão de `start` a `end` com as tangentes
+ * apontando para o vértice original (`corner`).
+ * @typedef {object} PipeRunSegment
+ */
+export type PipeRunSegment =
+  | { kind: 'straight'; start: PathPoint; end: PathPoint }
+  | { kind: 'bend'; start: PathPoint; corner: PathPoint; end: PathPoint; radius: number; angle: number };
+
+/** Raio de curvatura padrão, em múltiplos do raio do tubo (curva de raio longo: 1,5 diâmetro). */
+export const DEFAULT_BEND_RADIUS_FACTOR = 3;
+
+/** Distância abaixo da qual dois pontos são considerados coincidentes. */
+const EPSILON = 1e-6;
+
+const subtract = (a: PathPoint, b: PathPoint): PathPoint => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const addScaled = (a: PathPoint, direction: PathPoint, scale: number): PathPoint => ({
+  x: a.x + direction.x * scale,
+  y: a.y + direction.y * scale,
+  z: a.z + direction.z * scale,
+});
+const lengthOf = (v: PathPoint): number => Math.hypot(v.x, v.y, v.z);
+const distance = (a: PathPoint, b: PathPoint): number => lengthOf(subtract(a, b));
+
+/**
+ * Indica se um equipamento é uma tubulação definida por traçado (ao menos dois pontos).
+ * @param {Equipment} item - O equipamento.
+ * @returns {boolean} Verdadeiro se o equipamento for um `Pipe` com `path`.
+ */
+export function hasPipePath(item: Equipment): item is Equipment & { path: PathPoint[] } {
+  return item.type === 'Pipe' && (item.path?.length ?? 0) >= 2;
+}
+
+/**
+ * Obtém o raio de curvatura das curvas de uma tubulação.
+ * @param {Equipment} item - A tubulação.
+ * @returns {number} `bendRadius`, ou o padrão (`DEFAULT_BEND_RADIUS_FACTOR` raios do tubo).
+ */
+export function getPipeBendRadius(item: Equipment): number {
+  return item.bendRadius ?? (item.radius || 0.2) * DEFAULT_BEND_RADIUS_FACTOR;
+}
+
+/**
+ * Decompõe um traçado em trechos retos e curvas. Pontos repetidos em sequência são ignorados e vértices
+ * alinhados não geram curva. Em cada vértice, o recuo da curva (`raio × tan(deflexão / 2)`) é limitado à metade
+ * dos trechos adjacentes, para que curvas vizinhas não se sobreponham; nesse caso, o raio é reduzido.
+ * @param {PathPoint[]} path - Os pontos do traçado.
+ * @param {number} bendRadius - O raio de curvatura desejado (0 para cantos vivos).
+ * @returns {PipeRunSegment[]} Os trechos, na ordem do traçado (vazio se houver menos de dois pontos distintos).
+ */
+export function buildPipeRun(path: PathPoint[], bendRadius: number): PipeRunSegment[] {
+  const points = path.filter((point, index) => index === 0 || distance(point, path[index - 1]) > EPSILON);
+  if (points.length < 2) return [];
+
+  const segments: PipeRunSegment[] = [];
+  let cursor = points[0];
+  for (let i = 1; i < points.length - 1; i++) {
+    const corner = points[i];
+    const incoming = subtract(corner, points[i - 1]);
+    const outgoing = subtract(points[i + 1], corner);
+    const incomingLength = lengthOf(incoming);
+    const outgoingLength = lengthOf(outgoing);
+    const cosine = (incoming.x * outgoing.x + incoming.y * outgoing.y + incoming.z * outgoing.z) / (incomingLength * outgoingLength);
+    const angle = Math.acos(Math.min(1, Math.max(-1, cosine)));
+    const setback = angle > EPSILON
+      ? Math.min(bendRadius * Math.tan(angle / 2), incomingLength / 2, outgoingLength / 2)
+      : 0;
+
+    const bendStart = addScaled(corner, incoming, -setback / incomingLength);
+    if (distance(cursor, bendStart) > EPSILON) {
+      segments.push({ kind: 'straight', start: cursor, end: bendStart });
+    }
+    if (setback > EPSILON) {
+      const bendEnd = addScaled(corner, outgoing, setback / outgoingLength);
+      segments.push({ kind: 'bend', start: bendStart, corner, end: bendEnd, radius: setback / Math.tan(angle / 2), angle });
+      cursor = bendEnd;
+    } else {
+      cursor = corner;
+    }
+  }
+  const last = points[points.length - 1];
+  if (distance(cursor, last) > EPSILON) {
+    segments.push({ kind: 'straight', start: cursor, end: last });
+  }
+  return segments;
+}
+
+/**
+ * Obtém um ponto do arco de uma curva do traçado. O arco tem o raio da curva e é tangente aos trechos adjacentes
+ * no início e no fim; o ponto é interpolado pelo ângulo (interpolação esférica em torno do centro do arco).
+ * @param {Extract<PipeRunSegment, { kind: 'bend' }>} bend - A curva.
+ * @param {number} t - A fração do arco, de 0 (início) a 1 (fim).
+ * @returns {PathPoint} O ponto, em coordenadas da cena.
+ */
+export function getPipeBendPoint(bend: Extract<PipeRunSegment, { kind: 'bend' }>, t: number): PathPoint {
+  const { start, corner, end, radius, angle } = bend;
+  const sine = Math.sin(angle);
+  // Curva quase a 180°: o centro do arco fica indefinido e o trecho é tratado como reto.
+  if (sine < EPSILON) return addScaled(start, subtract(end, start), t);
+
+  const incoming = subtract(corner, start);
+  const outgoing = subtract(end, corner);
+  const bisector = addScaled(
+    { x: -incoming.x / lengthOf(incoming), y: -incoming.y / lengthOf(incoming), z: -incoming.z / lengthOf(incoming) },
+    outgoing,
+    1 / lengthOf(outgoing)
+  );
+  const center = addScaled(corner, bisector, radius / Math.cos(angle / 2) / lengthOf(bisector));
+  const fromCenterToStart = subtract(start, center);
+  const fromCenterToEnd = subtract(end, center);
+  const startWeight = Math.sin((1 - t) * angle) / sine;
+  const endWeight = Math.sin(t * angle) / sine;
+  return addScaled(addScaled(center, fromCenterToStart, startWeight), fromCenterToEnd, endWeight);
+}
+
+/**
+ * Calcula o comprimento de um traçado decomposto: trechos retos mais o comprimento dos arcos das curvas.
+ * @param {PipeRunSegment[]} run - Os trechos.
+ * @returns {number} O comprimento total.
+ */
+export function getPipeRunLength(run: PipeRunSegment[]): number {
+  return run.reduce(
+    (total, segment) => total + (segment.kind === 'straight' ? distance(segment.start, segment.end) : segment.radius * segment.angle),
+    0
+  );
+}
+
+/**
+ * Calcula o comprimento de uma tubulação: pelo traçado, se houver, ou pela altura (comprimento) do tubo reto.
+ * @param {Equipment} item - O equipamento.
+ * @returns {number | null} O comprimento, ou null se o equipamento não for uma tubulação com dimensões.
+ */
+export function getPipeLength(item: Equipment): number | null {
+  if (item.type !== 'Pipe') return null;
+  if (hasPipePath(item)) return getPipeRunLength(buildPipeRun(item.path, getPipeBendRadius(item)));
+  return item.height ?? null;
+}
@@ -0,0 +1,127 @@
+/**
+ * @fileOverview Relógio da simulação: a noção de tempo compartilhada por todos os comportamentos simulados.
+ *
+ * Responsabilidades:
+ * - Manter o tempo simulado decorrido, o estado de execução (rodando/pausado) e a velocidade (1x a 60x).
+ * - Converter o tempo real decorrido entre quadros (informado pelo loop de animação) em segundos simulados.
+ * - Permitir avançar um passo fixo com o relógio pausado.
+ * - Notificar os módulos da simulação a cada avanço (`subscribe`), com o intervalo em segundos simulados,
+ *   e a interface a cada mudança de estado (`subscribeState`, compatível com `useSyncExternalStore`).
+ *
+ * Exporta:
+ * - `SIMULATION_SPEEDS`: As velocidades oferecidas na interface.
+ * - `SimulationClockState`: O estado observável do relógio.
+ * - `SimulationTick`: Um avanço do relógio.
+ * - `SimulationClock`: A interface do relógio.
+ * - `createSimulationClock`: Cria uma instância do relógio.
+ */
+
+/** Velocidades oferecidas na interface (multiplicadores do tempo real). */
+export const SIMULATION_SPEEDS = [1, 2, 5, 10, 30, 60] as const;
+
+/** Velocidade mínima e máxima aceitas pelo relógio. */
+const MIN_SPEED = 1;
+const MAX_SPEED = 60;
+
+/** Duração padrão de um passo manual, em segundos simulados. */
+const DEFAULT_STEP_SECONDS = 1;
+
+/**
+ * Estado observável do relógio. Cada mudança produz um novo objeto (imutável).
+ * @interface SimulationClockState
+ * @property {boolean} isRunning - Indica se o relógio está avançando com o tempo real.
+ * @property {number} speed - Multiplicador do tempo real (1 a 60).
+ * @property {number} elapsedSeconds - Tempo simulado decorrido desde o início, em segundos.
+ */
+export interface SimulationClockState {
+  isRunning: boolean;
+  speed: number;
+  elapsedSeconds: number;
+}
+
+/**
+ * Um avanço do relógio, entregue aos assinantes.
+ * @interface SimulationTick
+ * @property {number} deltaSeconds - Intervalo avançado, em segundos simulados.
+ * @property {number} elapsedSeconds - Tempo simulado decorrido após o avanço.
+ */
+export interface SimulationTick {
+  deltaSeconds: number;
+  elapsedSeconds: number;
+}
+
+/**
+ * Relógio da simulação.
+ * @interface SimulationClock
+ * @property {() => SimulationClockState} getState - Retorna o estado atual (mesma referência até a próxima mudança).
+ * @property {() => void} play - Inicia ou retoma o avanço do tempo.
+ * @property {() => void} pause - Pausa o avanço do tempo.
+ * @property {(seconds?: number) => void} step - Avança um passo em segundos simulados (padrão: 1 s), independentemente do estado de execução.
+ * @property {(speed: number) => void} setSpeed - Define a velocidade, limitada ao intervalo de 1x a 60x.
+ * @property {(wallDeltaSeconds: number) => void} advance - Avança pelo tempo real decorrido (multiplicado pela velocidade); ignorado se pausado.
+ * @property {(listener: (tick: SimulationTick) => void) => () => void} subscribe - Assina os avanços do relógio; retorna a função para cancelar.
+ * @property {(listener: () => void) => () => void} subscribeState - Assina as mudanças de estado; retorna a função para cancelar.
+ */
+export interface SimulationClock {
+  getState: () => SimulationClockState;
+  play: () => void;
+  pause: () => void;
+  step: (seconds?: number) => void;
+  setSpeed: (speed: number) => void;
+  advance: (wallDeltaSeconds: number) => void;
+  subscribe: (listener: (tick: SimulationTick) => void) => () => void;
+  subscribeState: (listener: () => void) => () => void;
+}
+
+/**
+ * Cria um relógio de simulação, inicialmente rodando em 1x.
+ * @param {Partial<SimulationClockState>} [initialState] - Estado inicial opcional.
+ * @returns {SimulationClock} O relógio criado.
+ */
+export function createSimulationClock(initialState?: Partial<SimulationClockState>): SimulationClock {
+  let state: SimulationClockState = {
+    isRunning: initialState?.isRunning ?? true,
+    speed: Math.min(MAX_SPEED, Math.max(MIN_SPEED, initialState?.speed ?? MIN_SPEED)),
+    elapsedSeconds: initialState?.elapsedSeconds ?? 0,
+  };
+  const tickListeners = new Set<(tick: SimulationTick) => void>();
+  const stateListeners = new Set<() => void>();
+
+  const setState = (patch: Partial<SimulationClockState>) => {
+    state = { ...state, ...patch };
+    stateListeners.forEach(listener => listener());
+  };
+
+  const advanceBy = (deltaSeconds: number) => {
+    if (deltaSeconds <= 0) return;
+    setState({ elapsedSeconds: state.elapsedSeconds + deltaSeconds });
+    const tick: SimulationTick = { deltaSeconds, elapsedSeconds: state.elapsedSeconds };
+    tickListeners.forEach(listener => listener(tick));
+  };
+
+  return {
+    getState: () => state,
+    play: () => {
+      if (!state.isRunning) setState({ isRunning: true });
+    },
+    pause: () => {
+      if (state.isRunning) setState({ isRunning: false });
+    },
+    step: (seconds = DEFAULT_STEP_SECONDS) => advanceBy(seconds),
+    setSpeed: (speed: number) => {
+      const clamped = Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+      if (clamped !== state.speed) setState({ speed: clamped });
+    },
+    advance: (wallDeltaSeconds: number) => {
+      if (state.isRunning) advanceBy(wallDeltaSeconds * state.speed);
+    },
+    subscribe: (listener) => {
+      tickListeners.add(listener);
+      return () => { tickListeners.delete(listener); };
+    },
+    subscribeState: (listener) => {
+      stateListeners.add(listener);
+      return () => { stateListeners.delete(listener); };
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * @fileOverview Posicionamento da planta do terminal (desenho 2D) sobre o chão da cena, a partir de pontos de controle.
+ *
+ * Responsabilidades:
+ * - Definir os pontos de controle: cada um liga um pixel da imagem da planta a um ponto do chão da cena.
+ * - Ajustar, por mínimos quadrados, a transformação de semelhança (escala uniforme, rotação e translação) que leva
+ *   os pixels da imagem à cena. Com dois pontos, a transformação passa exatamente por eles; com mais pontos, o
+ *   resíduo de cada ponto indica a qualidade do ajuste (e.g., uma planta fora de escala ou um ponto digitado errado).
+ * - Converter pixels da imagem em coordenadas da cena.
+ *
+ * Convenções: os pixels são contados a partir do canto superior esquerdo da imagem, com Y para baixo. Como na
+ * cena −Z aponta para o norte e +X para o leste, uma planta com o norte para cima e sem rotação tem o eixo X da
+ * imagem em +X e o eixo Y da imagem em +Z (não há espelhamento).
+ *
+ * Exporta:
+ * - `SitePlanControlPoint`, `SitePlanTransform`: Tipos.
+ * - `MIN_SITE_PLAN_CONTROL_POINTS`: Quantidade mínima de pontos de controle.
+ * - `fitSitePlanTransform`: Ajusta a transformação aos pontos de controle.
+ * - `sitePlanPixelToScene`: Converte um pixel da imagem em um ponto da cena.
+ * - `getSitePlanFitError`: Erro médio quadrático dos pontos de controle, em metros.
+ */
+import type { ScenePoint } from '@/core/logic/georeference';
+
+/**
+ * Um ponto de controle da planta.
+ * @interface SitePlanControlPoint
+ * @property {number} pixelX - Coluna do pixel na imagem (a partir da borda esquerda).
+ * @property {number} pixelY - Linha do pixel na imagem (a partir da borda superior).
+ * @property {number} sceneX - Coordenada X do ponto correspondente na cena, em metros.
+ * @property {number} sceneZ - Coordenada Z do ponto correspondente na cena, em metros.
+ */
+export interface SitePlanControlPoint {
+  pixelX: number;
+  pixelY: number;
+  sceneX: number;
+  sceneZ: number;
+}
+
+/**
+ * Transformação de semelhança dos pixels da imagem para a cena:
+ * `x = a·px − b·py + translateX` e `z = b·px + a·py + translateZ`.
+ * A escala (metros por pixel) é `√(a² + b²)` e a rotação, `atan2(b, a)`.
+ * @interface SitePlanTransform
+ * @property {number} a - Escala multiplicada pelo cosseno da rotação.
+ * @property {number} b - Escala multiplicada pelo seno da rotação.
+ * @property {number} translateX - Coordenada X da cena do pixel (0, 0).
+ * @property {number} translateZ - Coordenada Z da cena do pixel (0, 0).
+ */
+export interface SitePlanTransform {
+  a: number;
+  b: number;
+  translateX: number;
+  translateZ: number;
+}
+
+/** Quantidade mínima de pontos de controle para posicionar a planta. */
+export const MIN_SITE_PLAN_CONTROL_POINTS = 2;
+
+/** Abaixo deste valor, as distâncias entre os pontos são consideradas nulas. */
+const DEGENERATE_EPSILON = 1e-9;
+
+/**
+ * Ajusta a transformação de semelhança que melhor leva os pixels dos pontos de controle aos pontos da cena
+ * (mínimos quadrados, solução fechada).
+ * @param {SitePlanControlPoint[]} points Os pontos de controle.
+ * @returns {SitePlanTransform} A transformação.
+ * @throws {Error} Se houver menos de `MIN_SITE_PLAN_CONTROL_POINTS` pontos, ou se os pixels ou os pontos da cena
+ *         coincidirem (não há como definir a escala e a rotação).
+ */
+export function fitSitePlanTransform(points: SitePlanControlPoint[]): SitePlanTransform {
+  if (points.length < MIN_SITE_PLAN_CONTROL_POINTS) {
+    throw new Error(`A planta precisa de ao menos ${MIN_SITE_PLAN_CONTROL_POINTS} pontos de controle.`);
+  }
+  const mean = (select: (point: SitePlanControlPoint) => number) =>
+    points.reduce((sum, point) => sum + select(point), 0) / points.length;
+  const meanPixelX = mean(point => point.pixelX);
+  const meanPixelY = mean(point => point.pixelY);
+  const meanSceneX = mean(point => point.sceneX);
+  const meanSceneZ = mean(point => point.sceneZ);
+
+  // Em números complexos: (x + iz) = (a + ib)·(px + i·py) + t, com os pontos centrados nas médias.
+  let pixelSpread = 0;
+  let sumA = 0;
+  let sumB = 0;
+  points.forEach(point => {
+    const u = point.pixelX - meanPixelX;
+    const v = point.pixelY - meanPixelY;
+    const x = point.sceneX - meanSceneX;
+    const z = point.sceneZ - meanSceneZ;
+    pixelSpread += u * u + v * v;
+    sumA += u * x + v * z;
+    sumB += u * z - v * x;
+  });
+  if (pixelSpread < DEGENERATE_EPSILON) {
+    throw new Error('Os pixels dos pontos de controle coincidem; marque pontos distantes entre si na imagem.');
+  }
+  const a = sumA / pixelSpread;
+  const b = sumB / pixelSpread;
+  if (Math.hypot(a, b) < DEGENERATE_EPSILON) {
+    throw new Error('Os pontos da cena coincidem; informe pontos distantes entre si no chão.');
+  }
+  return {
+    a,
+    b,
+    translateX: meanSceneX - a * meanPixelX + b * meanPixelY,
+    translateZ: meanSceneZ - b * meanPixelX - a * meanPixelY,
+  };
+}
+
+/**
+ * Converte um pixel da imagem da planta em um ponto do chão da cena.
+ * @param {SitePlanTransform} transform A transformação da planta.
+ * @param {number} pixelX A coluna do pixel.
+ * @param {number} pixelY A linha do pixel.
+ * @returns {ScenePoint} O ponto da cena.
+ */
+export function sitePlanPixelToScene(transform: SitePlanTransform, pixelX: number, pixelY: number): ScenePoint {
+  const { a, b, translateX, translateZ } = transform;
+  return {
+    x: a * pixelX - b * pixelY + translateX,
+    z: b * pixelX + a * pixelY + translateZ,
+  };
+}
+
+/**
+ * Calcula o erro médio quadrático dos pontos de controle: a distância, na cena, entre onde cada pixel é
+ * posicionado pela transformação e o ponto informado. Com dois pontos, o erro é zero.
+ * @param {SitePlanTransform} transform A transformação da planta.
+ * @param {SitePlanControlPoint[]} points Os pontos de controle.
+ * @returns {number} O erro, em metros (0 sem pontos).
+ */
+export function getSitePlanFitError(transform: SitePlanTransform, points: SitePlanControlPoint[]): number {
+  if (points.length === 0) return 0;
+  const sumOfSquares = points.reduce((sum, point) => {
+    const { x, z } = sitePlanPixelToScene(transform, point.pixelX, point.pixelY);
+    return sum + (x - point.sceneX) ** 2 + (z - point.sceneZ) ** 2;
+  }, 0);
+  return Math.sqrt(sumOfSquares / points.length);
+}
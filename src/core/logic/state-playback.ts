@@ -0,0 +1,120 @@
+/**
+ * @fileOverview Reconstrução do estado da planta em um instante passado (revisão histórica).
+ *
+ * Responsabilidades:
+ * - Reconstruir a lista de equipamentos em um instante qualquer a partir dos dados atuais e do
+ *   histórico de alterações (`AuditLogEntry`): as alterações posteriores ao instante são desfeitas,
+ *   da mais recente para a mais antiga, restaurando o valor anterior de cada uma.
+ * - Calcular o intervalo de tempo coberto pelo histórico e os marcadores de cada alteração na linha do tempo.
+ *
+ * Exporta:
+ * - `PLAYBACK_SPEEDS`: Velocidades de reprodução disponíveis.
+ * - `PlaybackRange`, `PlaybackMarker`: Tipos da linha do tempo.
+ * - `getPlaybackRange`: Intervalo coberto pelo histórico.
+ * - `getPlaybackMarkers`: Marcadores das alterações.
+ * - `reconstructEquipmentAt`: Equipamentos como estavam em um instante.
+ */
+import type { AuditLogEntry, Equipment } from '@/lib/types';
+
+/** Velocidades de reprodução (multiplicadores do tempo real) disponíveis na revisão histórica. */
+export const PLAYBACK_SPEEDS = [1, 10, 60, 600, 3600] as const;
+
+/**
+ * Intervalo de tempo da linha do tempo, em milissegundos desde a época.
+ * @interface PlaybackRange
+ * @property {number} start - Início (um pouco antes da primeira alteração registrada).
+ * @property {number} end - Fim (o instante atual).
+ */
+export interface PlaybackRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Marcador de uma alteração na linha do tempo.
+ * @interface PlaybackMarker
+ * @property {string} id - O id do registro do histórico.
+ * @property {number} time - O instante da alteração, em milissegundos desde a época.
+ * @property {string} equipmentTag - A TAG do equipamento alterado.
+ * @property {string} description - Descrição curta da alteração (e.g., "tank-01: operando → em falha").
+ */
+export interface PlaybackMarker {
+  id: string;
+  time: number;
+  equipmentTag: string;
+  description: string;
+}
+
+/** Margem antes da primeira alteração, para que o estado inicial apareça na linha do tempo. */
+const RANGE_START_MARGIN_MS = 60 * 1000;
+
+/**
+ * Calcula o intervalo da linha do tempo.
+ * @param {AuditLogEntry[]} entries - O histórico de alterações.
+ * @param {number} now - O instante atual, em milissegundos.
+ * @returns {PlaybackRange | null} O intervalo, ou null se não houver alterações registradas até `now`.
+ */
+export function getPlaybackRange(entries: AuditLogEntry[], now: number): PlaybackRange | null {
+  const times = entries.map(entry => Date.parse(entry.timestamp)).filter(time => time <= now);
+  if (times.length === 0) return null;
+  return { start: Math.min(...times) - RANGE_START_MARGIN_MS, end: now };
+}
+
+/**
+ * Lista os marcadores das alterações dentro de um intervalo, em ordem cronológica.
+ * @param {AuditLogEntry[]} entries - O histórico de alterações.
+ * @param {PlaybackRange} range - O intervalo da linha do tempo.
+ * @returns {PlaybackMarker[]} Os marcadores.
+ */
+export function getPlaybackMarkers(entries: AuditLogEntry[], range: PlaybackRange): PlaybackMarker[] {
+  return entries
+    .map(entry => ({
+      id: entry.id,
+      time: Date.parse(entry.timestamp),
+      equipmentTag: entry.equipmentTag,
+      description: `${entry.equipmentTag}: ${entry.oldValue ?? '—'} → ${entry.newValue}`,
+    }))
+    .filter(marker => marker.time >= range.start && marker.time <= range.end)
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Ordena os registros do mais recente para o mais antigo. Registros com o mesmo `timestamp` (resolução de
+ * milissegundos) não têm ordem garantida no armazenamento: entre alterações do mesmo campo, a que partiu do valor
+ * gravado pela outra é a mais recente; nos demais casos, o id desempata, para que a ordem seja sempre a mesma.
+ * @param {AuditLogEntry} a - Um registro.
+ * @param {AuditLogEntry} b - Outro registro.
+ * @returns {number} Negativo se `a` for mais recente que `b`, positivo se for mais antigo.
+ */
+function compareNewestFirst(a: AuditLogEntry, b: AuditLogEntry): number {
+  const byTime = b.timestamp.localeCompare(a.timestamp);
+  if (byTime !== 0) return byTime;
+  if (a.equipmentTag === b.equipmentTag && a.field === b.field) {
+    if (a.oldValue === b.newValue && b.oldValue !== a.newValue) return -1;
+    if (b.oldValue === a.newValue && a.oldValue !== b.newValue) return 1;
+  }
+  return b.id.localeCompare(a.id);
+}
+
+/**
+ * Reconstrói os equipamentos como estavam em um instante, desfazendo sobre os dados atuais as
+ * alterações registradas depois dele. Registros de TAGs que não existem nos dados atuais são ignorados.
+ * @param {Equipment[]} equipment - Os equipamentos atuais.
+ * @param {AuditLogEntry[]} entries - O histórico de alterações.
+ * @param {number} time - O instante desejado, em milissegundos desde a época.
+ * @returns {Equipment[]} Os equipamentos no instante (objetos novos apenas para os que mudaram).
+ */
+export function reconstructEquipmentAt(equipment: Equipment[], entries: AuditLogEntry[], time: number): Equipment[] {
+  const laterEntries = entries
+    .filter(entry => Date.parse(entry.timestamp) > time)
+    .sort(compareNewestFirst);
+  if (laterEntries.length === 0) return equipment;
+
+  const byTag = new Map(equipment.map(item => [item.tag, item]));
+  laterEntries.forEach(entry => {
+    const item = byTag.get(entry.equipmentTag);
+    if (!item) return;
+    byTag.set(entry.equipmentTag, { ...item, [entry.field]: entry.oldValue ?? undefined });
+  });
+  return equipment.map(item => byTag.get(item.tag) ?? item);
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileOverview Modelo de inventário dos tanques: nível, volume e capacidade livre.
+ *
+ * Responsabilidades:
+ * - Definir a altura do costado dos tanques: a altura total (`height`) menos o teto cônico. A mesma altura é usada
+ *   pela geometria do tanque, pelo preenchimento desenhado e pelo inventário.
+ * - Converter o nível de um tanque (`Equipment.level`), em porcentagem ou em metros (`Equipment.levelUnit`),
+ *   em porcentagem do costado e em altura de produto.
+ * - Calcular a capacidade, o volume armazenado e a capacidade livre a partir do costado cilíndrico
+ *   do tanque (`radius` e altura do costado), considerando as unidades da cena como metros.
+ *
+ * Exporta:
+ * - `TankInventory`: O inventário calculado de um tanque.
+ * - `getTankRoofHeight`, `getTankShellHeight`: Alturas do teto cônico e do costado de um tanque.
+ * - `getTankLevelPercent`: Nível de um tanque em porcentagem, qualquer que seja a unidade informada.
+ * - `getTankInventory`: Calcula o inventário de um tanque.
+ */
+import type { Equipment } from '@/lib/types';
+
+/**
+ * Inventário de um tanque.
+ * @interface TankInventory
+ * @property {number} levelPercent - Nível do produto, em porcentagem da altura do costado (0 a 100).
+ * @property {number} levelMeters - Altura do produto no tanque, em metros.
+ * @property {number} capacityM3 - Capacidade total do tanque, em m³.
+ * @property {number} volumeM3 - Volume de produto armazenado, em m³.
+ * @property {number} freeCapacityM3 - Volume ainda disponível, em m³.
+ */
+export interface TankInventory {
+  levelPercent: number;
+  levelMeters: number;
+  capacityM3: number;
+  volumeM3: number;
+  freeCapacityM3: number;
+}
+
+/**
+ * Obtém a altura do teto cônico de um tanque.
+ * @param {number} radius - O raio do tanque.
+ * @param {number} height - A altura total do tanque (costado e teto).
+ * @returns {number} A altura do teto.
+ */
+export function getTankRoofHeight(radius: number, height: number): number {
+  return Math.min(height * 0.15, radius * 0.4);
+}
+
+/**
+ * Obtém a altura do costado de um tanque (a parte cilíndrica, abaixo do teto), que é a altura útil para o produto.
+ * @param {number} radius - O raio do tanque.
+ * @param {number} height - A altura total do tanque (costado e teto).
+ * @returns {number} A altura do costado.
+ */
+export function getTankShellHeight(radius: number, height: number): number {
+  return height - getTankRoofHeight(radius, height);
+}
+
+/**
+ * Obtém o nível de um tanque em porcentagem da altura do costado (0 a 100). Um nível em metros exige as dimensões do tanque.
+ * @param {Equipment} item - O equipamento.
+ * @returns {number | undefined} O nível, ou undefined se o equipamento não for um tanque com nível.
+ */
+export function getTankLevelPercent(item: Equipment): number | undefined {
+  if (item.type !== 'Tank' || item.level === undefined) return undefined;
+  if (item.levelUnit !== 'meters') return Math.min(100, Math.max(0, item.level));
+  if (!item.radius || !item.height) return undefined;
+  return Math.min(100, Math.max(0, (item.level / getTankShellHeight(item.radius, item.height)) * 100));
+}
+
+/**
+ * Calcula o inventário de um tanque a partir do nível e da geometria do cilindro.
+ * Níveis fora do intervalo de 0 a 100% (ou de 0 à altura do costado) são limitados a ele.
+ * @param {Equipment} item - O equipamento.
+ * @returns {TankInventory | null} O inventário, ou null se o equipamento não for um tanque com nível e dimensões.
+ */
+export function getTankInventory(item: Equipment): TankInventory | null {
+  const levelPercent = getTankLevelPercent(item);
+  if (levelPercent === undefined || !item.radius || !item.height) return null;
+
+  const shellHeight = getTankShellHeight(item.radius, item.height);
+  const levelMeters = (shellHeight * levelPercent) / 100;
+  const baseArea = Math.PI * item.radius * item.radius;
+  const capacityM3 = baseArea * shellHeight;
+  const volumeM3 = baseArea * levelMeters;
+
+  return { levelPercent, levelMeters, capacityM3, volumeM3, freeCapacityM3: capacityM3 - volumeM3 };
+}
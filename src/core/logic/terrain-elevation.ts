@@ -0,0 +1,306 @@
+/**
+ * @fileOverview Relevo do terreno do terminal, a partir de uma grade de elevações.
+ *
+ * Responsabilidades:
+ * - Interpretar grades de elevação em texto: CSV (uma linha da grade por linha do arquivo) ou ESRI ASCII Grid
+ *   (cabeçalho `ncols`/`nrows`/.../`NODATA_value` seguido dos valores).
+ * - Montar a superfície do terreno: a grade é esticada sobre a extensão informada (em coordenadas da cena) e os
+ *   valores são convertidos em metros pela escala vertical e pela cota de base.
+ * - Calcular a elevação do terreno em qualquer ponto (interpolação bilinear entre os pontos da grade) e
+ *   assentar os equipamentos sobre o terreno.
+ *
+ * Convenções: a primeira linha da grade é a borda norte (menor Z da cena) e a primeira coluna é a borda oeste
+ * (menor X), como nas imagens e no ESRI ASCII Grid. Os valores são amostras nos vértices: a primeira e a última
+ * coluna caem exatamente nas bordas da extensão.
+ *
+ * Exporta:
+ * - `ElevationGrid`, `TerrainSettings`, `TerrainSurface`: Tipos.
+ * - `parseElevationGrid`: Interpreta uma grade de elevações em texto (CSV ou ESRI ASCII Grid).
+ * - `createTerrainSurface`: Monta a superfície do terreno a partir de uma grade.
+ * - `getTerrainElevation`: Elevação do terreno em um ponto da cena.
+ * - `intersectTerrainRay`: Primeiro ponto do terreno atingido por um raio (e.g., o do cursor).
+ * - `snapEquipmentToTerrain`: Eleva os equipamentos até o terreno.
+ */
+import type { Equipment, SiteBounds } from '@/lib/types';
+
+/**
+ * Uma grade de elevações, sem unidade nem posição.
+ * @interface ElevationGrid
+ * @property {number} columns - Número de colunas (de oeste para leste).
+ * @property {number} rows - Número de linhas (de norte para sul).
+ * @property {Float32Array} values - Os valores, linha a linha (`values[row * columns + column]`).
+ */
+export interface ElevationGrid {
+  columns: number;
+  rows: number;
+  values: Float32Array;
+}
+
+/**
+ * Como uma grade de elevações é posicionada na cena.
+ * @interface TerrainSettings
+ * @property {SiteBounds} extent - A área coberta pela grade, em coordenadas da cena.
+ * @property {number} verticalScale - Metros por unidade da grade (e.g., a altura do branco em um mapa de altura,
+ *           cujos valores vão de 0 a 1, ou 1 para grades já em metros).
+ * @property {number} [baseElevation=0] - Cota somada a todas as elevações, em metros (e.g., para que o pátio fique em 0).
+ */
+export interface TerrainSettings {
+  extent: SiteBounds;
+  verticalScale: number;
+  baseElevation?: number;
+}
+
+/**
+ * A superfície do terreno, com as elevações em metros na escala da cena.
+ * @interface TerrainSurface
+ * @property {number} columns - Número de colunas da grade.
+ * @property {number} rows - Número de linhas da grade.
+ * @property {Float32Array} heights - As elevações, em metros, na mesma ordem de `ElevationGrid.values`.
+ * @property {SiteBounds} extent - A área coberta pelo terreno.
+ * @property {number} minHeight - A menor elevação.
+ * @property {number} maxHeight - A maior elevação.
+ */
+export interface TerrainSurface {
+  columns: number;
+  rows: number;
+  heights: Float32Array;
+  extent: SiteBounds;
+  minHeight: number;
+  maxHeight: number;
+}
+
+/** Chaves do cabeçalho de um ESRI ASCII Grid. */
+const ASCII_GRID_HEADER_KEYS = ['ncols', 'nrows', 'xllcorner', 'yllcorner', 'xllcenter', 'yllcenter', 'cellsize', 'nodata_value'];
+
+/**
+ * Converte um texto em número, aceitando vírgula decimal.
+ * @param {string} text O texto.
+ * @param {string} context Onde o valor está, para a mensagem de erro.
+ * @returns {number} O número.
+ * @throws {Error} Se o texto não for um número.
+ */
+function parseGridNumber(text: string, context: string): number {
+  const value = Number(text.replace(',', '.'));
+  if (text.trim() === '' || !Number.isFinite(value)) {
+    throw new Error(`Valor inválido "${text}" ${context}.`);
+  }
+  return value;
+}
+
+/**
+ * Substitui os valores sem dado pela menor elevação válida da grade.
+ * @param {number[]} values Os valores lidos.
+ * @param {number | undefined} noDataValue O valor que indica ausência de dado.
+ * @returns {Float32Array} Os valores preenchidos.
+ * @throws {Error} Se nenhum valor for válido.
+ */
+function fillNoData(values: number[], noDataValue: number | undefined): Float32Array {
+  const isMissing = (value: number) => noDataValue !== undefined && value === noDataValue;
+  const valid = values.filter(value => !isMissing(value));
+  if (valid.length === 0) {
+    throw new Error('A grade de elevações não tem nenhum valor válido.');
+  }
+  const fallback = valid.reduce((min, value) => Math.min(min, value), Infinity);
+  return Float32Array.from(values, value => (isMissing(value) ? fallback : value));
+}
+
+/**
+ * Interpreta um ESRI ASCII Grid. Apenas as dimensões e o valor sem dado são usados: a posição na cena
+ * vem de `TerrainSettings.extent`.
+ * @param {string[]} lines As linhas não vazias do arquivo.
+ * @returns {ElevationGrid} A grade.
+ * @throws {Error} Se o cabeçalho estiver incompleto ou a quantidade de valores não corresponder às dimensões.
+ */
+function parseAsciiGrid(lines: string[]): ElevationGrid {
+  const header = new Map<string, number>();
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const [key, value, ...rest] = lines[index].trim().split(/\s+/);
+    if (!ASCII_GRID_HEADER_KEYS.includes(key.toLowerCase()) || value === undefined || rest.length > 0) break;
+    header.set(key.toLowerCase(), parseGridNumber(value, `no cabeçalho "${key}"`));
+  }
+  const columns = header.get('ncols');
+  const rows = header.get('nrows');
+  if (!columns || !rows || !Number.isInteger(columns) || !Number.isInteger(rows)) {
+    throw new Error('O cabeçalho do ESRI ASCII Grid deve informar "ncols" e "nrows" inteiros.');
+  }
+
+  const values = lines.slice(index).join(' ').trim().split(/\s+/).filter(Boolean)
+    .map((text, position) => parseGridNumber(text, `na posição ${position + 1} da grade`));
+  if (values.length !== columns * rows) {
+    throw new Error(`A grade deveria ter ${columns * rows} valores (${columns} x ${rows}), mas tem ${values.length}.`);
+  }
+  return { columns, rows, values: fillNoData(values, header.get('nodata_value')) };
+}
+
+/**
+ * Interpreta uma grade em CSV: cada linha do arquivo é uma linha da grade. O delimitador (`;`, `,`, Tab ou espaços)
+ * é detectado pela primeira linha; com `;` ou Tab, a vírgula é aceita como separador decimal.
+ * @param {string[]} lines As linhas não vazias do arquivo.
+ * @returns {ElevationGrid} A grade.
+ * @throws {Error} Se uma linha tiver outra quantidade de colunas ou um valor não numérico.
+ */
+function parseCsvGrid(lines: string[]): ElevationGrid {
+  const first = lines[0];
+  const delimiter = first.includes(';') ? ';' : first.includes('\t') ? '\t' : first.includes(',') ? ',' : /\s+/;
+  const rowsValues = lines.map((line, row) =>
+    line.trim().split(delimiter).map((cell, column) =>
+      parseGridNumber(cell.trim(), `na linha ${row + 1}, coluna ${column + 1}`)
+    )
+  );
+  const columns = rowsValues[0].length;
+  const mismatch = rowsValues.findIndex(values => values.length !== columns);
+  if (mismatch >= 0) {
+    throw new Error(`A linha ${mismatch + 1} da grade tem ${rowsValues[mismatch].length} valores; a primeira tem ${columns}.`);
+  }
+  return { columns, rows: rowsValues.length, values: fillNoData(rowsValues.flat(), undefined) };
+}
+
+/**
+ * Interpreta uma grade de elevações em texto: ESRI ASCII Grid (se o arquivo começar pelo cabeçalho `ncols`)
+ * ou CSV. Nos ASCII Grids, os valores sem dado (`NODATA_value`) recebem a menor elevação válida.
+ * @param {string} text O conteúdo do arquivo.
+ * @returns {ElevationGrid} A grade.
+ * @throws {Error} Se o texto não for uma grade válida com ao menos 2 x 2 pontos.
+ */
+export function parseElevationGrid(text: string): ElevationGrid {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('A grade de elevações está vazia.');
+  }
+  const grid = /^\s*ncols\b/i.test(lines[0]) ? parseAsciiGrid(lines) : parseCsvGrid(lines);
+  if (grid.columns < 2 || grid.rows < 2) {
+    throw new Error('A grade de elevações deve ter ao menos 2 linhas e 2 colunas.');
+  }
+  return grid;
+}
+
+/**
+ * Monta a superfície do terreno: `altura = cota de base + valor × escala vertical`.
+ * @param {ElevationGrid} grid A grade de elevações.
+ * @param {TerrainSettings} settings A extensão, a escala vertical e a cota de base.
+ * @returns {TerrainSurface} A superfície.
+ */
+export function createTerrainSurface(grid: ElevationGrid, settings: TerrainSettings): TerrainSurface {
+  const baseElevation = settings.baseElevation ?? 0;
+  const heights = Float32Array.from(grid.values, value => baseElevation + value * settings.verticalScale);
+  let minHeight = Infinity;
+  let maxHeight = -Infinity;
+  heights.forEach(height => {
+    minHeight = Math.min(minHeight, height);
+    maxHeight = Math.max(maxHeight, height);
+  });
+  return { columns: grid.columns, rows: grid.rows, heights, extent: settings.extent, minHeight, maxHeight };
+}
+
+/**
+ * Calcula a elevação do terreno em um ponto da cena, por interpolação bilinear entre os quatro pontos
+ * vizinhos da grade. Fora da extensão, vale a elevação da borda mais próxima.
+ * @param {TerrainSurface} surface A superfície do terreno.
+ * @param {number} x A coordenada X.
+ * @param {number} z A coordenada Z.
+ * @returns {number} A elevação, em metros.
+ */
+export function getTerrainElevation(surface: TerrainSurface, x: number, z: number): number {
+  const { columns, rows, heights, extent } = surface;
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+  const u = clamp(((x - extent.minX) / (extent.maxX - extent.minX)) * (columns - 1), columns - 1);
+  const v = clamp(((z - extent.minZ) / (extent.maxZ - extent.minZ)) * (rows - 1), rows - 1);
+
+  const column = Math.min(Math.floor(u), columns - 2);
+  const row = Math.min(Math.floor(v), rows - 2);
+  const fu = u - column;
+  const fv = v - row;
+  const at = (r: number, c: number) => heights[r * columns + c];
+  const north = at(row, column) * (1 - fu) + at(row, column + 1) * fu;
+  const south = at(row + 1, column) * (1 - fu) + at(row + 1, column + 1) * fu;
+  return north * (1 - fv) + south * fv;
+}
+
+/** Quantidade máxima de amostras ao longo de um raio em `intersectTerrainRay`. */
+const MAX_RAY_SAMPLES = 2048;
+/** Iterações da bisseção que refina o ponto atingido entre duas amostras. */
+const RAY_REFINE_ITERATIONS = 12;
+
+/**
+ * Calcula o primeiro ponto em que um raio atinge o terreno, amostrando a elevação ao longo do raio (a cada meia
+ * célula da grade, dentro da caixa que contém o terreno) e refinando o cruzamento por bisseção. O custo depende
+ * do comprimento do raio sobre o terreno, não do número de triângulos da malha.
+ * @param {TerrainSurface} surface A superfície do terreno.
+ * @param {{ x: number; y: number; z: number }} origin A origem do raio.
+ * @param {{ x: number; y: number; z: number }} direction A direção do raio (normalizada).
+ * @returns {{ x: number; y: number; z: number } | null} O ponto atingido, ou null se o raio não atingir o terreno.
+ */
+export function intersectTerrainRay(
+  surface: TerrainSurface,
+  origin: { x: number; y: number; z: number },
+  direction: { x: number; y: number; z: number }
+): { x: number; y: number; z: number } | null {
+  const { extent, columns, rows, minHeight, maxHeight } = surface;
+  // Trecho do raio dentro da caixa do terreno (método das placas).
+  let tEnter = 0;
+  let tExit = Infinity;
+  const slabs: [number, number, number, number][] = [
+    [origin.x, direction.x, extent.minX, extent.maxX],
+    [origin.y, direction.y, minHeight, maxHeight],
+    [origin.z, direction.z, extent.minZ, extent.maxZ],
+  ];
+  for (const [start, delta, min, max] of slabs) {
+    if (Math.abs(delta) < 1e-12) {
+      if (start < min || start > max) return null;
+      continue;
+    }
+    const t1 = (min - start) / delta;
+    const t2 = (max - start) / delta;
+    tEnter = Math.max(tEnter, Math.min(t1, t2));
+    tExit = Math.min(tExit, Math.max(t1, t2));
+    if (tEnter > tExit) return null;
+  }
+
+  const pointAt = (t: number) => ({ x: origin.x + direction.x * t, y: origin.y + direction.y * t, z: origin.z + direction.z * t });
+  const heightAbove = (t: number) => {
+    const point = pointAt(t);
+    return point.y - getTerrainElevation(surface, point.x, point.z);
+  };
+  const cellSize = Math.min((extent.maxX - extent.minX) / (columns - 1), (extent.maxZ - extent.minZ) / (rows - 1));
+  const step = Math.max(cellSize / 2, (tExit - tEnter) / MAX_RAY_SAMPLES);
+
+  let previousT = tEnter;
+  if (heightAbove(previousT) <= 0) return pointAt(previousT);
+  for (let t = Math.min(tEnter + step, tExit); ; t = Math.min(t + step, tExit)) {
+    if (heightAbove(t) <= 0) {
+      let above = previousT;
+      let below = t;
+      for (let i = 0; i < RAY_REFINE_ITERATIONS; i++) {
+        const middle = (above + below) / 2;
+        if (heightAbove(middle) > 0) above = middle;
+        else below = middle;
+      }
+      return pointAt(below);
+    }
+    if (t >= tExit) return null;
+    previousT = t;
+  }
+}
+
+/**
+ * Eleva os equipamentos até o terreno: a altura `position.y` passa a ser medida a partir do terreno sob o
+ * equipamento, e cada ponto do traçado das tubulações é elevado pelo terreno sob ele. Os dados originais não
+ * são alterados.
+ * @param {Equipment[]} equipment Os equipamentos.
+ * @param {TerrainSurface} surface A superfície do terreno.
+ * @returns {Equipment[]} Cópias dos equipamentos, posicionadas sobre o terreno.
+ */
+export function snapEquipmentToTerrain(equipment: Equipment[], surface: TerrainSurface): Equipment[] {
+  return equipment.map(item => {
+    if (item.type === 'Terrain') return item;
+    const { x, y, z } = item.position;
+    return {
+      ...item,
+      position: { x, y: y + getTerrainElevation(surface, x, z), z },
+      ...(item.path && {
+        path: item.path.map(point => ({ ...point, y: point.y + getTerrainElevation(surface, point.x, point.z) })),
+      }),
+    };
+  });
+}
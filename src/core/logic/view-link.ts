@@ -0,0 +1,206 @@
+/**
+ * @fileOverview Codificação da vista atual (câmera, seleção, filtros, modo de cor e camadas) na query string da URL,
+ * para que um link compartilhado abra o visualizador exatamente na mesma vista.
+ *
+ * Formato (parâmetros omitidos quando iguais ao padrão):
+ * - `t`: id do terminal (site).
+ * - `c`: câmera, `px,py,pz,lx,ly,lz` com até duas casas decimais.
+ * - `s`: TAGs selecionadas, separadas por vírgula (vírgulas e `%` dentro de uma TAG são escritos como `%2C` e `%25`).
+ * - `q`: termo de busca; `sis` e `area`: filtros de sistema e área.
+ * - `attr`: filtro por atributo, como `chave` (qualquer valor) ou `chave:valor`.
+ * - `cor`: modo de cor, em um código de uma letra (`COLOR_MODE_CODES`) ou `a.<chave>` para o modo por atributo.
+ * - `h`: camadas ocultas, pelo id sem o prefixo `layer-`, separadas por vírgula como as TAGs.
+ *
+ * Exporta:
+ * - `ViewLinkState`: Estado codificado no link.
+ * - `encodeViewLink`: Gera a query string de uma vista.
+ * - `decodeViewLink`: Lê a vista de uma query string.
+ * - `getViewLinkSiteId`: Lê apenas o terminal de uma query string.
+ */
+import type { AttributeColorMode, CameraState, ColorMode } from '@/lib/types';
+import { getAttributeColorMode, getAttributeDefinition, getColorModeAttributeKey } from '@/core/logic/equipment-attributes';
+import type { WorkspaceState } from '@/core/logic/workspace-snapshot';
+
+/**
+ * Estado codificado no link: o estado do espaço de trabalho sem as anotações, e o terminal.
+ * @typedef {Omit<WorkspaceState, 'annotations'> & { siteId?: string }} ViewLinkState
+ */
+export type ViewLinkState = Omit<WorkspaceState, 'annotations'> & { siteId?: string };
+
+/** Códigos de uma letra dos modos de cor fixos. */
+const COLOR_MODE_CODES: Record<Exclude<ColorMode, AttributeColorMode>, string> = {
+  'Produto': 'p',
+  'Estado Operacional': 'e',
+  'Equipamento': 'q',
+  'Nível': 'n',
+};
+
+/** Prefixo do código dos modos de cor por atributo (e.g., `a.capacidade`). */
+const ATTRIBUTE_COLOR_MODE_CODE_PREFIX = 'a.';
+
+/** Modo de cor padrão (omitido do link). */
+const DEFAULT_COLOR_MODE: ColorMode = 'Estado Operacional';
+
+/** Prefixo comum dos ids das camadas, omitido no link. */
+const LAYER_ID_PREFIX = 'layer-';
+
+/** Parâmetros reconhecidos; uma query sem nenhum deles não descreve uma vista. */
+const VIEW_LINK_PARAMS = ['t', 'c', 's', 'q', 'sis', 'area', 'attr', 'cor', 'h'];
+
+/**
+ * Arredonda uma coordenada para o link.
+ * @param {number} value A coordenada.
+ * @returns {string} A coordenada com até duas casas decimais.
+ */
+function formatCoordinate(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Junta itens em uma lista separada por vírgulas. Vírgulas e `%` dentro de um item são codificados
+ * (`%2C` e `%25`), para que `splitList` devolva os mesmos itens.
+ * @param {string[]} items Os itens (e.g., TAGs, que podem conter vírgulas).
+ * @returns {string} O valor do parâmetro.
+ */
+function joinList(items: string[]): string {
+  return items.map(item => item.replace(/%/g, '%25').replace(/,/g, '%2C')).join(',');
+}
+
+/**
+ * Decodifica um item de uma lista gerada por `joinList`. Um item com `%` inválido (e.g., de um link antigo,
+ * anterior à codificação) é mantido como está.
+ * @param {string} item O item codificado.
+ * @returns {string} O item original.
+ */
+function decodeListItem(item: string): string {
+  try {
+    return decodeURIComponent(item);
+  } catch {
+    return item;
+  }
+}
+
+/**
+ * Divide uma lista separada por vírgulas, descartando itens vazios.
+ * @param {string | null} value O valor do parâmetro.
+ * @returns {string[]} Os itens, decodificados.
+ */
+function splitList(value: string | null): string[] {
+  return value ? value.split(',').map(item => decodeListItem(item.trim())).filter(Boolean) : [];
+}
+
+/**
+ * Converte um modo de cor em seu código no link.
+ * @param {ColorMode} colorMode O modo de cor.
+ * @returns {string} O código.
+ */
+function encodeColorMode(colorMode: ColorMode): string {
+  const attributeKey = getColorModeAttributeKey(colorMode);
+  return attributeKey
+    ? `${ATTRIBUTE_COLOR_MODE_CODE_PREFIX}${attributeKey}`
+    : COLOR_MODE_CODES[colorMode as Exclude<ColorMode, AttributeColorMode>];
+}
+
+/**
+ * Lê o modo de cor de seu código no link. Códigos desconhecidos e atributos fora do schema resultam no modo padrão.
+ * @param {string | null} code O código.
+ * @returns {ColorMode} O modo de cor.
+ */
+function decodeColorMode(code: string | null): ColorMode {
+  if (code?.startsWith(ATTRIBUTE_COLOR_MODE_CODE_PREFIX)) {
+    const attributeKey = code.slice(ATTRIBUTE_COLOR_MODE_CODE_PREFIX.length);
+    return getAttributeDefinition(attributeKey) ? getAttributeColorMode(attributeKey) : DEFAULT_COLOR_MODE;
+  }
+  return (Object.keys(COLOR_MODE_CODES) as Exclude<ColorMode, AttributeColorMode>[]).find(mode => COLOR_MODE_CODES[mode] === code)
+    ?? DEFAULT_COLOR_MODE;
+}
+
+/**
+ * Gera a query string (sem o `?`) que descreve uma vista.
+ * @param {ViewLinkState} state A vista.
+ * @returns {string} A query string (a câmera é sempre incluída).
+ */
+export function encodeViewLink(state: ViewLinkState): string {
+  const params = new URLSearchParams();
+  if (state.siteId) params.set('t', state.siteId);
+  const { position, lookAt } = state.camera;
+  params.set('c', [position.x, position.y, position.z, lookAt.x, lookAt.y, lookAt.z].map(formatCoordinate).join(','));
+  if (state.selectedEquipmentTags.length > 0) params.set('s', joinList(state.selectedEquipmentTags));
+  if (state.filters.searchTerm) params.set('q', state.filters.searchTerm);
+  if (state.filters.selectedSistema !== 'All') params.set('sis', state.filters.selectedSistema);
+  if (state.filters.selectedArea !== 'All') params.set('area', state.filters.selectedArea);
+  const { attributeFilter } = state.filters;
+  if (attributeFilter) {
+    params.set('attr', attributeFilter.value === null ? attributeFilter.key : `${attributeFilter.key}:${attributeFilter.value}`);
+  }
+  if (state.colorMode !== DEFAULT_COLOR_MODE) params.set('cor', encodeColorMode(state.colorMode));
+  const hiddenLayers = Object.entries(state.layerVisibility)
+    .filter(([, isVisible]) => !isVisible)
+    .map(([id]) => (id.startsWith(LAYER_ID_PREFIX) ? id.slice(LAYER_ID_PREFIX.length) : id));
+  if (hiddenLayers.length > 0) params.set('h', joinList(hiddenLayers));
+  // Vírgulas e dois-pontos são seguros na query string e mantêm o link legível.
+  return params.toString().replace(/%2C/g, ',').replace(/%3A/g, ':');
+}
+
+/**
+ * Lê a vista descrita em uma query string. Parâmetros ausentes ou inválidos assumem o valor padrão,
+ * pois o link omite os valores padrão.
+ * @param {string} query A query string (com ou sem `?`).
+ * @param {{ layerIds: string[]; defaultCamera: CameraState }} defaults Os ids das camadas existentes e a câmera padrão.
+ * @returns {ViewLinkState | null} A vista, ou null se a query não contiver nenhum parâmetro da vista.
+ */
+export function decodeViewLink(
+  query: string,
+  { layerIds, defaultCamera }: { layerIds: string[]; defaultCamera: CameraState }
+): ViewLinkState | null {
+  const params = new URLSearchParams(query);
+  if (!VIEW_LINK_PARAMS.some(key => params.has(key))) return null;
+
+  const coordinates = splitList(params.get('c')).map(Number);
+  const camera = coordinates.length === 6 && coordinates.every(Number.isFinite)
+    ? {
+        position: { x: coordinates[0], y: coordinates[1], z: coordinates[2] },
+        lookAt: { x: coordinates[3], y: coordinates[4], z: coordinates[5] },
+      }
+    : defaultCamera;
+
+  const colorMode = decodeColorMode(params.get('cor'));
+
+  // A chave do atributo vai até o primeiro ':'; o restante é o valor (que pode conter ':').
+  const attributeParam = params.get('attr');
+  const separatorIndex = attributeParam?.indexOf(':') ?? -1;
+  const attributeFilter = attributeParam
+    ? separatorIndex === -1
+      ? { key: attributeParam, value: null }
+      : { key: attributeParam.slice(0, separatorIndex), value: attributeParam.slice(separatorIndex + 1) }
+    : null;
+
+  const hiddenLayers = new Set(splitList(params.get('h')));
+  const layerVisibility = Object.fromEntries(layerIds.map(id => [
+    id,
+    !hiddenLayers.has(id) && !(id.startsWith(LAYER_ID_PREFIX) && hiddenLayers.has(id.slice(LAYER_ID_PREFIX.length))),
+  ]));
+
+  return {
+    filters: {
+      searchTerm: params.get('q') ?? '',
+      selectedSistema: params.get('sis') || 'All',
+      selectedArea: params.get('area') || 'All',
+      attributeFilter: attributeFilter?.key ? attributeFilter : null,
+    },
+    colorMode,
+    layerVisibility,
+    camera,
+    selectedEquipmentTags: splitList(params.get('s')),
+    siteId: params.get('t') || undefined,
+  };
+}
+
+/**
+ * Lê apenas o terminal de uma query string (e.g., para escolhê-lo antes de carregar os equipamentos).
+ * @param {string} query A query string (com ou sem `?`).
+ * @returns {string | null} O id do terminal, ou null se o link não indicar um.
+ */
+export function getViewLinkSiteId(query: string): string | null {
+  return new URLSearchParams(query).get('t') || null;
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileOverview Snapshots do espaço de trabalho: filtros, modo de cor, camadas visíveis, câmera, seleção e anotações.
+ *
+ * Responsabilidades:
+ * - Definir o formato serializável (`WorkspaceSnapshot`) e seu schema zod, versionado. Cada snapshot pertence a um
+ *   terminal (`siteId`): as TAGs, camadas e a câmera só fazem sentido no terminal em que foram salvas.
+ * - Validar por completo um snapshot vindo de um arquivo ou do armazenamento antes de qualquer restauração,
+ *   para que a restauração seja tudo-ou-nada.
+ * - Serializar snapshots em JSON e aplicar a visibilidade salva a uma lista de camadas.
+ *
+ * Exporta:
+ * - `WORKSPACE_SNAPSHOT_VERSION`: Versão atual do formato.
+ * - `WorkspaceState`, `WorkspaceSnapshot`: Tipos do snapshot.
+ * - `createWorkspaceSnapshot`: Cria um snapshot nomeado a partir do estado atual.
+ * - `parseWorkspaceSnapshot`: Valida dados brutos (e.g., JSON importado) como snapshot.
+ * - `serializeWorkspaceSnapshot`: Serializa um snapshot em JSON.
+ * - `applyLayerVisibility`: Aplica a visibilidade salva às camadas.
+ */
+import { z } from 'zod';
+import type { Annotation, AttributeColorMode, CameraState, ColorMode, Layer } from '@/lib/types';
+import { ATTRIBUTE_COLOR_MODE_PREFIX, type AttributeFilter } from '@/core/logic/equipment-attributes';
+
+/** Versão atual do formato do snapshot. A versão 1, anterior aos terminais, não tinha `siteId`. */
+export const WORKSPACE_SNAPSHOT_VERSION = 2;
+
+/**
+ * Estado do espaço de trabalho coberto pelo snapshot.
+ * @interface WorkspaceState
+ * @property {{ searchTerm: string; selectedSistema: string; selectedArea: string; attributeFilter?: AttributeFilter | null }} filters -
+ *           Os filtros da sidebar (o filtro por atributo é opcional, pois snapshots antigos não o têm).
+ * @property {ColorMode} colorMode - O modo de colorização.
+ * @property {Record<string, boolean>} layerVisibility - A visibilidade de cada camada, pelo id.
+ * @property {CameraState} camera - Posição e ponto de observação da câmera.
+ * @property {string[]} selectedEquipmentTags - As TAGs selecionadas.
+ * @property {Annotation[]} annotations - As anotações.
+ */
+export interface WorkspaceState {
+  filters: { searchTerm: string; selectedSistema: string; selectedArea: string; attributeFilter?: AttributeFilter | null };
+  colorMode: ColorMode;
+  layerVisibility: Record<string, boolean>;
+  camera: CameraState;
+  selectedEquipmentTags: string[];
+  annotations: Annotation[];
+}
+
+/**
+ * Snapshot nomeado do espaço de trabalho.
+ * @interface WorkspaceSnapshot
+ * @property {number} version - Versão do formato.
+ * @property {string} siteId - O terminal em que o snapshot foi salvo.
+ * @property {string} name - Nome dado pelo usuário (identifica o snapshot no armazenamento, junto com o terminal).
+ * @property {string} savedAt - Data e hora (ISO 8601) em que o snapshot foi criado.
+ * @property {WorkspaceState} state - O estado salvo.
+ */
+export interface WorkspaceSnapshot {
+  version: typeof WORKSPACE_SNAPSHOT_VERSION;
+  siteId: string;
+  name: string;
+  savedAt: string;
+  state: WorkspaceState;
+}
+
+const vector3Schema = z.object({ x: z.number().finite(), y: z.number().finite(), z: z.number().finite() });
+
+const workspaceSnapshotSchema = z.object({
+  version: z.literal(WORKSPACE_SNAPSHOT_VERSION),
+  siteId: z.string().min(1),
+  name: z.string().trim().min(1),
+  savedAt: z.string().datetime(),
+  state: z.object({
+    filters: z.object({
+      searchTerm: z.string(),
+      selectedSistema: z.string(),
+      selectedArea: z.string(),
+      attributeFilter: z.object({ key: z.string().min(1), value: z.string().nullable() }).nullable().optional(),
+    }),
+    colorMode: z.union([
+      z.enum(['Produto', 'Estado Operacional', 'Equipamento', 'Nível']),
+      z.custom<AttributeColorMode>(
+        value => typeof value === 'string' && value.startsWith(ATTRIBUTE_COLOR_MODE_PREFIX) && value.length > ATTRIBUTE_COLOR_MODE_PREFIX.length,
+        'modo de cor por atributo inválido'
+      ),
+    ]),
+    layerVisibility: z.record(z.boolean()),
+    camera: z.object({ position: vector3Schema, lookAt: vector3Schema }),
+    selectedEquipmentTags: z.array(z.string()),
+    annotations: z.array(z.object({ equipmentTag: z.string(), text: z.string(), createdAt: z.string() })),
+  }),
+}) satisfies z.ZodType<WorkspaceSnapshot>;
+
+/**
+ * Cria um snapshot nomeado a partir do estado atual do espaço de trabalho.
+ * @param {string} name - O nome do snapshot.
+ * @param {string} siteId - O terminal aberto.
+ * @param {WorkspaceState} state - O estado atual.
+ * @returns {WorkspaceSnapshot} O snapshot.
+ */
+export function createWorkspaceSnapshot(name: string, siteId: string, state: WorkspaceState): WorkspaceSnapshot {
+  return { version: WORKSPACE_SNAPSHOT_VERSION, siteId, name: name.trim(), savedAt: new Date().toISOString(), state };
+}
+
+/**
+ * Valida dados brutos como um snapshot do espaço de trabalho.
+ * @param {unknown} raw - Os dados (e.g., o resultado de `JSON.parse` de um arquivo importado).
+ * @param {string} legacySiteId - O terminal atribuído aos snapshots da versão 1, que não registravam o terminal.
+ * @returns {WorkspaceSnapshot} O snapshot validado.
+ * @throws {Error} Se os dados não forem um snapshot válido, com todos os problemas encontrados na mensagem.
+ */
+export function parseWorkspaceSnapshot(raw: unknown, legacySiteId: string): WorkspaceSnapshot {
+  const isLegacy = typeof raw === 'object' && raw !== null && (raw as { version?: unknown }).version === 1;
+  const parsed = workspaceSnapshotSchema.safeParse(
+    isLegacy ? { ...raw, version: WORKSPACE_SNAPSHOT_VERSION, siteId: legacySiteId } : raw
+  );
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.') || 'snapshot'}: ${issue.message}`);
+    throw new Error(`Snapshot do espaço de trabalho inválido (${problems.join('; ')})`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Serializa um snapshot em JSON legível.
+ * @param {WorkspaceSnapshot} snapshot - O snapshot.
+ * @returns {string} O JSON.
+ */
+export function serializeWorkspaceSnapshot(snapshot: WorkspaceSnapshot): string {
+  return JSON.stringify(snapshot, null, 2);
+}
+
+/**
+ * Aplica a visibilidade salva às camadas. Camadas ausentes do snapshot mantêm a visibilidade atual.
+ * @param {Layer[]} layers - As camadas atuais.
+ * @param {Record<string, boolean>} layerVisibility - A visibilidade salva, pelo id da camada.
+ * @returns {Layer[]} As camadas com a visibilidade aplicada.
+ */
+export function applyLayerVisibility(layers: Layer[], layerVisibility: Record<string, boolean>): Layer[] {
+  return layers.map(layer => (layer.id in layerVisibility ? { ...layer, isVisible: layerVisibility[layer.id] } : layer));
+}
@@ -7,18 +7,231 @@
  *   com base no tipo de equipamento (`item.type`) e suas dimensões (`item.size`, `item.radius`, `item.height`).
  * - Promover o Single Responsibility Principle, isolando a lógica de criação
  *   de geometrias do componente `ThreeScene` ou outras partes do sistema.
+ * - Montar geometrias compostas paramétricas para guindastes (pórtico ou coluna giratória), válvulas
+ *   (corpo, flanges e volante) e tanques (costado, teto cônico e escada). As partes são mescladas em uma única
+ *   geometria, de modo que cada equipamento continua sendo um único mesh com a `userData.tag`
+ *   (seleção por raycasting e contorno funcionam sem alteração).
+ * - Criar tubos ao longo do traçado das tubulações com `path` (trechos retos e curvas de `buildPipeRun`).
  * - Fornecer uma geometria padrão caso um tipo de equipamento desconhecido seja fornecido.
  *
+ * Todas as geometrias ficam centradas na origem, dentro das dimensões declaradas do item; apenas as flanges e o volante
+ * das válvulas e a escada dos tanques se estendem um pouco além do raio. A exceção são as tubulações com traçado:
+ * a geometria segue os pontos do traçado, relativos a `position` do item.
+ *
  * Exporta:
+ * - `getCraneKind`: Função para obter o tipo construtivo de um guindaste.
+ * - `createPipePathCurve`: Função para criar a curva do traçado de uma tubulação.
  * - `createGeometryForItem`: Função para criar a geometria apropriada para um equipamento.
+ * - `getEquipmentGeometryKey`: Função para identificar equipamentos com geometrias idênticas (desenho por instâncias).
  */
 import * as THREE from 'three';
-import type { Equipment } from '@/lib/types';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import type { CraneKind, Equipment } from '@/lib/types';
+import { buildPipeRun, getPipeBendPoint, getPipeBendRadius, hasPipePath } from '@/core/logic/pipe-path';
+import { getTankRoofHeight, getTankShellHeight } from '@/core/logic/tank-inventory';
+
+/** Número máximo de segmentos ao longo de um tubo com traçado. */
+const MAX_PIPE_PATH_SEGMENTS = 2048;
+/** Maior ângulo de cada corda dos arcos das curvas (o comprimento das cordas difere do arco em menos de 0,05%). */
+const PIPE_BEND_STEP_ANGLE = Math.PI / 32;
+
+/**
+ * Mescla as partes de uma geometria composta em uma única geometria e libera as partes.
+ * @param {THREE.BufferGeometry[]} parts As partes, já posicionadas.
+ * @returns {THREE.BufferGeometry} A geometria mesclada.
+ */
+function mergeParts(parts: THREE.BufferGeometry[]): THREE.BufferGeometry {
+  const merged = mergeGeometries(parts);
+  parts.forEach(part => part.dispose());
+  return merged;
+}
+
+/**
+ * Cria uma caixa posicionada pelo seu centro.
+ * @param {number} width Largura (X).
+ * @param {number} height Altura (Y).
+ * @param {number} depth Profundidade (Z).
+ * @param {number} x Centro em X.
+ * @param {number} y Centro em Y.
+ * @param {number} z Centro em Z.
+ * @returns {THREE.BufferGeometry} A caixa.
+ */
+function boxPart(width: number, height: number, depth: number, x: number, y: number, z: number): THREE.BufferGeometry {
+  return new THREE.BoxGeometry(width, height, depth).translate(x, y, z);
+}
+
+/**
+ * Obtém o tipo construtivo de um guindaste. Sem `craneKind`, guindastes bem mais largos que profundos
+ * são tratados como pórticos e os demais como guindastes de coluna.
+ * @param {Equipment} item O guindaste.
+ * @returns {CraneKind} O tipo construtivo.
+ */
+export function getCraneKind(item: Equipment): CraneKind {
+  if (item.craneKind) return item.craneKind;
+  const width = item.size?.width || 3;
+  const depth = item.size?.depth || 3;
+  return width >= depth * 2 ? 'gantry' : 'jib';
+}
+
+/**
+ * Cria um guindaste de pórtico: quatro pernas ligadas por travessas na base e a viga da ponte
+ * no topo, com o carro de içamento sobre ela.
+ * @param {number} width Vão do pórtico (X).
+ * @param {number} height Altura total.
+ * @param {number} depth Largura do pórtico (Z).
+ * @returns {THREE.BufferGeometry} A geometria do guindaste.
+ */
+function createGantryCraneGeometry(width: number, height: number, depth: number): THREE.BufferGeometry {
+  const leg = Math.min(width, depth) * 0.15;
+  const girderHeight = height * 0.12;
+  const legHeight = height - girderHeight;
+  const legX = width / 2 - leg / 2;
+  const legZ = depth / 2 - leg / 2;
+  const legY = -height / 2 + legHeight / 2;
+  const parts = [
+    boxPart(leg, legHeight, leg, -legX, legY, -legZ),
+    boxPart(leg, legHeight, leg, -legX, legY, legZ),
+    boxPart(leg, legHeight, leg, legX, legY, -legZ),
+    boxPart(leg, legHeight, leg, legX, legY, legZ),
+    // Travessas da base, ligando as pernas de cada lado.
+    boxPart(leg, leg, depth, -legX, -height / 2 + leg / 2, 0),
+    boxPart(leg, leg, depth, legX, -height / 2 + leg / 2, 0),
+    // Viga da ponte e carro de içamento.
+    boxPart(width, girderHeight, depth * 0.6, 0, height / 2 - girderHeight / 2, 0),
+    boxPart(width * 0.12, girderHeight * 0.8, depth * 0.8, width * 0.15, height / 2 - girderHeight * 1.4, 0),
+  ];
+  return mergeParts(parts);
+}
+
+/**
+ * Cria um guindaste de coluna (giratório): a coluna em uma extremidade, a lança horizontal no topo,
+ * uma mão-francesa entre as duas e o moitão pendurado na ponta da lança.
+ * @param {number} width Alcance da lança (X).
+ * @param {number} height Altura total.
+ * @param {number} depth Profundidade (Z).
+ * @returns {THREE.BufferGeometry} A geometria do guindaste.
+ */
+function createJibCraneGeometry(width: number, height: number, depth: number): THREE.BufferGeometry {
+  const mastRadius = Math.min(width, depth) * 0.15;
+  const mastX = -width / 2 + mastRadius * 1.2; // A base da coluna é mais larga que o topo.
+  const armHeight = Math.max(mastRadius, height * 0.05);
+  const armLength = width / 2 - mastX;
+  const armY = height / 2 - armHeight / 2;
+  const braceLength = Math.hypot(armLength / 2, height * 0.25);
+  const brace = new THREE.CylinderGeometry(mastRadius * 0.35, mastRadius * 0.35, braceLength, 8)
+    .rotateZ(-Math.atan2(armLength / 2, height * 0.25))
+    .translate(mastX + armLength / 4, armY - height * 0.125, 0);
+  const parts = [
+    new THREE.CylinderGeometry(mastRadius, mastRadius * 1.2, height, 16).translate(mastX, 0, 0),
+    boxPart(armLength, armHeight, mastRadius * 1.2, mastX + armLength / 2, armY, 0),
+    brace,
+    boxPart(mastRadius, armHeight * 1.5, mastRadius, width / 2 - mastRadius, armY - armHeight * 1.5, 0),
+  ];
+  return mergeParts(parts);
+}
+
+/**
+ * Cria uma válvula: corpo esférico entre duas flanges (no eixo X, o da tubulação), haste vertical e volante.
+ * @param {number} radius Raio do corpo.
+ * @returns {THREE.BufferGeometry} A geometria da válvula.
+ */
+function createValveGeometry(radius: number): THREE.BufferGeometry {
+  const flangeThickness = radius * 0.3;
+  const flangeX = radius * 1.2;
+  const stemHeight = radius * 1.6;
+  const parts = [
+    new THREE.SphereGeometry(radius, 16, 16),
+    // Flanges: discos no eixo da tubulação, ligados ao corpo por um trecho de tubo.
+    new THREE.CylinderGeometry(radius * 0.5, radius * 0.5, flangeX * 2, 16).rotateZ(Math.PI / 2),
+    new THREE.CylinderGeometry(radius * 0.85, radius * 0.85, flangeThickness, 20).rotateZ(Math.PI / 2).translate(-flangeX, 0, 0),
+    new THREE.CylinderGeometry(radius * 0.85, radius * 0.85, flangeThickness, 20).rotateZ(Math.PI / 2).translate(flangeX, 0, 0),
+    // Haste e volante.
+    new THREE.CylinderGeometry(radius * 0.12, radius * 0.12, stemHeight, 8).translate(0, radius * 0.6 + stemHeight / 2 - radius * 0.3, 0),
+    new THREE.TorusGeometry(radius * 0.7, radius * 0.08, 8, 24).rotateX(Math.PI / 2).translate(0, radius * 0.3 + stemHeight, 0),
+  ];
+  return mergeParts(parts);
+}
+
+/**
+ * Cria um tanque: costado cilíndrico, teto cônico e escada helicoidal subindo por fora do costado.
+ * As alturas do costado e do teto vêm de `tank-inventory.ts`, para que o nível desenhado e o inventário usem o mesmo costado.
+ * @param {number} radius Raio do tanque.
+ * @param {number} height Altura total (costado e teto).
+ * @returns {THREE.BufferGeometry} A geometria do tanque.
+ */
+function createTankGeometry(radius: number, height: number): THREE.BufferGeometry {
+  const roofHeight = getTankRoofHeight(radius, height);
+  const shellHeight = getTankShellHeight(radius, height);
+  const stepWidth = Math.min(radius * 0.1, 0.8);
+  const stepRadius = radius + stepWidth / 2;
+  const stepCount = Math.max(4, Math.ceil(shellHeight / 0.4));
+  const turn = Math.PI * 0.75; // A escada percorre três oitavos da volta do costado.
+
+  const parts: THREE.BufferGeometry[] = [
+    new THREE.CylinderGeometry(radius, radius, shellHeight, 32).translate(0, -height / 2 + shellHeight / 2, 0),
+    new THREE.ConeGeometry(radius, roofHeight, 32).translate(0, height / 2 - roofHeight / 2, 0),
+  ];
+  for (let step = 0; step < stepCount; step++) {
+    const angle = (turn * step) / (stepCount - 1);
+    const y = -height / 2 + ((step + 0.5) * shellHeight) / stepCount;
+    parts.push(
+      new THREE.BoxGeometry(stepWidth, shellHeight / stepCount / 3, stepWidth * 1.6)
+        .translate(stepRadius, y, 0)
+        .rotateY(angle)
+    );
+  }
+  return mergeParts(parts);
+}
+
+/**
+ * Cria a curva do traçado de uma tubulação, em coordenadas relativas a `position` do item: linhas nos trechos retos
+ * e, nas curvas, os arcos de circunferência de `getPipeBendPoint`, subdivididos em cordas curtas, de modo que o tubo
+ * desenhado tenha o comprimento calculado por `getPipeLength`.
+ * @param {Equipment} item A tubulação.
+ * @returns {THREE.CurvePath<THREE.Vector3> | null} A curva, ou null se o item não tiver traçado.
+ */
+export function createPipePathCurve(item: Equipment): THREE.CurvePath<THREE.Vector3> | null {
+  if (!hasPipePath(item)) return null;
+  const origin = new THREE.Vector3(item.position.x, item.position.y, item.position.z);
+  const toLocal = (point: { x: number; y: number; z: number }) => new THREE.Vector3(point.x, point.y, point.z).sub(origin);
+
+  const curve = new THREE.CurvePath<THREE.Vector3>();
+  for (const segment of buildPipeRun(item.path, getPipeBendRadius(item))) {
+    if (segment.kind === 'straight') {
+      curve.add(new THREE.LineCurve3(toLocal(segment.start), toLocal(segment.end)));
+      continue;
+    }
+    const steps = Math.max(2, Math.ceil(segment.angle / PIPE_BEND_STEP_ANGLE));
+    let previous = toLocal(segment.start);
+    for (let step = 1; step <= steps; step++) {
+      const point = toLocal(getPipeBendPoint(segment, step / steps));
+      curve.add(new THREE.LineCurve3(previous, point));
+      previous = point;
+    }
+  }
+  return curve.curves.length > 0 ? curve : null;
+}
+
+/**
+ * Cria um tubo ao longo do traçado de uma tubulação. Os segmentos são distribuídos pelo comprimento,
+ * com espaçamento suficiente para que as curvas fiquem suaves.
+ * @param {Equipment} item A tubulação, com `path`.
+ * @returns {THREE.BufferGeometry} O tubo (ou um cilindro padrão, se o traçado não tiver comprimento).
+ */
+function createPipePathGeometry(item: Equipment): THREE.BufferGeometry {
+  const radius = item.radius || 0.2;
+  const curve = createPipePathCurve(item);
+  if (!curve) return new THREE.CylinderGeometry(radius, radius, item.height || 5, 16);
+
+  const spacing = Math.max(0.05, Math.min(radius * 2, getPipeBendRadius(item) * 0.25));
+  const segments = Math.min(MAX_PIPE_PATH_SEGMENTS, Math.max(1, Math.ceil(curve.getLength() / spacing)));
+  return new THREE.TubeGeometry(curve, segments, radius, 12, false);
+}
 
 /**
  * Cria e retorna uma `THREE.BufferGeometry` apropriada para o tipo de equipamento.
- * Seleciona a geometria correta (Box, Cylinder, Sphere) com base no `item.type`
- * e utiliza as dimensões fornecidas no objeto `item`.
+ * Seleciona a geometria correta com base no `item.type` e utiliza as dimensões fornecidas no objeto `item`:
+ * caixas para prédios, cilindros (ou tubos ao longo do traçado) para tubulações e geometrias compostas para guindastes, tanques e válvulas.
  * @param {Equipment} item - O objeto de equipamento contendo tipo e dimensões.
  * @returns {THREE.BufferGeometry} A geometria criada para o equipamento.
  *                                  Retorna um `BoxGeometry(1,1,1)` para tipos desconhecidos.
@@ -34,22 +247,23 @@ export function createGeometryForItem(item: Equipment): THREE.BufferGeometry {
         item.size?.depth || 5
       );
       break;
-    case 'Crane':
-      geometry = new THREE.BoxGeometry(
-        item.size?.width || 3,
-        item.size?.height || 10,
-        item.size?.depth || 3
-      );
+    case 'Crane': {
+      const width = item.size?.width || 3;
+      const height = item.size?.height || 10;
+      const depth = item.size?.depth || 3;
+      geometry = getCraneKind(item) === 'gantry'
+        ? createGantryCraneGeometry(width, height, depth)
+        : createJibCraneGeometry(width, height, depth);
       break;
+    }
     case 'Tank':
-      geometry = new THREE.CylinderGeometry(
-        item.radius || 2,
-        item.radius || 2,
-        item.height || 4,
-        32 // Segmentos radiais
-      );
+      geometry = createTankGeometry(item.radius || 2, item.height || 4);
       break;
     case 'Pipe':
+      if (hasPipePath(item)) {
+        geometry = createPipePathGeometry(item);
+        break;
+      }
       geometry = new THREE.CylinderGeometry(
         item.radius || 0.2,
         item.radius || 0.2,
@@ -58,11 +272,7 @@ export function createGeometryForItem(item: Equipment): THREE.BufferGeometry {
       );
       break;
     case 'Valve':
-      geometry = new THREE.SphereGeometry(
-        item.radius || 0.3,
-        16, // Segmentos de largura
-        16  // Segmentos de altura
-      );
+      geometry = createValveGeometry(item.radius || 0.3);
       break;
     default:
       console.warn(`[GeometryFactory] Tipo de equipamento desconhecido: ${item.type}. Usando cubo padrão.`);
@@ -72,4 +282,28 @@ export function createGeometryForItem(item: Equipment): THREE.BufferGeometry {
   return geometry;
 }
 
-    
\ No newline at end of file
+    
+
+/**
+ * Identifica a geometria que `createGeometryForItem` cria para um equipamento: itens com a mesma chave têm
+ * geometrias idênticas e podem ser desenhados como instâncias de um único `THREE.InstancedMesh`.
+ * As dimensões ausentes recebem os mesmos valores padrão da fábrica.
+ * @param {Equipment} item O equipamento.
+ * @returns {string | null} A chave, ou null para geometrias únicas (tubulações com traçado).
+ */
+export function getEquipmentGeometryKey(item: Equipment): string | null {
+  switch (item.type) {
+    case 'Building':
+      return `Building:${item.size?.width || 5}x${item.size?.height || 5}x${item.size?.depth || 5}`;
+    case 'Crane':
+      return `Crane:${getCraneKind(item)}:${item.size?.width || 3}x${item.size?.height || 10}x${item.size?.depth || 3}`;
+    case 'Tank':
+      return `Tank:${item.radius || 2}x${item.height || 4}`;
+    case 'Pipe':
+      return hasPipePath(item) ? null : `Pipe:${item.radius || 0.2}x${item.height || 5}`;
+    case 'Valve':
+      return `Valve:${item.radius || 0.3}`;
+    default:
+      return `${item.type}:default`;
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * @fileOverview Desenho por instâncias (`THREE.InstancedMesh`) dos equipamentos com geometria e material idênticos.
+ *
+ * Um terminal real tem milhares de válvulas e trechos de tubulação iguais; com um mesh (e uma geometria e um material)
+ * por item, cada um custa uma chamada de desenho. Os itens de um mesmo grupo (mesma chave de instância) passam a ser
+ * desenhados por um único `InstancedMesh`, com a posição, a rotação e a cor de cada item por instância.
+ *
+ * Cada instância continua identificada pela TAG:
+ * - O `InstancedMesh` guarda, em `userData[INSTANCED_EQUIPMENT_KEY]`, a TAG, o tipo e o sistema de cada instância,
+ *   na ordem dos índices (`instanceId` do raycasting).
+ * - Para o contorno (OutlinePass) e o enquadramento da câmera, que trabalham com objetos inteiros, cada instância
+ *   envolvida é representada por um mesh substituto, com a geometria do grupo e a matriz da instância.
+ * - Enquanto contornada, a instância é escondida e o substituto a desenha na cena, com o material do grupo na cor
+ *   da instância: com as duas superfícies no mesmo lugar, o teste de profundidade do contorno oscilaria entre elas.
+ *   O substituto exibido continua sendo atingido pelo raycasting (`getPickableEquipmentObjects`).
+ * - A matriz original de uma instância escondida fica guardada no `InstancedMesh`: novos substitutos (e.g., da
+ *   instância selecionada, enquanto outra está sob o mouse) usam a matriz original, e a instância só volta a ser
+ *   desenhada quando o último substituto exibido no seu lugar é removido.
+ *
+ * Exporta:
+ * - `InstancedEquipmentEntry`: Tipo da identificação de uma instância.
+ * - `INSTANCED_EQUIPMENT_KEY`: Chave da `userData` com as instâncias de um `InstancedMesh`.
+ * - `INSTANCE_PROXY_KEY`: Chave, na `userData` dos substitutos de instâncias, com a instância de origem.
+ * - `MIN_INSTANCED_GROUP_SIZE`: Menor grupo desenhado por instâncias.
+ * - `createInstancedEquipmentMesh`: Cria o `InstancedMesh` de um grupo de equipamentos.
+ * - `getInstancedEquipmentEntry`: Identifica a instância atingida pelo raycasting.
+ * - `findEquipmentObjects`: Obtém os objetos (meshes ou substitutos de instâncias) dos equipamentos que atendem a um critério.
+ * - `showInstanceProxies`: Exibe substitutos no lugar das suas instâncias (para o contorno).
+ * - `getPickableEquipmentObjects`: Objetos a testar no raycasting, incluindo os substitutos exibidos.
+ */
+import * as THREE from 'three';
+import type { Equipment } from '@/lib/types';
+
+/**
+ * Identificação de uma instância (os mesmos campos da `userData` dos meshes individuais).
+ * @interface InstancedEquipmentEntry
+ * @property {string} tag - A TAG do equipamento.
+ * @property {Equipment['type']} type - O tipo do equipamento.
+ * @property {string} [sistema] - O sistema do equipamento.
+ */
+export interface InstancedEquipmentEntry {
+  tag: string;
+  type: Equipment['type'];
+  sistema?: string;
+}
+
+/** Chave da `userData` de um `InstancedMesh` com a identificação de cada instância (`InstancedEquipmentEntry[]`). */
+export const INSTANCED_EQUIPMENT_KEY = 'instancedEquipment';
+
+/**
+ * Chave, na `userData` dos meshes substitutos de instâncias (criados para o contorno e o enquadramento),
+ * com o `InstancedMesh` e o índice da instância (`InstanceProxySource`).
+ */
+export const INSTANCE_PROXY_KEY = 'instanceProxy';
+
+/** Chave da `userData` de um `InstancedMesh` com os substitutos exibidos no lugar das suas instâncias. */
+const SHOWN_PROXIES_KEY = 'shownInstanceProxies';
+
+/**
+ * Chave da `userData` de um `InstancedMesh` com as instâncias escondidas: o índice, a matriz original e quantos
+ * substitutos exibidos a escondem (`Map<number, HiddenInstance>`).
+ */
+const HIDDEN_INSTANCES_KEY = 'hiddenInstances';
+
+/** Matriz de uma instância escondida (escala zero). */
+const HIDDEN_INSTANCE_MATRIX = new THREE.Matrix4().makeScale(0, 0, 0);
+
+/**
+ * Instância escondida por substitutos exibidos.
+ * @interface HiddenInstance
+ * @property {THREE.Matrix4} matrix - A matriz original da instância.
+ * @property {number} proxyCount - Quantos substitutos exibidos estão no lugar da instância.
+ */
+interface HiddenInstance {
+  matrix: THREE.Matrix4;
+  proxyCount: number;
+}
+
+/**
+ * Origem de um substituto.
+ * @interface InstanceProxySource
+ * @property {THREE.InstancedMesh} mesh - O `InstancedMesh`.
+ * @property {number} index - O índice da instância.
+ */
+interface InstanceProxySource {
+  mesh: THREE.InstancedMesh;
+  index: number;
+}
+
+/** Menor grupo de equipamentos idênticos desenhado por instâncias; grupos menores continuam com um mesh por item. */
+export const MIN_INSTANCED_GROUP_SIZE = 4;
+
+let instanceProxyMaterial: THREE.MeshBasicMaterial | null = null;
+
+/**
+ * Material dos substitutos de instâncias que não são exibidos: não escreve cor nem profundidade.
+ * Compartilhado por todos os substitutos e nunca liberado.
+ * @returns {THREE.MeshBasicMaterial} O material.
+ */
+function getInstanceProxyMaterial(): THREE.MeshBasicMaterial {
+  if (!instanceProxyMaterial) {
+    instanceProxyMaterial = new THREE.MeshBasicMaterial({ colorWrite: false, depthWrite: false });
+  }
+  return instanceProxyMaterial;
+}
+
+/**
+ * Cria o `InstancedMesh` de um grupo de equipamentos com geometria e material idênticos.
+ * @param {Equipment[]} items Os equipamentos do grupo.
+ * @param {THREE.BufferGeometry} geometry A geometria comum (criada para o primeiro item).
+ * @param {THREE.Material} material O material comum; a cor de cada item vem da cor da instância.
+ * @param {(item: Equipment) => THREE.ColorRepresentation} getColor Obtém a cor de um item.
+ * @returns {THREE.InstancedMesh} O mesh, com a identificação das instâncias em `userData[INSTANCED_EQUIPMENT_KEY]`.
+ */
+export function createInstancedEquipmentMesh(
+  items: Equipment[],
+  geometry: THREE.BufferGeometry,
+  material: THREE.Material,
+  getColor: (item: Equipment) => THREE.ColorRepresentation
+): THREE.InstancedMesh {
+  const mesh = new THREE.InstancedMesh(geometry, material, items.length);
+  const matrix = new THREE.Matrix4();
+  const position = new THREE.Vector3();
+  const quaternion = new THREE.Quaternion();
+  const euler = new THREE.Euler();
+  const scale = new THREE.Vector3(1, 1, 1);
+  const color = new THREE.Color();
+
+  items.forEach((item, index) => {
+    position.set(item.position.x, item.position.y, item.position.z);
+    euler.set(item.rotation?.x ?? 0, item.rotation?.y ?? 0, item.rotation?.z ?? 0);
+    quaternion.setFromEuler(euler);
+    mesh.setMatrixAt(index, matrix.compose(position, quaternion, scale));
+    mesh.setColorAt(index, color.set(getColor(item)));
+  });
+  mesh.instanceMatrix.needsUpdate = true;
+  if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  // Os limites cobrem todas as instâncias (usados no descarte por frustum e no raycasting).
+  mesh.computeBoundingBox();
+  mesh.computeBoundingSphere();
+
+  const entries: InstancedEquipmentEntry[] = items.map(({ tag, type, sistema }) => ({ tag, type, sistema }));
+  mesh.userData = { [INSTANCED_EQUIPMENT_KEY]: entries };
+  return mesh;
+}
+
+/**
+ * Identifica a instância de um `InstancedMesh` de equipamentos.
+ * @param {THREE.Object3D} object O objeto atingido pelo raycasting.
+ * @param {number | undefined} instanceId O índice da instância atingida.
+ * @returns {InstancedEquipmentEntry | null} A identificação, ou null se o objeto não for um `InstancedMesh` de equipamentos.
+ */
+export function getInstancedEquipmentEntry(object: THREE.Object3D, instanceId: number | undefined): InstancedEquipmentEntry | null {
+  const entries = object.userData[INSTANCED_EQUIPMENT_KEY] as InstancedEquipmentEntry[] | undefined;
+  return entries && instanceId !== undefined ? entries[instanceId] ?? null : null;
+}
+
+/**
+ * Obtém as instâncias escondidas de um `InstancedMesh`, criando o registro se ainda não existir.
+ * @param {THREE.InstancedMesh} mesh O `InstancedMesh`.
+ * @returns {Map<number, HiddenInstance>} As instâncias escondidas, por índice.
+ */
+function getHiddenInstances(mesh: THREE.InstancedMesh): Map<number, HiddenInstance> {
+  return mesh.userData[HIDDEN_INSTANCES_KEY] ??= new Map<number, HiddenInstance>();
+}
+
+/**
+ * Obtém a matriz de uma instância, mesmo que ela esteja escondida por um substituto exibido.
+ * @param {THREE.InstancedMesh} mesh O `InstancedMesh`.
+ * @param {number} index O índice da instância.
+ * @param {THREE.Matrix4} target A matriz que recebe o resultado.
+ * @returns {THREE.Matrix4} A matriz original da instância (`target`).
+ */
+function getOriginalInstanceMatrix(mesh: THREE.InstancedMesh, index: number, target: THREE.Matrix4): THREE.Matrix4 {
+  const hidden = getHiddenInstances(mesh).get(index);
+  if (hidden) return target.copy(hidden.matrix);
+  mesh.getMatrixAt(index, target);
+  return target;
+}
+
+/**
+ * Cria o mesh substituto de uma instância, posicionado em coordenadas do mundo.
+ * @param {THREE.InstancedMesh} mesh O `InstancedMesh`.
+ * @param {number} index O índice da instância.
+ * @param {InstancedEquipmentEntry} entry A identificação da instância.
+ * @returns {THREE.Mesh} O substituto, com a identificação da instância na `userData`.
+ */
+function createInstanceProxy(mesh: THREE.InstancedMesh, index: number, entry: InstancedEquipmentEntry): THREE.Mesh {
+  const proxy = new THREE.Mesh(mesh.geometry, getInstanceProxyMaterial());
+  proxy.matrixAutoUpdate = false;
+  getOriginalInstanceMatrix(mesh, index, proxy.matrix);
+  mesh.updateWorldMatrix(true, false);
+  proxy.matrix.premultiply(mesh.matrixWorld);
+  proxy.matrixWorld.copy(proxy.matrix);
+  const source: InstanceProxySource = { mesh, index };
+  proxy.userData = { ...entry, [INSTANCE_PROXY_KEY]: source };
+  return proxy;
+}
+
+/**
+ * Obtém os objetos dos equipamentos visíveis que atendem a um critério: os próprios meshes dos itens desenhados
+ * individualmente e substitutos (`INSTANCE_PROXY_KEY`) das instâncias.
+ * @param {THREE.Object3D[]} objects Os objetos de equipamentos da cena (meshes individuais e `InstancedMesh`).
+ * @param {(entry: InstancedEquipmentEntry) => boolean} predicate O critério, aplicado à TAG, ao tipo e ao sistema.
+ * @returns {THREE.Object3D[]} Os objetos, um por equipamento.
+ */
+export function findEquipmentObjects(
+  objects: THREE.Object3D[],
+  predicate: (entry: InstancedEquipmentEntry) => boolean
+): THREE.Object3D[] {
+  return objects.filter(object => object.visible).flatMap(object => {
+    const entries = object.userData[INSTANCED_EQUIPMENT_KEY] as InstancedEquipmentEntry[] | undefined;
+    if (!entries) {
+      return predicate(object.userData as InstancedEquipmentEntry) ? [object] : [];
+    }
+    return entries.flatMap((entry, index) =>
+      predicate(entry) ? [createInstanceProxy(object as THREE.InstancedMesh, index, entry)] : []
+    );
+  });
+}
+
+/**
+ * Exibe substitutos de instâncias na cena, no lugar das instâncias (que são escondidas), com o material do grupo
+ * na cor de cada instância. Objetos que não são substitutos são ignorados.
+ * @param {THREE.Object3D[]} objects Os objetos (e.g., os objetos a contornar).
+ * @param {THREE.Scene} scene A cena.
+ * @returns {() => void} Função que remove os substitutos, libera seus materiais e devolve as instâncias.
+ */
+export function showInstanceProxies(objects: THREE.Object3D[], scene: THREE.Scene): () => void {
+  const restores = objects.flatMap(proxy => {
+    const source = proxy.userData[INSTANCE_PROXY_KEY] as InstanceProxySource | undefined;
+    if (!source || !(proxy instanceof THREE.Mesh)) return [];
+    const { mesh, index } = source;
+    const hiddenInstances = getHiddenInstances(mesh);
+    const hidden = hiddenInstances.get(index)
+      ?? { matrix: getOriginalInstanceMatrix(mesh, index, new THREE.Matrix4()), proxyCount: 0 };
+    hiddenInstances.set(index, hidden);
+    hidden.proxyCount++;
+
+    const material = (mesh.material as THREE.Material).clone();
+    if (mesh.instanceColor && 'color' in material && material.color instanceof THREE.Color) {
+      mesh.getColorAt(index, material.color);
+    }
+    proxy.material = material;
+    mesh.setMatrixAt(index, HIDDEN_INSTANCE_MATRIX);
+    mesh.instanceMatrix.needsUpdate = true;
+    const shownProxies: Set<THREE.Object3D> = mesh.userData[SHOWN_PROXIES_KEY] ??= new Set();
+    shownProxies.add(proxy);
+    scene.add(proxy);
+
+    return [() => {
+      scene.remove(proxy);
+      shownProxies.delete(proxy);
+      proxy.material = getInstanceProxyMaterial();
+      material.dispose();
+      if (--hidden.proxyCount > 0) return;
+      hiddenInstances.delete(index);
+      mesh.setMatrixAt(index, hidden.matrix);
+      mesh.instanceMatrix.needsUpdate = true;
+    }];
+  });
+  return () => restores.forEach(restore => restore());
+}
+
+/**
+ * Obtém os objetos a testar no raycasting: os objetos de equipamentos e os substitutos exibidos no lugar de
+ * instâncias (escondidas no `InstancedMesh`).
+ * @param {THREE.Object3D[]} objects Os objetos de equipamentos da cena.
+ * @returns {THREE.Object3D[]} Os objetos, com os substitutos exibidos.
+ */
+export function getPickableEquipmentObjects(objects: THREE.Object3D[]): THREE.Object3D[] {
+  return objects.flatMap(object => {
+    const shownProxies = object.userData[SHOWN_PROXIES_KEY] as Set<THREE.Object3D> | undefined;
+    return shownProxies?.size ? [object, ...shownProxies] : [object];
+  });
+}
@@ -0,0 +1,158 @@
+/**
+ * @fileOverview Carregamento de modelos glTF/GLB para os equipamentos da cena Three.js.
+ *
+ * Responsabilidades:
+ * - Resolver o modelo de um equipamento: a URL do próprio item (`Equipment.modelUrl`) ou a do seu tipo
+ *   (definida pelo terminal em `EquipmentTypeModels`).
+ * - Carregar os modelos com o `GLTFLoader`, mantendo um cache por URL: cada modelo é baixado uma vez por sessão.
+ *   Uma URL que falhou não é pedida de novo durante `FAILED_MODEL_RETRY_MS`; depois disso, o próximo mesh que
+ *   usar o modelo faz uma nova tentativa.
+ * - Aplicar o modelo ao mesh do equipamento: o modelo é escalado para as dimensões da geometria primitiva
+ *   (as dimensões declaradas do item), centralizado como ela e adicionado como filho do mesh, que deixa de
+ *   desenhar a primitiva. Como o mesh continua sendo a raiz com a `userData.tag`, o raycasting da seleção
+ *   e o contorno (OutlinePass) funcionam sem alteração; o material do equipamento (cor conforme o modo de cor)
+ *   é aplicado a todas as partes do modelo.
+ * - Manter a geometria primitiva enquanto o modelo carrega ou se o carregamento falhar, e informar cada falha uma vez.
+ *
+ * Exporta:
+ * - `EquipmentTypeModels`: URLs de modelo por tipo de equipamento.
+ * - `getEquipmentModelUrl`: Resolve a URL do modelo de um equipamento.
+ * - `loadEquipmentModel`: Carrega (com cache) um modelo.
+ * - `applyEquipmentModel`: Substitui a geometria primitiva de um mesh pelo modelo, assim que ele estiver disponível.
+ * - `SHARED_MODEL_GEOMETRY_KEY`: Marca das partes de modelo cuja geometria pertence ao cache.
+ * - `FAILED_MODEL_RETRY_MS`: Intervalo até uma nova tentativa de carregar um modelo que falhou.
+ */
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { clone as cloneSkinnedObject } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import type { Equipment } from '@/lib/types';
+
+/**
+ * URLs de modelos glTF/GLB por tipo de equipamento (e.g., `{ Crane: '/models/guindaste.glb' }`).
+ * @typedef {Partial<Record<Equipment['type'], string>>} EquipmentTypeModels
+ */
+export type EquipmentTypeModels = Partial<Record<Equipment['type'], string>>;
+
+/**
+ * Marca, na `userData`, as partes de um modelo cuja geometria pertence ao cache e não deve ser liberada
+ * junto com o mesh do equipamento (ver `disposeEquipmentMesh`).
+ */
+export const SHARED_MODEL_GEOMETRY_KEY = 'sharedModelGeometry';
+
+/** Intervalo (ms) durante o qual uma URL que falhou não é pedida de novo. */
+export const FAILED_MODEL_RETRY_MS = 60_000;
+
+let gltfLoader: GLTFLoader | null = null;
+const loadedModels = new Map<string, THREE.Object3D>();
+const pendingModels = new Map<string, Promise<THREE.Object3D>>();
+const failedModels = new Map<string, { error: Error; failedAt: number }>();
+/** Falhas já informadas por `applyEquipmentModel`: cada tentativa que falha é informada uma única vez. */
+const reportedFailures = new WeakSet<Error>();
+
+/**
+ * Resolve a URL do modelo de um equipamento.
+ * @param {Equipment} item O equipamento.
+ * @param {EquipmentTypeModels} [typeModels={}] Os modelos por tipo do terminal.
+ * @returns {string | null} A URL do modelo do item ou do seu tipo, ou null se ele usa a geometria primitiva.
+ */
+export function getEquipmentModelUrl(item: Equipment, typeModels: EquipmentTypeModels = {}): string | null {
+  return item.modelUrl ?? typeModels[item.type] ?? null;
+}
+
+/**
+ * Carrega um modelo glTF/GLB, reaproveitando o cache. O objeto retornado é o modelo original do cache:
+ * ele deve ser clonado antes de ser adicionado à cena. Se a URL falhou há menos de `FAILED_MODEL_RETRY_MS`,
+ * a mesma falha é devolvida sem uma nova requisição.
+ * @param {string} url A URL do modelo.
+ * @returns {Promise<THREE.Object3D>} O modelo carregado.
+ */
+export function loadEquipmentModel(url: string): Promise<THREE.Object3D> {
+  const loaded = loadedModels.get(url);
+  if (loaded) return Promise.resolve(loaded);
+  const failure = failedModels.get(url);
+  if (failure) {
+    if (Date.now() - failure.failedAt < FAILED_MODEL_RETRY_MS) return Promise.reject(failure.error);
+    failedModels.delete(url);
+  }
+
+  let pending = pendingModels.get(url);
+  if (!pending) {
+    gltfLoader ??= new GLTFLoader();
+    pending = gltfLoader.loadAsync(url)
+      .then(gltf => {
+        loadedModels.set(url, gltf.scene);
+        return gltf.scene;
+      })
+      .catch(error => {
+        const failureError = new Error(`Falha ao carregar o modelo "${url}": ${error instanceof Error ? error.message : String(error)}`);
+        failedModels.set(url, { error: failureError, failedAt: Date.now() });
+        throw failureError;
+      })
+      .finally(() => pendingModels.delete(url));
+    pendingModels.set(url, pending);
+  }
+  return pending;
+}
+
+/**
+ * Adiciona ao mesh uma cópia do modelo, ajustada às dimensões e ao centro da geometria primitiva,
+ * e troca a primitiva por uma geometria vazia.
+ * @param {THREE.Mesh} mesh O mesh do equipamento.
+ * @param {THREE.Object3D} template O modelo do cache.
+ */
+function attachModel(mesh: THREE.Mesh, template: THREE.Object3D): void {
+  mesh.geometry.computeBoundingBox();
+  const targetSize = (mesh.geometry.boundingBox ?? new THREE.Box3()).getSize(new THREE.Vector3());
+
+  const model = cloneSkinnedObject(template);
+  const modelBox = new THREE.Box3().setFromObject(model);
+  const modelSize = modelBox.getSize(new THREE.Vector3());
+  model.position.sub(modelBox.getCenter(new THREE.Vector3()));
+
+  // O contêiner escala o modelo já centralizado; um eixo sem espessura (e.g., um modelo plano) não é escalado.
+  const container = new THREE.Group();
+  container.scale.set(
+    modelSize.x > 0 ? targetSize.x / modelSize.x : 1,
+    modelSize.y > 0 ? targetSize.y / modelSize.y : 1,
+    modelSize.z > 0 ? targetSize.z / modelSize.z : 1
+  );
+  container.add(model);
+
+  model.traverse(child => {
+    if (child instanceof THREE.Mesh) {
+      child.material = mesh.material;
+      child.userData[SHARED_MODEL_GEOMETRY_KEY] = true;
+    }
+  });
+
+  mesh.geometry.dispose();
+  mesh.geometry = new THREE.BufferGeometry();
+  mesh.add(container);
+}
+
+/**
+ * Substitui a geometria primitiva de um mesh de equipamento pelo modelo informado.
+ * Se o modelo já estiver no cache, a troca é imediata; caso contrário, ela ocorre quando o carregamento terminar,
+ * desde que o mesh ainda esteja na cena (ele pode ter sido recriado nesse intervalo). Se o carregamento falhar,
+ * o mesh mantém a geometria primitiva e a falha é informada uma vez, mesmo que vários meshes usem o modelo.
+ * @param {THREE.Mesh} mesh O mesh do equipamento, com a geometria primitiva.
+ * @param {string} url A URL do modelo.
+ * @param {(error: Error) => void} [onError] Recebe a falha do carregamento. Sem ele, a falha vai para o console.
+ */
+export function applyEquipmentModel(mesh: THREE.Mesh, url: string, onError?: (error: Error) => void): void {
+  const loaded = loadedModels.get(url);
+  if (loaded) {
+    attachModel(mesh, loaded);
+    return;
+  }
+  loadEquipmentModel(url)
+    .then(template => {
+      if (mesh.parent) attachModel(mesh, template);
+    })
+    .catch((error: Error) => {
+      if (reportedFailures.has(error)) return;
+      reportedFailures.add(error);
+      if (onError) onError(error);
+      else console.warn(`[EquipmentModelLoader] ${error.message} Usando a geometria primitiva.`);
+    });
+}
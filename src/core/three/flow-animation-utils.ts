@@ -0,0 +1,218 @@
+/**
+ * @fileOverview Utilitários para a animação do fluxo de produto nas tubulações.
+ *
+ * Responsabilidades:
+ * - Criar, para cada tubulação com fluxo ativo, uma "luva" translúcida ligeiramente maior que o tubo,
+ *   com uma textura listrada na cor do produto (modo 'Produto' de `getEquipmentColor`).
+ * - Orientar a animação pelo eixo do tubo (eixo Y local, com a rotação do equipamento) e no sentido
+ *   do escoamento, inferido pela posição dos equipamentos a montante/jusante. Nas tubulações com traçado,
+ *   a luva é um tubo ao longo do mesmo traçado e o sentido é inferido pelas extremidades do traçado.
+ * - Avançar a textura a cada avanço do relógio da simulação e descartar os objetos quando o fluxo muda.
+ */
+import * as THREE from 'three';
+import type { Equipment, Layer } from '@/lib/types';
+import type { FlowingPipe } from '@/core/logic/flow-simulation';
+import { getEquipmentColor } from '@/core/graphics/color-utils';
+import { createPipePathCurve } from '@/core/three/equipment-geometry-factory';
+import { hasPipePath } from '@/core/logic/pipe-path';
+
+/** Velocidade do produto na animação, em unidades da cena por segundo simulado. */
+const FLOW_SPEED = 2;
+/** Distância entre listras consecutivas, em unidades da cena. */
+const STRIPE_SPACING = 1;
+/**
+ * Deslocamento máximo das listras por avanço, em períodos da textura. Em velocidades altas da simulação,
+ * deslocamentos maiores fariam as listras parecerem paradas ou andando para trás.
+ */
+const MAX_STRIPE_STEP = 0.25;
+/** Fator de escala do raio da luva em relação ao raio do tubo. */
+const SLEEVE_RADIUS_FACTOR = 1.15;
+
+/**
+ * Dados de animação guardados no `userData` de cada indicador de fluxo.
+ * @interface FlowIndicatorData
+ * @property {string} tag - TAG da tubulação animada.
+ * @property {1 | -1} direction - Sentido do fluxo ao longo do eixo Y local do tubo ou, nas tubulações com traçado,
+ *           do início para o fim do traçado.
+ * @property {'axis' | 'path'} along - Se a luva é um cilindro no eixo do tubo ou um tubo ao longo do traçado.
+ */
+interface FlowIndicatorData {
+  tag: string;
+  direction: 1 | -1;
+  along: 'axis' | 'path';
+}
+
+/**
+ * Cria a textura listrada (usada como `alphaMap`) da luva de fluxo.
+ * Cada período tem metade opaca e metade transparente, com transição suave.
+ * @param {'u' | 'v'} [varyingAlong='v'] - Coordenada de textura ao longo da qual as listras se alternam
+ *                                        (V no cilindro, U no tubo ao longo do traçado).
+ * @returns {THREE.DataTexture} A textura, repetindo nos dois eixos.
+ */
+function createStripeTexture(varyingAlong: 'u' | 'v' = 'v'): THREE.DataTexture {
+  const size = 16;
+  const data = new Uint8Array(size * 4);
+  for (let i = 0; i < size; i++) {
+    const intensity = Math.round(255 * Math.max(0, Math.sin((i / size) * Math.PI * 2)));
+    data.set([intensity, intensity, intensity, 255], i * 4);
+  }
+  const texture = varyingAlong === 'v' ? new THREE.DataTexture(data, 1, size) : new THREE.DataTexture(data, size, 1);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.magFilter = THREE.LinearFilter;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Calcula o sentido do fluxo ao longo do eixo Y local do tubo (ou do traçado, do início para o fim).
+ * O produto se afasta do equipamento a montante e se aproxima do equipamento a jusante;
+ * sem nenhuma das duas referências, assume o sentido positivo do eixo.
+ * @param {Equipment} pipe - A tubulação.
+ * @param {Equipment | undefined} upstream - O equipamento a montante, se houver.
+ * @param {Equipment | undefined} downstream - O equipamento a jusante, se houver.
+ * @returns {1 | -1} O sentido do fluxo.
+ */
+function getFlowDirection(pipe: Equipment, upstream: Equipment | undefined, downstream: Equipment | undefined): 1 | -1 {
+  if (hasPipePath(pipe)) {
+    const start = pipe.path[0];
+    const end = pipe.path[pipe.path.length - 1];
+    const distanceTo = (item: Equipment, point: { x: number; y: number; z: number }) =>
+      Math.hypot(item.position.x - point.x, item.position.y - point.y, item.position.z - point.z);
+    if (upstream) return distanceTo(upstream, start) <= distanceTo(upstream, end) ? 1 : -1;
+    if (downstream) return distanceTo(downstream, end) <= distanceTo(downstream, start) ? 1 : -1;
+    return 1;
+  }
+  const axis = new THREE.Vector3(0, 1, 0);
+  if (pipe.rotation) {
+    axis.applyEuler(new THREE.Euler(pipe.rotation.x, pipe.rotation.y, pipe.rotation.z));
+  }
+  const center = new THREE.Vector3(pipe.position.x, pipe.position.y, pipe.position.z);
+  const projectOnAxis = (item: Equipment) =>
+    new THREE.Vector3(item.position.x, item.position.y, item.position.z).sub(center).dot(axis);
+
+  if (upstream) return projectOnAxis(upstream) > 0 ? -1 : 1;
+  if (downstream) return projectOnAxis(downstream) < 0 ? -1 : 1;
+  return 1;
+}
+
+/**
+ * Cria o indicador de fluxo (luva animada) de uma tubulação.
+ * @param {Equipment} pipe - A tubulação.
+ * @param {1 | -1} direction - O sentido do fluxo ao longo do eixo do tubo.
+ * @returns {THREE.Mesh} O mesh do indicador, posicionado e rotacionado como o tubo.
+ */
+function createFlowIndicator(pipe: Equipment, direction: 1 | -1): THREE.Mesh {
+  const radius = (pipe.radius || 0.2) * SLEEVE_RADIUS_FACTOR;
+  const curve = createPipePathCurve(pipe);
+  const length = curve ? curve.getLength() : pipe.height || 5;
+  const texture = createStripeTexture(curve ? 'u' : 'v');
+  if (curve) {
+    texture.repeat.set(length / STRIPE_SPACING, 1);
+  } else {
+    texture.repeat.set(1, length / STRIPE_SPACING);
+  }
+
+  const material = new THREE.MeshBasicMaterial({
+    color: getEquipmentColor(pipe, 'Produto'),
+    alphaMap: texture,
+    transparent: true,
+    depthWrite: false,
+  });
+  const geometry = curve
+    ? new THREE.TubeGeometry(curve, Math.max(1, Math.ceil(length / (STRIPE_SPACING / 4))), radius, 12, false)
+    : new THREE.CylinderGeometry(radius, radius, length, 16, 1, true);
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.set(pipe.position.x, pipe.position.y, pipe.position.z);
+  if (pipe.rotation && !curve) {
+    mesh.rotation.set(pipe.rotation.x, pipe.rotation.y, pipe.rotation.z);
+  }
+  const data: FlowIndicatorData = { tag: pipe.tag, direction, along: curve ? 'path' : 'axis' };
+  mesh.userData = { flow: data };
+  return mesh;
+}
+
+/**
+ * Remove os indicadores de fluxo da cena e libera seus recursos (geometria, material e textura).
+ * @param {THREE.Scene} scene - A cena Three.js.
+ * @param {React.MutableRefObject<THREE.Mesh[]>} flowIndicatorsRef - Ref para os indicadores existentes.
+ */
+export function clearFlowIndicators(scene: THREE.Scene, flowIndicatorsRef: React.MutableRefObject<THREE.Mesh[]>): void {
+  flowIndicatorsRef.current.forEach(indicator => {
+    scene.remove(indicator);
+    indicator.geometry.dispose();
+    const material = indicator.material as THREE.MeshBasicMaterial;
+    material.alphaMap?.dispose();
+    material.dispose();
+  });
+  flowIndicatorsRef.current = [];
+}
+
+/**
+ * Parâmetros para a função `updateFlowIndicators`.
+ * @interface UpdateFlowIndicatorsParams
+ * @property {THREE.Scene} scene - A cena Three.js.
+ * @property {React.MutableRefObject<THREE.Mesh[]>} flowIndicatorsRef - Ref para os indicadores existentes.
+ * @property {FlowingPipe[]} flowingPipes - As tubulações com fluxo ativo.
+ * @property {Equipment[]} equipmentData - Os equipamentos exibidos na cena (apenas estes recebem indicador).
+ * @property {Layer[]} layers - As camadas, para respeitar a visibilidade das tubulações.
+ */
+interface UpdateFlowIndicatorsParams {
+  scene: THREE.Scene;
+  flowIndicatorsRef: React.MutableRefObject<THREE.Mesh[]>;
+  flowingPipes: FlowingPipe[];
+  equipmentData: Equipment[];
+  layers: Layer[];
+}
+
+/**
+ * Recria os indicadores de fluxo para as tubulações com fluxo ativo que estão visíveis na cena.
+ * @param {UpdateFlowIndicatorsParams} params - Parâmetros para atualizar os indicadores.
+ */
+export function updateFlowIndicators({
+  scene,
+  flowIndicatorsRef,
+  flowingPipes,
+  equipmentData,
+  layers,
+}: UpdateFlowIndicatorsParams): void {
+  clearFlowIndicators(scene, flowIndicatorsRef);
+
+  const pipeLayer = layers.find(l => l.equipmentType === 'Pipe');
+  if (pipeLayer && !pipeLayer.isVisible) return;
+
+  const equipmentByTag = new Map(equipmentData.map(item => [item.tag, item]));
+  flowingPipes.forEach(flowingPipe => {
+    const pipe = equipmentByTag.get(flowingPipe.tag);
+    if (!pipe) return;
+    const direction = getFlowDirection(
+      pipe,
+      flowingPipe.upstreamTag ? equipmentByTag.get(flowingPipe.upstreamTag) : undefined,
+      flowingPipe.downstreamTag ? equipmentByTag.get(flowingPipe.downstreamTag) : undefined
+    );
+    const indicator = createFlowIndicator(pipe, direction);
+    scene.add(indicator);
+    flowIndicatorsRef.current.push(indicator);
+  });
+}
+
+/**
+ * Avança a animação dos indicadores de fluxo. Deve ser chamada a cada avanço do relógio da simulação.
+ * @param {THREE.Mesh[]} indicators - Os indicadores de fluxo.
+ * @param {number} deltaSeconds - Tempo avançado, em segundos simulados.
+ */
+export function advanceFlowIndicators(indicators: THREE.Mesh[], deltaSeconds: number): void {
+  const step = Math.min(MAX_STRIPE_STEP, (FLOW_SPEED * deltaSeconds) / STRIPE_SPACING);
+  indicators.forEach(indicator => {
+    const { direction, along } = indicator.userData.flow as FlowIndicatorData;
+    const texture = (indicator.material as THREE.MeshBasicMaterial).alphaMap;
+    if (!texture) return;
+    if (along === 'path') {
+      // O U da TubeGeometry cresce do início para o fim do traçado: diminuir o offset desloca as listras para o fim.
+      texture.offset.x = (texture.offset.x - direction * step) % 1;
+      return;
+    }
+    // O V da CylinderGeometry cresce do topo para a base: aumentar o offset desloca as listras para +Y.
+    texture.offset.y = (texture.offset.y + direction * step) % 1;
+  });
+}
@@ -5,19 +5,43 @@
  * Responsabilidades:
  * - Processar eventos de clique do mouse para detectar seleção de equipamentos (single e multi-select).
  * - Processar eventos de movimento do mouse para detectar equipamentos sob o cursor (hover).
- * - Utilizar raycasting para identificar os objetos 3D intersectados pelo ponteiro do mouse.
+ * - Utilizar raycasting para identificar os objetos 3D intersectados pelo ponteiro do mouse
+ *   (nos equipamentos desenhados por instâncias, a TAG vem do índice da instância atingida).
+ * - Calcular o ponto do plano de chão sob o cursor (usado na leitura de coordenadas do mundo).
  * - Invocar callbacks fornecidos (`onSelectEquipment` e `setHoveredEquipmentTag`) para notificar
  *   o componente `ThreeScene` sobre as interações detectadas.
  *
  * Exporta:
  * - `processSceneClick`: Função para processar cliques na cena.
  * - `processSceneMouseMove`: Função para processar movimentos do mouse na cena.
+ * - `getGroundPointUnderCursor`: Função para obter o ponto do plano de chão sob o cursor.
  */
 import * as THREE from 'three';
+import { getInstancedEquipmentEntry, getPickableEquipmentObjects } from '@/core/three/equipment-instancing';
+import { intersectTerrainRay, type TerrainSurface } from '@/core/logic/terrain-elevation';
 
 // Instâncias reutilizáveis para raycasting para otimizar performance.
 const raycaster = new THREE.Raycaster();
 const mouse = new THREE.Vector2();
+const groundPlane = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const groundIntersection = new THREE.Vector3();
+
+/**
+ * Obtém a TAG do equipamento atingido por um raio: a da instância, em um `InstancedMesh`, ou a do primeiro
+ * ancestral com `userData.tag` (as partes de um modelo glTF são filhas do mesh do equipamento).
+ * @param {THREE.Intersection} intersection A interseção mais próxima.
+ * @returns {string | null} A TAG, ou null se o objeto não pertencer a um equipamento.
+ */
+function getIntersectedEquipmentTag(intersection: THREE.Intersection): string | null {
+  const instance = getInstancedEquipmentEntry(intersection.object, intersection.instanceId);
+  if (instance) return instance.tag;
+  let object = intersection.object;
+  while (object.parent && !object.userData.tag) {
+    if (object.parent instanceof THREE.Scene) break;
+    object = object.parent;
+  }
+  return (object.userData.tag as string | undefined) ?? null;
+}
 
 /**
  * Processa um evento de clique do mouse na cena para selecionar equipamento.
@@ -47,21 +71,10 @@ export function processSceneClick(
   mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
   raycaster.setFromCamera(mouse, camera);
-  const intersects = raycaster.intersectObjects(equipmentMeshes.filter(m => m.visible), true);
+  const intersects = raycaster.intersectObjects(getPickableEquipmentObjects(equipmentMeshes.filter(m => m.visible)), true);
 
   const isMultiSelectModifierPressed = event.ctrlKey || event.metaKey;
-  let tagToSelect: string | null = null;
-
-  if (intersects.length > 0) {
-    let selectedObject = intersects[0].object;
-    while (selectedObject.parent && !selectedObject.userData.tag) {
-      if (selectedObject.parent instanceof THREE.Scene) break;
-      selectedObject = selectedObject.parent;
-    }
-    if (selectedObject.userData.tag) {
-      tagToSelect = selectedObject.userData.tag as string;
-    }
-  }
+  const tagToSelect = intersects.length > 0 ? getIntersectedEquipmentTag(intersects[0]) : null;
 
   // console.log(`[MouseInteraction] Click processed. Tag: ${tagToSelect}, Multi: ${isMultiSelectModifierPressed}`);
   if (typeof onSelectEquipmentCallback === 'function') {
@@ -98,19 +111,9 @@ export function processSceneMouseMove(
   mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
   raycaster.setFromCamera(mouse, camera);
-  const intersects = raycaster.intersectObjects(equipmentMeshes.filter(m => m.visible), true);
-
-  let foundHoverTag: string | null = null;
-  if (intersects.length > 0) {
-    let hoveredObjectCandidate = intersects[0].object;
-    while (hoveredObjectCandidate.parent && !hoveredObjectCandidate.userData.tag) {
-      if (hoveredObjectCandidate.parent instanceof THREE.Scene) break;
-      hoveredObjectCandidate = hoveredObjectCandidate.parent;
-    }
-    if (hoveredObjectCandidate.userData.tag) {
-      foundHoverTag = hoveredObjectCandidate.userData.tag as string;
-    }
-  }
+  const intersects = raycaster.intersectObjects(getPickableEquipmentObjects(equipmentMeshes.filter(m => m.visible)), true);
+
+  const foundHoverTag = intersects.length > 0 ? getIntersectedEquipmentTag(intersects[0]) : null;
 
   if (typeof setHoveredEquipmentTagCallback === 'function') {
     setHoveredEquipmentTagCallback(foundHoverTag);
@@ -119,4 +122,36 @@ export function processSceneMouseMove(
   }
 }
 
-    
\ No newline at end of file
+    
+
+/**
+ * Calcula o ponto do plano de chão (y = 0) sob o cursor do mouse ou, se o chão tiver relevo e estiver na cena,
+ * o ponto do relevo sob o cursor (com recurso ao plano fora do relevo). O relevo é consultado pela grade de
+ * elevações (`intersectTerrainRay`), e não pelo raycast da malha, que percorreria todos os triângulos a cada movimento.
+ *
+ * @param {MouseEvent} event O evento do mouse.
+ * @param {HTMLDivElement} mountRefCurrent O elemento DOM atual onde a cena está montada.
+ * @param {THREE.PerspectiveCamera} camera A câmera de perspectiva da cena.
+ * @param {THREE.Mesh | null} [groundMesh] O mesh do chão, com o terreno em `userData.terrain` quando houver relevo.
+ * @returns {{ x: number; z: number } | null} As coordenadas X/Z do ponto, ou null se o cursor não apontar para o chão
+ *          (e.g., acima do horizonte).
+ */
+export function getGroundPointUnderCursor(
+  event: MouseEvent,
+  mountRefCurrent: HTMLDivElement,
+  camera: THREE.PerspectiveCamera,
+  groundMesh?: THREE.Mesh | null
+): { x: number; z: number } | null {
+  const rect = mountRefCurrent.getBoundingClientRect();
+  mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+  mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+
+  raycaster.setFromCamera(mouse, camera);
+  const terrain = groundMesh?.parent ? (groundMesh.userData.terrain as TerrainSurface | null | undefined) : null;
+  if (terrain) {
+    const hit = intersectTerrainRay(terrain, raycaster.ray.origin, raycaster.ray.direction);
+    if (hit) return { x: hit.x, z: hit.z };
+  }
+  const point = raycaster.ray.intersectPlane(groundPlane, groundIntersection);
+  return point ? { x: point.x, z: point.z } : null;
+}
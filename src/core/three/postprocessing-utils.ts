@@ -2,19 +2,40 @@
 /**
  * @fileOverview Utilitários para configurar e gerenciar o pipeline de pós-processamento
  * para a cena Three.js, especificamente o EffectComposer e o OutlinePass.
- * Responsável pelo setup inicial e pela atualização dinâmica do efeito de contorno.
+ * Responsável pelo setup inicial e pela atualização dinâmica do efeito de contorno: um OutlinePass para seleção,
+ * hover e isolamento, e outro para os alarmes, que continuam pulsando enquanto há seleção ou hover.
+ * Equipamentos desenhados por instâncias são contornados por meio de substitutos (`equipment-instancing.ts`),
+ * exibidos na cena enquanto estão contornados.
  */
+
 import * as THREE from 'three';
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass.js';
+import { findEquipmentObjects, showInstanceProxies } from '@/core/three/equipment-instancing';
+
+/**
+ * Estilos visuais do efeito de contorno.
+ * - 'selected': equipamentos selecionados.
+ * - 'hover': equipamento sob o cursor.
+ * - 'isolation': válvulas de um plano de isolamento (laranja pulsante, para não ser confundido com a seleção).
+ * - 'alarm': equipamentos com alarmes não reconhecidos (vermelho com pulsação rápida).
+ * - 'none': sem contorno.
+ */
+type OutlineStyle = 'selected' | 'hover' | 'isolation' | 'alarm' | 'none';
+
+/** Para cada OutlinePass, devolve as instâncias dos substitutos exibidos no contorno atual. */
+const restoreOutlinedInstances = new WeakMap<OutlinePass, () => void>();
 
 /**
  * Define os objetos que devem ser contornados pelo OutlinePass.
+ * Os substitutos de instâncias do contorno anterior são removidos e os do novo contorno são exibidos na cena.
  * @param {OutlinePass} outlinePass A instância do OutlinePass.
  * @param {THREE.Object3D[]} objectsToOutline Um array de objetos 3D a serem contornados.
  */
 function setOutlinePassObjects(outlinePass: OutlinePass, objectsToOutline: THREE.Object3D[]): void {
+  restoreOutlinedInstances.get(outlinePass)?.();
+  restoreOutlinedInstances.set(outlinePass, showInstanceProxies(objectsToOutline, outlinePass.renderScene));
   outlinePass.selectedObjects = objectsToOutline;
 }
 
@@ -22,9 +43,9 @@ function setOutlinePassObjects(outlinePass: OutlinePass, objectsToOutline: THREE
  * Aplica um estilo visual específico ao OutlinePass.
  * Modifica parâmetros como cor da borda visível, força, espessura e brilho.
  * @param {OutlinePass} outlinePass A instância do OutlinePass.
- * @param {'selected' | 'hover' | 'none'} styleType O tipo de estilo a ser aplicado.
+ * @param {OutlineStyle} styleType O tipo de estilo a ser aplicado.
  */
-function applyOutlinePassStyle(outlinePass: OutlinePass, styleType: 'selected' | 'hover' | 'none'): void {
+function applyOutlinePassStyle(outlinePass: OutlinePass, styleType: OutlineStyle): void {
   outlinePass.pulsePeriod = 0; // Garante que não haja pulsação indesejada
 
   switch (styleType) {
@@ -42,6 +63,20 @@ function applyOutlinePassStyle(outlinePass: OutlinePass, styleType: 'selected' |
       outlinePass.edgeThickness = 1.5; 
       outlinePass.edgeGlow = 0.5; 
       break;
+    case 'isolation':
+      outlinePass.visibleEdgeColor.set('#FF6D00'); // Laranja de segurança
+      outlinePass.edgeStrength = 12.0;
+      outlinePass.edgeThickness = 2.5;
+      outlinePass.edgeGlow = 0.8;
+      outlinePass.pulsePeriod = 1.5;
+      break;
+    case 'alarm':
+      outlinePass.visibleEdgeColor.set('#FF1744'); // Vermelho de alarme
+      outlinePass.edgeStrength = 12.0;
+      outlinePass.edgeThickness = 2.0;
+      outlinePass.edgeGlow = 1.0;
+      outlinePass.pulsePeriod = 0.8;
+      break;
     case 'none':
     default:
       // console.log('[applyOutlinePassStyle] Applying NONE style');
@@ -110,16 +145,21 @@ export function updatePostProcessingSize(
 /**
  * Atualiza o efeito de contorno (OutlinePass) com base nos equipamentos selecionados e em hover.
  * Determina quais objetos contornar e qual estilo aplicar.
+ * Enquanto houver válvulas de um plano de isolamento em destaque, apenas elas são contornadas,
+ * com o estilo 'isolation' (o OutlinePass aplica um único estilo por vez). Os alarmes são contornados
+ * por outro OutlinePass (`updateAlarmOutlineEffect`).
  * @param {OutlinePass | null} outlinePass A instância do OutlinePass.
- * @param {THREE.Object3D[]} allMeshes A lista de todos os meshes de equipamentos na cena.
+ * @param {THREE.Object3D[]} allMeshes A lista de todos os meshes de equipamentos na cena (incluindo `InstancedMesh`).
  * @param {string[]} selectedTags As tags dos equipamentos atualmente selecionados.
  * @param {string | null} hoveredTag A tag do equipamento atualmente sob o cursor.
+ * @param {string[]} [isolationTags=[]] As tags das válvulas de um plano de isolamento a destacar.
  */
 export function updateOutlineEffect(
   outlinePass: OutlinePass | null,
   allMeshes: THREE.Object3D[],
   selectedTags: string[],
-  hoveredTag: string | null
+  hoveredTag: string | null,
+  isolationTags: string[] = []
 ): void {
   if (!outlinePass) {
     // console.log('[updateOutlineEffect] OutlinePass is null, returning.');
@@ -127,19 +167,21 @@ export function updateOutlineEffect(
   }
 
   const objectsToOutline: THREE.Object3D[] = [];
-  const meshesToConsider = allMeshes.filter(mesh => mesh.visible);
-  let styleType: 'selected' | 'hover' | 'none' = 'none';
+  let styleType: OutlineStyle = 'none';
+
+  if (isolationTags.length > 0) {
+    const isolationMeshes = findEquipmentObjects(allMeshes, equipment => isolationTags.includes(equipment.tag));
+    if (isolationMeshes.length > 0) {
+      setOutlinePassObjects(outlinePass, isolationMeshes);
+      applyOutlinePassStyle(outlinePass, 'isolation');
+      return;
+    }
+  }
 
   // console.log(`[updateOutlineEffect] Input: selectedTags=${JSON.stringify(selectedTags)}, hoveredTag=${hoveredTag}`);
 
   if (Array.isArray(selectedTags) && selectedTags.length > 0) {
-    selectedTags.forEach(tag => {
-      const selectedMesh = meshesToConsider.find(mesh => mesh.userData.tag === tag);
-      if (selectedMesh) {
-        objectsToOutline.push(selectedMesh);
-        // console.log(`[updateOutlineEffect] Adding selected mesh to outline: ${tag}`);
-      }
-    });
+    objectsToOutline.push(...findEquipmentObjects(allMeshes, equipment => selectedTags.includes(equipment.tag)));
     if (objectsToOutline.length > 0) {
       styleType = 'selected';
     }
@@ -152,7 +194,7 @@ export function updateOutlineEffect(
   if (hoveredTag) {
     const isHoveredAlreadyInOutline = objectsToOutline.some(obj => obj.userData.tag === hoveredTag);
     if (!isHoveredAlreadyInOutline) {
-        const hoveredMesh = meshesToConsider.find(mesh => mesh.userData.tag === hoveredTag);
+        const [hoveredMesh] = findEquipmentObjects(allMeshes, equipment => equipment.tag === hoveredTag);
         if (hoveredMesh) {
             objectsToOutline.push(hoveredMesh);
             // console.log(`[updateOutlineEffect] Adding hovered mesh to outline: ${hoveredTag}`);
@@ -188,3 +230,26 @@ export function updateOutlineEffect(
   applyOutlinePassStyle(outlinePass, styleType);
   // console.log(`[updateOutlineEffect] OutlinePass strength: ${outlinePass.edgeStrength}`);
 }
+
+/**
+ * Atualiza o contorno dos equipamentos com alarmes não reconhecidos, no OutlinePass dos alarmes (estilo 'alarm').
+ * Os equipamentos já contornados pelo OutlinePass principal (seleção, hover ou isolamento) ficam de fora:
+ * dois substitutos da mesma instância no mesmo lugar fariam o teste de profundidade do contorno oscilar.
+ * @param {OutlinePass | null} alarmOutlinePass O OutlinePass dos alarmes.
+ * @param {THREE.Object3D[]} allMeshes A lista de todos os meshes de equipamentos na cena (incluindo `InstancedMesh`).
+ * @param {string[]} alarmTags As tags dos equipamentos com alarmes não reconhecidos.
+ * @param {string[]} [outlinedTags=[]] As tags dos equipamentos contornados pelo OutlinePass principal.
+ */
+export function updateAlarmOutlineEffect(
+  alarmOutlinePass: OutlinePass | null,
+  allMeshes: THREE.Object3D[],
+  alarmTags: string[],
+  outlinedTags: string[] = []
+): void {
+  if (!alarmOutlinePass) return;
+  const alarmMeshes = alarmTags.length > 0
+    ? findEquipmentObjects(allMeshes, equipment => alarmTags.includes(equipment.tag) && !outlinedTags.includes(equipment.tag))
+    : [];
+  setOutlinePassObjects(alarmOutlinePass, alarmMeshes);
+  applyOutlinePassStyle(alarmOutlinePass, alarmMeshes.length > 0 ? 'alarm' : 'none');
+}
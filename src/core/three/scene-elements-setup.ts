@@ -5,16 +5,26 @@
  *
  * Responsabilidades:
  * - Configurar a iluminação da cena.
- * - Configurar o plano de chão (terreno).
- * - Configurar o pipeline de renderização (WebGL renderer, CSS2D renderer, EffectComposer, OutlinePass).
- * - Atualizar os meshes dos equipamentos na cena com base nos dados e camadas.
+ * - Configurar o plano de chão (terreno), dimensionado pelos limites do terminal ou, com relevo, uma malha deslocada
+ *   pelas elevações do terreno sobre a extensão dele, e liberá-lo.
+ * - Configurar o pipeline de renderização (WebGL renderer, CSS2D renderer, EffectComposer e dois OutlinePass:
+ *   um para seleção, hover e isolamento, outro para os alarmes).
+ * - Atualizar os meshes dos equipamentos na cena com base nos dados e camadas, agrupando itens idênticos
+ *   em `THREE.InstancedMesh`.
+ * - Liberar os recursos (geometrias, materiais e buffers de instâncias) de um mesh de equipamento e de seus filhos.
  */
 import * as THREE from 'three';
 import { CSS2DRenderer } from 'three/examples/jsm/renderers/CSS2DRenderer.js'; // Importado
 import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass.js';
-import type { Equipment, Layer, ColorMode } from '@/lib/types';
+import type { Equipment, Layer, ColorMode, SiteBounds } from '@/lib/types';
+import type { TerrainSurface } from '@/core/logic/terrain-elevation';
+import { SHARED_MODEL_GEOMETRY_KEY } from '@/core/three/equipment-model-loader';
+import { MIN_INSTANCED_GROUP_SIZE } from '@/core/three/equipment-instancing';
+
+/** Limites usados quando o terminal não informa os seus: um plano de 100 x 100 centrado na origem. */
+export const DEFAULT_GROUND_BOUNDS: SiteBounds = { minX: -50, maxX: 50, minZ: -50, maxZ: 50 };
 
 /**
  * Configura a iluminação padrão para a cena.
@@ -35,33 +45,99 @@ export function setupLighting(scene: THREE.Scene): void {
 }
 
 /**
- * Configura o plano de chão (terreno) para a cena.
+ * Cria a geometria do terreno com relevo: um plano com um vértice por ponto da grade, deslocado pelas elevações.
+ * O plano é criado em XY e girado para o chão; a primeira linha da grade (topo do plano) fica no menor Z.
+ * @param {TerrainSurface} terrain A superfície do terreno.
+ * @returns {THREE.BufferGeometry} A geometria, centrada na extensão do terreno.
+ */
+function createTerrainGeometry(terrain: TerrainSurface): THREE.BufferGeometry {
+  const { extent, columns, rows, heights } = terrain;
+  const geometry = new THREE.PlaneGeometry(extent.maxX - extent.minX, extent.maxZ - extent.minZ, columns - 1, rows - 1);
+  const positions = geometry.attributes.position;
+  for (let i = 0; i < positions.count; i++) {
+    positions.setZ(i, heights[i]); // Z local vira a altura após a rotação
+  }
+  positions.needsUpdate = true;
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+  return geometry;
+}
+
+/**
+ * Configura o plano de chão (terreno) para a cena, cobrindo os limites do terminal, ou a malha do relevo,
+ * cobrindo a extensão do terreno. Os limites e o terreno são guardados em `userData.bounds` e `userData.terrain`,
+ * para que a cena saiba quando recriar o chão.
  * @param {THREE.Scene} scene A instância da cena Three.js onde o plano será adicionado.
+ * @param {SiteBounds} [bounds=DEFAULT_GROUND_BOUNDS] Os limites da área do terminal.
+ * @param {TerrainSurface | null} [terrain=null] O relevo do terreno; sem ele, o chão é plano.
  * @returns {THREE.Mesh} O mesh do plano de chão criado.
  */
-export function setupGroundPlane(scene: THREE.Scene): THREE.Mesh {
-  const groundGeometry = new THREE.PlaneGeometry(100, 100);
+export function setupGroundPlane(
+  scene: THREE.Scene,
+  bounds: SiteBounds = DEFAULT_GROUND_BOUNDS,
+  terrain: TerrainSurface | null = null
+): THREE.Mesh {
+  const area = terrain?.extent ?? bounds;
+  const groundGeometry = terrain
+    ? createTerrainGeometry(terrain)
+    : new THREE.PlaneGeometry(bounds.maxX - bounds.minX, bounds.maxZ - bounds.minZ);
   const groundMaterial = new THREE.MeshStandardMaterial({
     color: 0xE6D8B0, // Sand color
     side: THREE.DoubleSide,
     metalness: 0.1,
     roughness: 0.8,
-    transparent: true,
-    opacity: 0.4,
+    // O relevo é opaco: com transparência, as encostas sobrepostas se misturariam.
+    transparent: !terrain,
+    opacity: terrain ? 1 : 0.4,
   });
   const groundMesh = new THREE.Mesh(groundGeometry, groundMaterial);
   groundMesh.rotation.x = -Math.PI / 2;
-  groundMesh.position.y = 0;
+  groundMesh.position.set((area.minX + area.maxX) / 2, 0, (area.minZ + area.maxZ) / 2);
   groundMesh.receiveShadow = false;
-  groundMesh.userData = { tag: 'terrain-ground-plane' }; // Adiciona tag para identificação, se necessário
+  groundMesh.userData = { tag: 'terrain-ground-plane', bounds, terrain }; // Adiciona tag para identificação, se necessário
   scene.add(groundMesh);
   return groundMesh;
 }
 
+/**
+ * Remove o plano de chão da cena e libera sua geometria e seu material.
+ * @param {THREE.Scene | null} scene A cena (o plano pode já estar fora dela, se a camada do terreno estiver oculta).
+ * @param {THREE.Mesh} groundMesh O mesh do plano de chão.
+ */
+export function disposeGroundPlane(scene: THREE.Scene | null, groundMesh: THREE.Mesh): void {
+  scene?.remove(groundMesh);
+  groundMesh.geometry?.dispose();
+  if (Array.isArray(groundMesh.material)) {
+    groundMesh.material.forEach(m => m.dispose());
+  } else {
+    (groundMesh.material as THREE.Material)?.dispose();
+  }
+}
+
+/**
+ * Cria um OutlinePass desligado (sem objetos e com força zero); o estilo é aplicado a cada atualização do contorno.
+ * @param {THREE.Scene} scene - A cena Three.js.
+ * @param {THREE.PerspectiveCamera} camera - A câmera da cena.
+ * @param {number} width - A largura inicial do canvas.
+ * @param {number} height - A altura inicial do canvas.
+ * @returns {OutlinePass} O OutlinePass criado.
+ */
+function createOutlinePass(scene: THREE.Scene, camera: THREE.PerspectiveCamera, width: number, height: number): OutlinePass {
+  const outlinePass = new OutlinePass(new THREE.Vector2(width, height), scene, camera);
+  outlinePass.edgeStrength = 0;
+  outlinePass.edgeGlow = 0.0;
+  outlinePass.edgeThickness = 1.0;
+  outlinePass.visibleEdgeColor.set('#ffffff');
+  outlinePass.hiddenEdgeColor.set('#190a05');
+  outlinePass.pulsePeriod = 0;
+  return outlinePass;
+}
 
 /**
  * Configura os renderizadores principais (WebGL, CSS2D) e o pipeline de pós-processamento.
  * Centraliza a criação do WebGLRenderer, CSS2DRenderer, EffectComposer e OutlinePass.
+ * O contorno dos alarmes tem um OutlinePass próprio, para continuar pulsando durante a seleção e o hover.
  * @param {HTMLElement} mountElement - O elemento DOM onde o canvas WebGL e o renderer de labels serão montados.
  * @param {THREE.Scene} scene - A cena Three.js.
  * @param {THREE.PerspectiveCamera} camera - A câmera da cena.
@@ -70,6 +146,7 @@ export function setupGroundPlane(scene: THREE.Scene): THREE.Mesh {
  *   labelRenderer: CSS2DRenderer;
  *   composer: EffectComposer;
  *   outlinePass: OutlinePass;
+ *   alarmOutlinePass: OutlinePass;
  * } | null} Um objeto contendo as instâncias configuradas, ou null se mountElement não for válido.
  */
 export function setupRenderPipeline(
@@ -81,6 +158,7 @@ export function setupRenderPipeline(
   labelRenderer: CSS2DRenderer;
   composer: EffectComposer;
   outlinePass: OutlinePass;
+  alarmOutlinePass: OutlinePass;
 } | null {
   if (!mountElement) {
     console.error("[SceneElementsSetup] setupRenderPipeline: mountElement is not valid.");
@@ -111,14 +189,10 @@ export function setupRenderPipeline(
   const renderPass = new RenderPass(scene, camera);
   composer.addPass(renderPass);
 
-  const outlinePass = new OutlinePass(new THREE.Vector2(initialWidth, initialHeight), scene, camera);
-  outlinePass.edgeStrength = 0;
-  outlinePass.edgeGlow = 0.0;
-  outlinePass.edgeThickness = 1.0;
-  outlinePass.visibleEdgeColor.set('#ffffff');
-  outlinePass.hiddenEdgeColor.set('#190a05');
-  outlinePass.pulsePeriod = 0;
+  const outlinePass = createOutlinePass(scene, camera, initialWidth, initialHeight);
   composer.addPass(outlinePass);
+  const alarmOutlinePass = createOutlinePass(scene, camera, initialWidth, initialHeight);
+  composer.addPass(alarmOutlinePass);
 
   if (!renderer.domElement.parentNode) {
     mountElement.appendChild(renderer.domElement);
@@ -127,18 +201,47 @@ export function setupRenderPipeline(
     mountElement.appendChild(labelRenderer.domElement);
   }
 
-  return { renderer, labelRenderer, composer, outlinePass };
+  return { renderer, labelRenderer, composer, outlinePass, alarmOutlinePass };
+}
+
+/**
+ * Libera as geometrias e os materiais de um mesh de equipamento, incluindo os filhos
+ * (e.g., o preenchimento interno dos tanques), e os buffers de instâncias de um `InstancedMesh`. As geometrias dos modelos glTF pertencem ao cache
+ * de `equipment-model-loader.ts` e são mantidas.
+ * @param {THREE.Object3D} object O objeto a ser descartado (já removido da cena).
+ */
+export function disposeEquipmentMesh(object: THREE.Object3D): void {
+  object.traverse(child => {
+    if (child instanceof THREE.InstancedMesh) {
+      child.dispose();
+    }
+    if (child instanceof THREE.Mesh) {
+      if (!child.userData[SHARED_MODEL_GEOMETRY_KEY]) {
+        child.geometry?.dispose();
+      }
+      if (Array.isArray(child.material)) {
+        child.material.forEach(m => m.dispose());
+      } else if (child.material) {
+        (child.material as THREE.Material).dispose();
+      }
+    }
+  });
 }
 
 /**
  * Interface para os parâmetros da função `updateEquipmentMeshesInScene`.
  * @interface UpdateEquipmentMeshesParams
  * @property {THREE.Scene} scene - A cena Three.js.
- * @property {React.MutableRefObject<THREE.Object3D[]>} equipmentMeshesRef - Ref para o array de meshes de equipamentos existentes.
+ * @property {React.MutableRefObject<THREE.Object3D[]>} equipmentMeshesRef - Ref para o array de objetos de equipamentos existentes
+ *           (meshes individuais e `InstancedMesh` de grupos).
  * @property {Equipment[]} newEquipmentData - A nova lista de equipamentos a serem renderizados (já filtrada).
  * @property {Layer[]} layers - A lista de camadas para determinar a visibilidade por tipo.
  * @property {ColorMode} colorMode - O modo de colorização atual para os equipamentos.
  * @property {(item: Equipment) => THREE.Object3D} createSingleEquipmentMesh - Função callback para criar um mesh de equipamento individual.
+ * @property {(item: Equipment) => string | null} [getInstancingKey] - Chave de instância de um item (itens com a mesma chave
+ *           têm geometria e material idênticos), ou null para itens que precisam de um mesh próprio. Sem ela, não há instâncias.
+ * @property {(items: Equipment[]) => THREE.Object3D} [createInstancedGroupMesh] - Função callback para criar o `InstancedMesh`
+ *           de um grupo de itens com a mesma chave.
  * @property {React.MutableRefObject<THREE.Mesh | null>} groundMeshRef - Ref para o mesh do plano de chão, para controle de visibilidade.
  */
 interface UpdateEquipmentMeshesParams {
@@ -148,13 +251,16 @@ interface UpdateEquipmentMeshesParams {
   layers: Layer[];
   colorMode: ColorMode; // colorMode é usado por createSingleEquipmentMesh, que é chamado aqui
   createSingleEquipmentMesh: (item: Equipment) => THREE.Object3D;
+  getInstancingKey?: (item: Equipment) => string | null;
+  createInstancedGroupMesh?: (items: Equipment[]) => THREE.Object3D;
   groundMeshRef: React.MutableRefObject<THREE.Mesh | null>;
 }
 
 /**
- * Atualiza a lista de meshes de equipamentos na cena com base nos novos dados.
- * Remove meshes antigos, atualiza existentes (se necessário, recriando-os) e adiciona novos,
- * considerando a visibilidade das camadas. Também gerencia a visibilidade do plano de chão.
+ * Atualiza os objetos dos equipamentos na cena com base nos novos dados.
+ * Remove os objetos antigos e recria os dos itens visíveis pelas camadas: grupos de ao menos
+ * `MIN_INSTANCED_GROUP_SIZE` itens com a mesma chave de instância viram um único `InstancedMesh`, e os demais
+ * itens recebem um mesh próprio. Também gerencia a visibilidade do plano de chão.
  *
  * @param {UpdateEquipmentMeshesParams} params - Os parâmetros para a função.
  */
@@ -165,6 +271,8 @@ export function updateEquipmentMeshesInScene({
   layers,
   colorMode, // colorMode é recebido para ser passado para createSingleEquipmentMesh, se necessário
   createSingleEquipmentMesh,
+  getInstancingKey,
+  createInstancedGroupMesh,
   groundMeshRef,
 }: UpdateEquipmentMeshesParams): void {
   if (!scene) {
@@ -175,79 +283,44 @@ export function updateEquipmentMeshesInScene({
     console.error('[SceneElementsSetup updateEquipmentMeshesInScene] equipmentMeshesRef or its .current is undefined/null.');
     return;
   }
-   
-  const currentMeshesByTag: Map<string, THREE.Object3D> = new Map();
-  equipmentMeshesRef.current.forEach(mesh => {
-    if (mesh.userData.tag) {
-      currentMeshesByTag.set(mesh.userData.tag, mesh);
-    }
-  });
 
-  const tagsInNewData = new Set(newEquipmentData.map(e => e.tag));
-  const newVisibleMeshesList: THREE.Object3D[] = [];
-
-  // 1. Remover meshes que não estão nos novos dados ou cuja camada os tornou invisíveis
-  equipmentMeshesRef.current.forEach(mesh => {
-    const itemTag = mesh.userData.tag;
-    const itemInNewData = newEquipmentData.find(e => e.tag === itemTag);
-    const layer = itemInNewData ? layers.find(l => l.equipmentType === itemInNewData.type) : undefined;
-    const isVisibleByLayer = layer?.isVisible ?? (itemInNewData ? true : false);
-
-    if (!tagsInNewData.has(itemTag) || (itemInNewData && !isVisibleByLayer)) {
-      // console.log(`[SceneElementsSetup] Removing mesh ${itemTag}`);
-      scene.remove(mesh);
-      if (mesh instanceof THREE.Mesh) {
-        mesh.geometry?.dispose();
-        if (Array.isArray(mesh.material)) {
-          mesh.material.forEach(m => m.dispose());
-        } else if (mesh.material) {
-          (mesh.material as THREE.Material).dispose();
-        }
-      }
-      currentMeshesByTag.delete(itemTag);
-    }
+  // 1. Remover os objetos atuais. Os itens visíveis são sempre recriados (garante que a cor/material esteja atualizado).
+  equipmentMeshesRef.current.forEach(object => {
+    scene.remove(object);
+    disposeEquipmentMesh(object);
   });
 
-  // 2. Adicionar novos ou atualizar existentes
-  newEquipmentData.forEach(item => {
-    const layer = layers.find(l => l.equipmentType === item.type);
-    const isVisibleByLayer = layer?.isVisible ?? true;
-
-    if (!isVisibleByLayer) {
-      // Se a camada torna o item invisível, e ele existia, já foi removido acima.
-      // Se não existia, não fazemos nada aqui.
-      return;
-    }
-
-    let existingMesh = currentMeshesByTag.get(item.tag);
+  // 2. Agrupar os itens visíveis pela chave de instância
+  const visibleItems = newEquipmentData.filter(item => layers.find(l => l.equipmentType === item.type)?.isVisible ?? true);
+  const groups = new Map<string, Equipment[]>();
+  if (getInstancingKey && createInstancedGroupMesh) {
+    visibleItems.forEach(item => {
+      const key = getInstancingKey(item);
+      if (key === null) return;
+      const group = groups.get(key);
+      if (group) group.push(item);
+      else groups.set(key, [item]);
+    });
+  }
 
-    // Se o mesh deve estar visível (passou pelo filtro de camada)
-    // E se ele não existe, ou se existe mas algo mudou (aqui, a cor é a principal preocupação)
-    // Para simplificar a atualização de cor, sempre recriamos o mesh se ele precisa ser visível.
-    // Uma otimização seria verificar se apenas o material precisa ser atualizado.
-    if (existingMesh) {
-        // Remove o antigo para recriar (garante que a cor/material esteja atualizado)
-        scene.remove(existingMesh);
-        if (existingMesh instanceof THREE.Mesh) {
-            existingMesh.geometry?.dispose();
-             if (Array.isArray(existingMesh.material)) {
-                existingMesh.material.forEach(m => m.dispose());
-            } else if (existingMesh.material) {
-                (existingMesh.material as THREE.Material).dispose();
-            }
-        }
+  // 3. Criar um InstancedMesh por grupo grande o bastante e um mesh para cada um dos demais itens
+  const newObjects: THREE.Object3D[] = [];
+  const instancedTags = new Set<string>();
+  groups.forEach(items => {
+    if (items.length < MIN_INSTANCED_GROUP_SIZE || !createInstancedGroupMesh) return;
+    newObjects.push(createInstancedGroupMesh(items));
+    items.forEach(item => instancedTags.add(item.tag));
+  });
+  visibleItems.forEach(item => {
+    if (!instancedTags.has(item.tag)) {
+      newObjects.push(createSingleEquipmentMesh(item));
     }
-    
-    // Cria um novo mesh (ou recria com material atualizado)
-    // console.log(`[SceneElementsSetup] Creating/Recreating mesh for ${item.tag} with colorMode: ${colorMode}`);
-    const newOrUpdatedMesh = createSingleEquipmentMesh(item); // createSingleEquipmentMesh já usa o colorMode do seu próprio escopo
-    scene.add(newOrUpdatedMesh);
-    newVisibleMeshesList.push(newOrUpdatedMesh);
   });
+  newObjects.forEach(object => scene.add(object));
 
-  equipmentMeshesRef.current = newVisibleMeshesList;
+  equipmentMeshesRef.current = newObjects;
 
-  // 3. Gerenciar visibilidade do plano de chão
+  // 4. Gerenciar visibilidade do plano de chão
   const terrainLayer = layers.find(l => l.id === 'layer-terrain');
   if (terrainLayer && groundMeshRef && groundMeshRef.current) {
     const isGroundInScene = scene.children.some(child => child.uuid === groundMeshRef.current?.uuid);
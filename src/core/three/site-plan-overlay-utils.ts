@@ -0,0 +1,91 @@
+/**
+ * @fileOverview Utilitários para desenhar a planta do terminal (imagem 2D) sobre o chão da cena.
+ *
+ * A planta é uma malha com a textura da imagem, posicionada pela transformação dos pontos de controle
+ * (`src/core/logic/site-plan.ts`) e levemente acima do chão. Com relevo, a malha é subdividida e cada vértice
+ * acompanha a elevação do terreno. A planta não participa da seleção de equipamentos.
+ *
+ * Exporta:
+ * - `SitePlanOverlay`: Tipo com a imagem, a transformação e a opacidade da planta.
+ * - `createSitePlanOverlayMesh`: Cria a malha da planta.
+ * - `disposeSitePlanOverlayMesh`: Remove a malha da cena e libera a geometria, o material e a textura.
+ */
+import * as THREE from 'three';
+import { sitePlanPixelToScene, type SitePlanTransform } from '@/core/logic/site-plan';
+import { getTerrainElevation, type TerrainSurface } from '@/core/logic/terrain-elevation';
+
+/**
+ * A planta a ser desenhada.
+ * @interface SitePlanOverlay
+ * @property {HTMLImageElement} image - A imagem decodificada.
+ * @property {SitePlanTransform} transform - A transformação dos pixels da imagem para a cena.
+ * @property {number} opacity - A opacidade, de 0 a 1.
+ */
+export interface SitePlanOverlay {
+  image: HTMLImageElement;
+  transform: SitePlanTransform;
+  opacity: number;
+}
+
+/** Altura da planta acima do chão, para que ela não se misture com ele. */
+const SITE_PLAN_GROUND_OFFSET = 0.05;
+/** Subdivisões de cada lado da planta sobre o relevo. */
+const SITE_PLAN_TERRAIN_SEGMENTS = 64;
+
+/**
+ * Cria a malha da planta. Os vértices são posicionados diretamente em coordenadas da cena: cada vértice corresponde
+ * a um pixel da imagem, convertido pela transformação da planta.
+ * @param {SitePlanOverlay} overlay A planta.
+ * @param {TerrainSurface | null} terrain O relevo do terreno, ou null se o chão for plano.
+ * @returns {THREE.Mesh} A malha. A planta e o terreno usados são guardados em `userData.overlay` e `userData.terrain`,
+ *          para que a cena saiba quando recriá-la.
+ */
+export function createSitePlanOverlayMesh(overlay: SitePlanOverlay, terrain: TerrainSurface | null): THREE.Mesh {
+  const { image, transform, opacity } = overlay;
+  const segments = terrain ? SITE_PLAN_TERRAIN_SEGMENTS : 1;
+  const geometry = new THREE.PlaneGeometry(1, 1, segments, segments);
+  const positions = geometry.attributes.position;
+  const uvs = geometry.attributes.uv;
+  for (let i = 0; i < positions.count; i++) {
+    // O UV do plano vai de baixo (v = 0) para cima (v = 1); a linha 0 da imagem fica no topo.
+    const { x, z } = sitePlanPixelToScene(transform, uvs.getX(i) * image.naturalWidth, (1 - uvs.getY(i)) * image.naturalHeight);
+    const groundHeight = terrain ? getTerrainElevation(terrain, x, z) : 0;
+    positions.setXYZ(i, x, groundHeight + SITE_PLAN_GROUND_OFFSET, z);
+  }
+  positions.needsUpdate = true;
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  geometry.computeBoundingSphere();
+
+  const texture = new THREE.Texture(image);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.needsUpdate = true;
+  const material = new THREE.MeshBasicMaterial({
+    map: texture,
+    side: THREE.DoubleSide,
+    transparent: true,
+    opacity,
+    depthWrite: false,
+    polygonOffset: true,
+    polygonOffsetFactor: -1,
+    polygonOffsetUnits: -1,
+  });
+
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.renderOrder = 1; // Desenhada depois do chão transparente
+  mesh.userData = { tag: 'site-plan-overlay', overlay, terrain };
+  return mesh;
+}
+
+/**
+ * Remove a malha da planta da cena e libera a geometria, o material e a textura.
+ * @param {THREE.Scene | null} scene A cena.
+ * @param {THREE.Mesh} mesh A malha da planta.
+ */
+export function disposeSitePlanOverlayMesh(scene: THREE.Scene | null, mesh: THREE.Mesh): void {
+  scene?.remove(mesh);
+  mesh.geometry.dispose();
+  const material = mesh.material as THREE.MeshBasicMaterial;
+  material.map?.dispose();
+  material.dispose();
+}
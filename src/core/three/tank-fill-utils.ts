@@ -0,0 +1,51 @@
+/**
+ * @fileOverview Utilitários para a representação visual do nível dos tanques.
+ *
+ * Responsabilidades:
+ * - Criar o mesh de preenchimento interno de um tanque, um cilindro na cor do produto cuja altura
+ *   acompanha o nível (`getTankInventory`), apoiado no fundo do tanque.
+ * - Definir a opacidade do casco dos tanques com preenchimento, para que o nível fique visível.
+ * - Indicar se um tanque tem preenchimento visível (esses tanques não são desenhados por instâncias).
+ */
+import * as THREE from 'three';
+import type { Equipment } from '@/lib/types';
+import { getTankInventory } from '@/core/logic/tank-inventory';
+import { getEquipmentColor } from '@/core/graphics/color-utils';
+
+/** Opacidade do casco de um tanque com preenchimento visível. */
+export const TANK_SHELL_OPACITY = 0.35;
+
+/** Fator de escala do raio do preenchimento, para que ele fique dentro do casco. */
+const FILL_RADIUS_FACTOR = 0.96;
+
+/**
+ * Indica se um equipamento é um tanque com preenchimento visível (nível acima de zero e dimensões declaradas).
+ * @param {Equipment} item - O equipamento.
+ * @returns {boolean} `true` se `createTankFillMesh` criar um preenchimento para o item.
+ */
+export function hasTankFill(item: Equipment): boolean {
+  const inventory = getTankInventory(item);
+  return Boolean(inventory && inventory.levelMeters > 0 && item.radius && item.height);
+}
+
+/**
+ * Cria o mesh de preenchimento de um tanque, a ser adicionado como filho do mesh do tanque
+ * (a posição é relativa ao centro do cilindro do tanque).
+ * @param {Equipment} item - O tanque.
+ * @returns {THREE.Mesh | null} O mesh de preenchimento, ou null se o equipamento não tiver nível ou estiver vazio.
+ */
+export function createTankFillMesh(item: Equipment): THREE.Mesh | null {
+  const inventory = getTankInventory(item);
+  if (!inventory || inventory.levelMeters <= 0 || !item.radius || !item.height) return null;
+
+  const radius = item.radius * FILL_RADIUS_FACTOR;
+  const geometry = new THREE.CylinderGeometry(radius, radius, inventory.levelMeters, 32);
+  const material = new THREE.MeshStandardMaterial({
+    color: getEquipmentColor(item, 'Produto'),
+    metalness: 0.1,
+    roughness: 0.4,
+  });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.y = -item.height / 2 + inventory.levelMeters / 2;
+  return mesh;
+}
@@ -0,0 +1,145 @@
+/**
+ * @fileOverview Custom hook para gerenciar os alarmes dos equipamentos.
+ * Reavalia as regras do motor de alarmes (`alarm-engine`) sempre que os dados dos equipamentos mudam,
+ * notifica o operador com um toast a cada novo alarme e oferece as ações de reconhecimento.
+ * Na troca de terminal, os alarmes do terminal anterior (inclusive os normalizados pendentes de reconhecimento) são descartados.
+ * As regras podem ser editadas pelo operador; as regras editadas são gravadas no `localStorage` do navegador.
+ */
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Equipment } from '@/lib/types';
+import {
+  acknowledgeAlarms,
+  evaluateAlarms,
+  parseAlarmRules,
+  DEFAULT_ALARM_RULES,
+  type Alarm,
+  type AlarmRule,
+} from '@/core/logic/alarm-engine';
+import { useToast } from '@/hooks/use-toast';
+
+/** Chave do `localStorage` onde as regras editadas pelo operador são gravadas. */
+const ALARM_RULES_STORAGE_KEY = 'terminal3d.alarmRules';
+
+/**
+ * Props para o hook useAlarmManager.
+ * @interface UseAlarmManagerProps
+ * @property {string} siteId - O terminal aberto.
+ * @property {Equipment[]} equipmentData - A lista completa de equipamentos avaliada pelas regras.
+ * @property {AlarmRule[]} [defaultRules] - As regras usadas enquanto o operador não edita as suas. Padrão: `DEFAULT_ALARM_RULES`.
+ */
+interface UseAlarmManagerProps {
+  siteId: string;
+  equipmentData: Equipment[];
+  defaultRules?: AlarmRule[];
+}
+
+/**
+ * Retorno do hook useAlarmManager.
+ * @interface UseAlarmManagerReturn
+ * @property {Alarm[]} alarms - Os alarmes ativos, reconhecidos e normalizados pendentes de reconhecimento.
+ * @property {string[]} unacknowledgedAlarmTags - TAGs dos equipamentos com alarmes ativos não reconhecidos (destacados na cena).
+ * @property {(alarmId: string) => void} acknowledgeAlarm - Reconhece um alarme.
+ * @property {() => void} acknowledgeAllAlarms - Reconhece todos os alarmes da lista.
+ * @property {AlarmRule[]} rules - As regras em uso.
+ * @property {boolean} hasCustomRules - Indica se as regras em uso foram editadas pelo operador.
+ * @property {(rules: AlarmRule[]) => void} updateRules - Substitui as regras e as grava no navegador.
+ * @property {() => void} resetRules - Volta às regras padrão, apagando as regras gravadas.
+ */
+export interface UseAlarmManagerReturn {
+  alarms: Alarm[];
+  unacknowledgedAlarmTags: string[];
+  acknowledgeAlarm: (alarmId: string) => void;
+  acknowledgeAllAlarms: () => void;
+  rules: AlarmRule[];
+  hasCustomRules: boolean;
+  updateRules: (rules: AlarmRule[]) => void;
+  resetRules: () => void;
+}
+
+/**
+ * Hook customizado para gerenciar os alarmes gerados a partir dos dados dos equipamentos.
+ * @param {UseAlarmManagerProps} props As props do hook.
+ * @returns {UseAlarmManagerReturn} Os alarmes, as funções de reconhecimento e as regras.
+ */
+export function useAlarmManager({ siteId, equipmentData, defaultRules = DEFAULT_ALARM_RULES }: UseAlarmManagerProps): UseAlarmManagerReturn {
+  const { toast } = useToast();
+  const [alarms, setAlarms] = useState<Alarm[]>([]);
+  const [customRules, setCustomRules] = useState<AlarmRule[] | null>(null);
+  const rules = customRules ?? defaultRules;
+  // A avaliação parte sempre da lista mais recente, sem depender dela no efeito abaixo.
+  const alarmsRef = useRef<Alarm[]>(alarms);
+  useEffect(() => { alarmsRef.current = alarms; }, [alarms]);
+  // Terminal da última avaliação: as TAGs só são únicas dentro de um terminal.
+  const evaluatedSiteIdRef = useRef(siteId);
+
+  // O localStorage só existe no navegador; as regras são lidas após a montagem para não divergir da renderização do servidor.
+  useEffect(() => {
+    const stored = window.localStorage.getItem(ALARM_RULES_STORAGE_KEY);
+    if (!stored) return;
+    try {
+      setCustomRules(parseAlarmRules(JSON.parse(stored)));
+    } catch (error) {
+      toast({
+        title: "Regras de Alarme Ignoradas",
+        description: `As regras gravadas no navegador são inválidas; as regras padrão estão em uso. ${error instanceof Error ? error.message : ''}`,
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    const previousAlarms = evaluatedSiteIdRef.current === siteId ? alarmsRef.current : [];
+    evaluatedSiteIdRef.current = siteId;
+    const { alarms: nextAlarms, raised } = evaluateAlarms(rules, equipmentData, previousAlarms, new Date().toISOString());
+    alarmsRef.current = nextAlarms;
+    setAlarms(nextAlarms);
+    raised.forEach(alarm => {
+      toast({
+        title: `Novo Alarme (${alarm.severity})`,
+        description: alarm.message,
+        variant: alarm.severity === 'alta' ? 'destructive' : 'default',
+      });
+    });
+  }, [siteId, equipmentData, rules, toast]);
+
+  const acknowledgeAlarm = useCallback((alarmId: string) => {
+    setAlarms(prev => acknowledgeAlarms(prev, [alarmId], new Date().toISOString()));
+  }, []);
+
+  const acknowledgeAllAlarms = useCallback(() => {
+    setAlarms(prev => acknowledgeAlarms(prev, prev.map(alarm => alarm.id), new Date().toISOString()));
+  }, []);
+
+  /**
+   * Substitui as regras em uso e as grava no navegador. Os alarmes são reavaliados com as novas regras;
+   * alarmes de regras removidas são normalizados.
+   * @param {AlarmRule[]} nextRules As novas regras (validadas por `parseAlarmRules`).
+   */
+  const updateRules = useCallback((nextRules: AlarmRule[]) => {
+    setCustomRules(nextRules);
+    window.localStorage.setItem(ALARM_RULES_STORAGE_KEY, JSON.stringify(nextRules));
+  }, []);
+
+  const resetRules = useCallback(() => {
+    setCustomRules(null);
+    window.localStorage.removeItem(ALARM_RULES_STORAGE_KEY);
+  }, []);
+
+  const unacknowledgedAlarmTags = useMemo(
+    () => Array.from(new Set(alarms.filter(alarm => alarm.status === 'active').map(alarm => alarm.equipmentTag))),
+    [alarms]
+  );
+
+  return {
+    alarms,
+    unacknowledgedAlarmTags,
+    acknowledgeAlarm,
+    acknowledgeAllAlarms,
+    rules,
+    hasCustomRules: customRules !== null,
+    updateRules,
+    resetRules,
+  };
+}
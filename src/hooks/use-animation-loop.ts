@@ -5,6 +5,7 @@
  * Responsabilidades:
  * - Encapsular a lógica de `requestAnimationFrame` para renderizar a cena continuamente.
  * - Atualizar controles de órbita (se habilitados e presentes).
+ * - Avançar o relógio da simulação, a cada quadro, pelo tempo real decorrido desde o quadro anterior.
  * - Renderizar o composer principal (para pós-processamento) e o renderizador de rótulos 2D (se presentes).
  * - Iniciar o loop apenas quando a cena estiver pronta e os refs necessários estiverem disponíveis.
  */
@@ -13,6 +14,7 @@ import { useEffect, type RefObject } from 'react';
 import type { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
 import type { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
 import type { CSS2DRenderer } from 'three/examples/jsm/renderers/CSS2DRenderer.js';
+import type { SimulationClock } from '@/core/logic/simulation-clock';
 
 /**
  * Props para o hook useAnimationLoop.
@@ -23,6 +25,7 @@ import type { CSS2DRenderer } from 'three/examples/jsm/renderers/CSS2DRenderer.j
  * @property {RefObject<OrbitControls | null>} controlsRef - Ref para os OrbitControls.
  * @property {RefObject<EffectComposer | null>} composerRef - Ref para o EffectComposer (pós-processamento).
  * @property {RefObject<CSS2DRenderer | null>} labelRendererRef - Ref para o CSS2DRenderer (rótulos HTML).
+ * @property {SimulationClock} [simulationClock] - Relógio da simulação, avançado antes de cada renderização.
  */
 interface UseAnimationLoopProps {
   isSceneReady: boolean;
@@ -31,6 +34,7 @@ interface UseAnimationLoopProps {
   controlsRef: RefObject<OrbitControls | null>;
   composerRef: RefObject<EffectComposer | null>;
   labelRendererRef: RefObject<CSS2DRenderer | null>;
+  simulationClock?: SimulationClock;
 }
 
 /**
@@ -38,6 +42,7 @@ interface UseAnimationLoopProps {
  * Ele configura e executa o `requestAnimationFrame` para renderizar a cena
  * e atualizar os controles, o composer e o renderizador de rótulos.
  * O loop só é iniciado quando `isSceneReady` é verdadeiro e todos os refs necessários estão populados.
+ * Os módulos da simulação não dependem dos quadros: assinam o relógio e recebem o tempo em segundos simulados.
  *
  * @param {UseAnimationLoopProps} props - As props necessárias para o loop de animação.
  */
@@ -48,6 +53,7 @@ export function useAnimationLoop({
   controlsRef,
   composerRef,
   labelRendererRef,
+  simulationClock,
 }: UseAnimationLoopProps): void {
   useEffect(() => {
     // console.log(`[AnimationLoop] useEffect triggered. isSceneReady: ${isSceneReady}`);
@@ -63,14 +69,19 @@ export function useAnimationLoop({
     const labelRenderer = labelRendererRef.current;
 
     let animationFrameId: number;
+    let lastFrameTime = performance.now();
 
     /**
      * Função de animação chamada recursivamente via requestAnimationFrame.
-     * Atualiza controles e renderiza a cena.
+     * Atualiza controles, avança o relógio da simulação e renderiza a cena.
      */
     const animate = () => {
       animationFrameId = requestAnimationFrame(animate);
+      const now = performance.now();
+      const deltaSeconds = Math.min((now - lastFrameTime) / 1000, 0.1); // Limita saltos após a aba ficar inativa
+      lastFrameTime = now;
       if (controls.enabled) controls.update(); // Atualiza apenas se habilitado
+      simulationClock?.advance(deltaSeconds);
       composer.render();
       labelRenderer.render(scene, camera);
     };
@@ -82,7 +93,7 @@ export function useAnimationLoop({
       // console.log('[AnimationLoop] Cancelling animation frame.');
       cancelAnimationFrame(animationFrameId);
     };
-  }, [isSceneReady, sceneRef, cameraRef, controlsRef, composerRef, labelRendererRef]);
+  }, [isSceneReady, sceneRef, cameraRef, controlsRef, composerRef, labelRendererRef, simulationClock]);
 }
 
     
\ No newline at end of file
@@ -0,0 +1,160 @@
+/**
+ * @fileOverview Custom hook para gerenciar o histórico de alterações (auditoria) dos equipamentos.
+ * Registra cada alteração de estado operacional e de produto feita pelo operador (valor anterior, novo valor,
+ * data e hora e usuário), persistindo-a em um `AuditLogStore` (Firestore) quando houver um configurado.
+ * O histórico é mantido por terminal: apenas os registros do terminal aberto são observados e expostos, começando
+ * pelos `AUDIT_LOG_PAGE_SIZE` mais recentes; `loadMoreEntries` amplia a janela para os registros mais antigos.
+ * O nome do operador é apenas declarado na interface (não há autenticação) e lembrado no `localStorage` do navegador.
+ */
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { AuditLogEntry } from '@/lib/types';
+import { createDefaultAuditLogStore, type AuditLogStore } from '@/core/data/audit-log-store';
+import type { EquipmentStateChange } from '@/hooks/use-equipment-data-manager';
+import { useToast } from '@/hooks/use-toast';
+
+/** Chave do `localStorage` onde o nome do operador é lembrado. */
+const USER_NAME_STORAGE_KEY = 'terminal3d.auditLogUser';
+
+/** Nome usado nos registros enquanto o operador não se identificar. */
+export const DEFAULT_AUDIT_USER = 'Operador';
+
+/** Quantidade de registros lidos do armazenamento por página. */
+export const AUDIT_LOG_PAGE_SIZE = 200;
+
+/**
+ * Props para o hook useAuditLogManager.
+ * @interface UseAuditLogManagerProps
+ * @property {string} siteId - O terminal aberto; os novos registros são gravados no histórico dele.
+ * @property {AuditLogStore | null} [store] - Armazenamento persistente do histórico.
+ *           Padrão: `createDefaultAuditLogStore()`; `null` mantém o histórico apenas em memória.
+ */
+interface UseAuditLogManagerProps {
+  siteId: string;
+  store?: AuditLogStore | null;
+}
+
+/**
+ * Retorno do hook useAuditLogManager.
+ * @interface UseAuditLogManagerReturn
+ * @property {AuditLogEntry[]} auditEntries - Os registros do histórico do terminal aberto (sem ordem garantida).
+ * @property {boolean} isAuditLogPersisted - Indica se o histórico é persistido e compartilhado entre sessões.
+ * @property {boolean} hasMoreEntries - Indica se pode haver registros mais antigos que os carregados.
+ * @property {() => void} loadMoreEntries - Carrega mais uma página de registros antigos.
+ * @property {string} userName - O nome declarado pelo operador, gravado nos novos registros.
+ * @property {(name: string) => void} setUserName - Atualiza (e lembra) o nome do operador.
+ * @property {(change: EquipmentStateChange) => void} recordChange - Registra uma alteração de estado/produto.
+ */
+export interface UseAuditLogManagerReturn {
+  auditEntries: AuditLogEntry[];
+  isAuditLogPersisted: boolean;
+  hasMoreEntries: boolean;
+  loadMoreEntries: () => void;
+  userName: string;
+  setUserName: (name: string) => void;
+  recordChange: (change: EquipmentStateChange) => void;
+}
+
+/**
+ * Hook customizado para gerenciar o histórico de alterações dos equipamentos.
+ * @param {UseAuditLogManagerProps} props As props do hook.
+ * @returns {UseAuditLogManagerReturn} Os registros do histórico, o operador atual e a função de registro.
+ */
+export function useAuditLogManager({ siteId, store }: UseAuditLogManagerProps): UseAuditLogManagerReturn {
+  // Sem armazenamento, os registros de todos os terminais ficam em memória e são filtrados pelo terminal aberto.
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [maxEntries, setMaxEntries] = useState(AUDIT_LOG_PAGE_SIZE);
+  const [userName, setUserNameState] = useState(DEFAULT_AUDIT_USER);
+  const [activeStore] = useState<AuditLogStore | null>(
+    () => (store !== undefined ? store : createDefaultAuditLogStore())
+  );
+  const { toast } = useToast();
+
+  // O localStorage só existe no navegador; o nome é lido após a montagem para não divergir da renderização do servidor.
+  useEffect(() => {
+    const storedName = window.localStorage.getItem(USER_NAME_STORAGE_KEY);
+    if (storedName) setUserNameState(storedName);
+  }, []);
+
+  // Cada terminal começa pela primeira página.
+  useEffect(() => {
+    setMaxEntries(AUDIT_LOG_PAGE_SIZE);
+  }, [siteId]);
+
+  useEffect(() => {
+    if (!activeStore) return;
+    return activeStore.subscribe(
+      siteId,
+      maxEntries,
+      siteEntries => setEntries(siteEntries),
+      error => {
+        console.error('[AuditLogManager] Falha ao sincronizar o histórico de alterações:', error);
+        toast({ title: "Histórico Indisponível", description: `Não foi possível sincronizar o histórico de alterações: ${error.message}`, variant: "destructive" });
+      }
+    );
+  }, [activeStore, siteId, maxEntries, toast]);
+
+  // Sem armazenamento, todos os registros já estão em memória.
+  const hasMoreEntries = activeStore !== null && entries.length >= maxEntries;
+
+  const loadMoreEntries = useCallback(() => {
+    setMaxEntries(prev => prev + AUDIT_LOG_PAGE_SIZE);
+  }, []);
+
+  const auditEntries = useMemo(() => entries.filter(entry => entry.siteId === siteId), [entries, siteId]);
+
+  /**
+   * Atualiza o nome do operador e o lembra no navegador. Nomes em branco voltam ao nome padrão.
+   * @param {string} name O nome informado.
+   */
+  const setUserName = useCallback((name: string) => {
+    setUserNameState(name);
+    const trimmed = name.trim();
+    if (trimmed) {
+      window.localStorage.setItem(USER_NAME_STORAGE_KEY, trimmed);
+    } else {
+      window.localStorage.removeItem(USER_NAME_STORAGE_KEY);
+    }
+  }, []);
+
+  /**
+   * Registra uma alteração. Com um armazenamento configurado, o registro chega a `auditEntries` pelo listener;
+   * sem armazenamento, é mantido apenas em memória.
+   * @param {EquipmentStateChange} change A alteração feita.
+   */
+  const recordChange = useCallback((change: EquipmentStateChange) => {
+    const timestamp = new Date().toISOString();
+    const entry: AuditLogEntry = {
+      id: `${change.equipment.tag}-${change.field}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      siteId,
+      equipmentTag: change.equipment.tag,
+      sistema: change.equipment.sistema,
+      area: change.equipment.area,
+      field: change.field,
+      oldValue: change.oldValue,
+      newValue: change.newValue,
+      timestamp,
+      user: userName.trim() || DEFAULT_AUDIT_USER,
+      reason: change.reason,
+    };
+    if (!activeStore) {
+      setEntries(prev => [...prev, entry]);
+      return;
+    }
+    activeStore.appendEntry(entry).catch(error => {
+      console.error(`[AuditLogManager] Falha ao registrar a alteração de ${entry.equipmentTag}:`, error);
+      toast({ title: "Falha no Histórico", description: `A alteração de ${entry.equipmentTag} não foi registrada no histórico: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+    });
+  }, [activeStore, siteId, userName, toast]);
+
+  return {
+    auditEntries,
+    isAuditLogPersisted: activeStore !== null,
+    hasMoreEntries,
+    loadMoreEntries,
+    userName,
+    setUserName,
+    recordChange,
+  };
+}
@@ -4,11 +4,12 @@
  *
  * Responsabilidades:
  * - Manter o estado atual da câmera (`currentCameraState`), incluindo posição e ponto de observação.
- * - Manter o estado do sistema alvo para enquadramento (`targetSystemToFrame`).
+ * - Manter o estado do sistema alvo para enquadramento (`targetSystemToFrame`) e das TAGs alvo (`targetTagsToFrame`).
  * - Fornecer funções para definir a visão da câmera para um sistema específico e lidar com mudanças de câmera
  *   iniciadas pelo usuário na cena 3D.
  * - Integrar mudanças de câmera (exceto foco em sistema) com o histórico de comandos (`useCommandHistory`).
  * - Fornecer posições e alvos iniciais padrão para a câmera.
+ * - Restaurar um estado de câmera salvo (e.g., em um snapshot do espaço de trabalho) sem registrá-lo no histórico.
  */
 "use client";
 
@@ -36,7 +37,11 @@ interface UseCameraManagerProps {
  * @property {string | null} targetSystemToFrame - O nome do sistema alvo para a câmera enquadrar. Null se nenhum sistema estiver sendo focado.
  * @property {(systemName: string) => void} handleSetCameraViewForSystem - Define o sistema alvo para a câmera enquadrar.
  * @property {(newSceneCameraState: CameraState) => void} handleCameraChangeFromScene - Manipula mudanças de câmera provenientes da cena 3D e as registra no histórico.
+ * @property {(cameraState: CameraState) => void} restoreCameraState - Move a câmera para um estado salvo, sem registrar no histórico.
  * @property {() => void} onSystemFramed - Callback para ser chamado pela ThreeScene após o enquadramento do sistema ser concluído, resetando o `targetSystemToFrame`.
+ * @property {string[] | null} targetTagsToFrame - As TAGs dos equipamentos que a câmera deve enquadrar. Null se não houver enquadramento pendente.
+ * @property {(tags: string[]) => void} handleFrameEquipment - Define os equipamentos que a câmera deve enquadrar.
+ * @property {() => void} onEquipmentFramed - Callback para ser chamado pela ThreeScene após o enquadramento dos equipamentos, resetando o `targetTagsToFrame`.
  * @property {{ x: number; y: number; z: number }} defaultInitialCameraPosition - Posição inicial padrão da câmera.
  * @property {{ x: number; y: number; z: number }} defaultInitialCameraLookAt - Ponto de observação inicial padrão da câmera.
  */
@@ -45,7 +50,11 @@ export interface UseCameraManagerReturn {
   targetSystemToFrame: string | null;
   handleSetCameraViewForSystem: (systemName: string) => void;
   handleCameraChangeFromScene: (newSceneCameraState: CameraState) => void;
+  restoreCameraState: (cameraState: CameraState) => void;
   onSystemFramed: () => void;
+  targetTagsToFrame: string[] | null;
+  handleFrameEquipment: (tags: string[]) => void;
+  onEquipmentFramed: () => void;
   defaultInitialCameraPosition: { x: number; y: number; z: number };
   defaultInitialCameraLookAt: { x: number; y: number; z: number };
 }
@@ -62,6 +71,7 @@ export function useCameraManager({ executeCommand }: UseCameraManagerProps): Use
     lookAt: defaultInitialCameraLookAt,
   });
   const [targetSystemToFrame, setTargetSystemToFrame] = useState<string | null>(null);
+  const [targetTagsToFrame, setTargetTagsToFrame] = useState<string[] | null>(null);
 
   /**
    * Define o sistema alvo para a câmera enquadrar.
@@ -103,6 +113,14 @@ export function useCameraManager({ executeCommand }: UseCameraManagerProps): Use
     executeCommand(command);
   }, [currentCameraState, executeCommand]);
 
+  /**
+   * Move a câmera para um estado salvo. A ThreeScene aplica o novo estado ao detectar a mudança.
+   * @param {CameraState} cameraState O estado salvo.
+   */
+  const restoreCameraState = useCallback((cameraState: CameraState) => {
+    setCurrentCameraState({ position: { ...cameraState.position }, lookAt: { ...cameraState.lookAt } });
+  }, []);
+
   /**
    * Callback para ser chamado pela ThreeScene após o enquadramento do sistema ser concluído.
    * Reseta o `targetSystemToFrame` para `null`.
@@ -111,12 +129,32 @@ export function useCameraManager({ executeCommand }: UseCameraManagerProps): Use
     setTargetSystemToFrame(null);
   }, []);
 
+  /**
+   * Define os equipamentos que a câmera deve enquadrar.
+   * @param {string[]} tags As TAGs dos equipamentos.
+   */
+  const handleFrameEquipment = useCallback((tags: string[]) => {
+    setTargetTagsToFrame(tags.length > 0 ? [...tags] : null);
+  }, []);
+
+  /**
+   * Callback para ser chamado pela ThreeScene após o enquadramento dos equipamentos.
+   * Reseta o `targetTagsToFrame` para `null`.
+   */
+  const onEquipmentFramed = useCallback(() => {
+    setTargetTagsToFrame(null);
+  }, []);
+
   return {
     currentCameraState,
     targetSystemToFrame,
     handleSetCameraViewForSystem,
     handleCameraChangeFromScene,
+    restoreCameraState,
     onSystemFramed,
+    targetTagsToFrame,
+    handleFrameEquipment,
+    onEquipmentFramed,
     defaultInitialCameraPosition,
     defaultInitialCameraLookAt,
   };
@@ -28,6 +28,7 @@ interface CommandHistoryState {
  * @property {boolean} canUndo - Indica se há comandos para desfazer.
  * @property {boolean} canRedo - Indica se há comandos para refazer.
  * @property {Command[]} commandHistory - O array completo do histórico de comandos (para fins de depuração ou logging).
+ * @property {() => void} clearHistory - Descarta todo o histórico (e.g., ao trocar de terminal, quando os comandos deixam de fazer sentido).
  */
 interface UseCommandHistoryReturn {
   executeCommand: (command: Command) => void;
@@ -36,6 +37,7 @@ interface UseCommandHistoryReturn {
   canUndo: boolean;
   canRedo: boolean;
   commandHistory: Command[];
+  clearHistory: () => void;
 }
 
 /**
@@ -105,11 +107,18 @@ export function useCommandHistory(initialState?: CommandHistoryState): UseComman
     });
   }, []);
 
+  /**
+   * Descarta todo o histórico de comandos, sem desfazê-los.
+   */
+  const clearHistory = useCallback(() => {
+    setState({ history: [], currentIndex: -1 });
+  }, []);
+
   const canUndo = state.currentIndex >= 0;
   const canRedo = state.currentIndex < state.history.length - 1;
   const commandHistory = state.history;
 
-  return { executeCommand, undo, redo, canUndo, canRedo, commandHistory };
+  return { executeCommand, undo, redo, canUndo, canRedo, commandHistory, clearHistory };
 }
 
     
\ No newline at end of file
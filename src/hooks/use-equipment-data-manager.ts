@@ -1,74 +1,361 @@
 
 /**
  * @fileOverview Custom hook responsible for fetching, storing, and managing the equipment data used in the application.
- * This includes maintaining the state of the equipment list and providing functions to modify equipment properties.
+ * This includes loading the equipment list from an `EquipmentRepository`, validating it before it reaches the scene
+ * (holding imports with invalid rows for user confirmation), exposing loading/error states,
+ * maintaining the state of the equipment list and providing functions to modify equipment properties.
+ * Operational state and product changes are persisted through an `EquipmentStateStore` (Firestore) when one is configured,
+ * and changes made by other sessions are merged into `equipmentData` in real time. Persisted states are kept per site (`siteId`).
+ * Each effective change is also reported through `onStateChange` (e.g., to be recorded in the audit log).
+ * Operational state changes must follow the equipment type's state model (`operational-state-model`).
+ * Custom attribute edits must follow the type's attribute schema (`equipment-attributes`); they are persisted
+ * like state/product changes but are not reported through `onStateChange`.
  */
 
-import { useState, useCallback } from 'react';
-import type { Equipment } from '@/lib/types';
-import { initialEquipment } from '@/core/data/initial-data';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { AttributeValue, Equipment } from '@/lib/types';
+import { createDefaultEquipmentRepository, type EquipmentRepository } from '@/core/data/equipment-repository';
+import {
+  applyEquipmentStatePatch,
+  createDefaultEquipmentStateStore,
+  type EquipmentStatePatch,
+  type EquipmentStateStore,
+} from '@/core/data/equipment-state-store';
+import { validateEquipmentRecords, type EquipmentValidationResult } from '@/core/logic/equipment-validation';
+import { checkStateTransition, getOperationalStateLabel } from '@/core/logic/operational-state-model';
+import { checkAttributeValue, formatAttributeValue, getAttributeDefinitions } from '@/core/logic/equipment-attributes';
 import { useToast } from '@/hooks/use-toast';
 
+/**
+ * Props para o hook useEquipmentDataManager.
+ * @interface UseEquipmentDataManagerProps
+ * @property {string} siteId - O terminal aberto; os estados persistidos são lidos e gravados no armazenamento dele.
+ * @property {EquipmentRepository} [repository] - Fonte de dados inicial. Padrão: `createDefaultEquipmentRepository()`.
+ *           Não é carregada se `loadFromRepository` for chamado antes do efeito de carga inicial.
+ * @property {EquipmentStateStore | null} [stateStore] - Armazenamento persistente de estado/produto.
+ *           Padrão: `createDefaultEquipmentStateStore()`; `null` mantém as alterações apenas em memória.
+ * @property {(change: EquipmentStateChange) => void} [onStateChange] - Chamado a cada alteração efetiva de estado/produto feita pelo operador.
+ */
+interface UseEquipmentDataManagerProps {
+  siteId: string;
+  repository?: EquipmentRepository;
+  stateStore?: EquipmentStateStore | null;
+  onStateChange?: (change: EquipmentStateChange) => void;
+}
+
+/**
+ * Uma alteração de estado operacional ou de produto feita pelo operador.
+ * @interface EquipmentStateChange
+ * @property {Equipment} equipment - O equipamento antes da alteração.
+ * @property {'operationalState' | 'product'} field - O campo alterado.
+ * @property {string | null} oldValue - O valor anterior (null se o campo não estava definido).
+ * @property {string} newValue - O novo valor.
+ * @property {string} [reason] - A justificativa informada pelo operador, se houver.
+ */
+export interface EquipmentStateChange {
+  equipment: Equipment;
+  field: 'operationalState' | 'product';
+  oldValue: string | null;
+  newValue: string;
+  reason?: string;
+}
+
+/**
+ * Importação retida por conter registros inválidos, aguardando decisão do usuário.
+ * @interface PendingEquipmentImport
+ * @property {string} sourceLabel - Descrição da fonte de onde os registros vieram.
+ * @property {EquipmentValidationResult} validation - O resultado da validação (registros válidos e relatório dos inválidos).
+ */
+export interface PendingEquipmentImport {
+  sourceLabel: string;
+  validation: EquipmentValidationResult;
+}
+
 /**
  * Retorno do hook useEquipmentDataManager.
  * @interface UseEquipmentDataManagerReturn
  * @property {Equipment[]} equipmentData - A lista atual de todos os equipamentos.
- * @property {(equipmentTag: string, newState: string) => void} handleOperationalStateChange - Modifica o estado operacional de um equipamento.
+ * @property {boolean} isLoading - Indica se a fonte de dados está sendo carregada.
+ * @property {string | null} loadError - Mensagem do último erro de carregamento, ou null.
+ * @property {string} dataSourceLabel - Descrição da fonte de dados atual.
+ * @property {boolean} isStatePersisted - Indica se as alterações de estado/produto são persistidas e sincronizadas entre sessões.
+ * @property {(repository: EquipmentRepository, options?: { clearCurrent?: boolean }) => void} loadFromRepository - Troca a fonte de dados e carrega seus equipamentos.
+ *           Com `clearCurrent`, os equipamentos atuais saem da cena imediatamente (e.g., ao trocar de terminal), em vez de permanecerem até o fim do carregamento.
+ * @property {() => Promise<void>} reloadEquipment - Recarrega os equipamentos da fonte atual.
+ * @property {PendingEquipmentImport | null} pendingImport - Importação com registros inválidos aguardando confirmação, ou null.
+ * @property {() => void} confirmPendingImport - Aplica apenas os registros válidos da importação pendente.
+ * @property {() => void} discardPendingImport - Descarta a importação pendente, mantendo os dados atuais.
+ * @property {(equipmentTag: string, newState: string, reason?: string) => void} handleOperationalStateChange - Modifica o estado operacional de um equipamento, se a transição for permitida.
  * @property {(equipmentTag: string, newProduct: string) => void} handleProductChange - Modifica o produto de um equipamento.
+ * @property {(equipmentTag: string, key: string, value: AttributeValue | null) => void} handleAttributeChange -
+ *           Define (ou remove, com null) um atributo customizado de um equipamento, se o valor seguir o schema do tipo.
  */
 export interface UseEquipmentDataManagerReturn {
   equipmentData: Equipment[];
-  handleOperationalStateChange: (equipmentTag: string, newState: string) => void;
+  isLoading: boolean;
+  loadError: string | null;
+  dataSourceLabel: string;
+  isStatePersisted: boolean;
+  loadFromRepository: (repository: EquipmentRepository, options?: { clearCurrent?: boolean }) => void;
+  reloadEquipment: () => Promise<void>;
+  pendingImport: PendingEquipmentImport | null;
+  confirmPendingImport: () => void;
+  discardPendingImport: () => void;
+  handleOperationalStateChange: (equipmentTag: string, newState: string, reason?: string) => void;
   handleProductChange: (equipmentTag: string, newProduct: string) => void;
+  handleAttributeChange: (equipmentTag: string, key: string, value: AttributeValue | null) => void;
 }
 
 /**
  * Hook customizado para gerenciar os dados dos equipamentos (a "fonte da verdade" dos equipamentos).
- * Inicializa os dados com `initialEquipment` e fornece funções para modificar
- * propriedades como estado operacional e produto.
- * @returns {UseEquipmentDataManagerReturn} Um objeto contendo os dados dos equipamentos e funções para modificá-los.
+ * Carrega os dados a partir de um `EquipmentRepository` e fornece funções para trocar a fonte,
+ * recarregá-la e modificar propriedades como estado operacional e produto.
+ * @param {UseEquipmentDataManagerProps} props As props do hook.
+ * @returns {UseEquipmentDataManagerReturn} Um objeto contendo os dados dos equipamentos, o estado de carregamento e funções para modificá-los.
  */
-export function useEquipmentDataManager(): UseEquipmentDataManagerReturn {
-  const [equipmentData, setEquipmentData] = useState<Equipment[]>(initialEquipment);
+export function useEquipmentDataManager({ siteId, repository, stateStore, onStateChange }: UseEquipmentDataManagerProps): UseEquipmentDataManagerReturn {
+  // Equipamentos como vieram da fonte de dados; os estados persistidos são aplicados sobre eles.
+  const [baseEquipment, setBaseEquipment] = useState<Equipment[]>([]);
+  const [persistedStates, setPersistedStates] = useState<Record<string, EquipmentStatePatch>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingEquipmentImport | null>(null);
+  // Fonte dos equipamentos exibidos: uma importação retida só passa a ser a fonte ativa se for confirmada.
+  const [activeRepository, setActiveRepository] = useState<EquipmentRepository>(
+    () => repository ?? createDefaultEquipmentRepository()
+  );
+  const pendingRepositoryRef = useRef<EquipmentRepository | null>(null);
+  const [activeStateStore] = useState<EquipmentStateStore | null>(
+    () => (stateStore !== undefined ? stateStore : createDefaultEquipmentStateStore())
+  );
   const { toast } = useToast();
 
+  // Identifica a requisição mais recente para descartar respostas de carregamentos obsoletos.
+  const latestLoadIdRef = useRef(0);
+
+  /**
+   * Carrega e valida os equipamentos de um repositório.
+   * Se todos os registros forem válidos, substitui `equipmentData` e torna o repositório a fonte ativa; se houver
+   * registros inválidos, retém a importação em `pendingImport` para que o usuário revise o relatório antes de aplicá-la.
+   * Em caso de erro, mantém os dados atuais e registra a mensagem em `loadError`; o repositório passa a ser a fonte
+   * ativa, para que `reloadEquipment` tente novamente.
+   * @param {EquipmentRepository} source O repositório a ser carregado.
+   */
+  const loadFrom = useCallback(async (source: EquipmentRepository) => {
+    const loadId = ++latestLoadIdRef.current;
+    setIsLoading(true);
+    setLoadError(null);
+    setPendingImport(null);
+    pendingRepositoryRef.current = null;
+    try {
+      const { records, lines } = await source.loadEquipment();
+      if (loadId !== latestLoadIdRef.current) return;
+      const validation = validateEquipmentRecords(records, lines);
+      if (validation.issues.length === 0) {
+        setBaseEquipment(validation.validEquipment);
+        setActiveRepository(source);
+      } else {
+        pendingRepositoryRef.current = source;
+        setPendingImport({ sourceLabel: source.sourceLabel, validation });
+      }
+    } catch (error) {
+      if (loadId !== latestLoadIdRef.current) return;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[EquipmentDataManager] Falha ao carregar equipamentos de ${source.sourceLabel}:`, error);
+      setLoadError(message);
+      setActiveRepository(source);
+    } finally {
+      if (loadId === latestLoadIdRef.current) setIsLoading(false);
+    }
+  }, []);
+
+  // Carga inicial; as trocas de fonte seguintes passam por `loadFromRepository`. Um carregamento iniciado antes
+  // (e.g., o do terminal escolhido pelo link ou pelo localStorage na montagem) prevalece: a fonte inicial não é carregada.
+  useEffect(() => {
+    if (latestLoadIdRef.current !== 0) return;
+    loadFrom(activeRepository);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loadFrom]); // Apenas a fonte inicial; as seguintes chegam por `loadFromRepository`
+
+  // Observa os estados persistidos do terminal; o Firestore também notifica as gravações locais, antes mesmo da confirmação do servidor.
+  // Os estados do terminal anterior são descartados na troca, pois as TAGs podem se repetir entre terminais.
+  useEffect(() => {
+    if (!activeStateStore) return;
+    setPersistedStates({});
+    return activeStateStore.subscribe(
+      siteId,
+      states => setPersistedStates(states),
+      error => {
+        console.error('[EquipmentDataManager] Falha ao sincronizar estados dos equipamentos:', error);
+        toast({ title: "Sincronização Indisponível", description: `Não foi possível sincronizar os estados dos equipamentos: ${error.message}`, variant: "destructive" });
+      }
+    );
+  }, [activeStateStore, siteId, toast]);
+
+  /**
+   * Lista de equipamentos com os estados persistidos aplicados. Registros persistidos de TAGs
+   * que não existem na fonte de dados atual são ignorados.
+   */
+  const equipmentData = useMemo(
+    () => baseEquipment.map(equip => {
+      const patch = persistedStates[equip.tag];
+      return patch ? applyEquipmentStatePatch(equip, patch) : equip;
+    }),
+    [baseEquipment, persistedStates]
+  );
+
+  /**
+   * Aplica uma alteração de estado/produto a um equipamento. Com um armazenamento configurado, a alteração
+   * é gravada nele e chega a `equipmentData` pelo listener; sem armazenamento, é aplicada apenas em memória.
+   * @param {string} equipmentTag A tag do equipamento.
+   * @param {EquipmentStatePatch} patch Os campos alterados.
+   */
+  const applyStatePatch = useCallback((equipmentTag: string, patch: EquipmentStatePatch) => {
+    if (!activeStateStore) {
+      setBaseEquipment(prevData =>
+        prevData.map(equip => (equip.tag === equipmentTag ? applyEquipmentStatePatch(equip, patch) : equip))
+      );
+      return;
+    }
+    activeStateStore.saveState(siteId, equipmentTag, patch).catch(error => {
+      console.error(`[EquipmentDataManager] Falha ao salvar o estado de ${equipmentTag}:`, error);
+      toast({ title: "Falha ao Salvar", description: `A alteração de ${equipmentTag} não foi salva: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+    });
+  }, [activeStateStore, siteId, toast]);
+
+  /**
+   * Informa uma alteração a `onStateChange`, se o valor de fato mudou.
+   * @param {Equipment | undefined} equip O equipamento antes da alteração.
+   * @param {EquipmentStateChange['field']} field O campo alterado.
+   * @param {string} newValue O novo valor.
+   * @param {string} [reason] A justificativa informada pelo operador.
+   */
+  const reportStateChange = useCallback((equip: Equipment | undefined, field: EquipmentStateChange['field'], newValue: string, reason?: string) => {
+    if (!equip || !onStateChange) return;
+    const oldValue = equip[field] ?? null;
+    if (oldValue === newValue) return;
+    onStateChange({ equipment: equip, field, oldValue, newValue, reason: reason?.trim() || undefined });
+  }, [onStateChange]);
+
+  /**
+   * Carrega os equipamentos de outra fonte de dados, que passa a ser a ativa quando seus equipamentos são aplicados.
+   * @param {EquipmentRepository} newRepository O novo repositório.
+   * @param {{ clearCurrent?: boolean }} [options] Com `clearCurrent`, descarta os equipamentos atuais antes do carregamento
+   *        (o novo repositório passa a ser a fonte ativa imediatamente, já que não há dados anteriores a manter).
+   */
+  const loadFromRepository = useCallback((newRepository: EquipmentRepository, options?: { clearCurrent?: boolean }) => {
+    if (options?.clearCurrent) {
+      setBaseEquipment([]);
+      setActiveRepository(newRepository);
+    }
+    loadFrom(newRepository);
+  }, [loadFrom]);
+
+  /**
+   * Recarrega os equipamentos da fonte de dados atual.
+   */
+  const reloadEquipment = useCallback(() => loadFrom(activeRepository), [activeRepository, loadFrom]);
+
+  /**
+   * Aplica os registros válidos da importação pendente, descartando os inválidos.
+   */
+  const confirmPendingImport = useCallback(() => {
+    if (!pendingImport) return;
+    const { validEquipment, issues } = pendingImport.validation;
+    setBaseEquipment(validEquipment);
+    if (pendingRepositoryRef.current) setActiveRepository(pendingRepositoryRef.current);
+    pendingRepositoryRef.current = null;
+    setPendingImport(null);
+    toast({ title: "Importação Concluída", description: `${validEquipment.length} equipamento(s) importado(s); ${issues.length} registro(s) inválido(s) ignorado(s).` });
+  }, [pendingImport, toast]);
+
+  /**
+   * Descarta a importação pendente, mantendo os equipamentos atuais na cena e a fonte de onde eles vieram.
+   */
+  const discardPendingImport = useCallback(() => {
+    pendingRepositoryRef.current = null;
+    setPendingImport(null);
+  }, []);
+
   /**
    * Manipula a alteração do estado operacional de um equipamento.
-   * Atualiza `equipmentData` e exibe um toast de confirmação.
+   * Recusa transições não permitidas pelo modelo de estados do tipo (ou sem a justificativa exigida);
+   * caso contrário, informa a alteração, persiste-a (quando houver armazenamento) e exibe um toast de confirmação.
    * @param {string} equipmentTag - A tag do equipamento a ser modificado.
    * @param {string} newState - O novo estado operacional.
+   * @param {string} [reason] - A justificativa do operador, exigida por alguns estados.
    */
-  const handleOperationalStateChange = useCallback((equipmentTag: string, newState: string) => {
-    setEquipmentData(prevData =>
-      prevData.map(equip =>
-        equip.tag === equipmentTag ? { ...equip, operationalState: newState } : equip
-      )
-    );
+  const handleOperationalStateChange = useCallback((equipmentTag: string, newState: string, reason?: string) => {
     const equip = equipmentData.find(e => e.tag === equipmentTag);
-    toast({ title: "Estado Atualizado", description: `Estado de ${equip?.name || 'Equipamento'} alterado para ${newState}.` });
-  }, [equipmentData, toast]);
+    if (!equip) return;
+    const refusal = checkStateTransition(equip, newState, reason);
+    if (refusal) {
+      toast({ title: "Alteração Não Permitida", description: `${equip.name}: ${refusal}.`, variant: "destructive" });
+      return;
+    }
+    reportStateChange(equip, 'operationalState', newState, reason);
+    applyStatePatch(equipmentTag, { operationalState: newState });
+    toast({ title: "Estado Atualizado", description: `Estado de ${equip.name} alterado para ${getOperationalStateLabel(equip.type, newState)}.` });
+  }, [applyStatePatch, reportStateChange, equipmentData, toast]);
 
   /**
    * Manipula a alteração do produto de um equipamento.
-   * Atualiza `equipmentData` e exibe um toast de confirmação.
+   * Informa a alteração, persiste-a (quando houver armazenamento) e exibe um toast de confirmação.
    * @param {string} equipmentTag - A tag do equipamento a ser modificado.
    * @param {string} newProduct - O novo produto.
    */
   const handleProductChange = useCallback((equipmentTag: string, newProduct: string) => {
-    setEquipmentData(prevData =>
-      prevData.map(equip =>
-        equip.tag === equipmentTag ? { ...equip, product: newProduct } : equip
-      )
-    );
     const equip = equipmentData.find(e => e.tag === equipmentTag);
+    reportStateChange(equip, 'product', newProduct);
+    applyStatePatch(equipmentTag, { product: newProduct });
     toast({ title: "Produto Atualizado", description: `Produto de ${equip?.name || 'Equipamento'} alterado para ${newProduct}.` });
-  }, [equipmentData, toast]);
+  }, [applyStatePatch, reportStateChange, equipmentData, toast]);
+
+  /**
+   * Manipula a alteração de um atributo customizado de um equipamento.
+   * Recusa atributos fora do schema do tipo e valores do tipo errado; caso contrário, persiste o mapa
+   * de atributos atualizado (quando houver armazenamento) e exibe um toast de confirmação.
+   * @param {string} equipmentTag - A tag do equipamento a ser modificado.
+   * @param {string} key - A chave do atributo.
+   * @param {AttributeValue | null} value - O novo valor, ou null para remover o atributo.
+   */
+  const handleAttributeChange = useCallback((equipmentTag: string, key: string, value: AttributeValue | null) => {
+    const equip = equipmentData.find(e => e.tag === equipmentTag);
+    if (!equip) return;
+    const definition = getAttributeDefinitions(equip.type).find(candidate => candidate.key === key);
+    const refusal = definition
+      ? (value === null ? null : checkAttributeValue(definition, value))
+      : `o atributo "${key}" não existe para ${equip.type}`;
+    if (!definition || refusal) {
+      toast({ title: "Alteração Não Permitida", description: `${equip.name}: ${refusal}.`, variant: "destructive" });
+      return;
+    }
+    const previousValue = equip.attributes?.[key];
+    if (previousValue === value || (previousValue === undefined && value === null)) return;
+    // Só o atributo alterado é gravado. Voltar ao valor da fonte de dados descarta o valor persistido.
+    const sourceValue = baseEquipment.find(e => e.tag === equipmentTag)?.attributes?.[key] ?? null;
+    applyStatePatch(equipmentTag, { attributes: { [key]: value === sourceValue ? undefined : value } });
+    toast({
+      title: "Atributo Atualizado",
+      description: value === null
+        ? `${definition.label} de ${equip.name} removido.`
+        : `${definition.label} de ${equip.name} alterado para ${formatAttributeValue(definition, value)}.`,
+    });
+  }, [applyStatePatch, baseEquipment, equipmentData, toast]);
 
   return {
     equipmentData,
+    isLoading,
+    loadError,
+    dataSourceLabel: activeRepository.sourceLabel,
+    isStatePersisted: activeStateStore !== null,
+    loadFromRepository,
+    reloadEquipment,
+    pendingImport,
+    confirmPendingImport,
+    discardPendingImport,
     handleOperationalStateChange,
     handleProductChange,
+    handleAttributeChange,
   };
 }
-
-    
\ No newline at end of file
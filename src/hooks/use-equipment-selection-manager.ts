@@ -7,6 +7,7 @@
  * - Manter o estado do equipamento sob o cursor (`hoveredEquipmentTag`).
  * - Fornecer funções para manipular a seleção via clique (única/múltipla) e hover.
  * - Fornecer uma função para seleção em lote (usada para focar em sistemas).
+ * - Fornecer uma função para restaurar uma seleção salva, fora do histórico de comandos.
  * - Integrar as ações de seleção com o sistema de histórico de comandos (`useCommandHistory`).
  * - Utilizar `useToast` para fornecer feedback ao usuário sobre as operações de seleção.
  */
@@ -35,6 +36,7 @@ interface UseEquipmentSelectionManagerProps {
  * @property {(tag: string | null, isMultiSelectModifierPressed: boolean) => void} handleEquipmentClick - Manipula o clique em um equipamento para seleção.
  * @property {(tag: string | null) => void} handleSetHoveredEquipmentTag - Define o equipamento sob o cursor.
  * @property {(tagsToSelect: string[], operationDescription?: string) => void} selectTagsBatch - Seleciona um lote de equipamentos programaticamente.
+ * @property {(tags: string[]) => void} restoreSelection - Substitui a seleção por uma seleção salva, sem registrar no histórico nem notificar.
  */
 export interface UseEquipmentSelectionManagerReturn {
   selectedEquipmentTags: string[];
@@ -42,6 +44,7 @@ export interface UseEquipmentSelectionManagerReturn {
   handleEquipmentClick: (tag: string | null, isMultiSelectModifierPressed: boolean) => void;
   handleSetHoveredEquipmentTag: (tag: string | null) => void;
   selectTagsBatch: (tagsToSelect: string[], operationDescription?: string) => void;
+  restoreSelection: (tags: string[]) => void;
 }
 
 /**
@@ -196,6 +199,13 @@ export function useEquipmentSelectionManager({
     executeCommand(command);
   }, [selectedEquipmentTags, executeCommand, toast]);
 
+  /**
+   * Substitui a seleção por uma seleção salva (e.g., ao restaurar um snapshot do espaço de trabalho).
+   * @param {string[]} tags - As tags a selecionar.
+   */
+  const restoreSelection = useCallback((tags: string[]) => {
+    setSelectedEquipmentTags([...new Set(tags)].sort());
+  }, []);
 
   return {
     selectedEquipmentTags,
@@ -203,5 +213,6 @@ export function useEquipmentSelectionManager({
     handleEquipmentClick,
     handleSetHoveredEquipmentTag,
     selectTagsBatch,
+    restoreSelection,
   };
 }
@@ -4,8 +4,8 @@
  *
  * Responsabilidades:
  * - Manter os estados para o termo de busca textual (`searchTerm`).
- * - Manter os estados para os filtros de propriedades selecionadas (`selectedSistema`, `selectedArea`).
- * - Derivar as listas de opções únicas disponíveis para os filtros de Sistema e Área.
+ * - Manter os estados para os filtros de propriedades selecionadas (`selectedSistema`, `selectedArea`, `attributeFilter`).
+ * - Derivar as listas de opções únicas disponíveis para os filtros de Sistema, Área e Atributo.
  * - Calcular a lista de equipamentos filtrados (`filteredEquipment`) com base nos critérios atuais,
  *   utilizando a função `getFilteredEquipment` do `equipment-filter.ts`.
  */
@@ -14,6 +14,12 @@
 import { useState, useMemo, type Dispatch, type SetStateAction } from 'react';
 import type { Equipment } from '@/lib/types';
 import { getFilteredEquipment, type EquipmentFilterCriteria } from '@/core/logic/equipment-filter';
+import {
+  getAttributeFilterValues,
+  getAvailableAttributes,
+  type AttributeDefinition,
+  type AttributeFilter,
+} from '@/core/logic/equipment-attributes';
 
 /**
  * Props para o hook useFilterManager.
@@ -35,6 +41,10 @@ interface UseFilterManagerProps {
  * @property {Dispatch<SetStateAction<string>>} setSelectedArea - Função para definir a área selecionada.
  * @property {string[]} availableSistemas - Lista de sistemas únicos disponíveis para seleção, incluindo "All".
  * @property {string[]} availableAreas - Lista de áreas únicas disponíveis para seleção, incluindo "All".
+ * @property {AttributeFilter | null} attributeFilter - O filtro por atributo customizado (ou null).
+ * @property {Dispatch<SetStateAction<AttributeFilter | null>>} setAttributeFilter - Função para definir o filtro por atributo.
+ * @property {AttributeDefinition[]} availableAttributes - Atributos preenchidos em algum equipamento (opções do filtro e do modo de cor).
+ * @property {string[]} availableAttributeValues - Valores distintos do atributo filtrado (vazio sem filtro por atributo).
  * @property {Equipment[]} filteredEquipment - A lista de equipamentos após a aplicação dos filtros.
  */
 export interface UseFilterManagerReturn {
@@ -46,6 +56,10 @@ export interface UseFilterManagerReturn {
   setSelectedArea: Dispatch<SetStateAction<string>>;
   availableSistemas: string[];
   availableAreas: string[];
+  attributeFilter: AttributeFilter | null;
+  setAttributeFilter: Dispatch<SetStateAction<AttributeFilter | null>>;
+  availableAttributes: AttributeDefinition[];
+  availableAttributeValues: string[];
   filteredEquipment: Equipment[];
 }
 
@@ -60,6 +74,7 @@ export function useFilterManager({ allEquipment }: UseFilterManagerProps): UseFi
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedSistema, setSelectedSistema] = useState('All');
   const [selectedArea, setSelectedArea] = useState('All');
+  const [attributeFilter, setAttributeFilter] = useState<AttributeFilter | null>(null);
 
   /** Lista de sistemas únicos disponíveis, ordenada e com "All" no início. */
   const availableSistemas = useMemo(() => {
@@ -79,6 +94,15 @@ export function useFilterManager({ allEquipment }: UseFilterManagerProps): UseFi
     return Array.from(areas).sort((a, b) => (a === 'All' ? -1 : b === 'All' ? 1 : a.localeCompare(b)));
   }, [allEquipment]);
 
+  /** Atributos customizados preenchidos em algum equipamento. */
+  const availableAttributes = useMemo(() => getAvailableAttributes(allEquipment), [allEquipment]);
+
+  /** Valores distintos do atributo filtrado. */
+  const availableAttributeValues = useMemo(
+    () => (attributeFilter ? getAttributeFilterValues(allEquipment, attributeFilter.key) : []),
+    [allEquipment, attributeFilter]
+  );
+
   /**
    * Lista de equipamentos filtrada com base nos critérios atuais.
    * Utiliza a função `getFilteredEquipment` para aplicar a lógica de filtragem combinada.
@@ -88,9 +112,10 @@ export function useFilterManager({ allEquipment }: UseFilterManagerProps): UseFi
       searchTerm,
       selectedSistema,
       selectedArea,
+      attributeFilter,
     };
     return getFilteredEquipment(Array.isArray(allEquipment) ? allEquipment : [], criteria);
-  }, [allEquipment, searchTerm, selectedSistema, selectedArea]);
+  }, [allEquipment, searchTerm, selectedSistema, selectedArea, attributeFilter]);
 
   return {
     searchTerm,
@@ -101,6 +126,10 @@ export function useFilterManager({ allEquipment }: UseFilterManagerProps): UseFi
     setSelectedArea,
     availableSistemas,
     availableAreas,
+    attributeFilter,
+    setAttributeFilter,
+    availableAttributes,
+    availableAttributeValues,
     filteredEquipment,
   };
 }
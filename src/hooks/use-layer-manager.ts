@@ -7,12 +7,15 @@
  * - Fornecer uma função (`handleToggleLayer`) para alternar a visibilidade de uma camada específica.
  * - Integrar a alternância de visibilidade com o sistema de histórico de comandos (`useCommandHistory`)
  *   para permitir undo/redo.
+ * - Fornecer uma função (`restoreLayerVisibility`) para aplicar a visibilidade salva em um snapshot do espaço de trabalho.
+ * - Fornecer uma função (`replaceLayers`) para substituir a lista de camadas (e.g., pelas de outro terminal).
  */
 "use client";
 
 import { useState, useCallback } from 'react';
 import type { Layer, Command } from '@/lib/types';
 import { initialLayers } from '@/core/data/initial-data';
+import { applyLayerVisibility } from '@/core/logic/workspace-snapshot';
 
 /**
  * Props para o hook useLayerManager.
@@ -28,10 +31,14 @@ interface UseLayerManagerProps {
  * @interface UseLayerManagerReturn
  * @property {Layer[]} layers - A lista atual de camadas e seus estados de visibilidade.
  * @property {(layerId: string) => void} handleToggleLayer - Alterna a visibilidade de uma camada específica, registrando a ação no histórico.
+ * @property {(layerVisibility: Record<string, boolean>) => void} restoreLayerVisibility - Aplica a visibilidade salva (pelo id da camada), sem registrar no histórico.
+ * @property {(layers: Layer[]) => void} replaceLayers - Substitui a lista de camadas, sem registrar no histórico.
  */
 export interface UseLayerManagerReturn {
   layers: Layer[];
   handleToggleLayer: (layerId: string) => void;
+  restoreLayerVisibility: (layerVisibility: Record<string, boolean>) => void;
+  replaceLayers: (layers: Layer[]) => void;
 }
 
 /**
@@ -76,7 +83,23 @@ export function useLayerManager({ executeCommand }: UseLayerManagerProps): UseLa
     executeCommand(command);
   }, [layers, executeCommand]);
 
-  return { layers, handleToggleLayer };
+  /**
+   * Aplica a visibilidade salva às camadas (e.g., ao restaurar um snapshot do espaço de trabalho).
+   * @param {Record<string, boolean>} layerVisibility A visibilidade salva, pelo id da camada.
+   */
+  const restoreLayerVisibility = useCallback((layerVisibility: Record<string, boolean>) => {
+    setLayers(prevLayers => applyLayerVisibility(prevLayers, layerVisibility));
+  }, []);
+
+  /**
+   * Substitui a lista de camadas (e.g., ao trocar de terminal).
+   * @param {Layer[]} newLayers As novas camadas.
+   */
+  const replaceLayers = useCallback((newLayers: Layer[]) => {
+    setLayers(newLayers.map(layer => ({ ...layer })));
+  }, []);
+
+  return { layers, handleToggleLayer, restoreLayerVisibility, replaceLayers };
 }
 
     
\ No newline at end of file
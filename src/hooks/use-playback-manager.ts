@@ -0,0 +1,150 @@
+/**
+ * @fileOverview Custom hook para gerenciar a revisão histórica (time travel) do estado da planta.
+ * Enquanto a revisão está ativa, expõe os equipamentos reconstruídos no instante escolhido na linha do tempo
+ * (a cena os exibe em modo somente leitura) e permite reproduzir as alterações em velocidade ajustável.
+ */
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { AuditLogEntry, Equipment } from '@/lib/types';
+import {
+  getPlaybackMarkers,
+  getPlaybackRange,
+  reconstructEquipmentAt,
+  PLAYBACK_SPEEDS,
+  type PlaybackMarker,
+  type PlaybackRange,
+} from '@/core/logic/state-playback';
+
+/** Intervalo, em milissegundos de tempo real, entre os avanços da reprodução. */
+const PLAYBACK_TICK_MS = 100;
+
+/**
+ * Props para o hook usePlaybackManager.
+ * @interface UsePlaybackManagerProps
+ * @property {Equipment[]} equipmentData - Os equipamentos atuais (ponto de partida da reconstrução).
+ * @property {AuditLogEntry[]} auditEntries - O histórico de alterações usado na reconstrução.
+ */
+interface UsePlaybackManagerProps {
+  equipmentData: Equipment[];
+  auditEntries: AuditLogEntry[];
+}
+
+/**
+ * Retorno do hook usePlaybackManager.
+ * @interface UsePlaybackManagerReturn
+ * @property {boolean} isPlaybackActive - Indica se a revisão histórica está ativa.
+ * @property {boolean} canStartPlayback - Indica se há alterações registradas para revisar.
+ * @property {PlaybackRange | null} playbackRange - O intervalo da linha do tempo (null fora da revisão).
+ * @property {PlaybackMarker[]} markers - Os marcadores das alterações na linha do tempo.
+ * @property {number} playbackTime - O instante exibido, em milissegundos desde a época.
+ * @property {Equipment[] | null} playbackEquipment - Os equipamentos no instante exibido, ou null fora da revisão.
+ * @property {boolean} isPlaying - Indica se a reprodução está avançando.
+ * @property {number} playbackSpeed - A velocidade de reprodução (multiplicador do tempo real).
+ * @property {() => void} startPlayback - Ativa a revisão, posicionada no início da linha do tempo.
+ * @property {() => void} stopPlayback - Encerra a revisão e volta ao estado atual.
+ * @property {(time: number) => void} seek - Posiciona a linha do tempo em um instante.
+ * @property {() => void} togglePlaying - Inicia ou pausa a reprodução.
+ * @property {(speed: number) => void} setPlaybackSpeed - Altera a velocidade de reprodução.
+ */
+export interface UsePlaybackManagerReturn {
+  isPlaybackActive: boolean;
+  canStartPlayback: boolean;
+  playbackRange: PlaybackRange | null;
+  markers: PlaybackMarker[];
+  playbackTime: number;
+  playbackEquipment: Equipment[] | null;
+  isPlaying: boolean;
+  playbackSpeed: number;
+  startPlayback: () => void;
+  stopPlayback: () => void;
+  seek: (time: number) => void;
+  togglePlaying: () => void;
+  setPlaybackSpeed: (speed: number) => void;
+}
+
+/**
+ * Hook customizado para gerenciar a revisão histórica do estado da planta.
+ * @param {UsePlaybackManagerProps} props As props do hook.
+ * @returns {UsePlaybackManagerReturn} O estado da revisão e as funções de controle.
+ */
+export function usePlaybackManager({ equipmentData, auditEntries }: UsePlaybackManagerProps): UsePlaybackManagerReturn {
+  // O intervalo é fixado ao ativar a revisão, para que a linha do tempo não se mova enquanto é analisada.
+  const [playbackRange, setPlaybackRange] = useState<PlaybackRange | null>(null);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState<number>(PLAYBACK_SPEEDS[2]);
+
+  const canStartPlayback = auditEntries.length > 0;
+
+  const startPlayback = useCallback(() => {
+    const range = getPlaybackRange(auditEntries, Date.now());
+    if (!range) return;
+    setPlaybackRange(range);
+    setPlaybackTime(range.start);
+    setIsPlaying(false);
+  }, [auditEntries]);
+
+  const stopPlayback = useCallback(() => {
+    setPlaybackRange(null);
+    setIsPlaying(false);
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    setPlaybackTime(time);
+  }, []);
+
+  const togglePlaying = useCallback(() => {
+    if (!playbackRange) return;
+    // Ao iniciar no fim da linha do tempo, a reprodução recomeça do início.
+    if (!isPlaying && playbackTime >= playbackRange.end) setPlaybackTime(playbackRange.start);
+    setIsPlaying(prev => !prev);
+  }, [playbackRange, isPlaying, playbackTime]);
+
+  useEffect(() => {
+    if (!isPlaying || !playbackRange) return;
+    const intervalId = window.setInterval(() => {
+      setPlaybackTime(prev => Math.min(prev + PLAYBACK_TICK_MS * playbackSpeed, playbackRange.end));
+    }, PLAYBACK_TICK_MS);
+    return () => window.clearInterval(intervalId);
+  }, [isPlaying, playbackRange, playbackSpeed]);
+
+  useEffect(() => {
+    if (isPlaying && playbackRange && playbackTime >= playbackRange.end) setIsPlaying(false);
+  }, [isPlaying, playbackRange, playbackTime]);
+
+  const markers = useMemo(
+    () => (playbackRange ? getPlaybackMarkers(auditEntries, playbackRange) : []),
+    [auditEntries, playbackRange]
+  );
+
+  // Instante da última alteração já ocorrida: a reconstrução só muda ao cruzar um marcador, e não a cada avanço
+  // da reprodução, evitando reconstruir a cena sem necessidade.
+  const lastAppliedChangeTime = useMemo(() => {
+    if (!playbackRange) return 0;
+    let time = playbackRange.start;
+    markers.forEach(marker => { if (marker.time <= playbackTime) time = marker.time; });
+    return time;
+  }, [playbackRange, markers, playbackTime]);
+
+  const playbackEquipment = useMemo(
+    () => (playbackRange ? reconstructEquipmentAt(equipmentData, auditEntries, lastAppliedChangeTime) : null),
+    [playbackRange, equipmentData, auditEntries, lastAppliedChangeTime]
+  );
+
+  return {
+    isPlaybackActive: playbackRange !== null,
+    canStartPlayback,
+    playbackRange,
+    markers,
+    playbackTime,
+    playbackEquipment,
+    isPlaying,
+    playbackSpeed,
+    startPlayback,
+    stopPlayback,
+    seek,
+    togglePlaying,
+    setPlaybackSpeed,
+  };
+}
@@ -1,7 +1,8 @@
 
 /**
  * @fileOverview Custom hook para gerenciar o efeito de contorno (OutlinePass) na cena 3D.
- * Este hook é responsável por observar mudanças nos equipamentos selecionados e em hover,
+ * Este hook é responsável por observar mudanças nos equipamentos selecionados, em hover, nas válvulas de isolamento em destaque
+ * e nos equipamentos em alarme,
  * e atualizar o OutlinePass para destacar os objetos apropriados.
  */
 "use client";
@@ -9,22 +10,31 @@
 import type * as THREE from 'three';
 import { useEffect } from 'react';
 import type { OutlinePass } from 'three/examples/jsm/postprocessing/OutlinePass.js';
-import { updateOutlineEffect } from '@/core/three/postprocessing-utils';
+import { updateAlarmOutlineEffect, updateOutlineEffect } from '@/core/three/postprocessing-utils';
 
 /**
  * Props para o hook useSceneOutline.
  * @interface UseSceneOutlineProps
  * @property {React.RefObject<OutlinePass | null>} outlinePassRef - Ref para a instância do OutlinePass.
+ * @property {React.RefObject<OutlinePass | null>} alarmOutlinePassRef - Ref para o OutlinePass dos alarmes.
  * @property {React.RefObject<THREE.Object3D[]>} equipmentMeshesRef - Ref para o array de meshes de equipamentos na cena.
+ * @property {number} equipmentMeshesVersion - Versão dos meshes de equipamentos, incrementada a cada recriação
+ *           (o contorno é reaplicado aos novos objetos).
  * @property {string[] | undefined} selectedEquipmentTags - Array de tags dos equipamentos selecionados.
  * @property {string | null | undefined} hoveredEquipmentTag - Tag do equipamento atualmente em hover.
+ * @property {string[] | undefined} isolationValveTags - Tags das válvulas de um plano de isolamento a destacar.
+ * @property {string[] | undefined} alarmedEquipmentTags - Tags dos equipamentos com alarmes não reconhecidos.
  * @property {boolean} isSceneReady - Flag indicando se a cena 3D está pronta.
  */
 interface UseSceneOutlineProps {
   outlinePassRef: React.RefObject<OutlinePass | null>;
+  alarmOutlinePassRef: React.RefObject<OutlinePass | null>;
   equipmentMeshesRef: React.RefObject<THREE.Object3D[]>;
+  equipmentMeshesVersion: number;
   selectedEquipmentTags: string[] | undefined;
   hoveredEquipmentTag: string | null | undefined;
+  isolationValveTags: string[] | undefined;
+  alarmedEquipmentTags: string[] | undefined;
   isSceneReady: boolean;
 }
 
@@ -36,9 +46,13 @@ interface UseSceneOutlineProps {
  */
 export function useSceneOutline({
   outlinePassRef,
+  alarmOutlinePassRef,
   equipmentMeshesRef,
+  equipmentMeshesVersion,
   selectedEquipmentTags,
   hoveredEquipmentTag,
+  isolationValveTags,
+  alarmedEquipmentTags,
   isSceneReady,
 }: UseSceneOutlineProps): void {
   useEffect(() => {
@@ -51,6 +65,7 @@ export function useSceneOutline({
         // Ensure outline is off if we skip
         updateOutlineEffect(outlinePassRef.current, [], [], null);
       }
+      updateAlarmOutlineEffect(alarmOutlinePassRef.current, [], []);
       return;
     }
 
@@ -65,13 +80,25 @@ export function useSceneOutline({
       outlinePassRef.current,
       equipmentMeshesRef.current,
       effectiveSelectedTags,
-      effectiveHoveredTag
+      effectiveHoveredTag,
+      isolationValveTags ?? []
+    );
+    // Os alarmes são contornados pelo próprio OutlinePass, exceto os equipamentos já contornados acima.
+    updateAlarmOutlineEffect(
+      alarmOutlinePassRef.current,
+      equipmentMeshesRef.current,
+      alarmedEquipmentTags ?? [],
+      outlinePassRef.current.selectedObjects.map(object => object.userData.tag)
     );
   }, [
     isSceneReady,
+    equipmentMeshesVersion,
     selectedEquipmentTags,
     hoveredEquipmentTag,
+    isolationValveTags,
+    alarmedEquipmentTags,
     equipmentMeshesRef, // Depende da ref em si, não do seu .current para a dependência do hook
     outlinePassRef,   // Similarmente
+    alarmOutlinePassRef,
   ]);
 }
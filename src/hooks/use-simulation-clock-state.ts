@@ -0,0 +1,19 @@
+/**
+ * @fileOverview Custom hook para observar o estado do relógio da simulação em componentes React.
+ *
+ * Usa `useSyncExternalStore` sobre `subscribeState`, de modo que apenas os componentes que exibem o
+ * relógio (e.g., a barra de controle da simulação) renderizam novamente a cada avanço do tempo.
+ */
+"use client";
+
+import { useSyncExternalStore } from 'react';
+import type { SimulationClock, SimulationClockState } from '@/core/logic/simulation-clock';
+
+/**
+ * Hook customizado que retorna o estado atual do relógio da simulação e se mantém sincronizado com ele.
+ * @param {SimulationClock} simulationClock - O relógio observado.
+ * @returns {SimulationClockState} O estado atual do relógio.
+ */
+export function useSimulationClockState(simulationClock: SimulationClock): SimulationClockState {
+  return useSyncExternalStore(simulationClock.subscribeState, simulationClock.getState, simulationClock.getState);
+}
@@ -0,0 +1,74 @@
+/**
+ * @fileOverview Custom hook para gerenciar o terminal (site) aberto no visualizador.
+ * Mantém o terminal ativo, lembra a escolha no `localStorage` do navegador e, ao carregar a página, abre o terminal
+ * indicado no link (parâmetro `t`) ou, na falta dele, o último terminal escolhido. A cada troca, `onSiteChange`
+ * recebe o novo terminal para carregar seus equipamentos, camadas e câmera.
+ */
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { DEFAULT_SITE_ID, SITES, getSiteById, type Site } from '@/core/data/sites';
+import { getViewLinkSiteId } from '@/core/logic/view-link';
+
+/** Chave do `localStorage` onde o último terminal escolhido é lembrado. */
+const ACTIVE_SITE_STORAGE_KEY = 'terminal3d.activeSite';
+
+/**
+ * Props para o hook useSiteManager.
+ * @interface UseSiteManagerProps
+ * @property {Site[]} [sites] - Os terminais disponíveis. Padrão: `SITES`.
+ * @property {(site: Site) => void} onSiteChange - Chamado quando o terminal ativo muda (não é chamado para o terminal inicial).
+ */
+interface UseSiteManagerProps {
+  sites?: Site[];
+  onSiteChange: (site: Site) => void;
+}
+
+/**
+ * Retorno do hook useSiteManager.
+ * @interface UseSiteManagerReturn
+ * @property {Site[]} sites - Os terminais disponíveis.
+ * @property {Site} activeSite - O terminal aberto.
+ * @property {(siteId: string) => void} switchSite - Abre outro terminal. Ids desconhecidos são ignorados.
+ */
+export interface UseSiteManagerReturn {
+  sites: Site[];
+  activeSite: Site;
+  switchSite: (siteId: string) => void;
+}
+
+/**
+ * Hook customizado para gerenciar o terminal aberto.
+ * @param {UseSiteManagerProps} props As props do hook.
+ * @returns {UseSiteManagerReturn} Os terminais, o terminal ativo e a função para trocá-lo.
+ */
+export function useSiteManager({ sites = SITES, onSiteChange }: UseSiteManagerProps): UseSiteManagerReturn {
+  const [activeSiteId, setActiveSiteId] = useState(() => getSiteById(DEFAULT_SITE_ID, sites)?.id ?? sites[0].id);
+  const activeSite = getSiteById(activeSiteId, sites) ?? sites[0];
+
+  // Ref para que o efeito de montagem use sempre a versão mais recente do callback.
+  const onSiteChangeRef = useRef(onSiteChange);
+  useEffect(() => { onSiteChangeRef.current = onSiteChange; }, [onSiteChange]);
+
+  const switchSite = useCallback((siteId: string) => {
+    const site = getSiteById(siteId, sites);
+    if (!site || site.id === activeSiteId) return;
+    setActiveSiteId(site.id);
+    window.localStorage.setItem(ACTIVE_SITE_STORAGE_KEY, site.id);
+    onSiteChangeRef.current(site);
+  }, [sites, activeSiteId]);
+
+  // O link e o localStorage só existem no navegador; o terminal inicial é escolhido após a montagem
+  // para não divergir da renderização do servidor.
+  useEffect(() => {
+    const candidates = [getViewLinkSiteId(window.location.search), window.localStorage.getItem(ACTIVE_SITE_STORAGE_KEY)];
+    const initialSite = candidates.map(id => (id ? getSiteById(id, sites) : undefined)).find(Boolean);
+    if (initialSite && initialSite.id !== activeSiteId) {
+      setActiveSiteId(initialSite.id);
+      onSiteChangeRef.current(initialSite);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []); // Apenas na montagem
+
+  return { sites, activeSite, switchSite };
+}
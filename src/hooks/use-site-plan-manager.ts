@@ -0,0 +1,247 @@
+/**
+ * @fileOverview Custom hook para gerenciar a planta do terminal aberto (imagem 2D desenhada sobre o chão).
+ * A cada troca de terminal, carrega a planta gravada no navegador (`SitePlanStore`) ou, se não houver, a configurada
+ * no terminal (`Site.sitePlan`). Permite enviar outra imagem, ajustar os pontos de controle e a opacidade e remover a
+ * planta; cada alteração é gravada com o terminal, imagem inclusive, apenas neste navegador. Para que outros operadores
+ * vejam a planta, `copySitePlanConfig` copia a configuração a incluir no terminal (`Site.sitePlan`).
+ */
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Site } from '@/core/data/sites';
+import {
+  createDefaultSitePlanStore,
+  decodeSitePlanImage,
+  fetchSitePlanImage,
+  isSitePlanImageFile,
+  toSitePlanConfig,
+  DEFAULT_SITE_PLAN_OPACITY,
+  type SitePlanStore,
+  type StoredSitePlan,
+} from '@/core/data/site-plan-store';
+import { fitSitePlanTransform, getSitePlanFitError, type SitePlanControlPoint } from '@/core/logic/site-plan';
+import type { SitePlanOverlay } from '@/core/three/site-plan-overlay-utils';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Props para o hook useSitePlanManager.
+ * @interface UseSitePlanManagerProps
+ * @property {Site} site - O terminal aberto.
+ * @property {SitePlanStore | null} [store] - Armazenamento das plantas.
+ *           Padrão: `createDefaultSitePlanStore()`; `null` mantém a planta apenas em memória.
+ */
+interface UseSitePlanManagerProps {
+  site: Site;
+  store?: SitePlanStore | null;
+}
+
+/**
+ * Retorno do hook useSitePlanManager.
+ * @interface UseSitePlanManagerReturn
+ * @property {SitePlanOverlay | null} sitePlan - A planta pronta para ser desenhada, ou null se não houver planta.
+ * @property {string | null} sitePlanImageName - Nome do arquivo (ou URL) da imagem da planta.
+ * @property {{ width: number; height: number } | null} sitePlanImageSize - Dimensões da imagem, em pixels.
+ * @property {SitePlanControlPoint[]} sitePlanControlPoints - Os pontos de controle atuais.
+ * @property {number} sitePlanOpacity - A opacidade atual, de 0 a 1.
+ * @property {number | null} sitePlanFitError - Erro médio quadrático dos pontos de controle, em metros.
+ * @property {boolean} isSitePlanLoading - Indica se uma planta está sendo carregada.
+ * @property {boolean} isSitePlanPersisted - Indica se a planta é gravada no navegador (IndexedDB).
+ * @property {(file: File) => Promise<void>} uploadSitePlanImage - Usa uma imagem PNG/JPG enviada pelo usuário como planta.
+ * @property {(points: SitePlanControlPoint[]) => void} updateSitePlanControlPoints - Substitui os pontos de controle.
+ * @property {(opacity: number) => void} updateSitePlanOpacity - Altera a opacidade.
+ * @property {() => void} clearSitePlan - Remove a planta do terminal.
+ * @property {() => void} copySitePlanConfig - Copia para a área de transferência a configuração `sitePlan` da planta atual.
+ */
+export interface UseSitePlanManagerReturn {
+  sitePlan: SitePlanOverlay | null;
+  sitePlanImageName: string | null;
+  sitePlanImageSize: { width: number; height: number } | null;
+  sitePlanControlPoints: SitePlanControlPoint[];
+  sitePlanOpacity: number;
+  sitePlanFitError: number | null;
+  isSitePlanLoading: boolean;
+  isSitePlanPersisted: boolean;
+  uploadSitePlanImage: (file: File) => Promise<void>;
+  updateSitePlanControlPoints: (points: SitePlanControlPoint[]) => void;
+  updateSitePlanOpacity: (opacity: number) => void;
+  clearSitePlan: () => void;
+  copySitePlanConfig: () => void;
+}
+
+/**
+ * Pontos de controle iniciais de uma imagem nova: os cantos superiores da imagem nos cantos norte do terminal,
+ * o que estica a planta na largura do terminal, com o norte para cima.
+ * @param {Site} site O terminal.
+ * @param {number} width A largura da imagem, em pixels.
+ * @returns {SitePlanControlPoint[]} Os pontos de controle.
+ */
+function getDefaultControlPoints(site: Site, width: number): SitePlanControlPoint[] {
+  return [
+    { pixelX: 0, pixelY: 0, sceneX: site.bounds.minX, sceneZ: site.bounds.minZ },
+    { pixelX: width, pixelY: 0, sceneX: site.bounds.maxX, sceneZ: site.bounds.minZ },
+  ];
+}
+
+/**
+ * Hook customizado para gerenciar a planta do terminal.
+ * @param {UseSitePlanManagerProps} props As props do hook.
+ * @returns {UseSitePlanManagerReturn} A planta atual e as funções para alterá-la.
+ */
+export function useSitePlanManager({ site, store }: UseSitePlanManagerProps): UseSitePlanManagerReturn {
+  const [plan, setPlan] = useState<StoredSitePlan | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [isSitePlanLoading, setIsSitePlanLoading] = useState(false);
+  // O IndexedDB só existe no navegador; o armazenamento é escolhido após a montagem (undefined até lá).
+  const [activeStore, setActiveStore] = useState<SitePlanStore | null | undefined>(undefined);
+  const { toast } = useToast();
+
+  // Identifica o carregamento mais recente, para descartar resultados obsoletos (e.g., após trocar de terminal).
+  const latestLoadIdRef = useRef(0);
+
+  useEffect(() => {
+    setActiveStore(store !== undefined ? store : createDefaultSitePlanStore());
+  }, [store]);
+
+  // A cada troca de terminal, a planta anterior é descartada e a do novo terminal (gravada ou configurada) é carregada.
+  useEffect(() => {
+    if (activeStore === undefined) return;
+    const loadId = ++latestLoadIdRef.current;
+    setPlan(null);
+    setImage(null);
+
+    const loadPlan = async (): Promise<StoredSitePlan | null> => {
+      const stored = await activeStore?.loadSitePlan(site.id);
+      if (stored) return stored;
+      if (!site.sitePlan) return null;
+      const { url, controlPoints, opacity } = site.sitePlan;
+      return { siteId: site.id, image: await fetchSitePlanImage(url), imageName: url, controlPoints, opacity: opacity ?? DEFAULT_SITE_PLAN_OPACITY };
+    };
+
+    setIsSitePlanLoading(true);
+    loadPlan()
+      .then(async loadedPlan => {
+        if (!loadedPlan) return;
+        const decodedImage = await decodeSitePlanImage(loadedPlan.image);
+        if (loadId !== latestLoadIdRef.current) return;
+        setPlan(loadedPlan);
+        setImage(decodedImage);
+      })
+      .catch(error => {
+        if (loadId !== latestLoadIdRef.current) return;
+        console.error(`[SitePlanManager] Falha ao carregar a planta do terminal "${site.id}":`, error);
+        toast({ title: "Planta Indisponível", description: `Não foi possível carregar a planta do terminal: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+      })
+      .finally(() => {
+        if (loadId === latestLoadIdRef.current) setIsSitePlanLoading(false);
+      });
+  }, [site, activeStore, toast]);
+
+  /**
+   * Torna uma planta a atual e a grava no navegador.
+   * @param {StoredSitePlan} nextPlan A planta.
+   */
+  const storePlan = useCallback((nextPlan: StoredSitePlan) => {
+    setPlan(nextPlan);
+    activeStore?.saveSitePlan(nextPlan).catch(error => {
+      console.error(`[SitePlanManager] Falha ao gravar a planta do terminal "${nextPlan.siteId}":`, error);
+      toast({ title: "Falha ao Salvar", description: `A planta não foi gravada no navegador: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+    });
+  }, [activeStore, toast]);
+
+  const uploadSitePlanImage = useCallback(async (file: File) => {
+    if (!isSitePlanImageFile(file)) {
+      toast({ title: "Formato Não Suportado", description: `"${file.name}" não é uma imagem PNG ou JPG.`, variant: "destructive" });
+      return;
+    }
+    const loadId = ++latestLoadIdRef.current;
+    setIsSitePlanLoading(true);
+    try {
+      const decodedImage = await decodeSitePlanImage(file);
+      if (loadId !== latestLoadIdRef.current) return;
+      // Os pontos de controle da planta anterior são mantidos quando a imagem nova tem o mesmo tamanho (e.g., uma revisão do desenho).
+      const keepsControlPoints = image !== null && plan !== null
+        && image.naturalWidth === decodedImage.naturalWidth && image.naturalHeight === decodedImage.naturalHeight;
+      storePlan({
+        siteId: site.id,
+        image: file,
+        imageName: file.name,
+        controlPoints: keepsControlPoints ? plan.controlPoints : getDefaultControlPoints(site, decodedImage.naturalWidth),
+        opacity: plan?.opacity ?? DEFAULT_SITE_PLAN_OPACITY,
+      });
+      setImage(decodedImage);
+    } catch (error) {
+      if (loadId !== latestLoadIdRef.current) return;
+      toast({ title: "Falha ao Carregar a Planta", description: `Arquivo "${file.name}": ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+    } finally {
+      if (loadId === latestLoadIdRef.current) setIsSitePlanLoading(false);
+    }
+  }, [site, plan, image, storePlan, toast]);
+
+  const updateSitePlanControlPoints = useCallback((points: SitePlanControlPoint[]) => {
+    if (!plan) return;
+    try {
+      fitSitePlanTransform(points);
+    } catch (error) {
+      toast({ title: "Pontos de Controle Inválidos", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+      return;
+    }
+    storePlan({ ...plan, controlPoints: points });
+  }, [plan, storePlan, toast]);
+
+  const updateSitePlanOpacity = useCallback((opacity: number) => {
+    if (!plan) return;
+    storePlan({ ...plan, opacity: Math.min(1, Math.max(0, opacity)) });
+  }, [plan, storePlan]);
+
+  const clearSitePlan = useCallback(() => {
+    latestLoadIdRef.current++;
+    setPlan(null);
+    setImage(null);
+    setIsSitePlanLoading(false);
+    activeStore?.deleteSitePlan(site.id).catch(error => {
+      console.error(`[SitePlanManager] Falha ao excluir a planta do terminal "${site.id}":`, error);
+      toast({ title: "Falha ao Excluir", description: `A planta não foi excluída do navegador: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+    });
+  }, [site, activeStore, toast]);
+
+  const copySitePlanConfig = useCallback(() => {
+    if (!plan) return;
+    const config = JSON.stringify(toSitePlanConfig(plan), null, 2);
+    navigator.clipboard.writeText(`sitePlan: ${config},`).then(
+      () => toast({ title: "Configuração Copiada", description: `Inclua-a no terminal "${site.id}" em src/core/data/sites.ts e copie a imagem para public/ para que todos vejam a planta.` }),
+      error => toast({ title: "Falha ao Copiar", description: `Não foi possível copiar a configuração: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" })
+    );
+  }, [plan, site.id, toast]);
+
+  const controlPoints = plan?.controlPoints;
+  const transform = useMemo(() => {
+    if (!controlPoints) return null;
+    try {
+      return fitSitePlanTransform(controlPoints);
+    } catch {
+      return null; // Pontos gravados inválidos: a planta não é desenhada até que sejam corrigidos.
+    }
+  }, [controlPoints]);
+
+  const opacity = plan?.opacity ?? DEFAULT_SITE_PLAN_OPACITY;
+  const sitePlan = useMemo(
+    () => (image && transform ? { image, transform, opacity } : null),
+    [image, transform, opacity]
+  );
+
+  return {
+    sitePlan,
+    sitePlanImageName: plan?.imageName ?? null,
+    sitePlanImageSize: image ? { width: image.naturalWidth, height: image.naturalHeight } : null,
+    sitePlanControlPoints: controlPoints ?? [],
+    sitePlanOpacity: opacity,
+    sitePlanFitError: transform && controlPoints ? getSitePlanFitError(transform, controlPoints) : null,
+    isSitePlanLoading,
+    isSitePlanPersisted: activeStore !== null && activeStore !== undefined,
+    uploadSitePlanImage,
+    updateSitePlanControlPoints,
+    updateSitePlanOpacity,
+    clearSitePlan,
+    copySitePlanConfig,
+  };
+}
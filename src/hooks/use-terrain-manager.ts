@@ -0,0 +1,169 @@
+/**
+ * @fileOverview Custom hook para gerenciar o relevo do terreno do terminal aberto.
+ * Carrega o terreno configurado no terminal (`Site.terrain`) a cada troca de terminal, permite carregar um mapa de
+ * altura ou uma grade de elevações enviados pelo usuário, ajustar a extensão e a escala vertical e voltar ao plano
+ * sem relevo. Também guarda a opção de assentar os equipamentos sobre o terreno.
+ */
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Site } from '@/core/data/sites';
+import { getTerrainFileFormat, loadTerrainGrid, readTerrainGridFile } from '@/core/data/terrain-source';
+import {
+  createTerrainSurface,
+  type ElevationGrid,
+  type TerrainSettings,
+  type TerrainSurface,
+} from '@/core/logic/terrain-elevation';
+import { useToast } from '@/hooks/use-toast';
+
+/** Escala vertical inicial dos mapas de altura enviados sem configuração no terminal: o branco fica a 10 m. */
+const DEFAULT_HEIGHTMAP_VERTICAL_SCALE = 10;
+
+/**
+ * Props para o hook useTerrainManager.
+ * @interface UseTerrainManagerProps
+ * @property {Site} site - O terminal aberto.
+ */
+interface UseTerrainManagerProps {
+  site: Site;
+}
+
+/**
+ * Retorno do hook useTerrainManager.
+ * @interface UseTerrainManagerReturn
+ * @property {TerrainSurface | null} terrain - A superfície do terreno, ou null se o chão for plano.
+ * @property {string | null} terrainLabel - Origem do terreno atual (URL ou nome do arquivo), ou null.
+ * @property {TerrainSettings} terrainSettings - A extensão, a escala vertical e a cota de base do terreno.
+ * @property {boolean} isTerrainLoading - Indica se um terreno está sendo carregado.
+ * @property {string | null} terrainError - Mensagem do último erro de carregamento, ou null.
+ * @property {boolean} snapEquipment - Se os equipamentos são assentados sobre o terreno.
+ * @property {(snap: boolean) => void} setSnapEquipment - Liga ou desliga o assentamento dos equipamentos.
+ * @property {(file: File) => void} loadTerrainFile - Carrega um mapa de altura (imagem) ou uma grade (CSV/ASCII Grid) enviado pelo usuário.
+ * @property {(settings: Pick<TerrainSettings, 'extent' | 'verticalScale'>) => void} updateTerrainSettings - Altera a extensão e a escala vertical.
+ * @property {() => void} clearTerrain - Volta ao chão plano.
+ */
+export interface UseTerrainManagerReturn {
+  terrain: TerrainSurface | null;
+  terrainLabel: string | null;
+  terrainSettings: TerrainSettings;
+  isTerrainLoading: boolean;
+  terrainError: string | null;
+  snapEquipment: boolean;
+  setSnapEquipment: (snap: boolean) => void;
+  loadTerrainFile: (file: File) => void;
+  updateTerrainSettings: (settings: Pick<TerrainSettings, 'extent' | 'verticalScale'>) => void;
+  clearTerrain: () => void;
+}
+
+/**
+ * Obtém a configuração inicial do terreno de um terminal.
+ * @param {Site} site O terminal.
+ * @returns {TerrainSettings} A extensão (padrão: os limites do terminal), a escala vertical e a cota de base.
+ */
+function getSiteTerrainSettings(site: Site): TerrainSettings {
+  return {
+    extent: site.terrain?.extent ?? site.bounds,
+    verticalScale: site.terrain?.verticalScale ?? DEFAULT_HEIGHTMAP_VERTICAL_SCALE,
+    baseElevation: site.terrain?.baseElevation ?? 0,
+  };
+}
+
+/**
+ * Hook customizado para gerenciar o relevo do terreno.
+ * @param {UseTerrainManagerProps} props As props do hook.
+ * @returns {UseTerrainManagerReturn} O terreno atual, sua configuração e as funções para alterá-lo.
+ */
+export function useTerrainManager({ site }: UseTerrainManagerProps): UseTerrainManagerReturn {
+  const [grid, setGrid] = useState<ElevationGrid | null>(null);
+  const [terrainLabel, setTerrainLabel] = useState<string | null>(null);
+  const [terrainSettings, setTerrainSettings] = useState<TerrainSettings>(() => getSiteTerrainSettings(site));
+  const [isTerrainLoading, setIsTerrainLoading] = useState(false);
+  const [terrainError, setTerrainError] = useState<string | null>(null);
+  const [snapEquipment, setSnapEquipment] = useState(() => site.terrain?.snapEquipment ?? false);
+  const { toast } = useToast();
+
+  // Identifica o carregamento mais recente, para descartar resultados obsoletos (e.g., após trocar de terminal).
+  const latestLoadIdRef = useRef(0);
+
+  /**
+   * Carrega uma grade de elevações e, se este ainda for o carregamento mais recente, a torna o terreno atual.
+   * Em caso de erro, mantém o terreno atual e registra a mensagem em `terrainError`.
+   * @param {() => Promise<ElevationGrid>} load Carrega a grade.
+   * @param {string} label A origem do terreno.
+   * @param {number} [verticalScale] A escala vertical a aplicar quando a grade estiver carregada.
+   */
+  const loadGrid = useCallback(async (load: () => Promise<ElevationGrid>, label: string, verticalScale?: number) => {
+    const loadId = ++latestLoadIdRef.current;
+    setIsTerrainLoading(true);
+    setTerrainError(null);
+    try {
+      const loadedGrid = await load();
+      if (loadId !== latestLoadIdRef.current) return;
+      setGrid(loadedGrid);
+      setTerrainLabel(label);
+      if (verticalScale !== undefined) {
+        setTerrainSettings(prev => ({ ...prev, verticalScale }));
+      }
+    } catch (error) {
+      if (loadId !== latestLoadIdRef.current) return;
+      const message = error instanceof Error ? error.message : String(error);
+      setTerrainError(message);
+      toast({ title: "Falha ao Carregar o Terreno", description: message, variant: "destructive" });
+    } finally {
+      if (loadId === latestLoadIdRef.current) setIsTerrainLoading(false);
+    }
+  }, [toast]);
+
+  // A cada troca de terminal, o terreno anterior é descartado e o do novo terminal (se houver) é carregado.
+  useEffect(() => {
+    latestLoadIdRef.current++;
+    setGrid(null);
+    setTerrainLabel(null);
+    setTerrainError(null);
+    setIsTerrainLoading(false);
+    setTerrainSettings(getSiteTerrainSettings(site));
+    setSnapEquipment(site.terrain?.snapEquipment ?? false);
+    if (site.terrain) {
+      const { url, format } = site.terrain;
+      loadGrid(() => loadTerrainGrid(url, format), url);
+    }
+  }, [site, loadGrid]);
+
+  const loadTerrainFile = useCallback((file: File) => {
+    // As grades costumam vir em metros; os mapas de altura, de 0 a 1.
+    const isGrid = getTerrainFileFormat(file) === 'grid';
+    const heightmapScale = site.terrain?.format === 'heightmap' ? site.terrain.verticalScale : DEFAULT_HEIGHTMAP_VERTICAL_SCALE;
+    loadGrid(() => readTerrainGridFile(file), file.name, isGrid ? 1 : heightmapScale);
+  }, [site, loadGrid]);
+
+  const updateTerrainSettings = useCallback((settings: Pick<TerrainSettings, 'extent' | 'verticalScale'>) => {
+    setTerrainSettings(prev => ({ ...prev, ...settings }));
+  }, []);
+
+  const clearTerrain = useCallback(() => {
+    latestLoadIdRef.current++;
+    setGrid(null);
+    setTerrainLabel(null);
+    setTerrainError(null);
+    setIsTerrainLoading(false);
+  }, []);
+
+  const terrain = useMemo(
+    () => (grid ? createTerrainSurface(grid, terrainSettings) : null),
+    [grid, terrainSettings]
+  );
+
+  return {
+    terrain,
+    terrainLabel,
+    terrainSettings,
+    isTerrainLoading,
+    terrainError,
+    snapEquipment,
+    setSnapEquipment,
+    loadTerrainFile,
+    updateTerrainSettings,
+    clearTerrain,
+  };
+}
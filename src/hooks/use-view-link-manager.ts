@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Custom hook para sincronizar a vista atual com a URL (deep link).
+ * Ao carregar a página, restaura a vista descrita na query string assim que os equipamentos estiverem disponíveis;
+ * depois disso, mantém a query string atualizada (sem criar entradas no histórico do navegador) e permite copiar o link.
+ */
+"use client";
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { CameraState } from '@/lib/types';
+import { decodeViewLink, encodeViewLink, type ViewLinkState } from '@/core/logic/view-link';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Props para o hook useViewLinkManager.
+ * @interface UseViewLinkManagerProps
+ * @property {ViewLinkState} viewState - A vista atual.
+ * @property {boolean} isReady - Indica se os dados necessários para restaurar a vista (e.g., os equipamentos) já foram carregados.
+ * @property {string[]} layerIds - Os ids das camadas existentes.
+ * @property {CameraState} defaultCamera - A câmera usada quando o link não traz uma câmera válida.
+ * @property {(state: ViewLinkState) => void} onRestore - Aplica a vista lida da URL.
+ */
+interface UseViewLinkManagerProps {
+  viewState: ViewLinkState;
+  isReady: boolean;
+  layerIds: string[];
+  defaultCamera: CameraState;
+  onRestore: (state: ViewLinkState) => void;
+}
+
+/**
+ * Retorno do hook useViewLinkManager.
+ * @interface UseViewLinkManagerReturn
+ * @property {() => void} copyViewLink - Copia para a área de transferência o link da vista atual.
+ */
+export interface UseViewLinkManagerReturn {
+  copyViewLink: () => void;
+}
+
+/**
+ * Hook customizado para sincronizar a vista atual com a URL.
+ * @param {UseViewLinkManagerProps} props As props do hook.
+ * @returns {UseViewLinkManagerReturn} A função para copiar o link da vista.
+ */
+export function useViewLinkManager({
+  viewState,
+  isReady,
+  layerIds,
+  defaultCamera,
+  onRestore,
+}: UseViewLinkManagerProps): UseViewLinkManagerReturn {
+  // A URL só passa a refletir a vista depois da restauração, para não sobrescrever o link recebido.
+  const hasRestoredRef = useRef(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isReady || hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+    const linkedState = decodeViewLink(window.location.search, { layerIds, defaultCamera });
+    if (linkedState) onRestore(linkedState);
+  }, [isReady, layerIds, defaultCamera, onRestore]);
+
+  const query = encodeViewLink(viewState);
+
+  useEffect(() => {
+    if (!hasRestoredRef.current) return;
+    const url = `${window.location.pathname}?${query}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [query]);
+
+  const copyViewLink = useCallback(() => {
+    const link = `${window.location.origin}${window.location.pathname}?${query}`;
+    navigator.clipboard.writeText(link).then(
+      () => toast({ title: "Link Copiado", description: "O link da vista atual foi copiado para a área de transferência." }),
+      error => toast({ title: "Falha ao Copiar", description: `Não foi possível copiar o link: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" })
+    );
+  }, [query, toast]);
+
+  return { copyViewLink };
+}
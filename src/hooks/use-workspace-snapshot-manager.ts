@@ -0,0 +1,187 @@
+/**
+ * @fileOverview Custom hook para gerenciar os snapshots nomeados do espaço de trabalho.
+ * Salva o estado atual (filtros, modo de cor, camadas, câmera, seleção e anotações) com um nome no
+ * `WorkspaceSnapshotStore` (IndexedDB) quando houver um disponível, exporta e importa snapshots em arquivos JSON
+ * e restaura um snapshot de uma só vez: o snapshot é validado por completo antes que qualquer estado seja alterado.
+ * Cada snapshot pertence ao terminal em que foi salvo: apenas os do terminal aberto são listados, e um arquivo
+ * importado de outro terminal é adicionado aos salvos dele sem ser restaurado.
+ */
+"use client";
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  createWorkspaceSnapshot,
+  parseWorkspaceSnapshot,
+  serializeWorkspaceSnapshot,
+  type WorkspaceSnapshot,
+  type WorkspaceState,
+} from '@/core/logic/workspace-snapshot';
+import { createDefaultWorkspaceSnapshotStore, type WorkspaceSnapshotStore } from '@/core/data/workspace-snapshot-store';
+import { getSiteById } from '@/core/data/sites';
+import { downloadTextFile } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Props para o hook useWorkspaceSnapshotManager.
+ * @interface UseWorkspaceSnapshotManagerProps
+ * @property {string} siteId - O terminal aberto.
+ * @property {WorkspaceSnapshotStore | null} [store] - Armazenamento dos snapshots.
+ *           Padrão: `createDefaultWorkspaceSnapshotStore()`; `null` mantém os snapshots apenas em memória.
+ * @property {() => WorkspaceState} captureState - Retorna o estado atual do espaço de trabalho.
+ * @property {(state: WorkspaceState) => void} onRestore - Aplica um estado salvo. Chamado apenas com estados já validados.
+ */
+interface UseWorkspaceSnapshotManagerProps {
+  siteId: string;
+  store?: WorkspaceSnapshotStore | null;
+  captureState: () => WorkspaceState;
+  onRestore: (state: WorkspaceState) => void;
+}
+
+/**
+ * Retorno do hook useWorkspaceSnapshotManager.
+ * @interface UseWorkspaceSnapshotManagerReturn
+ * @property {WorkspaceSnapshot[]} savedSnapshots - Os snapshots salvos no terminal aberto, do mais recente para o mais antigo.
+ * @property {boolean} isWorkspacePersisted - Indica se os snapshots são gravados no navegador (IndexedDB).
+ * @property {(name: string) => void} saveSnapshot - Salva o estado atual com o nome informado (substituindo outro de mesmo nome).
+ * @property {(name: string) => void} restoreSnapshot - Restaura o snapshot salvo com o nome informado.
+ * @property {(name: string) => void} deleteSnapshot - Exclui o snapshot salvo com o nome informado.
+ * @property {(name: string) => void} exportSnapshot - Baixa o estado atual, com o nome informado, em um arquivo JSON.
+ * @property {(file: File) => Promise<void>} importSnapshotFile - Lê um arquivo JSON exportado e o adiciona aos salvos do terminal dele;
+ *           o snapshot só é restaurado se for do terminal aberto (arquivos da versão 1, sem terminal, são atribuídos a ele).
+ */
+export interface UseWorkspaceSnapshotManagerReturn {
+  savedSnapshots: WorkspaceSnapshot[];
+  isWorkspacePersisted: boolean;
+  saveSnapshot: (name: string) => void;
+  restoreSnapshot: (name: string) => void;
+  deleteSnapshot: (name: string) => void;
+  exportSnapshot: (name: string) => void;
+  importSnapshotFile: (file: File) => Promise<void>;
+}
+
+/**
+ * Gera o nome do arquivo de exportação de um snapshot.
+ * @param {string} name O nome do snapshot.
+ * @returns {string} O nome do arquivo.
+ */
+function toSnapshotFileName(name: string): string {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `espaco-de-trabalho-${slug || 'snapshot'}.json`;
+}
+
+/**
+ * Hook customizado para gerenciar os snapshots do espaço de trabalho.
+ * @param {UseWorkspaceSnapshotManagerProps} props As props do hook.
+ * @returns {UseWorkspaceSnapshotManagerReturn} Os snapshots salvos e as funções para salvá-los, restaurá-los e transferi-los.
+ */
+export function useWorkspaceSnapshotManager({
+  siteId,
+  store,
+  captureState,
+  onRestore,
+}: UseWorkspaceSnapshotManagerProps): UseWorkspaceSnapshotManagerReturn {
+  // Snapshots de todos os terminais; apenas os do terminal aberto são expostos.
+  const [allSnapshots, setAllSnapshots] = useState<WorkspaceSnapshot[]>([]);
+  // O IndexedDB só existe no navegador; o armazenamento é escolhido após a montagem para não divergir da renderização do servidor.
+  const [activeStore, setActiveStore] = useState<WorkspaceSnapshotStore | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setActiveStore(store !== undefined ? store : createDefaultWorkspaceSnapshotStore());
+  }, [store]);
+
+  useEffect(() => {
+    if (!activeStore) return;
+    let isCancelled = false;
+    activeStore.listSnapshots()
+      .then(snapshots => { if (!isCancelled) setAllSnapshots(snapshots); })
+      .catch(error => {
+        console.error('[WorkspaceSnapshotManager] Falha ao carregar os snapshots salvos:', error);
+        toast({ title: "Snapshots Indisponíveis", description: `Não foi possível carregar os espaços de trabalho salvos: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+      });
+    return () => { isCancelled = true; };
+  }, [activeStore, toast]);
+
+  /**
+   * Adiciona um snapshot à lista e ao armazenamento, substituindo outro de mesmo nome no mesmo terminal.
+   * @param {WorkspaceSnapshot} snapshot O snapshot.
+   */
+  const storeSnapshot = useCallback((snapshot: WorkspaceSnapshot) => {
+    setAllSnapshots(prev => [...prev.filter(item => item.siteId !== snapshot.siteId || item.name !== snapshot.name), snapshot]);
+    activeStore?.saveSnapshot(snapshot).catch(error => {
+      console.error(`[WorkspaceSnapshotManager] Falha ao gravar o snapshot "${snapshot.name}":`, error);
+      toast({ title: "Falha ao Salvar", description: `O espaço de trabalho "${snapshot.name}" não foi gravado no navegador: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+    });
+  }, [activeStore, toast]);
+
+  const saveSnapshot = useCallback((name: string) => {
+    if (!name.trim()) return;
+    const snapshot = createWorkspaceSnapshot(name, siteId, captureState());
+    storeSnapshot(snapshot);
+    toast({ title: "Espaço de Trabalho Salvo", description: `"${snapshot.name}" foi salvo.` });
+  }, [siteId, captureState, storeSnapshot, toast]);
+
+  const restoreSnapshot = useCallback((name: string) => {
+    const snapshot = allSnapshots.find(item => item.siteId === siteId && item.name === name);
+    if (!snapshot) return;
+    onRestore(snapshot.state);
+    toast({ title: "Espaço de Trabalho Restaurado", description: `"${snapshot.name}" foi restaurado.` });
+  }, [allSnapshots, siteId, onRestore, toast]);
+
+  const deleteSnapshot = useCallback((name: string) => {
+    setAllSnapshots(prev => prev.filter(item => item.siteId !== siteId || item.name !== name));
+    activeStore?.deleteSnapshot(siteId, name).catch(error => {
+      console.error(`[WorkspaceSnapshotManager] Falha ao excluir o snapshot "${name}":`, error);
+      toast({ title: "Falha ao Excluir", description: `O espaço de trabalho "${name}" não foi excluído do navegador: ${error instanceof Error ? error.message : String(error)}`, variant: "destructive" });
+    });
+  }, [activeStore, siteId, toast]);
+
+  const exportSnapshot = useCallback((name: string) => {
+    if (!name.trim()) return;
+    const snapshot = createWorkspaceSnapshot(name, siteId, captureState());
+    downloadTextFile(serializeWorkspaceSnapshot(snapshot), toSnapshotFileName(snapshot.name), 'application/json;charset=utf-8');
+  }, [siteId, captureState]);
+
+  const importSnapshotFile = useCallback(async (file: File) => {
+    let snapshot: WorkspaceSnapshot;
+    try {
+      snapshot = parseWorkspaceSnapshot(JSON.parse(await file.text()), siteId);
+    } catch (error) {
+      const message = error instanceof SyntaxError ? 'o arquivo não é um JSON válido' : error instanceof Error ? error.message : String(error);
+      toast({ title: "Importação Falhou", description: `Nada foi alterado: ${message}.`, variant: "destructive" });
+      return;
+    }
+    storeSnapshot(snapshot);
+    if (snapshot.siteId !== siteId) {
+      const siteName = getSiteById(snapshot.siteId)?.name ?? snapshot.siteId;
+      toast({
+        title: "Espaço de Trabalho de Outro Terminal",
+        description: `"${snapshot.name}" é do terminal ${siteName} e não foi restaurado; ele foi adicionado aos salvos desse terminal.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    onRestore(snapshot.state);
+    toast({ title: "Espaço de Trabalho Importado", description: `"${snapshot.name}" foi restaurado e adicionado aos salvos.` });
+  }, [siteId, onRestore, storeSnapshot, toast]);
+
+  const savedSnapshots = useMemo(
+    () => allSnapshots.filter(item => item.siteId === siteId).sort((a, b) => b.savedAt.localeCompare(a.savedAt)),
+    [allSnapshots, siteId]
+  );
+
+  return {
+    savedSnapshots,
+    isWorkspacePersisted: activeStore !== null,
+    saveSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
+    exportSnapshot,
+    importSnapshotFile,
+  };
+}
@@ -5,14 +5,50 @@
  * descrevendo entidades como Equipamentos, Camadas, Estado da Câmera, Comandos e Anotações.
  *
  * Exporta:
+ * - `EquipmentConnectionRef`: Interface para uma referência de conexão entre equipamentos.
+ * - `AttributeValue`: Tipo do valor de um atributo customizado dos equipamentos.
+ * - `CraneKind`: Tipo construtivo dos guindastes.
+ * - `TankLevelUnit`: Unidade do nível dos tanques.
  * - `Equipment`: Interface para os dados de um equipamento.
  * - `Layer`: Interface para as camadas de visibilidade.
  * - `CameraState`: Interface para o estado da câmera (posição e lookAt).
+ * - `SiteBounds`: Interface para os limites horizontais da área de um terminal.
  * - `Command`: Interface para os comandos do sistema de Undo/Redo.
  * - `Annotation`: Interface para as anotações textuais dos equipamentos.
- * - `ColorMode`: Tipo para os modos de colorização disponíveis.
+ * - `ColorMode`, `AttributeColorMode`: Tipos para os modos de colorização disponíveis.
+ * - `AuditLogEntry`: Interface para os registros do histórico de alterações dos equipamentos.
  */
 
+/**
+ * Referência a um equipamento conectado, usada para modelar a tubulação.
+ * @interface EquipmentConnectionRef
+ * @property {string} tag - TAG do equipamento conectado.
+ * @property {string} [nozzle] - Bocal do equipamento conectado onde a ligação é feita (e.g., 'N1').
+ */
+export interface EquipmentConnectionRef {
+  tag: string;
+  nozzle?: string;
+}
+
+/**
+ * Valor de um atributo customizado. Datas são gravadas como texto no formato `AAAA-MM-DD`.
+ * Os atributos aceitos por cada tipo de equipamento são definidos em `equipment-attributes.ts`.
+ * @type AttributeValue
+ */
+export type AttributeValue = string | number | boolean;
+
+/**
+ * Tipo construtivo de um guindaste, usado para montar sua geometria: pórtico (`gantry`) ou coluna giratória (`jib`).
+ * @type CraneKind
+ */
+export type CraneKind = 'gantry' | 'jib';
+
+/**
+ * Unidade do nível de um tanque: porcentagem da altura do costado (`percent`, 0 a 100) ou altura do produto em metros (`meters`).
+ * @type TankLevelUnit
+ */
+export type TankLevelUnit = 'percent' | 'meters';
+
 /**
  * Representa um equipamento na cena 3D.
  * @interface Equipment
@@ -27,9 +63,20 @@
  * @property {{ x: number; y: number; z: number }} [rotation] - Rotação em radianos (opcional).
  * @property {{ width: number; height: number; depth: number }} [size] - Dimensões para equipamentos tipo caixa.
  * @property {number} [radius] - Raio para equipamentos cilíndricos ou esféricos.
- * @property {number} [height] - Altura para equipamentos cilíndricos (comprimento para tubos).
+ * @property {number} [height] - Altura para equipamentos cilíndricos (comprimento para tubos retos).
+ * @property {{ x: number; y: number; z: number }[]} [path] - Traçado de uma tubulação com curvas: pontos em coordenadas da cena.
+ *           Quando informado, substitui o tubo reto (`height` e `rotation` são ignorados).
+ * @property {number} [bendRadius] - Raio de curvatura das curvas do traçado. Padrão: 3 vezes o raio do tubo.
+ * @property {number} [level] - Nível do produto em tanques, na unidade de `levelUnit`.
+ * @property {TankLevelUnit} [levelUnit='percent'] - Unidade de `level`.
+ * @property {CraneKind} [craneKind] - Tipo construtivo dos guindastes. Se omitido, é deduzido das proporções de `size`.
  * @property {string} color - Cor base em formato hexadecimal (e.g., '#78909C').
  * @property {string} [details] - Detalhes textuais adicionais (opcional).
+ * @property {string} [modelUrl] - URL de um modelo glTF/GLB que substitui a geometria primitiva deste equipamento
+ *           (prevalece sobre o modelo do tipo definido no terminal).
+ * @property {EquipmentConnectionRef} [from] - Equipamento de onde o fluxo chega (e.g., o tanque na origem de um tubo).
+ * @property {EquipmentConnectionRef} [to] - Equipamento para onde o fluxo segue.
+ * @property {Record<string, AttributeValue>} [attributes] - Atributos customizados (e.g., capacidade, material, data de inspeção).
  */
 export interface Equipment {
   tag: string;
@@ -44,8 +91,17 @@ export interface Equipment {
   size?: { width: number; height: number; depth: number };
   radius?: number;
   height?: number;
+  path?: { x: number; y: number; z: number }[];
+  bendRadius?: number;
+  level?: number;
+  levelUnit?: TankLevelUnit;
+  craneKind?: CraneKind;
   color: string;
   details?: string;
+  modelUrl?: string;
+  from?: EquipmentConnectionRef;
+  to?: EquipmentConnectionRef;
+  attributes?: Record<string, AttributeValue>;
 }
 
 /**
@@ -75,6 +131,21 @@ export interface CameraState {
   lookAt: { x: number; y: number; z: number };
 }
 
+/**
+ * Limites horizontais (plano XZ) da área de um terminal, em metros no sistema de coordenadas da cena.
+ * @interface SiteBounds
+ * @property {number} minX - Menor coordenada X.
+ * @property {number} maxX - Maior coordenada X.
+ * @property {number} minZ - Menor coordenada Z.
+ * @property {number} maxZ - Maior coordenada Z.
+ */
+export interface SiteBounds {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
 /**
  * Representa um comando executável e reversível para o sistema de Undo/Redo.
  * @interface Command
@@ -111,8 +182,43 @@ export interface Annotation {
  * - 'Equipamento': Usa a cor base do equipamento.
  * - 'Estado Operacional': Colore com base no estado operacional.
  * - 'Produto': Colore com base no produto associado.
+ * - 'Nível': Colore os tanques pelo percentual de enchimento (demais equipamentos em cinza neutro).
+ * - 'Atributo:<chave>': Colore pelo valor de um atributo customizado (equipamentos sem o atributo em cinza neutro).
  * @type ColorMode
  */
-export type ColorMode = 'Produto' | 'Estado Operacional' | 'Equipamento';
+export type ColorMode = 'Produto' | 'Estado Operacional' | 'Equipamento' | 'Nível' | AttributeColorMode;
+
+/**
+ * Modo de colorização pelo valor de um atributo customizado (e.g., 'Atributo:capacidade').
+ * @type AttributeColorMode
+ */
+export type AttributeColorMode = `Atributo:${string}`;
 
-    
\ No newline at end of file
+/**
+ * Registro do histórico (auditoria) de uma alteração feita por um operador em um equipamento.
+ * @interface AuditLogEntry
+ * @property {string} id - Identificador único do registro.
+ * @property {string} siteId - O terminal do equipamento (TAGs só são únicas dentro de um terminal).
+ * @property {string} equipmentTag - A TAG do equipamento alterado.
+ * @property {string} [sistema] - O sistema do equipamento no momento da alteração.
+ * @property {string} [area] - A área do equipamento no momento da alteração.
+ * @property {'operationalState' | 'product'} field - O campo alterado.
+ * @property {string | null} oldValue - O valor anterior (null se o campo não estava definido).
+ * @property {string} newValue - O novo valor.
+ * @property {string} timestamp - Data e hora (ISO 8601) da alteração.
+ * @property {string} user - O nome declarado pelo operador que fez a alteração (não autenticado).
+ * @property {string} [reason] - A justificativa informada pelo operador, quando exigida pelo novo estado.
+ */
+export interface AuditLogEntry {
+  id: string;
+  siteId: string;
+  equipmentTag: string;
+  sistema?: string;
+  area?: string;
+  field: 'operationalState' | 'product';
+  oldValue: string | null;
+  newValue: string;
+  timestamp: string;
+  user: string;
+  reason?: string;
+}
@@ -4,3 +4,20 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Dispara, no navegador, o download de um conteúdo textual como arquivo.
+ * @param {string} content O conteúdo do arquivo.
+ * @param {string} fileName O nome sugerido para o arquivo.
+ * @param {string} mimeType O tipo MIME do conteúdo (e.g., 'text/csv;charset=utf-8').
+ */
+export function downloadTextFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}